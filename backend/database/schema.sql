@@ -1,10 +1,26 @@
 -- Fuel EU Maritime Database Schema
 -- Run this script to create all necessary tables
 
+-- Companies table (DoC holders; every fleet, bank and pool belongs to one company)
+CREATE TABLE IF NOT EXISTS companies (
+  id SERIAL PRIMARY KEY,
+  company_id VARCHAR(50) NOT NULL UNIQUE,
+  name VARCHAR(200) NOT NULL,
+  imo_company_number VARCHAR(7),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Default company owning data created before multi-tenancy was introduced
+INSERT INTO companies (company_id, name)
+VALUES ('default', 'Default Company')
+ON CONFLICT (company_id) DO NOTHING;
+
 -- Routes table
 CREATE TABLE IF NOT EXISTS routes (
   id SERIAL PRIMARY KEY,
-  route_id VARCHAR(50) NOT NULL UNIQUE,
+  company_id VARCHAR(50) NOT NULL,
+  route_id VARCHAR(50) NOT NULL,
   vessel_type VARCHAR(100) NOT NULL,
   fuel_type VARCHAR(50) NOT NULL,
   year INTEGER NOT NULL,
@@ -13,65 +29,384 @@ CREATE TABLE IF NOT EXISTS routes (
   distance DECIMAL(10, 2) NOT NULL,
   total_emissions DECIMAL(15, 2) NOT NULL,
   is_baseline BOOLEAN DEFAULT FALSE,
+  voyage_scope VARCHAR(20) NOT NULL DEFAULT 'intra_eu' CHECK (voyage_scope IN ('intra_eu', 'extra_eu', 'at_berth')),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(company_id, route_id),
+  FOREIGN KEY (company_id) REFERENCES companies(company_id)
+);
+
+-- Route Fuel Consumption table (per-fuel, per-consumer breakdown of a route)
+CREATE TABLE IF NOT EXISTS route_fuel_consumption (
+  id SERIAL PRIMARY KEY,
+  company_id VARCHAR(50) NOT NULL,
+  route_id VARCHAR(50) NOT NULL,
+  fuel_type VARCHAR(50) NOT NULL,
+  mass_tonnes DECIMAL(15, 3) NOT NULL CHECK (mass_tonnes >= 0),
+  consumer VARCHAR(30) NOT NULL DEFAULT 'main_engine',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Ships table (ship registry referenced by compliance, banking and pooling records)
+CREATE TABLE IF NOT EXISTS ships (
+  id SERIAL PRIMARY KEY,
+  company_id VARCHAR(50) NOT NULL,
+  ship_id VARCHAR(50) NOT NULL,
+  imo_number VARCHAR(7) NOT NULL UNIQUE,
+  name VARCHAR(200) NOT NULL,
+  gross_tonnage DECIMAL(12, 2) NOT NULL CHECK (gross_tonnage > 0),
+  ship_type VARCHAR(100) NOT NULL,
+  flag VARCHAR(100) NOT NULL,
+  ice_class VARCHAR(20),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(company_id, ship_id),
+  FOREIGN KEY (company_id) REFERENCES companies(company_id)
+);
+
+-- Ship Voyages table (routes sailed by a ship, counted towards a reporting year)
+CREATE TABLE IF NOT EXISTS ship_voyages (
+  id SERIAL PRIMARY KEY,
+  company_id VARCHAR(50) NOT NULL,
+  ship_id VARCHAR(50) NOT NULL,
+  route_id VARCHAR(50) NOT NULL,
+  year INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(company_id, ship_id, route_id, year),
+  FOREIGN KEY (company_id) REFERENCES companies(company_id)
 );
 
 -- Ship Compliance table (stores computed CB per ship)
 CREATE TABLE IF NOT EXISTS ship_compliance (
   id SERIAL PRIMARY KEY,
+  company_id VARCHAR(50) NOT NULL,
   ship_id VARCHAR(50) NOT NULL,
   year INTEGER NOT NULL,
-  cb_gco2eq DECIMAL(15, 2) NOT NULL,
+  cb_gco2eq DECIMAL(15, 2) NOT NULL, -- CB after banking, borrowing and pooling
+  raw_cb_gco2eq DECIMAL(15, 2) NOT NULL, -- CB computed from the voyages
+  ghg_intensity DECIMAL(10, 4),
+  total_energy_mj DECIMAL(18, 2),
+  energy_in_scope_mj DECIMAL(18, 2),
+  rfnbo_energy_mj DECIMAL(18, 2),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  UNIQUE(ship_id, year)
+  UNIQUE(company_id, ship_id, year),
+  FOREIGN KEY (company_id) REFERENCES companies(company_id)
+);
+
+-- Banking Ledger table (every banking and borrowing change per ship, never updated or deleted)
+CREATE TABLE IF NOT EXISTS banking_ledger (
+  id SERIAL PRIMARY KEY,
+  company_id VARCHAR(50) NOT NULL,
+  ship_id VARCHAR(50) NOT NULL,
+  entry_type VARCHAR(20) NOT NULL CHECK (entry_type IN ('bank', 'apply', 'borrow', 'repay', 'reversal', 'expiry')),
+  source_year INTEGER NOT NULL, -- Year the surplus comes from
+  target_year INTEGER, -- Year whose CB changed, NULL for expiries
+  amount_gco2eq DECIMAL(15, 2) NOT NULL,
+  banked_change_gco2eq DECIMAL(15, 2) NOT NULL DEFAULT 0, -- Change of the banked surplus of the source year
+  cb_before DECIMAL(15, 2),
+  cb_after DECIMAL(15, 2),
+  reverses_entry_id INTEGER UNIQUE,
+  actor VARCHAR(100) NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (company_id) REFERENCES companies(company_id),
+  FOREIGN KEY (reverses_entry_id) REFERENCES banking_ledger(id)
 );
 
--- Bank Entries table (stores banked surplus per ship)
-CREATE TABLE IF NOT EXISTS bank_entries (
+-- Borrow entries table (advance surplus borrowed per ship and year, Article 20)
+CREATE TABLE IF NOT EXISTS borrow_entries (
   id SERIAL PRIMARY KEY,
+  company_id VARCHAR(50) NOT NULL,
   ship_id VARCHAR(50) NOT NULL,
   year INTEGER NOT NULL,
   amount_gco2eq DECIMAL(15, 2) NOT NULL,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  repayment_gco2eq DECIMAL(15, 2) NOT NULL,
+  repaid_in_year INTEGER,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (company_id) REFERENCES companies(company_id)
 );
 
 -- Pools table (pool metadata)
 CREATE TABLE IF NOT EXISTS pools (
   id SERIAL PRIMARY KEY,
+  company_id VARCHAR(50) NOT NULL,
   name VARCHAR(200),
   year INTEGER NOT NULL,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'verified', 'cancelled')),
+  balances_applied BOOLEAN NOT NULL DEFAULT TRUE, -- Members' ship_compliance balances hold their CB after pooling
+  price_per_tonne DECIMAL(12, 2), -- EUR per tCO2e paid for surplus transferred between companies
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (company_id) REFERENCES companies(company_id)
+);
+
+-- Pool Status History table (every lifecycle transition with its actor)
+CREATE TABLE IF NOT EXISTS pool_status_history (
+  id SERIAL PRIMARY KEY,
+  pool_id INTEGER NOT NULL,
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  actor VARCHAR(100) NOT NULL,
+  reason TEXT,
+  changed_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (pool_id) REFERENCES pools(id) ON DELETE CASCADE
 );
 
 -- Pool Members table (each ship's CB before/after pooling)
 CREATE TABLE IF NOT EXISTS pool_members (
   pool_id INTEGER NOT NULL,
   ship_id VARCHAR(50) NOT NULL,
+  company_id VARCHAR(50) NOT NULL, -- Company the ship belongs to, may differ from the pool's company
   cb_before DECIMAL(15, 2) NOT NULL,
   cb_after DECIMAL(15, 2) NOT NULL,
-  PRIMARY KEY (pool_id, ship_id),
-  FOREIGN KEY (pool_id) REFERENCES pools(id) ON DELETE CASCADE
+  PRIMARY KEY (pool_id, company_id, ship_id),
+  FOREIGN KEY (pool_id) REFERENCES pools(id) ON DELETE CASCADE,
+  FOREIGN KEY (company_id) REFERENCES companies(company_id)
+);
+
+-- Pool Partners table (invitations of the other companies whose ships are pool members)
+CREATE TABLE IF NOT EXISTS pool_partners (
+  pool_id INTEGER NOT NULL,
+  company_id VARCHAR(50) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'accepted', 'declined')),
+  responded_at TIMESTAMP,
+  responded_by VARCHAR(100),
+  PRIMARY KEY (pool_id, company_id),
+  FOREIGN KEY (pool_id) REFERENCES pools(id) ON DELETE CASCADE,
+  FOREIGN KEY (company_id) REFERENCES companies(company_id)
 );
 
+-- Pool Settlements table (payments owed between companies for transferred surplus)
+CREATE TABLE IF NOT EXISTS pool_settlements (
+  id SERIAL PRIMARY KEY,
+  pool_id INTEGER NOT NULL,
+  payer_company_id VARCHAR(50) NOT NULL,
+  payee_company_id VARCHAR(50) NOT NULL,
+  transferred_gco2eq DECIMAL(15, 2) NOT NULL,
+  amount_eur DECIMAL(15, 2) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'settled', 'void')),
+  settled_at TIMESTAMP,
+  settled_by VARCHAR(100),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (pool_id) REFERENCES pools(id) ON DELETE CASCADE,
+  FOREIGN KEY (payer_company_id) REFERENCES companies(company_id),
+  FOREIGN KEY (payee_company_id) REFERENCES companies(company_id)
+);
+
+-- Upgrade existing databases created before these columns were added
+ALTER TABLE routes ADD COLUMN IF NOT EXISTS voyage_scope VARCHAR(20) NOT NULL DEFAULT 'intra_eu';
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'routes_voyage_scope_check') THEN
+    ALTER TABLE routes ADD CONSTRAINT routes_voyage_scope_check
+      CHECK (voyage_scope IN ('intra_eu', 'extra_eu', 'at_berth'));
+  END IF;
+END $$;
+ALTER TABLE ship_compliance ADD COLUMN IF NOT EXISTS ghg_intensity DECIMAL(10, 4);
+ALTER TABLE ship_compliance ADD COLUMN IF NOT EXISTS total_energy_mj DECIMAL(18, 2);
+ALTER TABLE ship_compliance ADD COLUMN IF NOT EXISTS energy_in_scope_mj DECIMAL(18, 2);
+ALTER TABLE ship_compliance ADD COLUMN IF NOT EXISTS rfnbo_energy_mj DECIMAL(18, 2);
+
+-- Existing data belongs to the default company
+ALTER TABLE routes ADD COLUMN IF NOT EXISTS company_id VARCHAR(50) NOT NULL DEFAULT 'default' REFERENCES companies(company_id);
+ALTER TABLE ships ADD COLUMN IF NOT EXISTS company_id VARCHAR(50) NOT NULL DEFAULT 'default' REFERENCES companies(company_id);
+ALTER TABLE ship_voyages ADD COLUMN IF NOT EXISTS company_id VARCHAR(50) NOT NULL DEFAULT 'default' REFERENCES companies(company_id);
+ALTER TABLE ship_compliance ADD COLUMN IF NOT EXISTS company_id VARCHAR(50) NOT NULL DEFAULT 'default' REFERENCES companies(company_id);
+ALTER TABLE borrow_entries ADD COLUMN IF NOT EXISTS company_id VARCHAR(50) NOT NULL DEFAULT 'default' REFERENCES companies(company_id);
+ALTER TABLE pools ADD COLUMN IF NOT EXISTS company_id VARCHAR(50) NOT NULL DEFAULT 'default' REFERENCES companies(company_id);
+-- Pools saved before the lifecycle existed were final, treat them as submitted
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'pools' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE pools ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'submitted'
+      CHECK (status IN ('draft', 'submitted', 'verified', 'cancelled'));
+    ALTER TABLE pools ALTER COLUMN status SET DEFAULT 'draft';
+  END IF;
+END $$;
+
+-- Pools saved before pool results were applied to ship balances must not be reversed on cancellation
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'pools' AND column_name = 'balances_applied'
+  ) THEN
+    ALTER TABLE pools ADD COLUMN balances_applied BOOLEAN NOT NULL DEFAULT FALSE;
+    ALTER TABLE pools ALTER COLUMN balances_applied SET DEFAULT TRUE;
+  END IF;
+END $$;
+ALTER TABLE pools ADD COLUMN IF NOT EXISTS price_per_tonne DECIMAL(12, 2);
+-- Members of existing pools belong to the pool's company
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'pool_members' AND column_name = 'company_id'
+  ) THEN
+    ALTER TABLE pool_members ADD COLUMN company_id VARCHAR(50) REFERENCES companies(company_id);
+    UPDATE pool_members pm SET company_id = p.company_id FROM pools p WHERE p.id = pm.pool_id;
+    ALTER TABLE pool_members ALTER COLUMN company_id SET NOT NULL;
+  END IF;
+END $$;
+-- Partners of pools formed before invitations existed already had their balances changed, record them as accepted
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pool_partners) THEN
+    INSERT INTO pool_partners (pool_id, company_id, status, responded_at, responded_by)
+    SELECT DISTINCT pm.pool_id, pm.company_id, 'accepted', CURRENT_TIMESTAMP, 'migration'
+    FROM pool_members pm
+    JOIN pools p ON p.id = pm.pool_id
+    WHERE pm.company_id <> p.company_id;
+  END IF;
+END $$;
+-- Banked amounts left in the former bank_entries table open the ledger
+DO $$
+BEGIN
+  IF to_regclass('bank_entries') IS NOT NULL THEN
+    ALTER TABLE bank_entries ADD COLUMN IF NOT EXISTS company_id VARCHAR(50) NOT NULL DEFAULT 'default';
+    INSERT INTO banking_ledger (company_id, ship_id, entry_type, source_year, target_year, amount_gco2eq, banked_change_gco2eq, actor, reason, created_at)
+    SELECT company_id, ship_id, 'bank', year, year, amount_gco2eq, amount_gco2eq, 'migration', 'Banked amount carried over from bank_entries',
+      COALESCE(created_at, CURRENT_TIMESTAMP)
+    FROM bank_entries;
+    DROP TABLE bank_entries;
+  END IF;
+END $$;
+-- Balances saved before the raw CB was stored: take the banking, borrowing and pooling changes back out
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'ship_compliance' AND column_name = 'raw_cb_gco2eq'
+  ) THEN
+    ALTER TABLE ship_compliance ADD COLUMN raw_cb_gco2eq DECIMAL(15, 2);
+    UPDATE ship_compliance sc SET raw_cb_gco2eq = sc.cb_gco2eq
+      - COALESCE((SELECT SUM(bl.cb_after - bl.cb_before) FROM banking_ledger bl
+          WHERE bl.ship_id = sc.ship_id AND bl.target_year = sc.year AND bl.entry_type IN ('bank', 'apply', 'reversal')), 0)
+      - COALESCE((SELECT SUM(be.amount_gco2eq) FROM borrow_entries be
+          WHERE be.ship_id = sc.ship_id AND be.year = sc.year), 0)
+      + COALESCE((SELECT SUM(be.repayment_gco2eq) FROM borrow_entries be
+          WHERE be.ship_id = sc.ship_id AND be.repaid_in_year = sc.year), 0)
+      - COALESCE((SELECT SUM(pm.cb_after - pm.cb_before) FROM pool_members pm JOIN pools p ON p.id = pm.pool_id
+          WHERE pm.ship_id = sc.ship_id AND p.year = sc.year AND p.status <> 'cancelled' AND p.balances_applied), 0);
+    ALTER TABLE ship_compliance ALTER COLUMN raw_cb_gco2eq SET NOT NULL;
+  END IF;
+END $$;
+-- The responsible company is now the company a ship belongs to
+ALTER TABLE ships DROP COLUMN IF EXISTS responsible_company;
+
+-- Route and ship IDs are unique per company rather than across all companies
+-- The foreign keys on them are only added here, once routes and ships of older databases have company_id
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'route_fuel_consumption' AND column_name = 'company_id'
+  ) THEN
+    ALTER TABLE route_fuel_consumption ADD COLUMN company_id VARCHAR(50);
+    UPDATE route_fuel_consumption c SET company_id = r.company_id FROM routes r WHERE r.route_id = c.route_id;
+    ALTER TABLE route_fuel_consumption ALTER COLUMN company_id SET NOT NULL;
+  END IF;
+
+  -- Foreign keys on the global IDs go first, they depend on the unique constraints
+  ALTER TABLE route_fuel_consumption DROP CONSTRAINT IF EXISTS route_fuel_consumption_route_id_fkey;
+  ALTER TABLE ship_voyages DROP CONSTRAINT IF EXISTS ship_voyages_ship_id_fkey;
+  ALTER TABLE ship_voyages DROP CONSTRAINT IF EXISTS ship_voyages_route_id_fkey;
+  ALTER TABLE ship_compliance DROP CONSTRAINT IF EXISTS ship_compliance_ship_id_fkey;
+  ALTER TABLE banking_ledger DROP CONSTRAINT IF EXISTS banking_ledger_ship_id_fkey;
+  ALTER TABLE borrow_entries DROP CONSTRAINT IF EXISTS borrow_entries_ship_id_fkey;
+  ALTER TABLE pool_members DROP CONSTRAINT IF EXISTS pool_members_ship_id_fkey;
+  ALTER TABLE ship_voyages DROP CONSTRAINT IF EXISTS ship_voyages_ship_id_route_id_year_key;
+  ALTER TABLE ship_compliance DROP CONSTRAINT IF EXISTS ship_compliance_ship_id_year_key;
+  ALTER TABLE routes DROP CONSTRAINT IF EXISTS routes_route_id_key;
+  ALTER TABLE ships DROP CONSTRAINT IF EXISTS ships_ship_id_key;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'routes_company_id_route_id_key') THEN
+    ALTER TABLE routes ADD CONSTRAINT routes_company_id_route_id_key UNIQUE (company_id, route_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ships_company_id_ship_id_key') THEN
+    ALTER TABLE ships ADD CONSTRAINT ships_company_id_ship_id_key UNIQUE (company_id, ship_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ship_voyages_company_id_ship_id_route_id_year_key') THEN
+    ALTER TABLE ship_voyages ADD CONSTRAINT ship_voyages_company_id_ship_id_route_id_year_key
+      UNIQUE (company_id, ship_id, route_id, year);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ship_compliance_company_id_ship_id_year_key') THEN
+    ALTER TABLE ship_compliance ADD CONSTRAINT ship_compliance_company_id_ship_id_year_key
+      UNIQUE (company_id, ship_id, year);
+  END IF;
+  -- A pool can hold ships of several companies that share a ship ID
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'pool_members_pkey' AND array_length(conkey, 1) = 2
+  ) THEN
+    ALTER TABLE pool_members DROP CONSTRAINT pool_members_pkey;
+    ALTER TABLE pool_members ADD CONSTRAINT pool_members_pkey PRIMARY KEY (pool_id, company_id, ship_id);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'route_fuel_consumption_company_id_route_id_fkey') THEN
+    ALTER TABLE route_fuel_consumption ADD CONSTRAINT route_fuel_consumption_company_id_route_id_fkey
+      FOREIGN KEY (company_id, route_id) REFERENCES routes(company_id, route_id) ON DELETE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ship_voyages_company_id_route_id_fkey') THEN
+    ALTER TABLE ship_voyages ADD CONSTRAINT ship_voyages_company_id_route_id_fkey
+      FOREIGN KEY (company_id, route_id) REFERENCES routes(company_id, route_id) ON DELETE CASCADE;
+  END IF;
+END $$;
+
+-- Reference the ship registry from tables created before it existed
+-- NOT VALID keeps existing rows whose ships are not registered yet
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ship_voyages_company_id_ship_id_fkey') THEN
+    ALTER TABLE ship_voyages ADD CONSTRAINT ship_voyages_company_id_ship_id_fkey
+      FOREIGN KEY (company_id, ship_id) REFERENCES ships(company_id, ship_id) NOT VALID;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'ship_compliance_company_id_ship_id_fkey') THEN
+    ALTER TABLE ship_compliance ADD CONSTRAINT ship_compliance_company_id_ship_id_fkey
+      FOREIGN KEY (company_id, ship_id) REFERENCES ships(company_id, ship_id) NOT VALID;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'banking_ledger_company_id_ship_id_fkey') THEN
+    ALTER TABLE banking_ledger ADD CONSTRAINT banking_ledger_company_id_ship_id_fkey
+      FOREIGN KEY (company_id, ship_id) REFERENCES ships(company_id, ship_id) NOT VALID;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'borrow_entries_company_id_ship_id_fkey') THEN
+    ALTER TABLE borrow_entries ADD CONSTRAINT borrow_entries_company_id_ship_id_fkey
+      FOREIGN KEY (company_id, ship_id) REFERENCES ships(company_id, ship_id) NOT VALID;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'pool_members_company_id_ship_id_fkey') THEN
+    ALTER TABLE pool_members ADD CONSTRAINT pool_members_company_id_ship_id_fkey
+      FOREIGN KEY (company_id, ship_id) REFERENCES ships(company_id, ship_id) NOT VALID;
+  END IF;
+END $$;
+
 -- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_routes_company_id ON routes(company_id);
 CREATE INDEX IF NOT EXISTS idx_routes_year ON routes(year);
 CREATE INDEX IF NOT EXISTS idx_routes_route_id ON routes(route_id);
 CREATE INDEX IF NOT EXISTS idx_routes_is_baseline ON routes(is_baseline);
+CREATE INDEX IF NOT EXISTS idx_route_fuel_consumption_route_id ON route_fuel_consumption(company_id, route_id);
+CREATE INDEX IF NOT EXISTS idx_ships_company_id ON ships(company_id);
+CREATE INDEX IF NOT EXISTS idx_ship_voyages_ship_year ON ship_voyages(ship_id, year);
 CREATE INDEX IF NOT EXISTS idx_ship_compliance_ship_year ON ship_compliance(ship_id, year);
 CREATE INDEX IF NOT EXISTS idx_ship_compliance_year ON ship_compliance(year);
-CREATE INDEX IF NOT EXISTS idx_bank_entries_ship_year ON bank_entries(ship_id, year);
-CREATE INDEX IF NOT EXISTS idx_bank_entries_year ON bank_entries(year);
+CREATE INDEX IF NOT EXISTS idx_ship_compliance_company_year ON ship_compliance(company_id, year);
+CREATE INDEX IF NOT EXISTS idx_ship_compliance_ship_id ON ship_compliance(ship_id);
+CREATE INDEX IF NOT EXISTS idx_banking_ledger_ship ON banking_ledger(company_id, ship_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_banking_ledger_ship_source_year ON banking_ledger(ship_id, source_year);
+CREATE INDEX IF NOT EXISTS idx_borrow_entries_ship_year ON borrow_entries(ship_id, year);
 CREATE INDEX IF NOT EXISTS idx_pools_year ON pools(year);
+CREATE INDEX IF NOT EXISTS idx_pools_company_year ON pools(company_id, year);
 CREATE INDEX IF NOT EXISTS idx_pool_members_pool_id ON pool_members(pool_id);
+CREATE INDEX IF NOT EXISTS idx_pool_members_company_id ON pool_members(company_id);
+CREATE INDEX IF NOT EXISTS idx_pool_partners_company_id ON pool_partners(company_id);
+CREATE INDEX IF NOT EXISTS idx_pool_status_history_pool_id ON pool_status_history(pool_id);
+CREATE INDEX IF NOT EXISTS idx_pool_settlements_pool_id ON pool_settlements(pool_id);
+CREATE INDEX IF NOT EXISTS idx_pool_settlements_payer ON pool_settlements(payer_company_id);
+CREATE INDEX IF NOT EXISTS idx_pool_settlements_payee ON pool_settlements(payee_company_id);
 
 -- Seed initial route data (R001-R005)
-INSERT INTO routes (route_id, vessel_type, fuel_type, year, ghg_intensity, fuel_consumption, distance, total_emissions, is_baseline)
+INSERT INTO routes (company_id, route_id, vessel_type, fuel_type, year, ghg_intensity, fuel_consumption, distance, total_emissions, is_baseline, voyage_scope)
 VALUES 
-  ('R001', 'Container Ship', 'HFO', 2024, 91.5, 5000000, 1200, 457500000, false),
-  ('R002', 'Tanker', 'VLSFO', 2024, 88.2, 6000000, 1500, 529200000, false),
-  ('R003', 'Bulk Carrier', 'MGO', 2024, 85.3, 4500000, 1000, 383850000, false),
-  ('R004', 'Container Ship', 'LNG', 2024, 78.5, 5500000, 1300, 431750000, false),
-  ('R005', 'Tanker', 'HFO', 2024, 92.8, 7000000, 1800, 649600000, false)
-ON CONFLICT (route_id) DO NOTHING;
+  ('default', 'R001', 'Container Ship', 'HFO', 2024, 91.5, 5000000, 1200, 457500000, false, 'intra_eu'),
+  ('default', 'R002', 'Tanker', 'VLSFO', 2024, 88.2, 6000000, 1500, 529200000, false, 'extra_eu'),
+  ('default', 'R003', 'Bulk Carrier', 'MGO', 2024, 85.3, 4500000, 1000, 383850000, false, 'intra_eu'),
+  ('default', 'R004', 'Container Ship', 'LNG', 2024, 78.5, 5500000, 1300, 431750000, false, 'extra_eu'),
+  ('default', 'R005', 'Tanker', 'HFO', 2024, 92.8, 7000000, 1800, 649600000, false, 'intra_eu')
+ON CONFLICT (company_id, route_id) DO NOTHING;
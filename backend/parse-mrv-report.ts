@@ -0,0 +1,62 @@
+/**
+ * Parse a THETIS-MRV export and print the routes it maps to
+ * Runs offline against a local file: nothing is saved and no database is needed
+ *
+ * Usage: npm run mrv:parse -- samples/thetis-mrv-2025.csv
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseMrvReport, toMrvRoutes } from './src/core/domain/MrvReport';
+
+function parseFile() {
+  const file = process.argv[2];
+  if (!file) {
+    console.error('Usage: npm run mrv:parse -- <THETIS-MRV export.csv>');
+    process.exit(1);
+  }
+
+  const filePath = path.resolve(process.cwd(), file);
+  if (!fs.existsSync(filePath)) {
+    console.error('❌ File not found:', filePath);
+    process.exit(1);
+  }
+
+  console.log('========================================');
+  console.log('Parsing THETIS-MRV export');
+  console.log('========================================');
+  console.log('📄', filePath);
+  console.log('');
+
+  let result;
+  try {
+    result = parseMrvReport(fs.readFileSync(filePath, 'utf8'));
+  } catch (error: any) {
+    console.error('❌ Could not read the export:', error.message);
+    process.exit(1);
+  }
+
+  for (const report of result.reports) {
+    console.log(`✅ Line ${report.line}: IMO ${report.imoNumber} ${report.name} (${report.year})`);
+    console.log(
+      `   ${report.distance} n miles, ${report.timeAtSea} h at sea, ${report.co2Emissions} t CO₂, fuels: ` +
+      report.fuelConsumptions.map(entry => `${entry.fuelType} ${entry.mass} t`).join(', ')
+    );
+
+    for (const route of toMrvRoutes(report)) {
+      console.log(
+        `   → ${route.routeId} [${route.voyageScope}] ${route.ghgIntensity.toFixed(2)} gCO₂e/MJ, ` +
+        `${Math.round(route.fuelConsumption)} MJ, ${route.distance} n miles`
+      );
+    }
+  }
+
+  for (const row of result.rejected) {
+    console.log(`❌ Line ${row.line}: ${row.reasons.join('; ')}`);
+  }
+
+  console.log('');
+  console.log(`${result.reports.length} reports read, ${result.rejected.length} rejected`);
+}
+
+parseFile();
@@ -14,8 +14,31 @@ const pool = new Pool({
   password: process.env.DB_PASSWORD || 'password',
 });
 
-// Target GHG intensity for compliance (gCO₂e/MJ)
-const COMPLIANCE_TARGET = 89.3368;
+// Demo data belongs to the default company created by database/schema.sql
+const COMPANY_ID = 'default';
+
+// Reference GHG intensity (gCO₂e/MJ) and reduction steps per reporting period
+// Mirrors src/core/domain/GhgIntensityTarget.ts
+const REFERENCE_GHG_INTENSITY = 91.16;
+const REDUCTION_STEPS = [
+  { fromYear: 2025, reduction: 0.02 },
+  { fromYear: 2030, reduction: 0.06 },
+  { fromYear: 2035, reduction: 0.145 },
+  { fromYear: 2040, reduction: 0.31 },
+  { fromYear: 2045, reduction: 0.62 },
+  { fromYear: 2050, reduction: 0.8 },
+];
+
+// Target GHG intensity for compliance in a given year (gCO₂e/MJ)
+function getTargetIntensity(year) {
+  let reduction = REDUCTION_STEPS[0].reduction;
+  for (const step of REDUCTION_STEPS) {
+    if (year >= step.fromYear) {
+      reduction = step.reduction;
+    }
+  }
+  return REFERENCE_GHG_INTENSITY * (1 - reduction);
+}
 
 // Sample route data for generating realistic CB values
 const routeData = [
@@ -26,20 +49,45 @@ const routeData = [
   { routeId: 'R005', ghgIntensity: 92.8, fuelConsumption: 7000000 },
 ];
 
-// Generate random ship IDs
+// Generate ship IDs for the ship registry
 function generateShipId(index) {
-  const prefixes = ['SHIP', 'VESSEL', 'MV', 'MS', 'SS'];
-  const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-  const number = String(index + 1).padStart(4, '0');
-  return `${prefix}-${number}`;
+  return `SHIP-${String(index + 1).padStart(4, '0')}`;
 }
 
-// Generate realistic CB value based on route data
-function generateCB(route) {
+// Generate a valid IMO number (6 digits + check digit)
+// Mirrors isValidImoNumber in src/core/domain/Ship.ts
+function generateImoNumber(index) {
+  const digits = String(900000 + index);
+  const checksum = digits
+    .split('')
+    .reduce((sum, digit, i) => sum + parseInt(digit) * (7 - i), 0);
+  return `${digits}${checksum % 10}`;
+}
+
+// Generate ship particulars for the ship registry
+function generateShip(index) {
+  const shipTypes = ['Container Ship', 'Tanker', 'Bulk Carrier', 'Ro-Ro', 'Cruise Ship', 'LNG Carrier'];
+  const flags = ['MT', 'LR', 'PA', 'NO', 'GR', 'CY', 'DK'];
+  const iceClasses = [null, null, null, '1C', '1B', '1A', '1A Super'];
+  const shipId = generateShipId(index);
+
+  return {
+    shipId,
+    imoNumber: generateImoNumber(index),
+    name: `Demo Vessel ${shipId.slice(5)}`,
+    grossTonnage: Math.round(5000 + Math.random() * 95000),
+    shipType: shipTypes[Math.floor(Math.random() * shipTypes.length)],
+    flag: flags[Math.floor(Math.random() * flags.length)],
+    iceClass: iceClasses[Math.floor(Math.random() * iceClasses.length)],
+  };
+}
+
+// Generate realistic CB value based on route data and reporting year
+function generateCB(route, year) {
   // Add some variation (±5% to make it realistic)
   const variation = 1 + (Math.random() - 0.5) * 0.1; // ±5%
   const adjustedIntensity = route.ghgIntensity * variation;
-  const cb = (COMPLIANCE_TARGET - adjustedIntensity) * route.fuelConsumption;
+  const cb = (getTargetIntensity(year) - adjustedIntensity) * route.fuelConsumption;
   return Math.round(cb * 100) / 100; // Round to 2 decimal places
 }
 
@@ -54,10 +102,14 @@ async function seedDemoData() {
     
     // Clear existing data (optional - comment out if you want to keep existing data)
     console.log('🧹 Clearing existing data...');
+    await client.query('DELETE FROM pool_settlements');
     await client.query('DELETE FROM pool_members');
     await client.query('DELETE FROM pools');
-    await client.query('DELETE FROM bank_entries');
+    await client.query('DELETE FROM banking_ledger');
+    await client.query('DELETE FROM borrow_entries');
     await client.query('DELETE FROM ship_compliance');
+    await client.query('DELETE FROM ship_voyages');
+    await client.query('DELETE FROM ships');
     // Don't delete routes - keep existing ones and add more
     console.log('✅ Cleared existing data');
     console.log('');
@@ -120,10 +172,10 @@ async function seedDemoData() {
       const isBaseline = i === 0 && year === 2024 && !existingRoutes.rows.some(r => r.route_id.startsWith('R') && existingRouteIds.size === 5);
       
       await client.query(
-        `INSERT INTO routes (route_id, vessel_type, fuel_type, year, ghg_intensity, fuel_consumption, distance, total_emissions, is_baseline)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        `INSERT INTO routes (company_id, route_id, vessel_type, fuel_type, year, ghg_intensity, fuel_consumption, distance, total_emissions, is_baseline)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
          ON CONFLICT (route_id) DO NOTHING`,
-        [routeId, vesselType, fuelType, year, ghgIntensity, fuelConsumption, distance, totalEmissions, isBaseline]
+        [COMPANY_ID, routeId, vesselType, fuelType, year, ghgIntensity, fuelConsumption, distance, totalEmissions, isBaseline]
       );
       
       routesCreated++;
@@ -140,10 +192,17 @@ async function seedDemoData() {
     const years = [2023, 2024, 2025];
     
     for (let i = 0; i < 100; i++) {
-      const shipId = generateShipId(i);
+      const ship = generateShip(i);
+      await client.query(
+        `INSERT INTO ships (company_id, ship_id, imo_number, name, gross_tonnage, ship_type, flag, ice_class)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [COMPANY_ID, ship.shipId, ship.imoNumber, ship.name, ship.grossTonnage, ship.shipType, ship.flag, ship.iceClass]
+      );
+
+      const shipId = ship.shipId;
       const year = years[Math.floor(Math.random() * years.length)];
       const route = routeData[Math.floor(Math.random() * routeData.length)];
-      const cb = generateCB(route);
+      const cb = generateCB(route, year);
       
       ships.push({ shipId, year, cb, routeId: route.routeId });
     }
@@ -152,20 +211,18 @@ async function seedDemoData() {
     let inserted = 0;
     for (const ship of ships) {
       await client.query(
-        `INSERT INTO ship_compliance (ship_id, year, cb_gco2eq)
-         VALUES ($1, $2, $3)
-         ON CONFLICT (ship_id, year) DO UPDATE SET cb_gco2eq = EXCLUDED.cb_gco2eq`,
-        [ship.shipId, ship.year, ship.cb]
+        `INSERT INTO ship_compliance (company_id, ship_id, year, cb_gco2eq, raw_cb_gco2eq)
+         VALUES ($1, $2, $3, $4, $4)
+         ON CONFLICT (ship_id, year) DO UPDATE SET cb_gco2eq = EXCLUDED.cb_gco2eq, raw_cb_gco2eq = EXCLUDED.raw_cb_gco2eq`,
+        [COMPANY_ID, ship.shipId, ship.year, ship.cb]
       );
-      
-      // Also populate adjusted_compliance_balances (adjusted CB = base CB for now)
-      // Adjusted CB will be updated when banking operations occur
+
+      // Record the route the CB was generated from as the ship's voyage
       await client.query(
-        `INSERT INTO adjusted_compliance_balances (ship_id, year, adjusted_cb)
-         VALUES ($1, $2, $3)
-         ON CONFLICT (ship_id, year) DO UPDATE SET 
-           adjusted_cb = EXCLUDED.adjusted_cb`,
-        [ship.shipId, ship.year, ship.cb]
+        `INSERT INTO ship_voyages (company_id, ship_id, route_id, year)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (ship_id, route_id, year) DO NOTHING`,
+        [COMPANY_ID, ship.shipId, ship.routeId, ship.year]
       );
       
       inserted++;
@@ -186,10 +243,16 @@ async function seedDemoData() {
       const bankAmount = Math.round(ship.cb * (0.3 + Math.random() * 0.4)); // Bank 30-70% of surplus
       if (bankAmount > 0) {
         await client.query(
-          `INSERT INTO bank_entries (ship_id, year, amount_gco2eq)
-           VALUES ($1, $2, $3)`,
-          [ship.shipId, ship.year, bankAmount]
+          `INSERT INTO banking_ledger (company_id, ship_id, entry_type, source_year, target_year, amount_gco2eq, banked_change_gco2eq, cb_before, cb_after, actor)
+           VALUES ($1, $2, 'bank', $3, $3, $4, $4, $5, $6, 'seed')`,
+          [COMPANY_ID, ship.shipId, ship.year, bankAmount, ship.cb, ship.cb - bankAmount]
+        );
+        await client.query(
+          `UPDATE ship_compliance SET cb_gco2eq = $1
+           WHERE ship_id = $2 AND year = $3`,
+          [ship.cb - bankAmount, ship.shipId, ship.year]
         );
+        ship.cb -= bankAmount;
         banked++;
       }
     }
@@ -223,24 +286,39 @@ async function seedDemoData() {
         if (poolSum >= 0) {
           // Create pool
           const poolResult = await client.query(
-            `INSERT INTO pools (year, created_at)
-             VALUES ($1, CURRENT_TIMESTAMP)
+            `INSERT INTO pools (company_id, year, created_at)
+             VALUES ($1, $2, CURRENT_TIMESTAMP)
              RETURNING id`,
-            [year]
+            [COMPANY_ID, year]
           );
           
           const poolId = poolResult.rows[0].id;
           const cbAfter = poolSum / selectedShips.length;
           
-          // Insert pool members
+          // Seeded pools are drafts, record their creation
+          await client.query(
+            `INSERT INTO pool_status_history (pool_id, from_status, to_status, actor)
+             VALUES ($1, NULL, 'draft', 'seed')`,
+            [poolId]
+          );
+          
+          // Insert pool members and apply the pool result to their balances
           for (const ship of selectedShips) {
             await client.query(
-              `INSERT INTO pool_members (pool_id, ship_id, cb_before, cb_after)
-               VALUES ($1, $2, $3, $4)`,
-              [poolId, ship.shipId, ship.cb, cbAfter]
+              `INSERT INTO pool_members (pool_id, ship_id, company_id, cb_before, cb_after)
+               VALUES ($1, $2, $3, $4, $5)`,
+              [poolId, ship.shipId, COMPANY_ID, ship.cb, cbAfter]
+            );
+            await client.query(
+              `UPDATE ship_compliance SET cb_gco2eq = cb_gco2eq + $1
+               WHERE ship_id = $2 AND year = $3`,
+              [cbAfter - ship.cb, ship.shipId, year]
             );
           }
           
+          // A ship can only be in one pool per year
+          shipsByYear[year] = availableShips.filter(s => !selectedShips.includes(s));
+          
           poolsCreated++;
         }
       }
@@ -292,8 +370,8 @@ async function seedDemoData() {
     console.log('');
     
     const bankSummary = await client.query(`
-      SELECT COUNT(*) as count, SUM(amount_gco2eq) as total
-      FROM bank_entries
+      SELECT COUNT(*) as count, SUM(banked_change_gco2eq) as total
+      FROM banking_ledger
     `);
     console.log(`Banked Surplus: ${bankSummary.rows[0].count} entries, Total: ${parseFloat(bankSummary.rows[0].total || 0).toLocaleString()} gCO₂e`);
     console.log('');
@@ -308,7 +386,7 @@ async function seedDemoData() {
     // Show available ships for pool creation
     const availableShips2024 = await client.query(`
       SELECT COUNT(*) as count 
-      FROM adjusted_compliance_balances 
+      FROM ship_compliance 
       WHERE year = 2024
     `);
     console.log(`Available ships for pool creation (2024): ${availableShips2024.rows[0].count} ships`);
@@ -325,7 +403,7 @@ async function seedDemoData() {
     console.log('  - Test all APIs with realistic data');
     console.log('');
     console.log('💡 Tip: When creating pools, select ships from the dropdown list.');
-    console.log('   Only ships with adjusted CB data for the selected year are available.');
+    console.log('   Only ships with CB data for the selected year are available.');
     
   } catch (error) {
     await client.query('ROLLBACK');
@@ -0,0 +1,16 @@
+/**
+ * Writes rows as CSV (RFC 4180)
+ * Cells holding a comma, quote or line break are quoted, with quotes doubled
+ *
+ * @param {Array<Array<string | number>>} rows - Rows of cells, the header first
+ * @returns {string} CSV text with CRLF line endings
+ */
+export function toCsv(rows: Array<Array<string | number>>): string {
+  return rows
+    .map(row => row.map(cell => escapeCell(String(cell))).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+function escapeCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
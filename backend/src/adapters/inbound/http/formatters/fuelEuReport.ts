@@ -0,0 +1,85 @@
+/**
+ * FuelEU report downloads
+ *
+ * Lays a FuelEU report out as CSV and as a print-ready PDF. Both follow the
+ * lines of toReportLines; the JSON download is the report itself.
+ *
+ * @module formatters/fuelEuReport
+ */
+
+import { FuelEuReport, toReportLines } from '../../../../core/domain/FuelEuReport';
+import { toCsv } from './csv';
+import { PdfRow, renderPdf } from './pdf';
+
+/**
+ * Report formats that can be downloaded
+ * @constant {string[]} REPORT_FORMATS
+ */
+export const REPORT_FORMATS = ['json', 'csv', 'pdf'] as const;
+
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+/**
+ * File name of a downloaded report, e.g. fueleu-report-SHIP-0001-2025.pdf
+ */
+export function reportFileName(report: FuelEuReport, format: ReportFormat): string {
+  return `fueleu-report-${report.shipId.replace(/[^A-Za-z0-9_-]/g, '_')}-${report.year}.${format}`;
+}
+
+/**
+ * The report as CSV: one line per item with its section, value and unit
+ * Numbers are written unformatted so that spreadsheets read them as numbers
+ */
+export function toReportCsv(report: FuelEuReport): string {
+  return toCsv([
+    ['section', 'item', 'value', 'unit'],
+    ...toReportLines(report).map(line => [line.section, line.item, line.value, line.unit]),
+  ]);
+}
+
+/**
+ * The report as an A4 PDF, one table per section
+ */
+export function toReportPdf(report: FuelEuReport): Buffer {
+  const generated = new Date(report.generatedAt).toISOString().slice(0, 16).replace('T', ' ');
+  const rows: PdfRow[] = [
+    { cells: [{ text: 'FuelEU Maritime Report', x: 0 }], size: 18, bold: true },
+    {
+      cells: [{ text: `${report.shipName || report.shipId}, reporting period ${report.year}`, x: 0 }],
+      size: 12,
+      gap: 4,
+    },
+    { cells: [{ text: `Generated ${generated} UTC`, x: 0 }], size: 8 },
+  ];
+
+  let section = '';
+  for (const line of toReportLines(report)) {
+    if (line.section !== section) {
+      section = line.section;
+      rows.push({ cells: [{ text: section, x: 0 }], size: 11, bold: true, gap: 12 });
+    }
+
+    rows.push({
+      cells: [
+        { text: line.item, x: 0 },
+        { text: formatValue(line.value, line.unit), x: 230 },
+        { text: line.unit, x: 380 },
+      ],
+      bold: line.item === 'Adjusted compliance balance' || line.item === 'Total penalty',
+    });
+  }
+
+  return renderPdf(rows, `FuelEU Maritime report, ${report.shipId}, ${report.year}`);
+}
+
+function formatValue(value: string | number, unit: string): string {
+  if (typeof value !== 'number') {
+    return value;
+  }
+  if (unit === '') {
+    // Years and counts are printed as they are
+    return String(value);
+  }
+  const decimals = unit === 'EUR' ? 2 : unit === 'gCO₂e/MJ' ? 4 : 0;
+  return value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
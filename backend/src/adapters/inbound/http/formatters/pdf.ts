@@ -0,0 +1,123 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Writes print-ready A4 text documents using the standard Helvetica fonts,
+ * which every PDF reader provides, so no fonts need to be embedded. Text is
+ * encoded as WinAnsi (Latin-1 plus the euro sign and typographic quotes and
+ * dashes); subscript two is written as 2 and other characters as ?.
+ *
+ * @module formatters/pdf
+ */
+
+const PAGE_WIDTH = 595.28; // A4, points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_SIZE = 8;
+
+/**
+ * Text placed at a distance from the left margin (points)
+ */
+export interface PdfCell {
+  text: string;
+  x: number;
+}
+
+/**
+ * One line of text; rows flow down the page and onto new pages
+ */
+export interface PdfRow {
+  cells: PdfCell[];
+  size?: number; // Font size in points, defaults to 10
+  bold?: boolean;
+  gap?: number; // Extra space above the row, points
+}
+
+const WIN_ANSI: Record<string, string> = {
+  '€': '\x80',
+  '‘': '\x91',
+  '’': '\x92',
+  '“': '\x93',
+  '”': '\x94',
+  '–': '\x96',
+  '—': '\x97',
+  '₂': '2',
+};
+
+/**
+ * Renders rows of text as a PDF document
+ *
+ * @param {PdfRow[]} rows - Rows in reading order
+ * @param {string} [footer] - Text printed at the foot of every page, next to the page number
+ * @returns {Buffer} The PDF file
+ */
+export function renderPdf(rows: PdfRow[], footer = ''): Buffer {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const row of rows) {
+    const size = row.size ?? 10;
+    const height = size * 1.4 + (row.gap ?? 0);
+
+    // Keep the bottom margin free for the footer
+    if (y - height < MARGIN + FOOTER_SIZE * 2 && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= height;
+
+    for (const cell of row.cells) {
+      if (cell.text !== '') {
+        pages[pages.length - 1].push(text(cell.text, MARGIN + cell.x, y, size, row.bold));
+      }
+    }
+  }
+
+  pages.forEach((content, index) => {
+    const pageNumber = `Page ${index + 1} of ${pages.length}`;
+    content.push(text(footer, MARGIN, MARGIN / 2, FOOTER_SIZE));
+    content.push(text(pageNumber, PAGE_WIDTH - MARGIN - pageNumber.length * FOOTER_SIZE * 0.5, MARGIN / 2, FOOTER_SIZE));
+  });
+
+  // Objects 1-4 are the catalog, the page tree and the two fonts; each page
+  // is followed by its content stream
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((content, index) => {
+    const stream = content.join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  // Every character is a single Latin-1 byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function text(value: string, x: number, y: number, size: number, bold = false): string {
+  return `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapeText(value)}) Tj ET`;
+}
+
+function escapeText(value: string): string {
+  return Array.from(value.replace(/[\r\n]+/g, ' '))
+    .map(char => WIN_ANSI[char] ?? (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
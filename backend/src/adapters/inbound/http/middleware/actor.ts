@@ -0,0 +1,35 @@
+/**
+ * Actor Module
+ * 
+ * Identifies who performs a request, for audit trails such as the pool
+ * status history. There is no user authentication; clients name the actor
+ * (a user name or e-mail address) in the X-Actor header.
+ * 
+ * @module middleware/actor
+ * @requires express
+ */
+
+import { Request } from 'express';
+
+/**
+ * Header carrying the name of the acting user
+ * @constant {string} ACTOR_HEADER
+ */
+export const ACTOR_HEADER = 'X-Actor';
+
+/**
+ * Actor recorded for changes made without an X-Actor header
+ * @constant {string} ANONYMOUS_ACTOR
+ */
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+/**
+ * Returns the actor named in the request
+ * 
+ * @param {Request} req - Express request
+ * @returns {string | undefined} Actor, or undefined if the header is absent or empty
+ */
+export function getActor(req: Request): string | undefined {
+  const header = req.header(ACTOR_HEADER);
+  return header && header.trim() !== '' ? header.trim() : undefined;
+}
@@ -0,0 +1,61 @@
+/**
+ * Tenant Middleware Module
+ * 
+ * Selects the company (tenant) a request operates on. The company is taken
+ * from the X-Company-Id header and falls back to the default company when
+ * the header is absent, so clients that predate multi-tenancy keep working.
+ * Requests naming an unknown company are rejected before reaching a route.
+ * 
+ * @module middleware/tenant
+ * @requires express
+ * @requires PostgresCompanyRepository
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { DEFAULT_COMPANY_ID } from '../../../../core/domain/Company';
+import { PostgresCompanyRepository } from '../../../outbound/postgres/PostgresCompanyRepository';
+
+/**
+ * Header carrying the selected company ID
+ * @constant {string} COMPANY_HEADER
+ */
+export const COMPANY_HEADER = 'X-Company-Id';
+
+const companyRepository = new PostgresCompanyRepository();
+
+/**
+ * Resolves the company of the request and stores it in res.locals.companyId
+ * 
+ * @throws {400} Unknown company
+ * @throws {500} Internal server error
+ */
+export async function tenantMiddleware(req: Request, res: Response, next: NextFunction) {
+  try {
+    const header = req.header(COMPANY_HEADER);
+    const companyId = header && header.trim() !== '' ? header.trim() : DEFAULT_COMPANY_ID;
+
+    const company = await companyRepository.findByCompanyId(companyId);
+    if (!company) {
+      return res.status(400).json({
+        error: `Unknown company ${companyId}`,
+        hint: `Set the ${COMPANY_HEADER} header to an existing company ID (see GET /api/companies)`
+      });
+    }
+
+    res.locals.companyId = company.companyId;
+    next();
+  } catch (error: any) {
+    console.error('Error resolving company:', error);
+    res.status(500).json({ error: error.message || 'Failed to resolve company' });
+  }
+}
+
+/**
+ * Returns the company selected by tenantMiddleware for the current request
+ * 
+ * @param {Response} res - Express response of the current request
+ * @returns {string} Company ID
+ */
+export function getCompanyId(res: Response): string {
+  return res.locals.companyId;
+}
@@ -4,43 +4,76 @@
  * This module defines all HTTP endpoints related to banking operations,
  * including banking surplus compliance balance and applying banked amounts
  * to cover deficits. Banking allows ships to save surplus compliance for
- * future use or apply it to offset current deficits.
+ * future use or apply it to offset current deficits. Every change is
+ * recorded in the banking ledger with the actor from the X-Actor header.
+ * 
+ * The routes only validate the request; BankingUseCase checks the banking
+ * rules and answers a refused operation with the reason in its BankingResult.
  * 
  * @module routes/bankingRoutes
  * @requires express
  * @requires BankingUseCase
  * @requires PostgresBankingRepository
+ * @requires PostgresShipComplianceRepository
+ * @requires PostgresBorrowingRepository
+ * @requires tenant
+ * @requires actor
  */
 
 import { Router, Request, Response } from 'express';
 import { BankingUseCase } from '../../../../core/application/BankingUseCase';
 import { PostgresBankingRepository } from '../../../outbound/postgres/PostgresBankingRepository';
-import { BankOperation, ApplyOperation } from '../../../../core/domain/Banking';
+import { PostgresShipComplianceRepository } from '../../../outbound/postgres/PostgresShipComplianceRepository';
+import { PostgresBorrowingRepository } from '../../../outbound/postgres/PostgresBorrowingRepository';
+import { BankingLedgerError, LedgerAudit } from '../../../../core/domain/BankingLedger';
+import { getCompanyId } from '../middleware/tenant';
+import { ANONYMOUS_ACTOR, getActor } from '../middleware/actor';
 
 const router = Router();
 
 // Initialize repository and use case instances
 // Using PostgreSQL repository for persistent data storage
-const bankingRepository = new PostgresBankingRepository();
-const bankingUseCase = new BankingUseCase(bankingRepository);
+const bankingUseCase = new BankingUseCase(
+  new PostgresBankingRepository(),
+  new PostgresShipComplianceRepository(),
+  new PostgresBorrowingRepository()
+);
+
+/**
+ * Reads who makes a banking change and why
+ * 
+ * @param {Request} req - Express request with an optional reason in the body
+ * @returns {LedgerAudit} Actor from the X-Actor header and the reason
+ */
+function getAudit(req: Request): LedgerAudit {
+  const reason = req.body?.reason;
+  return {
+    actor: getActor(req) || ANONYMOUS_ACTOR,
+    reason: typeof reason === 'string' && reason.trim() !== '' ? reason.trim() : undefined,
+  };
+}
 
 /**
  * POST /api/banking/bank
  * 
  * Banks (saves) surplus compliance balance for a specific ship and year.
  * This operation allows ships with positive compliance balance to save
- * their surplus for future use or to apply to deficits in other years.
+ * their surplus of the reporting year for use in the following years.
  * 
- * The banked amount is stored per-ship and per-year, allowing granular
- * tracking of banked compliance credits.
+ * Rules enforced:
+ * - The ship must have a positive CB for the year
+ * - The amount may not exceed the surplus
+ * - Banking must be recorded by 30 April of the following year
  * 
  * @route POST /api/banking/bank
  * @param {Object} body - Banking operation request
  * @param {string} body.shipId - The unique identifier of the ship
  * @param {number} body.year - The year for which to bank the surplus
  * @param {number} body.amount - The amount of compliance balance to bank (in gCO₂e)
- * @returns {Promise<Object>} Success response with banked amount details
- * @throws {400} Invalid or missing request parameters
+ * @param {string} [body.reason] - Reason recorded in the ledger
+ * @returns {Promise<BankingResult>} CB before and after banking, with the ledger entry
+ * @throws {400} Invalid request parameters or banking rule violated
+ * @throws {409} The CB changed while banking and no longer covers the amount
  * @throws {500} Internal server error
  * 
  * @example
@@ -55,11 +88,11 @@ const bankingUseCase = new BankingUseCase(bankingRepository);
  * 
  * // Response 200
  * {
+ *   "cbBefore": 25000,
+ *   "applied": 10000,
+ *   "cbAfter": 15000,
  *   "success": true,
- *   "shipId": "R001",
- *   "year": 2024,
- *   "bankedAmount": 10000,
- *   "message": "Successfully banked 10000 gCO₂e for ship R001"
+ *   "entries": [ { "entryType": "bank", "sourceYear": 2024, "targetYear": 2024, "amount": 10000, ... } ]
  * }
  */
 router.post('/banking/bank', async (req: Request, res: Response) => {
@@ -132,18 +165,24 @@ router.post('/banking/bank', async (req: Request, res: Response) => {
       });
     }
     
-    await bankingRepository.bankSurplusForShip(shipId.trim(), yearNum, amountNum);
-    const bankedAmount = await bankingRepository.getBankedAmountForShip(shipId.trim(), yearNum);
-    
-    res.json({
-      success: true,
+    const result = await bankingUseCase.bankSurplus(getCompanyId(res), {
       shipId: shipId.trim(),
       year: yearNum,
-      bankedAmount,
-      message: `Successfully banked ${amountNum} gCO₂e for ship ${shipId.trim()}`,
-    });
+      amount: amountNum,
+    }, getAudit(req));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.message, ...result });
+    }
+
+    res.json(result);
   } catch (error: any) {
     console.error('Error banking surplus:', error);
+
+    if (error instanceof BankingLedgerError) {
+      return res.status(409).json({ error: error.message });
+    }
+
     res.status(500).json({ 
       error: error.message || 'Failed to bank surplus',
       details: process.env.NODE_ENV === 'development' ? error.stack : undefined
@@ -154,22 +193,30 @@ router.post('/banking/bank', async (req: Request, res: Response) => {
 /**
  * POST /api/banking/apply
  * 
- * Applies (uses) previously banked surplus compliance balance to a ship's
- * current compliance balance. This operation reduces the banked amount and
+ * Applies (uses) surplus banked in earlier years to a ship's compliance
+ * balance for the target year. This operation reduces the banked amount and
  * increases the ship's adjusted compliance balance, effectively using saved
- * credits to offset current deficits.
+ * credits to offset the deficit of a later year.
  * 
- * The applied amount must not exceed the available banked amount for the
- * specified ship and year.
+ * Surplus banked from year N can be applied to year N+1 or later. The
+ * oldest vintages are drawn first, each recorded as its own apply entry.
+ * 
+ * Rules enforced:
+ * - The ship must have a negative CB in the target year
+ * - The amount may not exceed the deficit
+ * - The amount may not exceed the surplus banked from earlier years
+ * - Applying must be recorded by 30 April of the year after the target year
  * 
  * @route POST /api/banking/apply
  * @param {Object} body - Apply operation request
  * @param {string} body.shipId - The unique identifier of the ship
- * @param {number} body.year - The year for which to apply the banked surplus
+ * @param {number} body.year - The target year to apply the banked surplus to
  * @param {number} body.amount - The amount of banked surplus to apply (in gCO₂e)
- * @returns {Promise<Object>} Success response with applied amount details
- * @throws {400} Invalid or missing request parameters
- * @throws {500} Internal server error or insufficient banked amount
+ * @param {string} [body.reason] - Reason recorded in the ledger
+ * @returns {Promise<BankingResult>} CB of the target year before and after applying, with one ledger entry per vintage
+ * @throws {400} Invalid request parameters or banking rule violated
+ * @throws {409} The balances changed while applying and no longer allow it
+ * @throws {500} Internal server error
  * 
  * @example
  * // Request
@@ -177,17 +224,17 @@ router.post('/banking/bank', async (req: Request, res: Response) => {
  * Content-Type: application/json
  * {
  *   "shipId": "R001",
- *   "year": 2024,
+ *   "year": 2025,
  *   "amount": 5000
  * }
  * 
  * // Response 200
  * {
+ *   "cbBefore": -8000,
+ *   "applied": 5000,
+ *   "cbAfter": -3000,
  *   "success": true,
- *   "shipId": "R001",
- *   "year": 2024,
- *   "appliedAmount": 5000,
- *   "message": "Successfully applied 5000 gCO₂e from banked surplus to ship R001"
+ *   "entries": [ { "entryType": "apply", "sourceYear": 2024, "targetYear": 2025, "amount": 5000, ... } ]
  * }
  */
 router.post('/banking/apply', async (req: Request, res: Response) => {
@@ -260,17 +307,24 @@ router.post('/banking/apply', async (req: Request, res: Response) => {
       });
     }
     
-    await bankingRepository.applyBankedSurplusToShip(shipId.trim(), yearNum, amountNum);
-    
-    res.json({
-      success: true,
+    const result = await bankingUseCase.applyBankedSurplus(getCompanyId(res), {
       shipId: shipId.trim(),
       year: yearNum,
-      appliedAmount: amountNum,
-      message: `Successfully applied ${amountNum} gCO₂e from banked surplus to ship ${shipId.trim()}`,
-    });
+      amount: amountNum,
+    }, getAudit(req));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.message, ...result });
+    }
+
+    res.json(result);
   } catch (error: any) {
     console.error('Error applying banked surplus:', error);
+
+    if (error instanceof BankingLedgerError) {
+      return res.status(409).json({ error: error.message });
+    }
+
     res.status(500).json({ 
       error: error.message || 'Failed to apply banked surplus',
       details: process.env.NODE_ENV === 'development' ? error.stack : undefined
@@ -281,14 +335,14 @@ router.post('/banking/apply', async (req: Request, res: Response) => {
 /**
  * GET /api/banking/banked/:shipId/:year
  * 
- * Retrieves the total banked amount for a specific ship and year.
- * This endpoint returns the cumulative amount of compliance balance
- * that has been banked (saved) for the specified ship and year,
- * minus any amounts that have been applied.
+ * Retrieves the banked amounts of a specific ship for a year.
+ * bankedAmount is the compliance balance banked (saved) from the year,
+ * minus any amounts that have been applied or expired. availableAmount
+ * is the surplus banked from earlier years, which can be applied to the year.
  * 
  * @route GET /api/banking/banked/:shipId/:year
  * @param {string} shipId - The unique identifier of the ship
- * @param {string} year - The year for which to retrieve banked amount
+ * @param {string} year - The year for which to retrieve banked amounts
  * @returns {Promise<Object>} Banked amount information
  * @throws {400} Invalid year parameter
  * @throws {500} Internal server error
@@ -301,19 +355,322 @@ router.post('/banking/apply', async (req: Request, res: Response) => {
  * {
  *   "shipId": "R001",
  *   "year": 2024,
- *   "bankedAmount": 5000
+ *   "bankedAmount": 5000,
+ *   "availableAmount": 12000
  * }
  */
 router.get('/banking/banked/:shipId/:year', async (req: Request, res: Response) => {
   try {
     const { shipId, year } = req.params;
-    const bankedAmount = await bankingRepository.getBankedAmountForShip(shipId, parseInt(year));
-    res.json({ shipId, year: parseInt(year), bankedAmount });
+    const amounts = await bankingUseCase.getBankedAmounts(getCompanyId(res), shipId, parseInt(year));
+    res.json(amounts);
   } catch (error: any) {
     res.status(500).json({ error: error.message || 'Failed to get banked amount' });
   }
 });
 
+/**
+ * POST /api/banking/borrow
+ * 
+ * Borrows an advance compliance surplus for a ship in deficit (Article 20).
+ * The borrowed amount is added to the ship's CB for the year, and 1.1 × the
+ * amount is deducted automatically when the CB of the following year is
+ * computed.
+ * 
+ * Rules enforced:
+ * - The ship must have a negative CB for the year
+ * - The amount may not exceed the deficit
+ * - Total borrowing for the year may not exceed 2% of the following
+ *   year's target × energy in scope
+ * - Borrowing is not allowed in two consecutive years
+ * - Borrowing must be recorded by 30 April of the following year
+ * 
+ * @route POST /api/banking/borrow
+ * @param {Object} body - Borrow operation request
+ * @param {string} body.shipId - The unique identifier of the ship
+ * @param {number} body.year - The year for which to borrow
+ * @param {number} body.amount - The advance surplus to borrow (in gCO₂e)
+ * @param {string} [body.reason] - Reason recorded in the ledger
+ * @returns {Promise<BankingResult>} CB before and after borrowing
+ * @throws {400} Invalid request parameters or borrowing rule violated
+ * @throws {409} Borrowing rule violated by a borrowing recorded at the same time
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/banking/borrow
+ * Content-Type: application/json
+ * {
+ *   "shipId": "R001",
+ *   "year": 2025,
+ *   "amount": 5000000
+ * }
+ * 
+ * // Response 200
+ * {
+ *   "cbBefore": -10815000,
+ *   "applied": 5000000,
+ *   "cbAfter": -5815000,
+ *   "success": true
+ * }
+ */
+router.post('/banking/borrow', async (req: Request, res: Response) => {
+  try {
+    const { shipId, year, amount } = req.body || {};
+
+    if (!shipId || typeof shipId !== 'string' || shipId.trim() === '') {
+      return res.status(400).json({ 
+        error: 'shipId is required and must be a non-empty string',
+        received: shipId,
+        example: { shipId: 'R001', year: 2025, amount: 5000000 }
+      });
+    }
+
+    const yearNum = typeof year === 'string' ? parseInt(year) : year;
+    if (typeof yearNum !== 'number' || isNaN(yearNum) || yearNum <= 0) {
+      return res.status(400).json({ 
+        error: 'year must be a valid positive number',
+        received: year,
+        example: { shipId: 'R001', year: 2025, amount: 5000000 }
+      });
+    }
+
+    const amountNum = typeof amount === 'string' ? parseFloat(amount) : amount;
+    if (typeof amountNum !== 'number' || isNaN(amountNum) || amountNum <= 0) {
+      return res.status(400).json({ 
+        error: 'amount must be a valid positive number',
+        received: amount,
+        example: { shipId: 'R001', year: 2025, amount: 5000000 }
+      });
+    }
+
+    const result = await bankingUseCase.borrowAdvanceSurplus(getCompanyId(res), {
+      shipId: shipId.trim(),
+      year: yearNum,
+      amount: amountNum,
+    }, getAudit(req));
+
+    if (!result.success) {
+      return res.status(400).json({ error: result.message, ...result });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error borrowing advance surplus:', error);
+
+    if (error instanceof BankingLedgerError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({ 
+      error: error.message || 'Failed to borrow advance surplus',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * GET /api/banking/borrowed/:shipId
+ * 
+ * Retrieves all borrowings of a ship with their repayment amount and the
+ * year in which they were repaid (if already repaid).
+ * 
+ * @route GET /api/banking/borrowed/:shipId
+ * @param {string} shipId - The unique identifier of the ship
+ * @returns {Promise<BorrowEntry[]>} Borrowings ordered by year
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/banking/borrowed/R001
+ * 
+ * // Response 200
+ * [
+ *   {
+ *     "id": 1,
+ *     "shipId": "R001",
+ *     "year": 2025,
+ *     "amount": 5000000,
+ *     "repaymentAmount": 5500000,
+ *     "repaidInYear": 2026,
+ *     "createdAt": "2025-06-01T10:00:00.000Z"
+ *   }
+ * ]
+ */
+router.get('/banking/borrowed/:shipId', async (req: Request, res: Response) => {
+  try {
+    const borrowings = await bankingUseCase.getBorrowings(getCompanyId(res), req.params.shipId);
+    res.json(borrowings);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || 'Failed to get borrowings' });
+  }
+});
+
+/**
+ * GET /api/banking/history/:shipId
+ * 
+ * Retrieves the banking ledger of a ship: every bank, apply, borrow,
+ * repay, reversal and expiry entry, oldest first, with the CB of the
+ * changed year before and after the entry and the banked surplus over all
+ * years after it. Together the entries reconstruct every change banking
+ * and borrowing made to the ship's balances.
+ * 
+ * @route GET /api/banking/history/:shipId
+ * @param {string} shipId - The unique identifier of the ship
+ * @returns {Promise<BankingHistory>} Entries with the running banked balance
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/banking/history/R001
+ * 
+ * // Response 200
+ * {
+ *   "shipId": "R001",
+ *   "entries": [
+ *     {
+ *       "entryId": "7",
+ *       "shipId": "R001",
+ *       "entryType": "bank",
+ *       "sourceYear": 2024,
+ *       "targetYear": 2024,
+ *       "amount": 10000,
+ *       "bankedChange": 10000,
+ *       "cbBefore": 25000,
+ *       "cbAfter": 15000,
+ *       "actor": "j.smith",
+ *       "reason": "Year-end banking",
+ *       "createdAt": "2025-03-01T10:00:00.000Z",
+ *       "bankedBalance": 10000
+ *     }
+ *   ],
+ *   "bankedBalance": 10000,
+ *   "bankedByYear": { "2024": 10000 }
+ * }
+ */
+router.get('/banking/history/:shipId', async (req: Request, res: Response) => {
+  try {
+    const history = await bankingUseCase.getHistory(getCompanyId(res), req.params.shipId);
+    res.json(history);
+  } catch (error: any) {
+    console.error('Error fetching banking history:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to get banking history',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/banking/entries/:entryId/reverse
+ * 
+ * Undoes a bank or apply entry with a reversal entry; ledger entries are
+ * never changed or deleted. Reversing a bank entry returns the surplus to
+ * the CB and requires it to still be banked; reversing an apply entry
+ * returns the surplus to the bank. An entry can only be reversed once.
+ * 
+ * @route POST /api/banking/entries/:entryId/reverse
+ * @param {string} entryId - The ledger entry to reverse
+ * @param {string} [body.reason] - Reason recorded in the ledger
+ * @returns {Promise<LedgerEntry>} The reversal entry
+ * @throws {400} entryId is not a ledger entry number
+ * @throws {404} Entry not found
+ * @throws {409} Entry cannot be reversed
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/banking/entries/7/reverse
+ * X-Actor: j.smith
+ * { "reason": "Banked the wrong ship" }
+ */
+router.post('/banking/entries/:entryId/reverse', async (req: Request, res: Response) => {
+  try {
+    // Ledger entries are numbered (SERIAL), anything else cannot be looked up
+    if (!/^\d+$/.test(req.params.entryId) || Number(req.params.entryId) > 2147483647) {
+      return res.status(400).json({ error: 'entryId must be a ledger entry number' });
+    }
+
+    const entry = await bankingUseCase.reverseEntry(getCompanyId(res), req.params.entryId, getAudit(req));
+
+    if (!entry) {
+      return res.status(404).json({ error: `Ledger entry ${req.params.entryId} not found` });
+    }
+
+    res.json(entry);
+  } catch (error: any) {
+    console.error('Error reversing ledger entry:', error);
+
+    if (error instanceof BankingLedgerError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to reverse ledger entry',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/banking/expire
+ * 
+ * Writes off the surplus a ship still has banked from a year. The CB is
+ * not changed; the expiry entry records the amount written off.
+ * 
+ * @route POST /api/banking/expire
+ * @param {Object} body - Expiry request
+ * @param {string} body.shipId - The unique identifier of the ship
+ * @param {number} body.year - The year the surplus was banked from
+ * @param {string} [body.reason] - Reason recorded in the ledger
+ * @returns {Promise<LedgerEntry>} The expiry entry
+ * @throws {400} Invalid request parameters
+ * @throws {409} No surplus of the year is banked
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/banking/expire
+ * X-Actor: j.smith
+ * { "shipId": "R001", "year": 2024, "reason": "Ship sold" }
+ */
+router.post('/banking/expire', async (req: Request, res: Response) => {
+  try {
+    const { shipId, year } = req.body || {};
+
+    if (!shipId || typeof shipId !== 'string' || shipId.trim() === '') {
+      return res.status(400).json({ 
+        error: 'shipId is required and must be a non-empty string',
+        received: shipId,
+        example: { shipId: 'R001', year: 2024 }
+      });
+    }
+
+    const yearNum = typeof year === 'string' ? parseInt(year) : year;
+    if (typeof yearNum !== 'number' || isNaN(yearNum) || yearNum <= 0) {
+      return res.status(400).json({ 
+        error: 'year must be a valid positive number',
+        received: year,
+        example: { shipId: 'R001', year: 2024 }
+      });
+    }
+
+    const entry = await bankingUseCase.expireBankedSurplus(getCompanyId(res), shipId.trim(), yearNum, getAudit(req));
+    res.json(entry);
+  } catch (error: any) {
+    console.error('Error expiring banked surplus:', error);
+
+    if (error instanceof BankingLedgerError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to expire banked surplus',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
 /**
  * Export the router instance for use in the main server configuration
  * @exports router
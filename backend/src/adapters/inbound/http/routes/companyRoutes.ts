@@ -0,0 +1,137 @@
+/**
+ * Company Routes Module
+ * 
+ * This module defines the HTTP endpoints for managing companies (DoC
+ * holders). These endpoints are not tenant-scoped: they list and register
+ * the companies that other requests select with the X-Company-Id header.
+ * 
+ * @module routes/companyRoutes
+ * @requires express
+ * @requires CompanyUseCase
+ * @requires PostgresCompanyRepository
+ */
+
+import { Router, Request, Response } from 'express';
+import { CompanyUseCase } from '../../../../core/application/CompanyUseCase';
+import { PostgresCompanyRepository } from '../../../outbound/postgres/PostgresCompanyRepository';
+
+const router = Router();
+
+// Initialize repository and use case instances
+// Using PostgreSQL repository for persistent data storage
+const companyRepository = new PostgresCompanyRepository();
+const companyUseCase = new CompanyUseCase(companyRepository);
+
+/**
+ * GET /api/companies
+ * 
+ * Retrieves all companies.
+ * 
+ * @route GET /api/companies
+ * @returns {Promise<Company[]>} Array of companies ordered by company ID
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/companies
+ * 
+ * // Response 200
+ * [
+ *   {
+ *     "id": 1,
+ *     "companyId": "default",
+ *     "name": "Default Company",
+ *     "createdAt": "2025-01-10T09:00:00.000Z",
+ *     "updatedAt": "2025-01-10T09:00:00.000Z"
+ *   }
+ * ]
+ */
+router.get('/companies', async (req: Request, res: Response) => {
+  try {
+    const companies = await companyUseCase.getAllCompanies();
+    res.json(companies);
+  } catch (error: any) {
+    console.error('Error fetching companies:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to fetch companies',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * GET /api/companies/:companyId
+ * 
+ * Retrieves a single company.
+ * 
+ * @route GET /api/companies/:companyId
+ * @param {string} companyId - The unique identifier of the company
+ * @returns {Promise<Company>} The company
+ * @throws {404} Company not found
+ * @throws {500} Internal server error
+ */
+router.get('/companies/:companyId', async (req: Request, res: Response) => {
+  try {
+    const company = await companyUseCase.getCompany(req.params.companyId);
+
+    if (!company) {
+      return res.status(404).json({ error: `Company ${req.params.companyId} not found` });
+    }
+
+    res.json(company);
+  } catch (error: any) {
+    console.error('Error fetching company:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to fetch company',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/companies
+ * 
+ * Registers a new company.
+ * 
+ * @route POST /api/companies
+ * @param {Object} body - Company to register
+ * @param {string} body.companyId - Unique identifier (letters, digits, "-" and "_")
+ * @param {string} body.name - Company name
+ * @param {string} [body.imoCompanyNumber] - 7-digit IMO company number
+ * @returns {Promise<Company>} The registered company
+ * @throws {400} Invalid company or company already exists
+ * 
+ * @example
+ * // Request
+ * POST /api/companies
+ * Content-Type: application/json
+ * {
+ *   "companyId": "nordic",
+ *   "name": "Nordic Shipping AS",
+ *   "imoCompanyNumber": "5012345"
+ * }
+ */
+router.post('/companies', async (req: Request, res: Response) => {
+  try {
+    const { companyId, name, imoCompanyNumber } = req.body || {};
+
+    const company = await companyUseCase.registerCompany({
+      companyId: typeof companyId === 'string' ? companyId.trim() : companyId,
+      name: typeof name === 'string' ? name.trim() : name,
+      imoCompanyNumber: typeof imoCompanyNumber === 'string' ? imoCompanyNumber.trim() : imoCompanyNumber,
+    });
+    res.status(201).json(company);
+  } catch (error: any) {
+    console.error('Error registering company:', error);
+    res.status(400).json({
+      error: error.message || 'Failed to register company',
+      example: { companyId: 'nordic', name: 'Nordic Shipping AS', imoCompanyNumber: '5012345' }
+    });
+  }
+});
+
+/**
+ * Export the router instance for use in the main server configuration
+ * @exports router
+ */
+export default router;
@@ -9,11 +9,13 @@
  * @requires express
  * @requires ComplianceUseCase
  * @requires PostgresComplianceRepository
+ * @requires tenant
  */
 
 import { Router, Request, Response } from 'express';
 import { ComplianceUseCase } from '../../../../core/application/ComplianceUseCase';
 import { PostgresComplianceRepository } from '../../../outbound/postgres/PostgresComplianceRepository';
+import { getCompanyId } from '../middleware/tenant';
 
 const router = Router();
 
@@ -26,7 +28,7 @@ const complianceUseCase = new ComplianceUseCase(complianceRepository);
  * GET /api/compliance/cb
  * 
  * Retrieves the overall compliance balance for a given year.
- * This represents the sum of all ships' compliance balances for the specified year.
+ * This represents the sum of all ships' adjusted compliance balances for the specified year.
  * 
  * @route GET /api/compliance/cb
  * @param {string} query.year - The year for which to retrieve compliance balance
@@ -41,8 +43,7 @@ const complianceUseCase = new ComplianceUseCase(complianceRepository);
  * // Response 200
  * {
  *   "year": 2024,
- *   "totalCB": 1500000,
- *   "isCompliant": true
+ *   "cb": 1500000
  * }
  */
 router.get('/compliance/cb', async (req: Request, res: Response) => {
@@ -51,7 +52,7 @@ router.get('/compliance/cb', async (req: Request, res: Response) => {
     if (!year) {
       return res.status(400).json({ error: 'year query parameter is required' });
     }
-    const cb = await complianceUseCase.getComplianceBalance(year);
+    const cb = await complianceUseCase.getComplianceBalance(getCompanyId(res), year);
     res.json(cb);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch compliance balance' });
@@ -62,12 +63,15 @@ router.get('/compliance/cb', async (req: Request, res: Response) => {
  * GET /api/compliance/adjusted-cb
  * 
  * Retrieves the adjusted compliance balance per ship for a given year.
- * Adjusted CB is the compliance balance after banking operations have been applied.
+ * Adjusted CB is derived from the raw CB computed from the ship's voyages
+ * plus the changes made to it by banking (banked and applied surplus),
+ * borrowing (borrowed amount, minus the repayment of the previous year's
+ * borrowing) and pooling. Each component is returned with the adjusted CB.
  * This data is used for pooling operations, as pools operate on adjusted CB values.
  * 
  * @route GET /api/compliance/adjusted-cb
  * @param {string} query.year - The year for which to retrieve adjusted compliance balances
- * @returns {Promise<Array>} Array of adjusted compliance balances per ship
+ * @returns {Promise<AdjustedComplianceBalance[]>} Adjusted compliance balance and its components per ship
  * @throws {400} Missing or invalid year parameter
  * @throws {500} Internal server error
  * 
@@ -80,11 +84,19 @@ router.get('/compliance/cb', async (req: Request, res: Response) => {
  *   {
  *     "shipId": "R001",
  *     "year": 2024,
+ *     "rawCB": 80000,
+ *     "banking": -30000,
+ *     "borrowing": 0,
+ *     "pooling": 0,
  *     "adjustedCB": 50000
  *   },
  *   {
  *     "shipId": "R002",
  *     "year": 2024,
+ *     "rawCB": -45000,
+ *     "banking": 0,
+ *     "borrowing": 5000,
+ *     "pooling": 10000,
  *     "adjustedCB": -30000
  *   }
  * ]
@@ -95,7 +107,7 @@ router.get('/compliance/adjusted-cb', async (req: Request, res: Response) => {
     if (!year) {
       return res.status(400).json({ error: 'year query parameter is required' });
     }
-    const adjustedCBs = await complianceUseCase.getAdjustedComplianceBalance(year);
+    const adjustedCBs = await complianceUseCase.getAdjustedComplianceBalance(getCompanyId(res), year);
     res.json(adjustedCBs);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch adjusted compliance balance' });
@@ -0,0 +1,271 @@
+/**
+ * Import Routes Module
+ *
+ * This module defines the HTTP endpoints for importing voyage data exported
+ * from spreadsheets: routes with their fuel consumption and the ships that
+ * sailed them, and EU MRV annual emission reports exported from THETIS-MRV.
+ *
+ * @module routes/importRoutes
+ * @requires express
+ * @requires VoyageImportUseCase
+ * @requires MrvImportUseCase
+ * @requires ShipComplianceUseCase
+ * @requires PostgresRouteRepository
+ * @requires PostgresShipRepository
+ * @requires PostgresVoyageImportRepository
+ * @requires tenant
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { VoyageImportUseCase } from '../../../../core/application/VoyageImportUseCase';
+import { MrvImportUseCase } from '../../../../core/application/MrvImportUseCase';
+import { ShipComplianceUseCase } from '../../../../core/application/ShipComplianceUseCase';
+import { DEFAULT_COLUMN_MAPPING } from '../../../../core/domain/VoyageImport';
+import { PostgresRouteRepository } from '../../../outbound/postgres/PostgresRouteRepository';
+import { PostgresShipRepository } from '../../../outbound/postgres/PostgresShipRepository';
+import { PostgresVoyageImportRepository } from '../../../outbound/postgres/PostgresVoyageImportRepository';
+import { PostgresShipComplianceRepository } from '../../../outbound/postgres/PostgresShipComplianceRepository';
+import { PostgresBorrowingRepository } from '../../../outbound/postgres/PostgresBorrowingRepository';
+import { PostgresVoyageRepository } from '../../../outbound/postgres/PostgresVoyageRepository';
+import { PostgresComplianceRepository } from '../../../outbound/postgres/PostgresComplianceRepository';
+import { getCompanyId } from '../middleware/tenant';
+
+const router = Router();
+
+// Initialize repository and use case instances
+// Using PostgreSQL repository for persistent data storage
+const routeRepository = new PostgresRouteRepository();
+const shipComplianceUseCase = new ShipComplianceUseCase(
+  new PostgresShipComplianceRepository(),
+  new PostgresBorrowingRepository(),
+  new PostgresVoyageRepository(),
+  routeRepository,
+  new PostgresComplianceRepository()
+);
+const shipRepository = new PostgresShipRepository();
+const voyageImportRepository = new PostgresVoyageImportRepository();
+const voyageImportUseCase = new VoyageImportUseCase(
+  routeRepository,
+  shipRepository,
+  voyageImportRepository,
+  shipComplianceUseCase
+);
+const mrvImportUseCase = new MrvImportUseCase(
+  routeRepository,
+  shipRepository,
+  voyageImportRepository,
+  shipComplianceUseCase
+);
+
+// CSV files can be sent as the raw request body
+const csvBody = express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' });
+
+/**
+ * POST /api/imports/voyages
+ *
+ * Imports routes, and the voyages sailed on them, from a CSV export. The
+ * file can be sent as the raw body (Content-Type: text/csv) or inside a JSON
+ * body together with a column mapping.
+ *
+ * Each row becomes a new route and is checked against the route rules
+ * (non-negative intensity, positive fuel consumption and distance, year from
+ * 2020). Rows reusing the route_id of an earlier row or of a saved route
+ * are rejected, whatever their year. A row with a ship_id also assigns the
+ * route to that registered ship as a voyage of the route's year, and the
+ * ship's CB is recomputed.
+ *
+ * The accepted rows are saved in one transaction, and only when no row is
+ * rejected. With dryRun the report is returned without saving anything.
+ *
+ * Columns are found by header, ignoring case, spaces and underscores:
+ * route_id, ship_id, vessel_type, fuel_type, year, ghg_intensity,
+ * fuel_consumption (MJ), distance (nautical miles), total_emissions and
+ * voyage_scope. ship_id, total_emissions and voyage_scope are optional.
+ * Semicolon-separated files may use decimal commas.
+ *
+ * @route POST /api/imports/voyages
+ * @param {string} [query.dryRun] - "true" to validate without saving
+ * @param {Object|string} body - CSV text, or a JSON import request
+ * @param {string} body.csv - CSV text with a header row
+ * @param {Object} [body.mapping] - CSV column header per field, e.g. { "routeId": "Voyage No" }
+ * @param {string} [body.delimiter] - Field delimiter, detected from the header when omitted
+ * @param {boolean} [body.dryRun] - Validate without saving
+ * @returns {Promise<VoyageImportReport>} Accepted and rejected rows with reasons, and whether they were saved
+ * @throws {400} Unreadable file, missing column, rejected rows or the import could not be saved
+ *
+ * @example
+ * // Request
+ * POST /api/imports/voyages?dryRun=true
+ * Content-Type: text/csv
+ *
+ * route_id,ship_id,vessel_type,fuel_type,year,ghg_intensity,fuel_consumption,distance,voyage_scope
+ * R101,SHIP-0001,Container Ship,HFO,2025,91.2,5200000,1400,intra_eu
+ * R102,SHIP-0001,Container Ship,LNG,2025,-3,4100000,1100,extra_eu
+ *
+ * // Response 200
+ * {
+ *   "dryRun": true,
+ *   "committed": false,
+ *   "totalRows": 2,
+ *   "accepted": [
+ *     { "line": 2, "route": { "routeId": "R101", ..., "totalEmissions": 474240000 }, "shipId": "SHIP-0001" }
+ *   ],
+ *   "rejected": [
+ *     {
+ *       "line": 3,
+ *       "values": { "route_id": "R102", "ghg_intensity": "-3", ... },
+ *       "reasons": ["ghgIntensity must be a non-negative number (gCO₂e/MJ)"]
+ *     }
+ *   ],
+ *   "recomputed": []
+ * }
+ */
+router.post(
+  '/imports/voyages',
+  csvBody,
+  async (req: Request, res: Response) => {
+    try {
+      const body = typeof req.body === 'string' ? { csv: req.body } : req.body || {};
+      const { csv, mapping, delimiter, dryRun } = body;
+
+      if (typeof csv !== 'string' || csv.trim() === '') {
+        return res.status(400).json({
+          error: 'CSV content is required, as a text/csv body or as csv in a JSON body',
+          columns: DEFAULT_COLUMN_MAPPING
+        });
+      }
+
+      const isMapping = typeof mapping === 'object' && mapping !== null && !Array.isArray(mapping) &&
+        Object.values(mapping).every(header => typeof header === 'string');
+      if (mapping !== undefined && !isMapping) {
+        return res.status(400).json({
+          error: 'mapping must be an object of CSV column header per field',
+          example: { mapping: { routeId: 'Voyage No', fuelConsumption: 'Energy (MJ)' } }
+        });
+      }
+
+      const report = await voyageImportUseCase.importCsv(getCompanyId(res), csv, {
+        mapping,
+        delimiter: typeof delimiter === 'string' && delimiter !== '' ? delimiter : undefined,
+        dryRun: dryRun === true || req.query.dryRun === 'true',
+      });
+
+      if (!report.dryRun && report.rejected.length > 0) {
+        return res.status(400).json({
+          error: `${report.rejected.length} of ${report.totalRows} rows were rejected, nothing was imported`,
+          ...report
+        });
+      }
+
+      res.status(report.committed ? 201 : 200).json(report);
+    } catch (error: any) {
+      console.error('Error importing voyages:', error);
+      res.status(400).json({ error: error.message || 'Failed to import voyages' });
+    }
+  }
+);
+
+/**
+ * POST /api/imports/mrv
+ *
+ * Imports an EU MRV annual emission report export from THETIS-MRV, saved as
+ * CSV, to compute each ship's first FuelEU CB from its verified MRV data.
+ * The export can be sent as the raw body (Content-Type: text/csv) or as csv
+ * in a JSON body. Title rows above the column headers are skipped.
+ *
+ * Each row is matched to a registered ship by IMO number. The reporting year
+ * is split into two routes by the CO₂ reported per kind of voyage, with fuel
+ * and distance shared out in the same proportion:
+ * - MRV-<IMO>-<year>-EU (intra_eu): voyages between EU ports and at berth
+ * - MRV-<IMO>-<year>-EXT (extra_eu): voyages to or from EU ports
+ * Each route's intensity and energy are derived from its fuel breakdown
+ * ("<fuel> consumption [m tonnes]" columns: HFO, LFO, MDO/MGO, LNG, LPG, Methanol).
+ * The routes are assigned to the ship as voyages of the year and its CB is
+ * computed.
+ *
+ * Rows are rejected for unknown or unregistered IMO numbers, fuels outside
+ * the fuel catalogue, a ship and year listed twice and years already
+ * imported. Nothing is saved on a dry run or when any row is rejected.
+ *
+ * A sample export for the demo fleet is in backend/samples/thetis-mrv-2025.csv,
+ * and one with a row per rejection reason in thetis-mrv-2025-rejected.csv.
+ * Both can be checked offline with `npm run mrv:parse -- <file>`.
+ *
+ * @route POST /api/imports/mrv
+ * @param {string} [query.dryRun] - "true" to map and report without saving
+ * @param {Object|string} body - The export as CSV text, or { csv, dryRun }
+ * @returns {Promise<MrvImportReport>} Ships with their routes, rejected rows with reasons, and the computed CBs
+ * @throws {400} Unreadable export, missing column, rejected rows or the import could not be saved
+ *
+ * @example
+ * // Request
+ * POST /api/imports/mrv?dryRun=true
+ * Content-Type: text/csv
+ * (contents of samples/thetis-mrv-2025.csv)
+ *
+ * // Response 200
+ * {
+ *   "dryRun": true,
+ *   "committed": false,
+ *   "totalRows": 6,
+ *   "accepted": [
+ *     {
+ *       "line": 4,
+ *       "imoNumber": "9000003",
+ *       "shipId": "SHIP-0001",
+ *       "year": 2025,
+ *       "timeAtSea": 5840,
+ *       "co2Emissions": 28184.47,
+ *       "routes": [
+ *         { "routeId": "MRV-9000003-2025-EU", "voyageScope": "intra_eu", "ghgIntensity": 91.67, ... },
+ *         { "routeId": "MRV-9000003-2025-EXT", "voyageScope": "extra_eu", "ghgIntensity": 91.67, ... }
+ *       ]
+ *     },
+ *     ...
+ *   ],
+ *   "rejected": [],
+ *   "recomputed": []
+ * }
+ *
+ * // With samples/thetis-mrv-2025-rejected.csv instead, the rows are rejected with their reasons
+ * "rejected": [
+ *   { "line": 4, "values": { "IMO Number": "9000040", ... }, "reasons": ["IMO number 9000040 is not valid"] },
+ *   ...
+ * ]
+ */
+router.post('/imports/mrv', csvBody, async (req: Request, res: Response) => {
+  try {
+    const body = typeof req.body === 'string' ? { csv: req.body } : req.body || {};
+    const { csv, dryRun } = body;
+
+    if (typeof csv !== 'string' || csv.trim() === '') {
+      return res.status(400).json({
+        error: 'The THETIS-MRV export is required, as a text/csv body or as csv in a JSON body'
+      });
+    }
+
+    const report = await mrvImportUseCase.importReport(
+      getCompanyId(res),
+      csv,
+      dryRun === true || req.query.dryRun === 'true'
+    );
+
+    if (!report.dryRun && report.rejected.length > 0) {
+      return res.status(400).json({
+        error: `${report.rejected.length} of ${report.totalRows} rows were rejected, nothing was imported`,
+        ...report
+      });
+    }
+
+    res.status(report.committed ? 201 : 200).json(report);
+  } catch (error: any) {
+    console.error('Error importing MRV report:', error);
+    res.status(400).json({ error: error.message || 'Failed to import MRV report' });
+  }
+});
+
+/**
+ * Export the router instance for use in the main server configuration
+ * @exports router
+ */
+export default router;
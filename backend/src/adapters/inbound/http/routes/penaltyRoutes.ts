@@ -0,0 +1,145 @@
+/**
+ * Penalty Routes Module
+ * 
+ * This module defines all HTTP endpoints related to FuelEU remedial penalties,
+ * including the penalty of a single ship and fleet-level totals per year used
+ * by finance to accrue compliance costs.
+ * 
+ * @module routes/penaltyRoutes
+ * @requires express
+ * @requires PenaltyUseCase
+ * @requires PostgresShipComplianceRepository
+ * @requires tenant
+ */
+
+import { Router, Request, Response } from 'express';
+import { PenaltyUseCase } from '../../../../core/application/PenaltyUseCase';
+import { PostgresShipComplianceRepository } from '../../../outbound/postgres/PostgresShipComplianceRepository';
+import { getCompanyId } from '../middleware/tenant';
+
+const router = Router();
+
+// Initialize repository and use case instances
+// Using PostgreSQL repository for persistent data storage
+const shipComplianceRepository = new PostgresShipComplianceRepository();
+const penaltyUseCase = new PenaltyUseCase(shipComplianceRepository);
+
+/**
+ * GET /api/penalties/year/:year
+ * 
+ * Retrieves the penalties of all ships for a given year together with the
+ * fleet-level total.
+ * 
+ * IMPORTANT: This route must be defined BEFORE /penalties/:shipId/:year
+ * to avoid route conflicts, as Express matches routes in order and would
+ * interpret "year" as a shipId if this route came after.
+ * 
+ * @route GET /api/penalties/year/:year
+ * @param {string} year - The reporting year
+ * @returns {Promise<FleetPenaltySummary>} Per-ship penalties and fleet totals
+ * @throws {400} Invalid year parameter
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/penalties/year/2025
+ * 
+ * // Response 200
+ * {
+ *   "year": 2025,
+ *   "shipCount": 12,
+ *   "shipsInDeficit": 4,
+ *   "totalPenalty": 1843250.75,
+ *   "penalties": [ ... ]
+ * }
+ */
+router.get('/penalties/year/:year', async (req: Request, res: Response) => {
+  try {
+    const yearNum = parseInt(req.params.year);
+    if (isNaN(yearNum)) {
+      return res.status(400).json({ error: 'year must be a valid number' });
+    }
+
+    const summary = await penaltyUseCase.getFleetPenalties(getCompanyId(res), yearNum);
+    res.json(summary);
+  } catch (error: any) {
+    console.error('Error calculating fleet penalties:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to calculate fleet penalties',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * GET /api/penalties/:shipId/:year
+ * 
+ * Calculates the remedial penalty of a ship for a reporting year:
+ * EUR 2,400 per tonne of VLSFO-equivalent energy deficit (41,000 MJ/t),
+ * increased by 10% for each consecutive deficit year before it. From 2034
+ * a shortfall against the 2% RFNBO sub-target is added as rfnboPenalty
+ * (EUR 2 per MJ of missing RFNBO energy).
+ * 
+ * @route GET /api/penalties/:shipId/:year
+ * @param {string} shipId - The unique identifier of the ship
+ * @param {string} year - The reporting year
+ * @returns {Promise<PenaltyResult>} Penalty breakdown
+ * @throws {400} Invalid shipId or year parameter
+ * @throws {404} Compliance balance not found for the specified ship and year
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/penalties/SHIP-0001/2025
+ * 
+ * // Response 200
+ * {
+ *   "shipId": "SHIP-0001",
+ *   "year": 2025,
+ *   "cbGco2eq": -10815000,
+ *   "ghgIntensity": 91.5,
+ *   "energyDeficit": 118196.72,
+ *   "vlsfoEquivalentTonnes": 2.88,
+ *   "consecutiveDeficitYears": 2,
+ *   "multiplier": 1.1,
+ *   "basePenalty": 6918.83,
+ *   "penalty": 7610.71,
+ *   "rfnboShortfallEnergy": 0,
+ *   "rfnboPenalty": 0,
+ *   "totalPenalty": 7610.71
+ * }
+ */
+router.get('/penalties/:shipId/:year', async (req: Request, res: Response) => {
+  try {
+    const { shipId, year } = req.params;
+
+    if (!shipId || shipId.trim() === '') {
+      return res.status(400).json({ error: 'shipId parameter is required' });
+    }
+
+    const yearNum = parseInt(year);
+    if (isNaN(yearNum)) {
+      return res.status(400).json({ error: 'year must be a valid number' });
+    }
+
+    const penalty = await penaltyUseCase.getShipPenalty(getCompanyId(res), shipId.trim(), yearNum);
+
+    if (!penalty) {
+      return res.status(404).json({ error: `Compliance balance not found for ship ${shipId} in year ${yearNum}` });
+    }
+
+    res.json(penalty);
+  } catch (error: any) {
+    console.error('Error calculating penalty:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to calculate penalty',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * Export the router instance for use in the main server configuration
+ * @exports router
+ */
+export default router;
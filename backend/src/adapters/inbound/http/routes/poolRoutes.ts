@@ -2,7 +2,10 @@
  * Pool Routes Module
  * 
  * This module defines all HTTP endpoints related to compliance pool management,
- * including pool creation with Article 21 validation and pool retrieval.
+ * including pool creation with Article 21 validation, dry-run validation,
+ * fleet pool proposals, pool retrieval, the pool lifecycle
+ * (draft → submitted → verified, or cancelled) and the partner companies'
+ * answers to their invitations.
  * 
  * Compliance pooling allows multiple ships to combine their compliance balances
  * to meet regulatory requirements collectively, following Fuel EU Maritime Article 21 rules.
@@ -10,15 +13,29 @@
  * @module routes/poolRoutes
  * @requires express
  * @requires PoolUseCase
+ * @requires PoolOptimizerUseCase
  * @requires PostgresPoolRepository
  * @requires PostgresShipComplianceRepository
+ * @requires tenant
+ * @requires actor
  */
 
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { PoolUseCase } from '../../../../core/application/PoolUseCase';
+import { PoolOptimizerUseCase } from '../../../../core/application/PoolOptimizerUseCase';
 import { PostgresPoolRepository } from '../../../outbound/postgres/PostgresPoolRepository';
 import { PostgresShipComplianceRepository } from '../../../outbound/postgres/PostgresShipComplianceRepository';
-import { CreatePoolRequest } from '../../../../core/domain/Pool';
+import {
+  CreatePoolRequest,
+  POOL_ALLOCATION_STRATEGIES,
+  POOL_STATUSES,
+  PoolStatus,
+  UpdatePoolRequest,
+} from '../../../../core/domain/Pool';
+import { PoolAllocationError } from '../../../../core/domain/PoolAllocation';
+import { PoolLifecycleError } from '../../../../core/domain/PoolLifecycle';
+import { getCompanyId } from '../middleware/tenant';
+import { ACTOR_HEADER, ANONYMOUS_ACTOR, getActor } from '../middleware/actor';
 
 const router = Router();
 
@@ -27,28 +44,250 @@ const router = Router();
 const poolRepository = new PostgresPoolRepository();
 const shipComplianceRepository = new PostgresShipComplianceRepository();
 const poolUseCase = new PoolUseCase(poolRepository, shipComplianceRepository);
+const poolOptimizerUseCase = new PoolOptimizerUseCase(shipComplianceRepository, poolRepository);
+
+/**
+ * Rejects pool IDs that cannot be looked up, for every /pools/:poolId route
+ * 
+ * Pools are numbered (SERIAL), so anything else is answered with 400 before
+ * the database is queried.
+ */
+router.param('poolId', (req: Request, res: Response, next: NextFunction, poolId: string) => {
+  if (!/^\d+$/.test(poolId) || Number(poolId) > 2147483647) {
+    return res.status(400).json({ error: 'poolId must be a pool number' });
+  }
+  next();
+});
+
+/**
+ * Parses and validates a pool creation request body
+ * 
+ * Shared by POST /api/pools and POST /api/pools/validate so that a dry run
+ * accepts exactly the requests that pool creation accepts.
+ * 
+ * @param {Request} req - Express request with the pool creation body
+ * @param {Response} res - Express response, answered with 400 when the body is invalid
+ * @returns {CreatePoolRequest | undefined} The validated request, or undefined once a 400 has been sent
+ */
+function parsePoolRequest(req: Request, res: Response): CreatePoolRequest | undefined {
+  // Check if body is empty or missing
+  if (!req.body || Object.keys(req.body).length === 0) {
+    res.status(400).json({ 
+      error: 'Request body is required and cannot be empty',
+      hint: 'Make sure to send a JSON body with Content-Type: application/json',
+      example: {
+        year: 2024,
+        memberShipIds: ['SHIP001', 'SHIP002']
+      }
+    });
+    return undefined;
+  }
+  
+  const request: CreatePoolRequest = req.body;
+  
+  // Validate year
+  if (request.year === undefined || request.year === null) {
+    res.status(400).json({ 
+      error: 'year is required',
+      received: request.year,
+      type: typeof request.year,
+      example: { year: 2024, memberShipIds: ['SHIP001'] }
+    });
+    return undefined;
+  }
+  
+  const yearNum = typeof request.year === 'string' ? parseInt(request.year) : request.year;
+  if (isNaN(yearNum) || yearNum <= 0) {
+    res.status(400).json({ 
+      error: 'year must be a valid positive number',
+      received: request.year,
+      parsed: yearNum
+    });
+    return undefined;
+  }
+  
+  // Validate memberShipIds
+  if (!request.memberShipIds) {
+    res.status(400).json({ 
+      error: 'memberShipIds is required and must be an array',
+      received: request.memberShipIds,
+      type: typeof request.memberShipIds,
+      example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
+    });
+    return undefined;
+  }
+  
+  if (!Array.isArray(request.memberShipIds)) {
+    res.status(400).json({ 
+      error: 'memberShipIds must be an array of strings',
+      received: request.memberShipIds,
+      type: typeof request.memberShipIds,
+      example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
+    });
+    return undefined;
+  }
+  
+  if (request.memberShipIds.length === 0) {
+    res.status(400).json({ 
+      error: 'memberShipIds must contain at least one ship ID',
+      received: request.memberShipIds,
+      example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
+    });
+    return undefined;
+  }
+  
+  // Validate each ship ID is a string
+  const invalidShipIds = request.memberShipIds.filter(id => typeof id !== 'string' || id.trim() === '');
+  if (invalidShipIds.length > 0) {
+    res.status(400).json({ 
+      error: 'All memberShipIds must be non-empty strings',
+      invalidShipIds: invalidShipIds,
+      example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
+    });
+    return undefined;
+  }
+
+  // A ship can only be pooled once, its CB would otherwise count twice
+  const trimmedShipIds = request.memberShipIds.map(id => id.trim());
+  const duplicateShipIds = trimmedShipIds.filter((id, index) => trimmedShipIds.indexOf(id) !== index);
+  if (duplicateShipIds.length > 0) {
+    res.status(400).json({
+      error: 'memberShipIds must not repeat a ship ID',
+      duplicateShipIds: [...new Set(duplicateShipIds)],
+      example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
+    });
+    return undefined;
+  }
+  
+  // Validate allocation strategy options
+  if (request.strategy !== undefined && !POOL_ALLOCATION_STRATEGIES.includes(request.strategy)) {
+    res.status(400).json({
+      error: `Unknown allocation strategy ${request.strategy}`,
+      availableStrategies: POOL_ALLOCATION_STRATEGIES
+    });
+    return undefined;
+  }
+  
+  if (request.priority !== undefined && !Array.isArray(request.priority)) {
+    res.status(400).json({
+      error: 'priority must be an array of ship IDs',
+      example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'], strategy: 'priority', priority: ['SHIP002', 'SHIP001'] }
+    });
+    return undefined;
+  }
+  
+  if (request.allocations !== undefined && !Array.isArray(request.allocations)) {
+    res.status(400).json({
+      error: 'allocations must be an array of { shipId, cbAfter }',
+      example: {
+        year: 2024,
+        memberShipIds: ['SHIP001', 'SHIP002'],
+        strategy: 'manual',
+        allocations: [{ shipId: 'SHIP001', cbAfter: 0 }, { shipId: 'SHIP002', cbAfter: 30000 }]
+      }
+    });
+    return undefined;
+  }
+  
+  // Validate inter-company trading options
+  if (
+    request.partnerCompanyIds !== undefined &&
+    (!Array.isArray(request.partnerCompanyIds) || request.partnerCompanyIds.some(id => typeof id !== 'string' || id.trim() === ''))
+  ) {
+    res.status(400).json({
+      error: 'partnerCompanyIds must be an array of company IDs',
+      example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP101'], partnerCompanyIds: ['globex'], pricePerTonne: 150 }
+    });
+    return undefined;
+  }
+  
+  const pricePerTonne = parsePrice(request.pricePerTonne);
+  if (Number.isNaN(pricePerTonne)) {
+    res.status(400).json({
+      error: 'pricePerTonne must be a non-negative number',
+      received: request.pricePerTonne
+    });
+    return undefined;
+  }
+  
+  // Create validated request
+  return {
+    name: request.name || undefined,
+    year: yearNum,
+    memberShipIds: request.memberShipIds.map(id => id.trim()),
+    strategy: request.strategy,
+    priority: request.priority?.map(id => String(id).trim()),
+    allocations: request.allocations?.map(allocation => ({
+      shipId: String(allocation.shipId).trim(),
+      cbAfter: typeof allocation.cbAfter === 'string' ? parseFloat(allocation.cbAfter) : allocation.cbAfter,
+    })),
+    partnerCompanyIds: request.partnerCompanyIds?.map(id => id.trim()),
+    pricePerTonne,
+  };
+}
+
+/**
+ * Parses a price per tonne CO₂e
+ * 
+ * @param {unknown} value - Price from the request body
+ * @returns {number | undefined} The price, undefined if absent, or NaN if not a non-negative number
+ */
+function parsePrice(value: unknown): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const price = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof price === 'number' && Number.isFinite(price) && price >= 0 ? price : NaN;
+}
 
 /**
  * POST /api/pools
  * 
- * Creates a new compliance pool with the specified member ships.
+ * Creates a new compliance pool with the specified member ships. The pool
+ * starts as a draft; the X-Actor header names who created it.
  * 
  * This endpoint implements Article 21 pooling rules:
  * - Sum of adjusted CBs must be >= 0 (pool must be collectively compliant)
  * - Deficit ships cannot exit worse than they entered (cbAfter >= cbBefore)
  * - Surplus ships cannot exit negative (cbAfter >= 0)
  * 
- * The pool sum is distributed equally among all members, and each member's
- * before/after compliance balance is tracked.
+ * The surplus is allocated with the requested strategy:
+ * - greedy (default): largest surplus holders cover the largest deficits
+ *   until each deficit ship reaches zero; surplus ships keep their remainder
+ * - pro_rata: surplus ships contribute in proportion to their surplus
+ * - priority: deficit ships listed first in `priority` are covered first,
+ *   surplus ships listed first give last
+ * - manual: `allocations` supplies the CB after pooling of every member
+ * 
+ * Any allocation is validated against Article 21; rejected members are
+ * returned with the reason they were rejected.
+ * 
+ * Ships of the companies in `partnerCompanyIds` can join the pool. Surplus
+ * moving between companies is then paid for at `pricePerTonne` (EUR per
+ * tCO₂e), which is required for such pools; the pool carries the resulting
+ * pending settlements between the companies. Those companies are invited
+ * as `partners` and have to accept the pool before it changes any balance
+ * or can be submitted.
+ * Each member's before/after compliance balance is tracked, and the
+ * members' year balances are set to their CB after pooling in the same
+ * transaction. A ship can only be in one pool (not cancelled) per year.
  * 
  * @route POST /api/pools
  * @param {Object} body - Pool creation request
  * @param {string} [body.name] - Optional name for the pool
  * @param {number} body.year - The year for which to create the pool
  * @param {string[]} body.memberShipIds - Array of ship IDs to include in the pool
+ * @param {string} [body.strategy] - greedy, pro_rata, priority or manual
+ * @param {string[]} [body.priority] - Ship IDs in priority order (priority strategy)
+ * @param {Object[]} [body.allocations] - { shipId, cbAfter } per member (manual strategy)
+ * @param {string[]} [body.partnerCompanyIds] - Other companies whose ships join the pool
+ * @param {number} [body.pricePerTonne] - EUR per tCO₂e transferred between companies
  * @returns {Promise<Pool>} The created pool with all member data
  * @throws {400} Invalid or missing request parameters
- * @throws {500} Internal server error or validation failure
+ * @throws {400} Allocation rejected, with `rejections` listing { shipId, reason } per member; reasons
+ *   for ships of partners that have not accepted leave out their balances
+ * @throws {500} Internal server error
  * 
  * @example
  * // Request
@@ -57,7 +296,7 @@ const poolUseCase = new PoolUseCase(poolRepository, shipComplianceRepository);
  * {
  *   "name": "Strategic Pool 2024",
  *   "year": 2024,
- *   "memberShipIds": ["R001", "R002", "R003"]
+ *   "memberShipIds": ["SHIP-0001", "SHIP-0002"]
  * }
  * 
  * // Response 200
@@ -67,13 +306,20 @@ const poolUseCase = new PoolUseCase(poolRepository, shipComplianceRepository);
  *   "year": 2024,
  *   "members": [
  *     {
- *       "shipId": "R001",
+ *       "shipId": "SHIP-0001",
  *       "adjustedCB": -50000,
  *       "cbBefore": -50000,
  *       "cbAfter": 0
+ *     },
+ *     {
+ *       "shipId": "SHIP-0002",
+ *       "adjustedCB": 80000,
+ *       "cbBefore": 80000,
+ *       "cbAfter": 30000
  *     }
  *   ],
- *   "poolSum": 0,
+ *   "poolSum": 30000,
+ *   "status": "draft",
  *   "createdAt": "2024-01-15T10:30:00Z"
  * }
  */
@@ -82,89 +328,186 @@ router.post('/pools', async (req: Request, res: Response) => {
     // Log request for debugging
     console.log('Create pool request body:', JSON.stringify(req.body, null, 2));
     
-    // Check if body is empty or missing
-    if (!req.body || Object.keys(req.body).length === 0) {
-      return res.status(400).json({ 
-        error: 'Request body is required and cannot be empty',
-        hint: 'Make sure to send a JSON body with Content-Type: application/json',
-        example: {
-          year: 2024,
-          memberShipIds: ['SHIP001', 'SHIP002']
-        }
-      });
+    const validatedRequest = parsePoolRequest(req, res);
+    if (!validatedRequest) {
+      return;
     }
     
-    const request: CreatePoolRequest = req.body;
+    const pool = await poolUseCase.createPool(getCompanyId(res), validatedRequest, getActor(req) || ANONYMOUS_ACTOR);
+    res.json(pool);
+  } catch (error: any) {
+    console.error('Error creating pool:', error);
     
-    // Validate year
-    if (request.year === undefined || request.year === null) {
-      return res.status(400).json({ 
-        error: 'year is required',
-        received: request.year,
-        type: typeof request.year,
-        example: { year: 2024, memberShipIds: ['SHIP001'] }
+    // Pooling rule violations are client errors; report the reason per member
+    if (error instanceof PoolAllocationError) {
+      return res.status(400).json({
+        error: error.message,
+        rejections: error.rejections
       });
     }
     
-    const yearNum = typeof request.year === 'string' ? parseInt(request.year) : request.year;
-    if (isNaN(yearNum) || yearNum <= 0) {
-      return res.status(400).json({ 
-        error: 'year must be a valid positive number',
-        received: request.year,
-        parsed: yearNum
-      });
+    res.status(500).json({ 
+      error: error.message || 'Failed to create pool',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/pools/validate
+ * 
+ * Dry run of POST /api/pools: runs the same allocation and Article 21
+ * checks without saving the pool. Problems are reported in the result
+ * instead of as an error response, so the pooling page can preview a pool
+ * while ships are being selected.
+ * 
+ * Partner companies have not accepted the previewed pool, so their ships
+ * are left out of the members; one breaking a rule is only named in the
+ * errors, without its balances.
+ * 
+ * @route POST /api/pools/validate
+ * @param {Object} body - Pool creation request, same as POST /api/pools
+ * @returns {Promise<PoolValidationResult>} Pool sum, per-member before/after CB and the rule each member violates
+ * @throws {400} Invalid or missing request parameters
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/pools/validate
+ * Content-Type: application/json
+ * {
+ *   "year": 2024,
+ *   "memberShipIds": ["SHIP-0001", "SHIP-0002"],
+ *   "strategy": "manual",
+ *   "allocations": [
+ *     { "shipId": "SHIP-0001", "cbAfter": -60000 },
+ *     { "shipId": "SHIP-0002", "cbAfter": 90000 }
+ *   ]
+ * }
+ * 
+ * // Response 200
+ * {
+ *   "isValid": false,
+ *   "year": 2024,
+ *   "strategy": "manual",
+ *   "poolSum": 30000,
+ *   "allocatedSum": 30000,
+ *   "members": [
+ *     {
+ *       "shipId": "SHIP-0001",
+ *       "adjustedCB": -50000,
+ *       "cbBefore": -50000,
+ *       "cbAfter": -60000,
+ *       "violatedRule": "deficit_exits_worse",
+ *       "reason": "Deficit ship cannot exit worse: CB before: -50000, CB after: -60000"
+ *     },
+ *     { "shipId": "SHIP-0002", "adjustedCB": 80000, "cbBefore": 80000, "cbAfter": 90000 }
+ *   ],
+ *   "errors": []
+ * }
+ */
+router.post('/pools/validate', async (req: Request, res: Response) => {
+  try {
+    const validatedRequest = parsePoolRequest(req, res);
+    if (!validatedRequest) {
+      return;
     }
-    
-    // Validate memberShipIds
-    if (!request.memberShipIds) {
-      return res.status(400).json({ 
-        error: 'memberShipIds is required and must be an array',
-        received: request.memberShipIds,
-        type: typeof request.memberShipIds,
-        example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
+
+    const result = await poolUseCase.validatePool(getCompanyId(res), validatedRequest);
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error validating pool:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to validate pool',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/pools/optimize
+ * 
+ * Proposes how to partition the company's fleet into pools for a year so
+ * that the fleet penalty is minimised. Deficits that cost the most penalty
+ * per gCO₂e are covered first, each pool receiving just enough surplus
+ * ships. Every proposed pool satisfies Article 21 and only contains ships
+ * of the selected company.
+ * 
+ * Nothing is persisted: create an accepted proposal with POST /api/pools,
+ * passing its member ship IDs.
+ * 
+ * @route POST /api/pools/optimize
+ * @param {Object} body - Optimisation request
+ * @param {number} body.year - The reporting year
+ * @param {number} [body.maxPoolSize] - Maximum members per pool (at least 2)
+ * @param {number} [body.minPoolSize] - Minimum members per pool (defaults to 2)
+ * @param {string[]} [body.excludedShipIds] - Ships to keep out of pooling
+ * @returns {Promise<FleetPoolProposal>} Proposed pools and the penalty saved versus not pooling
+ * @throws {400} Invalid year or constraints
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/pools/optimize
+ * Content-Type: application/json
+ * { "year": 2025, "maxPoolSize": 5 }
+ * 
+ * // Response 200
+ * {
+ *   "year": 2025,
+ *   "shipCount": 12,
+ *   "penaltyWithoutPooling": 1843250.75,
+ *   "penaltyWithPooling": 212400.1,
+ *   "penaltySaved": 1630850.65,
+ *   "pools": [
+ *     {
+ *       "members": [
+ *         { "shipId": "SHIP-0004", "adjustedCB": 9200000, "cbBefore": 9200000, "cbAfter": 1100000 },
+ *         { "shipId": "SHIP-0007", "adjustedCB": -8100000, "cbBefore": -8100000, "cbAfter": 0 }
+ *       ],
+ *       "poolSum": 1100000,
+ *       "penaltyAvoided": 5184.2
+ *     }
+ *   ],
+ *   "unpooledShipIds": ["SHIP-0001", "SHIP-0009"]
+ * }
+ */
+router.post('/pools/optimize', async (req: Request, res: Response) => {
+  try {
+    const { year, maxPoolSize, minPoolSize, excludedShipIds } = req.body || {};
+
+    const yearNum = typeof year === 'string' ? parseInt(year) : year;
+    if (typeof yearNum !== 'number' || isNaN(yearNum) || yearNum <= 0) {
+      return res.status(400).json({
+        error: 'year must be a valid positive number',
+        example: { year: 2025, maxPoolSize: 5 }
       });
     }
-    
-    if (!Array.isArray(request.memberShipIds)) {
-      return res.status(400).json({ 
-        error: 'memberShipIds must be an array of strings',
-        received: request.memberShipIds,
-        type: typeof request.memberShipIds,
-        example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
-      });
+
+    for (const [field, value] of Object.entries({ maxPoolSize, minPoolSize })) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 2)) {
+        return res.status(400).json({ error: `${field} must be an integer of at least 2` });
+      }
     }
-    
-    if (request.memberShipIds.length === 0) {
-      return res.status(400).json({ 
-        error: 'memberShipIds must contain at least one ship ID',
-        received: request.memberShipIds,
-        example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
-      });
+
+    if (maxPoolSize !== undefined && minPoolSize !== undefined && minPoolSize > maxPoolSize) {
+      return res.status(400).json({ error: 'minPoolSize cannot exceed maxPoolSize' });
     }
-    
-    // Validate each ship ID is a string
-    const invalidShipIds = request.memberShipIds.filter(id => typeof id !== 'string' || id.trim() === '');
-    if (invalidShipIds.length > 0) {
-      return res.status(400).json({ 
-        error: 'All memberShipIds must be non-empty strings',
-        invalidShipIds: invalidShipIds,
-        example: { year: 2024, memberShipIds: ['SHIP001', 'SHIP002'] }
-      });
+
+    if (excludedShipIds !== undefined && !Array.isArray(excludedShipIds)) {
+      return res.status(400).json({ error: 'excludedShipIds must be an array of ship IDs' });
     }
-    
-    // Create validated request
-    const validatedRequest: CreatePoolRequest = {
-      name: request.name || undefined,
-      year: yearNum,
-      memberShipIds: request.memberShipIds.map(id => id.trim()),
-    };
-    
-    const pool = await poolUseCase.createPool(validatedRequest);
-    res.json(pool);
+
+    const proposal = await poolOptimizerUseCase.proposeFleetPools(getCompanyId(res), yearNum, {
+      maxPoolSize,
+      minPoolSize,
+      excludedShipIds,
+    });
+    res.json(proposal);
   } catch (error: any) {
-    console.error('Error creating pool:', error);
-    res.status(500).json({ 
-      error: error.message || 'Failed to create pool',
+    console.error('Error optimizing fleet pools:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to optimize fleet pools',
       details: process.env.NODE_ENV === 'development' ? error.stack : undefined
     });
   }
@@ -198,7 +541,7 @@ router.post('/pools', async (req: Request, res: Response) => {
  */
 router.get('/pools', async (req: Request, res: Response) => {
   try {
-    const pools = await poolUseCase.getAllPools();
+    const pools = await poolUseCase.getAllPools(getCompanyId(res));
     res.json(pools);
   } catch (error: any) {
     console.error('Error fetching pools:', error);
@@ -219,6 +562,371 @@ router.get('/pools', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/pools/:poolId
+ * 
+ * Retrieves a single pool with its members and status history.
+ * 
+ * @route GET /api/pools/:poolId
+ * @param {string} poolId - The pool ID
+ * @returns {Promise<Pool>} The pool with `statusHistory`, oldest change first
+ * @throws {400} Invalid pool ID
+ * @throws {404} Pool not found
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Response 200
+ * {
+ *   "poolId": "12",
+ *   "name": "Strategic Pool 2024",
+ *   "year": 2024,
+ *   "status": "submitted",
+ *   "members": [ ... ],
+ *   "poolSum": 30000,
+ *   "createdAt": "2025-01-15T10:30:00Z",
+ *   "statusHistory": [
+ *     { "fromStatus": null, "toStatus": "draft", "actor": "j.smith", "changedAt": "2025-01-15T10:30:00Z" },
+ *     { "fromStatus": "draft", "toStatus": "submitted", "actor": "j.smith", "changedAt": "2025-02-03T08:12:00Z" }
+ *   ]
+ * }
+ */
+router.get('/pools/:poolId', async (req: Request, res: Response) => {
+  try {
+    const pool = await poolUseCase.getPool(getCompanyId(res), req.params.poolId);
+
+    if (!pool) {
+      return res.status(404).json({ error: `Pool ${req.params.poolId} not found` });
+    }
+
+    res.json(pool);
+  } catch (error: any) {
+    console.error('Error fetching pool:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to fetch pool',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * PATCH /api/pools/:poolId
+ * 
+ * Edits a draft pool and/or moves it to another status.
+ * 
+ * Draft edits rename the pool, change its price or add and remove
+ * members; the surplus is then reallocated (greedy unless another strategy
+ * is given) and checked against Article 21 as on creation. Only the
+ * company that formed the pool can change it. Partners are invited again
+ * after an edit, as they have to accept the new allocation.
+ * 
+ * Status transitions:
+ * - draft → submitted, cancelled
+ * - submitted → verified, draft (returned by the verifier), cancelled
+ * - verified → cancelled
+ * Submitting and cancelling are only possible until 30 April of the year
+ * after the pool year, and submitting only once every partner has
+ * accepted the pool. Every transition is recorded with the actor from
+ * the X-Actor header, which is required for status changes.
+ * 
+ * @route PATCH /api/pools/:poolId
+ * @param {string} poolId - The pool ID
+ * @param {Object} body - Changes to apply
+ * @param {string} [body.name] - New pool name
+ * @param {string[]} [body.addShipIds] - Ships to add (draft only)
+ * @param {string[]} [body.removeShipIds] - Ships to remove (draft only)
+ * @param {string} [body.strategy] - Allocation strategy for the new members
+ * @param {string[]} [body.priority] - Ship IDs in priority order (priority strategy)
+ * @param {Object[]} [body.allocations] - { shipId, cbAfter } per member (manual strategy)
+ * @param {string[]} [body.partnerCompanyIds] - Further companies whose ships can be added
+ * @param {number} [body.pricePerTonne] - New EUR per tCO₂e price
+ * @param {string} [body.status] - Target status, applied after any edits
+ * @param {string} [body.reason] - Reason recorded with the status change
+ * @returns {Promise<Pool>} The updated pool with its status history
+ * @throws {400} Invalid pool ID or request, missing actor or allocation rejected
+ * @throws {404} Pool not found
+ * @throws {409} Pool is not a draft, the transition is not allowed or a partner has not accepted
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Add a ship to a draft
+ * PATCH /api/pools/12
+ * { "addShipIds": ["SHIP-0005"] }
+ * 
+ * // Verifier accepts a submitted pool
+ * PATCH /api/pools/12
+ * X-Actor: verifier@example.com
+ * { "status": "verified" }
+ */
+router.patch('/pools/:poolId', async (req: Request, res: Response) => {
+  try {
+    const {
+      name, addShipIds, removeShipIds, strategy, priority, allocations, partnerCompanyIds, status, reason,
+    } = req.body || {};
+    const companyId = getCompanyId(res);
+    const poolId = req.params.poolId;
+
+    for (const [field, value] of Object.entries({ addShipIds, removeShipIds, priority, partnerCompanyIds })) {
+      if (value !== undefined && (!Array.isArray(value) || value.some(id => typeof id !== 'string' || id.trim() === ''))) {
+        const kind = field === 'partnerCompanyIds' ? 'company' : 'ship';
+        return res.status(400).json({ error: `${field} must be an array of ${kind} IDs` });
+      }
+    }
+
+    const pricePerTonne = parsePrice(req.body?.pricePerTonne);
+    if (Number.isNaN(pricePerTonne)) {
+      return res.status(400).json({ error: 'pricePerTonne must be a non-negative number' });
+    }
+
+    if (strategy !== undefined && !POOL_ALLOCATION_STRATEGIES.includes(strategy)) {
+      return res.status(400).json({
+        error: `Unknown allocation strategy ${strategy}`,
+        availableStrategies: POOL_ALLOCATION_STRATEGIES
+      });
+    }
+
+    if (allocations !== undefined && !Array.isArray(allocations)) {
+      return res.status(400).json({ error: 'allocations must be an array of { shipId, cbAfter }' });
+    }
+
+    if (status !== undefined && !POOL_STATUSES.includes(status)) {
+      return res.status(400).json({ error: `Unknown pool status ${status}`, availableStatuses: POOL_STATUSES });
+    }
+
+    const actor = getActor(req);
+    if (status !== undefined && !actor) {
+      return res.status(400).json({ error: `The ${ACTOR_HEADER} header is required to change the status of a pool` });
+    }
+
+    const isEdit = [name, addShipIds, removeShipIds, strategy, priority, allocations, partnerCompanyIds, pricePerTonne]
+      .some(value => value !== undefined);
+    if (!isEdit && status === undefined) {
+      return res.status(400).json({
+        error: 'Nothing to change',
+        example: { addShipIds: ['SHIP001'], removeShipIds: ['SHIP002'], status: 'submitted' }
+      });
+    }
+
+    let pool = await poolUseCase.getPool(companyId, poolId);
+
+    if (pool && isEdit) {
+      const changes: UpdatePoolRequest = {
+        name: name !== undefined ? String(name).trim() || undefined : undefined,
+        addShipIds: addShipIds?.map((id: string) => id.trim()),
+        removeShipIds: removeShipIds?.map((id: string) => id.trim()),
+        strategy,
+        priority: priority?.map((id: string) => id.trim()),
+        allocations: allocations?.map((allocation: any) => ({
+          shipId: String(allocation.shipId).trim(),
+          cbAfter: typeof allocation.cbAfter === 'string' ? parseFloat(allocation.cbAfter) : allocation.cbAfter,
+        })),
+        partnerCompanyIds: partnerCompanyIds?.map((id: string) => id.trim()),
+        pricePerTonne,
+      };
+      pool = await poolUseCase.updateDraft(companyId, poolId, changes);
+    }
+
+    if (pool && status !== undefined) {
+      pool = await poolUseCase.changeStatus(companyId, poolId, status as PoolStatus, actor!, reason);
+    }
+
+    if (!pool) {
+      return res.status(404).json({ error: `Pool ${poolId} not found` });
+    }
+
+    res.json(pool);
+  } catch (error: any) {
+    console.error('Error updating pool:', error);
+
+    if (error instanceof PoolLifecycleError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    if (error instanceof PoolAllocationError) {
+      return res.status(400).json({
+        error: error.message,
+        rejections: error.rejections
+      });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to update pool',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/pools/:poolId/accept
+ * 
+ * Accepts the selected company's invitation into a draft pool formed by
+ * another company, agreeing to the allocation and price of its ships.
+ * Once every partner has accepted, the members' year balances are set to
+ * their CB after pooling and the pool can be submitted. The X-Actor header
+ * naming who accepts is required.
+ * 
+ * @route POST /api/pools/:poolId/accept
+ * @param {string} poolId - The pool ID
+ * @returns {Promise<Pool>} The pool with its `partners`
+ * @throws {400} Invalid pool ID, missing actor, or a member's balance changed since the allocation
+ * @throws {404} Pool not found
+ * @throws {409} Pool is not a draft or the company is not invited
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/pools/12/accept
+ * X-Company-Id: globex
+ * X-Actor: a.jones
+ * 
+ * // Response 200
+ * {
+ *   "poolId": "12",
+ *   "companyId": "acme",
+ *   "status": "draft",
+ *   "balancesApplied": true,
+ *   "partners": [
+ *     { "companyId": "globex", "status": "accepted", "respondedAt": "2025-02-01T09:00:00Z", "respondedBy": "a.jones" }
+ *   ],
+ *   ...
+ * }
+ */
+router.post('/pools/:poolId/accept', async (req: Request, res: Response) => {
+  try {
+    const actor = getActor(req);
+    if (!actor) {
+      return res.status(400).json({ error: `The ${ACTOR_HEADER} header is required to accept a pool` });
+    }
+
+    const pool = await poolUseCase.acceptInvitation(getCompanyId(res), req.params.poolId, actor);
+
+    if (!pool) {
+      return res.status(404).json({ error: `Pool ${req.params.poolId} not found` });
+    }
+
+    res.json(pool);
+  } catch (error: any) {
+    console.error('Error accepting pool:', error);
+
+    if (error instanceof PoolLifecycleError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    if (error instanceof PoolAllocationError) {
+      return res.status(400).json({
+        error: error.message,
+        rejections: error.rejections
+      });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to accept pool',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/pools/:poolId/decline
+ * 
+ * Declines the selected company's invitation into a draft pool, or leaves
+ * a draft pool it accepted before. Balances the pool had changed are
+ * restored, and the pool cannot be submitted until the company accepts
+ * after all or its ships are removed. The X-Actor header naming who
+ * declines is required.
+ * 
+ * @route POST /api/pools/:poolId/decline
+ * @param {string} poolId - The pool ID
+ * @returns {Promise<Pool>} The pool with its `partners`
+ * @throws {400} Invalid pool ID or missing actor
+ * @throws {404} Pool not found
+ * @throws {409} Pool is not a draft or the company is not invited
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * POST /api/pools/12/decline
+ * X-Company-Id: globex
+ * X-Actor: a.jones
+ */
+router.post('/pools/:poolId/decline', async (req: Request, res: Response) => {
+  try {
+    const actor = getActor(req);
+    if (!actor) {
+      return res.status(400).json({ error: `The ${ACTOR_HEADER} header is required to decline a pool` });
+    }
+
+    const pool = await poolUseCase.declineInvitation(getCompanyId(res), req.params.poolId, actor);
+
+    if (!pool) {
+      return res.status(404).json({ error: `Pool ${req.params.poolId} not found` });
+    }
+
+    res.json(pool);
+  } catch (error: any) {
+    console.error('Error declining pool:', error);
+
+    if (error instanceof PoolLifecycleError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to decline pool',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * DELETE /api/pools/:poolId
+ * 
+ * Cancels a pool before the registration deadline (30 April of the year
+ * after the pool year). The pool and its history are kept with status
+ * cancelled, and the members' balances are restored by reversing the
+ * pool's change to them. The X-Actor header naming who cancels the pool is required.
+ * 
+ * @route DELETE /api/pools/:poolId
+ * @param {string} poolId - The pool ID
+ * @param {string} [reason] - Query parameter, reason recorded with the cancellation
+ * @returns {Promise<Pool>} The cancelled pool with its status history
+ * @throws {400} Invalid pool ID or missing actor
+ * @throws {404} Pool not found
+ * @throws {409} Pool already cancelled or the deadline has passed
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * DELETE /api/pools/12?reason=Ship%20sold
+ * X-Actor: j.smith
+ */
+router.delete('/pools/:poolId', async (req: Request, res: Response) => {
+  try {
+    const actor = getActor(req);
+    if (!actor) {
+      return res.status(400).json({ error: `The ${ACTOR_HEADER} header is required to cancel a pool` });
+    }
+
+    const reason = typeof req.query.reason === 'string' ? req.query.reason : undefined;
+    const pool = await poolUseCase.cancelPool(getCompanyId(res), req.params.poolId, actor, reason);
+
+    if (!pool) {
+      return res.status(404).json({ error: `Pool ${req.params.poolId} not found` });
+    }
+
+    res.json(pool);
+  } catch (error: any) {
+    console.error('Error cancelling pool:', error);
+
+    if (error instanceof PoolLifecycleError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to cancel pool',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
 /**
  * Export the router instance for use in the main server configuration
  * @exports router
@@ -0,0 +1,170 @@
+/**
+ * Report Routes Module
+ *
+ * This module defines the HTTP endpoints for FuelEU reports: the report of a
+ * ship for a reporting year, downloadable as JSON, CSV or a print-ready PDF.
+ *
+ * @module routes/reportRoutes
+ * @requires express
+ * @requires FuelEuReportUseCase
+ * @requires ShipComplianceUseCase
+ * @requires PostgresShipComplianceRepository
+ * @requires PostgresComplianceRepository
+ * @requires PostgresShipRepository
+ * @requires tenant
+ */
+
+import { Router, Request, Response } from 'express';
+import { FuelEuReportUseCase } from '../../../../core/application/FuelEuReportUseCase';
+import { ShipComplianceUseCase } from '../../../../core/application/ShipComplianceUseCase';
+import { PostgresShipComplianceRepository } from '../../../outbound/postgres/PostgresShipComplianceRepository';
+import { PostgresBorrowingRepository } from '../../../outbound/postgres/PostgresBorrowingRepository';
+import { PostgresVoyageRepository } from '../../../outbound/postgres/PostgresVoyageRepository';
+import { PostgresRouteRepository } from '../../../outbound/postgres/PostgresRouteRepository';
+import { PostgresComplianceRepository } from '../../../outbound/postgres/PostgresComplianceRepository';
+import { PostgresShipRepository } from '../../../outbound/postgres/PostgresShipRepository';
+import {
+  REPORT_FORMATS,
+  ReportFormat,
+  reportFileName,
+  toReportCsv,
+  toReportPdf,
+} from '../formatters/fuelEuReport';
+import { getCompanyId } from '../middleware/tenant';
+
+const router = Router();
+
+// Initialize repository and use case instances
+// Using PostgreSQL repository for persistent data storage
+const shipComplianceRepository = new PostgresShipComplianceRepository();
+const complianceRepository = new PostgresComplianceRepository();
+const shipComplianceUseCase = new ShipComplianceUseCase(
+  shipComplianceRepository,
+  new PostgresBorrowingRepository(),
+  new PostgresVoyageRepository(),
+  new PostgresRouteRepository(),
+  complianceRepository
+);
+const fuelEuReportUseCase = new FuelEuReportUseCase(
+  shipComplianceUseCase,
+  shipComplianceRepository,
+  complianceRepository,
+  new PostgresShipRepository()
+);
+
+/**
+ * GET /api/reports/fueleu/:shipId/:year
+ *
+ * Retrieves the FuelEU report of a ship for a reporting year: energy in
+ * scope, GHG intensity and target, the CB computed from the voyages, the
+ * banking, borrowing and pooling adjustments, the adjusted CB and the
+ * penalty, followed by the contribution of each voyage.
+ *
+ * The report is downloaded in the format given by the format query
+ * parameter. CSV has one line per item (section, item, value, unit); the PDF
+ * is an A4 document generated on the server, ready to print.
+ *
+ * @route GET /api/reports/fueleu/:shipId/:year
+ * @param {string} shipId - The unique identifier of the ship
+ * @param {string} year - The reporting year
+ * @param {string} [query.format] - json (default), csv or pdf
+ * @returns {Promise<FuelEuReport>} The report, or the CSV or PDF file as an attachment
+ * @throws {400} Invalid shipId, year or format parameter
+ * @throws {404} Compliance balance not found for the specified ship and year
+ * @throws {500} Internal server error
+ *
+ * @example
+ * // Request
+ * GET /api/reports/fueleu/SHIP-0001/2025
+ *
+ * // Response 200
+ * {
+ *   "shipId": "SHIP-0001",
+ *   "imoNumber": "9000003",
+ *   "shipName": "Aurora",
+ *   "year": 2025,
+ *   "generatedAt": "2025-03-01T09:30:00.000Z",
+ *   "totalEnergy": 205000000,
+ *   "energyInScope": 143500000,
+ *   "rfnboEnergy": 0,
+ *   "ghgIntensity": 91.5,
+ *   "targetIntensity": 89.3368,
+ *   "rawCB": -310419200,
+ *   "banking": 0,
+ *   "borrowing": 0,
+ *   "pooling": 150000000,
+ *   "adjustedCB": -160419200,
+ *   "isCompliant": false,
+ *   "consecutiveDeficitYears": 1,
+ *   "penalty": 102627.24,
+ *   "rfnboPenalty": 0,
+ *   "totalPenalty": 102627.24,
+ *   "voyages": [
+ *     { "routeId": "R001", "voyageScope": "intra_eu", "energyInScope": 143500000, ... }
+ *   ]
+ * }
+ *
+ * // Request
+ * GET /api/reports/fueleu/SHIP-0001/2025?format=pdf
+ *
+ * // Response 200
+ * Content-Type: application/pdf
+ * Content-Disposition: attachment; filename="fueleu-report-SHIP-0001-2025.pdf"
+ */
+router.get('/reports/fueleu/:shipId/:year', async (req: Request, res: Response) => {
+  try {
+    const { shipId, year } = req.params;
+    const format = typeof req.query.format === 'string' ? req.query.format.toLowerCase() : 'json';
+
+    if (!shipId || shipId.trim() === '') {
+      return res.status(400).json({ error: 'shipId parameter is required' });
+    }
+
+    const yearNum = parseInt(year);
+    if (isNaN(yearNum)) {
+      return res.status(400).json({ error: 'year must be a valid number' });
+    }
+
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      return res.status(400).json({ error: `format must be one of: ${REPORT_FORMATS.join(', ')}` });
+    }
+
+    const report = await fuelEuReportUseCase.getReport(getCompanyId(res), shipId.trim(), yearNum);
+
+    if (!report) {
+      return res.status(404).json({ error: `Compliance balance not found for ship ${shipId} in year ${yearNum}` });
+    }
+
+    const fileName = reportFileName(report, format as ReportFormat);
+
+    if (format === 'csv') {
+      res.type('text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      return res.send(toReportCsv(report));
+    }
+
+    if (format === 'pdf') {
+      res.type('application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      return res.send(toReportPdf(report));
+    }
+
+    // JSON is only offered as a download when asked for explicitly
+    if (req.query.format) {
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    }
+    res.json(report);
+  } catch (error: any) {
+    console.error('Error generating FuelEU report:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to generate FuelEU report',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * Export the router instance for use in the main server configuration
+ * @exports router
+ */
+export default router;
@@ -2,30 +2,87 @@
  * Route Routes Module
  * 
  * This module defines all HTTP endpoints related to route management,
- * including route retrieval, baseline management, and route comparison.
+ * including route retrieval and maintenance, baseline management, and route
+ * comparison.
  * 
  * @module routes/routeRoutes
  * @requires express
  * @requires RouteUseCase
+ * @requires ShipComplianceUseCase
  * @requires PostgresRouteRepository
+ * @requires tenant
  */
 
 import { Router, Request, Response } from 'express';
 import { RouteUseCase } from '../../../../core/application/RouteUseCase';
+import { ShipComplianceUseCase } from '../../../../core/application/ShipComplianceUseCase';
+import { Route } from '../../../../core/domain/Route';
+import { VoyageScope } from '../../../../core/domain/VoyageScope';
 import { PostgresRouteRepository } from '../../../outbound/postgres/PostgresRouteRepository';
-import { Baseline } from '../../../../core/domain/Route';
+import { PostgresShipComplianceRepository } from '../../../outbound/postgres/PostgresShipComplianceRepository';
+import { PostgresBorrowingRepository } from '../../../outbound/postgres/PostgresBorrowingRepository';
+import { PostgresVoyageRepository } from '../../../outbound/postgres/PostgresVoyageRepository';
+import { PostgresComplianceRepository } from '../../../outbound/postgres/PostgresComplianceRepository';
+import { getCompanyId } from '../middleware/tenant';
 
 const router = Router();
 
 // Initialize repository and use case instances
 // Using PostgreSQL repository for persistent data storage
 const routeRepository = new PostgresRouteRepository();
-const routeUseCase = new RouteUseCase(routeRepository);
+const shipComplianceUseCase = new ShipComplianceUseCase(
+  new PostgresShipComplianceRepository(),
+  new PostgresBorrowingRepository(),
+  new PostgresVoyageRepository(),
+  routeRepository,
+  new PostgresComplianceRepository()
+);
+const routeUseCase = new RouteUseCase(routeRepository, shipComplianceUseCase);
+
+const ROUTE_EXAMPLE = {
+  routeId: 'R006',
+  vesselType: 'Container Ship',
+  fuelType: 'LNG',
+  year: 2025,
+  ghgIntensity: 76.2,
+  fuelConsumption: 4800000,
+  distance: 1350,
+  voyageScope: 'intra_eu',
+};
+
+/**
+ * Picks the route fields from a request body
+ * Numeric strings are accepted for the year and the figures
+ * The voyage scope is checked against the known scopes when the route is validated
+ */
+function toRouteFields(body: any): Partial<Route> {
+  const fields: Partial<Route> = {};
+  const textFields = ['routeId', 'vesselType', 'fuelType'] as const;
+  const numericFields = ['year', 'ghgIntensity', 'fuelConsumption', 'distance', 'totalEmissions'] as const;
+
+  for (const field of textFields) {
+    if (typeof body[field] === 'string') {
+      fields[field] = body[field].trim();
+    }
+  }
+  if (typeof body.voyageScope === 'string') {
+    fields.voyageScope = body.voyageScope.trim() as VoyageScope;
+  }
+  for (const field of numericFields) {
+    if (body[field] !== undefined) {
+      fields[field] = typeof body[field] === 'string' ? parseFloat(body[field]) : body[field];
+    }
+  }
+
+  return fields;
+}
 
 /**
  * GET /api/routes
  * 
- * Retrieves all vessel routes from the database.
+ * Retrieves all vessel routes from the database, including each route's
+ * fuel consumption breakdown. For routes with a breakdown, ghgIntensity,
+ * fuelConsumption (energy in MJ) and totalEmissions are aggregated over it.
  * 
  * @route GET /api/routes
  * @returns {Promise<Route[]>} Array of all routes
@@ -46,52 +103,408 @@ const routeUseCase = new RouteUseCase(routeRepository);
  *     "fuelConsumption": 5000000,
  *     "distance": 1200,
  *     "totalEmissions": 457500000,
- *     "isBaseline": false
+ *     "isBaseline": false,
+ *     "voyageScope": "intra_eu",
+ *     "energyInScope": 5000000,
+ *     "fuelConsumptions": [
+ *       { "fuelType": "HFO", "mass": 110, "consumer": "main_engine" },
+ *       { "fuelType": "MGO", "mass": 12, "consumer": "auxiliary_engine" }
+ *     ]
  *   }
  * ]
  */
 router.get('/routes', async (req: Request, res: Response) => {
   try {
-    const routes = await routeUseCase.getAllRoutes();
+    const routes = await routeUseCase.getAllRoutes(getCompanyId(res));
     res.json(routes);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch routes' });
   }
 });
 
+/**
+ * POST /api/routes
+ * 
+ * Creates a route. GHG intensity must be non-negative, fuel consumption
+ * (energy in MJ) and distance positive, and the year from 2020.
+ * totalEmissions defaults to ghgIntensity × fuelConsumption and voyageScope
+ * to intra_eu.
+ * 
+ * @route POST /api/routes
+ * @param {Object} body - Route to create
+ * @param {string} body.routeId - Route ID, unique within the company
+ * @param {string} body.vesselType - Vessel type
+ * @param {string} body.fuelType - Main fuel type
+ * @param {number} body.year - Reporting year
+ * @param {number} body.ghgIntensity - GHG intensity (gCO₂e/MJ)
+ * @param {number} body.fuelConsumption - Energy used (MJ)
+ * @param {number} body.distance - Distance sailed (nautical miles)
+ * @param {number} [body.totalEmissions] - Total emissions (gCO₂e)
+ * @param {string} [body.voyageScope] - One of intra_eu, extra_eu or at_berth
+ * @returns {Promise<Route>} The created route
+ * @throws {400} Invalid route or route ID already taken
+ * 
+ * @example
+ * // Request
+ * POST /api/routes
+ * Content-Type: application/json
+ * {
+ *   "routeId": "R006",
+ *   "vesselType": "Container Ship",
+ *   "fuelType": "LNG",
+ *   "year": 2025,
+ *   "ghgIntensity": 76.2,
+ *   "fuelConsumption": 4800000,
+ *   "distance": 1350,
+ *   "voyageScope": "intra_eu"
+ * }
+ * 
+ * // Response 201
+ * {
+ *   "routeId": "R006",
+ *   ...
+ *   "totalEmissions": 365760000,
+ *   "isBaseline": false,
+ *   "energyInScope": 4800000,
+ *   "fuelConsumptions": []
+ * }
+ */
+router.post('/routes', async (req: Request, res: Response) => {
+  try {
+    const route = await routeUseCase.createRoute(getCompanyId(res), toRouteFields(req.body || {}));
+    res.status(201).json(route);
+  } catch (error: any) {
+    console.error('Error creating route:', error);
+    res.status(400).json({
+      error: error.message || 'Failed to create route',
+      example: ROUTE_EXAMPLE
+    });
+  }
+});
+
+/**
+ * POST /api/routes/bulk
+ * 
+ * Creates or updates many routes at once. Routes the company already has
+ * are updated with the fields given, the others are created with the same
+ * rules as POST /api/routes. All routes are validated first and saved in
+ * one transaction: if one is rejected, none are saved.
+ * 
+ * The CBs of the ships that sailed an updated route are recomputed.
+ * 
+ * @route POST /api/routes/bulk
+ * @param {Object} body - Bulk upsert request
+ * @param {Object[]} body.routes - Routes, with the same fields as POST /api/routes
+ * @returns {Promise<RouteBulkUpsert>} Each route with whether it was created, and the recomputed CBs
+ * @throws {400} A route is invalid or listed twice
+ * 
+ * @example
+ * // Request
+ * POST /api/routes/bulk
+ * Content-Type: application/json
+ * {
+ *   "routes": [
+ *     { "routeId": "R001", "ghgIntensity": 90.1 },
+ *     { "routeId": "R006", "vesselType": "Container Ship", "fuelType": "LNG", "year": 2025,
+ *       "ghgIntensity": 76.2, "fuelConsumption": 4800000, "distance": 1350 }
+ *   ]
+ * }
+ * 
+ * // Response 200
+ * {
+ *   "routes": [
+ *     { "route": { "routeId": "R001", ... }, "created": false },
+ *     { "route": { "routeId": "R006", ... }, "created": true }
+ *   ],
+ *   "recomputed": [
+ *     { "shipId": "SHIP-0001", "year": 2024, "cbGco2eq": -1250000, "rawCbGco2eq": -1250000, ... }
+ *   ]
+ * }
+ */
+router.post('/routes/bulk', async (req: Request, res: Response) => {
+  try {
+    const { routes } = req.body || {};
+
+    if (!Array.isArray(routes)) {
+      return res.status(400).json({
+        error: 'routes is required and must be an array',
+        example: { routes: [ROUTE_EXAMPLE] }
+      });
+    }
+
+    const result = await routeUseCase.upsertRoutes(
+      getCompanyId(res),
+      routes.map((route: any) => toRouteFields(route || {}))
+    );
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error upserting routes:', error);
+    res.status(400).json({ error: error.message || 'Failed to save routes' });
+  }
+});
+
+/**
+ * PUT /api/routes/:routeId
+ * 
+ * Updates the figures of a route. Only the fields present in the body are
+ * changed; the route ID itself cannot be changed. When ghgIntensity or
+ * fuelConsumption changes without totalEmissions, the emissions are derived
+ * again from them.
+ * 
+ * The CBs of the ships that sailed the route are recomputed, keeping the
+ * banking, borrowing and pooling changes made to them.
+ * 
+ * @route PUT /api/routes/:routeId
+ * @param {string} routeId - The unique identifier of the route
+ * @param {Object} body - Fields to update (same fields as POST /api/routes)
+ * @returns {Promise<RouteChange>} The updated route and the recomputed CBs
+ * @throws {400} Invalid route
+ * @throws {404} Route not found
+ * 
+ * @example
+ * // Request
+ * PUT /api/routes/R001
+ * Content-Type: application/json
+ * { "ghgIntensity": 90.1, "distance": 1250 }
+ * 
+ * // Response 200
+ * {
+ *   "route": { "routeId": "R001", "ghgIntensity": 90.1, "distance": 1250, ... },
+ *   "recomputed": [
+ *     { "shipId": "SHIP-0001", "year": 2024, "cbGco2eq": -1250000, "rawCbGco2eq": -1250000, ... }
+ *   ]
+ * }
+ */
+router.put('/routes/:routeId', async (req: Request, res: Response) => {
+  try {
+    const result = await routeUseCase.updateRoute(
+      getCompanyId(res),
+      req.params.routeId,
+      toRouteFields(req.body || {})
+    );
+
+    if (!result) {
+      return res.status(404).json({ error: `Route ${req.params.routeId} not found` });
+    }
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error updating route:', error);
+    res.status(400).json({ error: error.message || 'Failed to update route' });
+  }
+});
+
+/**
+ * DELETE /api/routes/:routeId
+ * 
+ * Removes a route together with its fuel consumption breakdown and the
+ * voyages sailed on it. The CBs of the ships that sailed the route are
+ * recomputed without those voyages.
+ * 
+ * @route DELETE /api/routes/:routeId
+ * @param {string} routeId - The unique identifier of the route
+ * @returns {204} Route removed
+ * @throws {400} The route could not be removed
+ * @throws {404} Route not found
+ */
+router.delete('/routes/:routeId', async (req: Request, res: Response) => {
+  try {
+    const recomputed = await routeUseCase.deleteRoute(getCompanyId(res), req.params.routeId);
+
+    if (!recomputed) {
+      return res.status(404).json({ error: `Route ${req.params.routeId} not found` });
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting route:', error);
+    res.status(400).json({ error: error.message || 'Failed to delete route' });
+  }
+});
+
+/**
+ * POST /api/routes/ghg-intensity
+ * 
+ * Calculates the well-to-wake GHG intensity of a fuel mix using the default
+ * emission factors of the fuel catalogue. Route creation uses this to derive
+ * ghgIntensity, fuelConsumption (energy) and totalEmissions from the fuels
+ * actually burnt instead of trusting hand-entered values.
+ * 
+ * @route POST /api/routes/ghg-intensity
+ * @param {Object} body - Intensity calculation request
+ * @param {Object[]} body.fuelMix - Consumed mass per fuel ({ fuelType, mass } in tonnes)
+ * @param {number} [body.year] - Reporting year; RFNBO energy counts twice through 2033
+ * @returns {Promise<WellToWakeResult>} Energy, emissions and GHG intensity of the mix
+ * @throws {400} Missing or invalid fuel mix
+ * 
+ * @example
+ * // Request
+ * POST /api/routes/ghg-intensity
+ * Content-Type: application/json
+ * {
+ *   "fuelMix": [{ "fuelType": "HFO", "mass": 120 }, { "fuelType": "MGO", "mass": 15 }]
+ * }
+ * 
+ * // Response 200
+ * {
+ *   "totalEnergy": 5500500,
+ *   "rfnboEnergy": 0,
+ *   "rewardedEnergy": 5500500,
+ *   "wellToTankEmissions": 74833200,
+ *   "tankToWakeEmissions": 429180150,
+ *   "totalEmissions": 504013350,
+ *   "ghgIntensity": 91.63
+ * }
+ */
+router.post('/routes/ghg-intensity', async (req: Request, res: Response) => {
+  try {
+    const { fuelMix, year } = req.body || {};
+    
+    if (!Array.isArray(fuelMix) || fuelMix.length === 0) {
+      return res.status(400).json({ 
+        error: 'fuelMix is required and must be a non-empty array',
+        example: { fuelMix: [{ fuelType: 'HFO', mass: 120 }, { fuelType: 'MGO', mass: 15 }] }
+      });
+    }
+    
+    const yearNum = year !== undefined ? parseInt(year) : undefined;
+    if (yearNum !== undefined && isNaN(yearNum)) {
+      return res.status(400).json({ error: 'year must be a valid number', received: year });
+    }
+    
+    const result = routeUseCase.calculateIntensity(fuelMix, yearNum);
+    res.json(result);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'Failed to calculate GHG intensity' });
+  }
+});
+
+/**
+ * PUT /api/routes/:routeId/voyage-scope
+ * 
+ * Classifies a route by how much of its energy falls within scope:
+ * - intra_eu: between two EU ports (100% of energy)
+ * - extra_eu: into or out of the EU (50% of energy)
+ * - at_berth: at berth in an EU port (100% of energy)
+ * 
+ * @route PUT /api/routes/:routeId/voyage-scope
+ * @param {string} routeId - The unique identifier of the route
+ * @param {Object} body - Scope request
+ * @param {string} body.voyageScope - One of intra_eu, extra_eu or at_berth
+ * @returns {Promise<Route>} The route with its energy in scope recalculated;
+ * the CBs of the ships that sailed it are recomputed
+ * @throws {400} Missing or unknown voyage scope
+ * @throws {404} Route not found
+ * 
+ * @example
+ * // Request
+ * PUT /api/routes/R002/voyage-scope
+ * Content-Type: application/json
+ * { "voyageScope": "extra_eu" }
+ */
+router.put('/routes/:routeId/voyage-scope', async (req: Request, res: Response) => {
+  try {
+    const { routeId } = req.params;
+    const { voyageScope } = req.body || {};
+    
+    if (!voyageScope || typeof voyageScope !== 'string') {
+      return res.status(400).json({ 
+        error: 'voyageScope is required and must be one of intra_eu, extra_eu, at_berth',
+        received: voyageScope
+      });
+    }
+    
+    const existingRoute = await routeRepository.findByRouteId(getCompanyId(res), routeId);
+    if (!existingRoute) {
+      return res.status(404).json({ error: `Route ${routeId} not found` });
+    }
+    
+    const route = await routeUseCase.setVoyageScope(getCompanyId(res), routeId, voyageScope.trim());
+    res.json(route);
+  } catch (error: any) {
+    console.error('Error saving voyage scope:', error);
+    res.status(400).json({ error: error.message || 'Failed to save voyage scope' });
+  }
+});
+
+/**
+ * PUT /api/routes/:routeId/fuel-consumption
+ * 
+ * Replaces the fuel consumption breakdown of a route. Each entry records the
+ * mass of one fuel burnt by one on-board consumer, e.g. HFO in the main engine
+ * at sea and MGO in the auxiliary engines in port.
+ * 
+ * @route PUT /api/routes/:routeId/fuel-consumption
+ * @param {string} routeId - The unique identifier of the route
+ * @param {Object} body - Breakdown request
+ * @param {Object[]} body.fuelConsumptions - Entries of { fuelType, mass (tonnes), consumer }
+ * @returns {Promise<Route>} The route with intensity, energy and emissions aggregated over the breakdown;
+ * the CBs of the ships that sailed it are recomputed
+ * @throws {400} Missing or invalid breakdown entries
+ * @throws {404} Route not found
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * PUT /api/routes/R001/fuel-consumption
+ * Content-Type: application/json
+ * {
+ *   "fuelConsumptions": [
+ *     { "fuelType": "LNG", "mass": 95, "consumer": "main_engine" },
+ *     { "fuelType": "MGO", "mass": 4, "consumer": "main_engine" },
+ *     { "fuelType": "MGO", "mass": 10, "consumer": "auxiliary_engine" }
+ *   ]
+ * }
+ */
+router.put('/routes/:routeId/fuel-consumption', async (req: Request, res: Response) => {
+  try {
+    const { routeId } = req.params;
+    const { fuelConsumptions } = req.body || {};
+    
+    if (!Array.isArray(fuelConsumptions)) {
+      return res.status(400).json({ 
+        error: 'fuelConsumptions is required and must be an array',
+        example: { fuelConsumptions: [{ fuelType: 'HFO', mass: 110, consumer: 'main_engine' }] }
+      });
+    }
+    
+    const existingRoute = await routeRepository.findByRouteId(getCompanyId(res), routeId);
+    if (!existingRoute) {
+      return res.status(404).json({ error: `Route ${routeId} not found` });
+    }
+    
+    const entries = fuelConsumptions.map((entry: any) => ({
+      fuelType: entry?.fuelType,
+      mass: typeof entry?.mass === 'string' ? parseFloat(entry.mass) : entry?.mass,
+      consumer: entry?.consumer || 'main_engine',
+    }));
+    
+    const route = await routeUseCase.setFuelConsumptions(getCompanyId(res), routeId, entries);
+    res.json(route);
+  } catch (error: any) {
+    console.error('Error saving fuel consumption:', error);
+    res.status(400).json({ error: error.message || 'Failed to save fuel consumption' });
+  }
+});
+
 /**
  * POST /api/routes/:routeId/baseline
  * 
  * Sets a route as the baseline for comparison purposes. The baseline route
  * serves as a reference point for comparing other routes' emissions and performance.
  * 
- * The request body can override route data, but if not provided, existing route
- * data will be used. All required fields must be present.
+ * The baseline figures are the route's own, aggregated over its fuel
+ * breakdown; the company's previous baseline route is unmarked.
  * 
  * @route POST /api/routes/:routeId/baseline
  * @param {string} routeId - The unique identifier of the route to set as baseline
- * @param {Object} body - Optional baseline data to override route values
- * @param {number} [body.year] - Year of the baseline (defaults to route year)
- * @param {number} [body.ghgIntensity] - GHG intensity in gCO₂e/MJ (defaults to route value)
- * @param {number} [body.fuelConsumption] - Fuel consumption in MJ (defaults to route value)
- * @param {number} [body.distance] - Distance in nautical miles (defaults to route value)
- * @param {number} [body.totalEmissions] - Total emissions in gCO₂e (defaults to route value)
- * @returns {Promise<Baseline>} The saved baseline data
+ * @returns {Promise<Baseline>} The baseline figures
  * @throws {404} Route not found
- * @throws {400} Missing required fields
  * @throws {500} Internal server error
  * 
  * @example
  * // Request
  * POST /api/routes/R001/baseline
- * Content-Type: application/json
- * {
- *   "year": 2024,
- *   "ghgIntensity": 85.5,
- *   "fuelConsumption": 5000000,
- *   "distance": 1200,
- *   "totalEmissions": 427500000
- * }
  * 
  * // Response 200
  * {
@@ -107,36 +520,12 @@ router.post('/routes/:routeId/baseline', async (req: Request, res: Response) =>
   try {
     const { routeId } = req.params;
     
-    // Verify route exists before setting as baseline
-    // This ensures we have all required data for baseline creation
-    const existingRoute = await routeRepository.findByRouteId(routeId);
+    const savedBaseline = await routeUseCase.setBaseline(getCompanyId(res), routeId);
     
-    if (!existingRoute) {
+    if (!savedBaseline) {
       return res.status(404).json({ error: `Route ${routeId} not found` });
     }
     
-    // Create baseline object with route data as defaults
-    // Request body values override existing route data if provided
-    const baseline: Baseline = {
-      routeId,
-      year: req.body.year || existingRoute.year,
-      ghgIntensity: req.body.ghgIntensity || existingRoute.ghgIntensity,
-      fuelConsumption: req.body.fuelConsumption || existingRoute.fuelConsumption,
-      distance: req.body.distance || existingRoute.distance,
-      totalEmissions: req.body.totalEmissions || existingRoute.totalEmissions,
-    };
-    
-    // Validate that all required fields are present
-    // All fields must have valid values (not undefined, null, or empty)
-    if (!baseline.year || baseline.ghgIntensity === undefined || baseline.fuelConsumption === undefined || 
-        baseline.distance === undefined || baseline.totalEmissions === undefined) {
-      return res.status(400).json({ 
-        error: 'Missing required fields. Provide year, ghgIntensity, fuelConsumption, distance, and totalEmissions' 
-      });
-    }
-    
-    // Save baseline and return the saved data
-    const savedBaseline = await routeUseCase.setBaseline(routeId, baseline);
     res.json(savedBaseline);
   } catch (error: any) {
     console.error('Error setting baseline:', error);
@@ -149,25 +538,26 @@ router.post('/routes/:routeId/baseline', async (req: Request, res: Response) =>
  * 
  * Retrieves comparison data between routes and their baseline.
  * Supports two modes:
- * 1. Single route comparison: Provide routeId and year query parameters
+ * 1. Single route comparison: Provide the routeId query parameter
  * 2. All routes comparison: Omit routeId to compare all routes with baseline
  * 
  * The comparison includes:
  * - Baseline route data
  * - Current route data
  * - Percent difference in GHG intensity
- * - Compliance status against regulatory target (89.3368 gCO₂e/MJ)
+ * - Compliance status against the regulatory target for the route's year
+ *   (e.g. 89.3368 gCO₂e/MJ for 2025-2029, 85.6904 gCO₂e/MJ for 2030-2034)
  * 
  * @route GET /api/routes/comparison
  * @param {string} [query.routeId] - Optional route ID for single route comparison
- * @param {string} [query.year] - Optional year filter (required if routeId is provided)
+ * @param {string} [query.year] - Optional year filter for the all routes comparison
  * @returns {Promise<ComparisonData|ComparisonData[]>} Single comparison or array of comparisons
- * @throws {400} Invalid year parameter or missing year when routeId provided
+ * @throws {400} Invalid year parameter
  * @throws {500} Internal server error
  * 
  * @example
  * // Single route comparison
- * GET /api/routes/comparison?routeId=R001&year=2024
+ * GET /api/routes/comparison?routeId=R001
  * 
  * // Response 200
  * {
@@ -196,28 +586,8 @@ router.get('/routes/comparison', async (req: Request, res: Response) => {
     // Mode 1: Single route comparison (backward compatibility)
     // If routeId is provided, compare only that specific route
     if (routeId && routeId.trim() !== '') {
-      // Year is required for single route comparison
-      if (!year || year.trim() === '') {
-        return res.status(400).json({ 
-          error: 'year query parameter is required when routeId is provided',
-          example: '/api/routes/comparison?routeId=R001&year=2024'
-        });
-      }
-      
-      // Validate and parse year parameter
-      const yearNum = parseInt(year.trim());
-      if (isNaN(yearNum)) {
-        return res.status(400).json({ 
-          error: 'year must be a valid number',
-          received: year
-        });
-      }
-      
       // Get comparison for single route
-      const comparison = await routeUseCase.getComparison(
-        routeId.trim(),
-        yearNum
-      );
+      const comparison = await routeUseCase.getComparison(getCompanyId(res), routeId.trim());
       return res.json(comparison);
     }
     
@@ -233,7 +603,7 @@ router.get('/routes/comparison', async (req: Request, res: Response) => {
     }
     
     // Get comparisons for all routes (optionally filtered by year)
-    const comparisons = await routeUseCase.getAllComparisons(yearNum);
+    const comparisons = await routeUseCase.getAllComparisons(getCompanyId(res), yearNum);
     res.json(comparisons);
   } catch (error: any) {
     console.error('Error getting comparison:', error);
@@ -0,0 +1,149 @@
+/**
+ * Settlement Routes Module
+ *
+ * This module defines all HTTP endpoints related to the settlement of
+ * surplus traded between companies through pools, including the yearly
+ * settlement report of a company and confirming payment of a settlement.
+ *
+ * @module routes/settlementRoutes
+ * @requires express
+ * @requires PoolSettlementUseCase
+ * @requires PostgresPoolRepository
+ * @requires tenant
+ * @requires actor
+ */
+
+import { Router, Request, Response } from 'express';
+import { PoolSettlementUseCase } from '../../../../core/application/PoolSettlementUseCase';
+import { PoolLifecycleError } from '../../../../core/domain/PoolLifecycle';
+import { PostgresPoolRepository } from '../../../outbound/postgres/PostgresPoolRepository';
+import { getCompanyId } from '../middleware/tenant';
+import { ACTOR_HEADER, getActor } from '../middleware/actor';
+
+const router = Router();
+
+// Initialize repository and use case instances
+// Using PostgreSQL repository for persistent data storage
+const poolRepository = new PostgresPoolRepository();
+const settlementUseCase = new PoolSettlementUseCase(poolRepository);
+
+/**
+ * GET /api/settlements
+ *
+ * Retrieves the settlement report of the company for a pool year: the
+ * surplus each member of a priced pool gave or received and its value,
+ * the settlements the company pays or receives, and the payable and
+ * receivable totals. Void settlements of cancelled pools are listed but
+ * not counted.
+ *
+ * @route GET /api/settlements
+ * @param {number} year - Query parameter, the pool year
+ * @returns {Promise<SettlementReport>} Transfers, settlements and totals
+ * @throws {400} Invalid year parameter
+ * @throws {500} Internal server error
+ *
+ * @example
+ * // Request
+ * GET /api/settlements?year=2025
+ *
+ * // Response 200
+ * {
+ *   "companyId": "acme",
+ *   "year": 2025,
+ *   "pools": [
+ *     {
+ *       "poolId": "12",
+ *       "pricePerTonne": 150,
+ *       "members": [
+ *         { "shipId": "SHIP001", "companyId": "acme", "transferredGco2eq": 2000000, "amountEur": 300 },
+ *         { "shipId": "SHIP101", "companyId": "globex", "transferredGco2eq": -2000000, "amountEur": -300 }
+ *       ]
+ *     }
+ *   ],
+ *   "settlements": [
+ *     { "settlementId": "4", "poolId": "12", "year": 2025, "payerCompanyId": "acme", "payeeCompanyId": "globex", "transferredGco2eq": 2000000, "amountEur": 300, "status": "pending" }
+ *   ],
+ *   "totalPayableEur": 300,
+ *   "totalReceivableEur": 0,
+ *   "outstandingPayableEur": 300,
+ *   "outstandingReceivableEur": 0,
+ *   "netEur": -300
+ * }
+ */
+router.get('/settlements', async (req: Request, res: Response) => {
+  try {
+    const yearNum = parseInt(req.query.year as string);
+    if (isNaN(yearNum)) {
+      return res.status(400).json({ error: 'year query parameter is required and must be a valid number' });
+    }
+
+    const report = await settlementUseCase.getSettlementReport(getCompanyId(res), yearNum);
+    res.json(report);
+  } catch (error: any) {
+    console.error('Error fetching settlement report:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to fetch settlement report',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * PATCH /api/settlements/:settlementId
+ *
+ * Confirms payment of a pending settlement. Only the payee can confirm it
+ * has been paid, once the pool is verified. The X-Actor header naming who
+ * confirms the payment is required.
+ *
+ * @route PATCH /api/settlements/:settlementId
+ * @param {string} settlementId - The settlement ID
+ * @param {string} status - Must be "settled"
+ * @returns {Promise<PoolSettlement>} The settled settlement
+ * @throws {400} Invalid status or missing actor
+ * @throws {404} Settlement not found
+ * @throws {409} Company is not the payee, settlement not pending or pool not verified
+ * @throws {500} Internal server error
+ *
+ * @example
+ * // Request
+ * PATCH /api/settlements/4
+ * X-Actor: j.smith
+ * { "status": "settled" }
+ */
+router.patch('/settlements/:settlementId', async (req: Request, res: Response) => {
+  try {
+    if (req.body.status !== 'settled') {
+      return res.status(400).json({ error: 'status must be settled' });
+    }
+
+    const actor = getActor(req);
+    if (!actor) {
+      return res.status(400).json({ error: `The ${ACTOR_HEADER} header is required to settle a payment` });
+    }
+
+    const settlement = await settlementUseCase.settle(getCompanyId(res), req.params.settlementId, actor);
+
+    if (!settlement) {
+      return res.status(404).json({ error: `Settlement ${req.params.settlementId} not found` });
+    }
+
+    res.json(settlement);
+  } catch (error: any) {
+    console.error('Error settling payment:', error);
+
+    if (error instanceof PoolLifecycleError) {
+      return res.status(409).json({ error: error.message });
+    }
+
+    res.status(500).json({
+      error: error.message || 'Failed to settle payment',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * Export the router instance for use in the main server configuration
+ * @exports router
+ */
+export default router;
@@ -9,19 +9,40 @@
  * @requires express
  * @requires ShipComplianceUseCase
  * @requires PostgresShipComplianceRepository
+ * @requires PostgresBorrowingRepository
+ * @requires PostgresVoyageRepository
+ * @requires PostgresRouteRepository
+ * @requires PostgresComplianceRepository
+ * @requires tenant
  */
 
 import { Router, Request, Response } from 'express';
 import { ShipComplianceUseCase } from '../../../../core/application/ShipComplianceUseCase';
 import { PostgresShipComplianceRepository } from '../../../outbound/postgres/PostgresShipComplianceRepository';
+import { PostgresBorrowingRepository } from '../../../outbound/postgres/PostgresBorrowingRepository';
+import { PostgresVoyageRepository } from '../../../outbound/postgres/PostgresVoyageRepository';
+import { PostgresRouteRepository } from '../../../outbound/postgres/PostgresRouteRepository';
+import { PostgresComplianceRepository } from '../../../outbound/postgres/PostgresComplianceRepository';
 import { ComputeCBRequest } from '../../../../core/domain/ShipCompliance';
+import { FUEL_CATALOGUE, isKnownFuelType } from '../../../../core/domain/Fuel';
+import { FUEL_CONSUMERS } from '../../../../core/domain/Route';
+import { getCompanyId } from '../middleware/tenant';
 
 const router = Router();
 
 // Initialize repository and use case instances
 // Using PostgreSQL repository for persistent data storage
 const shipComplianceRepository = new PostgresShipComplianceRepository();
-const shipComplianceUseCase = new ShipComplianceUseCase(shipComplianceRepository);
+const borrowingRepository = new PostgresBorrowingRepository();
+const voyageRepository = new PostgresVoyageRepository();
+const routeRepository = new PostgresRouteRepository();
+const shipComplianceUseCase = new ShipComplianceUseCase(
+  shipComplianceRepository,
+  borrowingRepository,
+  voyageRepository,
+  routeRepository,
+  new PostgresComplianceRepository()
+);
 
 /**
  * GET /api/ship-compliance/year/:year
@@ -64,7 +85,7 @@ router.get('/ship-compliance/year/:year', async (req: Request, res: Response) =>
       return res.status(400).json({ error: 'year must be a valid number' });
     }
     
-    const complianceList = await shipComplianceUseCase.getAllShipCompliance(yearNum);
+    const complianceList = await shipComplianceUseCase.getAllShipCompliance(getCompanyId(res), yearNum);
     res.json(complianceList);
   } catch (error: any) {
     console.error('Error fetching ship compliance list:', error);
@@ -116,7 +137,7 @@ router.get('/ship-compliance/:shipId/:year', async (req: Request, res: Response)
       return res.status(400).json({ error: 'year must be a valid number' });
     }
     
-    const compliance = await shipComplianceUseCase.getShipCompliance(shipId.trim(), yearNum);
+    const compliance = await shipComplianceUseCase.getShipCompliance(getCompanyId(res), shipId.trim(), yearNum);
     
     if (!compliance) {
       return res.status(404).json({ error: `Compliance balance not found for ship ${shipId} in year ${yearNum}` });
@@ -135,23 +156,37 @@ router.get('/ship-compliance/:shipId/:year', async (req: Request, res: Response)
 /**
  * POST /api/ship-compliance/compute
  * 
- * Computes and saves the compliance balance for a ship based on route data.
+ * Assigns the route to the ship as a voyage of the year and recomputes the
+ * ship's yearly compliance balance from all voyages assigned for that year.
  * 
  * This endpoint calculates the compliance balance (CB) by comparing the ship's
- * route emissions against the regulatory target. The CB represents the difference
- * between the target emissions and actual emissions, where:
+ * route emissions against the regulatory target:
+ * 
+ *   CB = (Target - GHG intensity) × Energy in scope
+ * 
+ * Energy in scope is 100% of the route's energy for intra-EU voyages and at
+ * berth, and 50% for voyages into or out of the EU. Where:
  * - Positive CB = Surplus (ship is compliant with excess credits)
  * - Negative CB = Deficit (ship is non-compliant and needs to offset)
  * 
+ * Advance surplus borrowed for the year is added back, and borrowings of the
+ * previous year are repaid by deducting 1.1 × the borrowed amount.
+ * 
  * The computed CB is saved to the database and can be used for banking and pooling operations.
  * 
  * @route POST /api/ship-compliance/compute
  * @param {Object} body - Compute CB request
  * @param {string} body.shipId - The unique identifier of the ship
  * @param {number} body.year - The year for which to compute compliance balance
- * @param {string} body.routeId - The route ID to use for computing compliance balance
- * @returns {Promise<ShipCompliance>} The computed and saved compliance balance
- * @throws {400} Invalid or missing request parameters
+ * @param {string} body.routeId - The route sailed by the ship, added to its voyages for the year
+ * @param {Object[]} [body.fuelMix] - Optional consumed mass per fuel ({ fuelType, mass, consumer? } in
+ *   tonnes, the consumer defaults to main_engine). Only accepted for routes without a fuel consumption
+ *   breakdown: it is saved as the route's breakdown, together with the voyage, so the route's GHG
+ *   intensity and energy are derived from it in this and every later computation; the CBs of other
+ *   ships that sailed the route are recomputed with it. A route's existing breakdown is changed
+ *   through PUT /api/routes/:routeId/fuel-consumption
+ * @returns {Promise<Object>} The computed and saved compliance balance with per-voyage contributions
+ * @throws {400} Invalid or missing request parameters, or a fuelMix for a route that already has a breakdown
  * @throws {404} Route not found
  * @throws {500} Internal server error
  * 
@@ -160,16 +195,31 @@ router.get('/ship-compliance/:shipId/:year', async (req: Request, res: Response)
  * POST /api/ship-compliance/compute
  * Content-Type: application/json
  * {
- *   "shipId": "R001",
+ *   "shipId": "SHIP-0001",
  *   "year": 2024,
- *   "routeId": "R001"
+ *   "routeId": "R002"
  * }
  * 
  * // Response 200
  * {
- *   "shipId": "R001",
+ *   "shipId": "SHIP-0001",
  *   "year": 2024,
- *   "cbGco2eq": 50000
+ *   "cbGco2eq": 3410400,
+ *   "ghgIntensity": 88.2,
+ *   "totalEnergy": 6000000,
+ *   "energyInScope": 3000000,
+ *   "voyages": [
+ *     {
+ *       "routeId": "R002",
+ *       "voyageScope": "extra_eu",
+ *       "ghgIntensity": 88.2,
+ *       "totalEnergy": 6000000,
+ *       "energyInScope": 3000000,
+ *       "rfnboEnergy": 0,
+ *       "energyShare": 1,
+ *       "cbGco2eq": 3410400
+ *     }
+ *   ]
  * }
  */
 router.post('/ship-compliance/compute', async (req: Request, res: Response) => {
@@ -227,32 +277,73 @@ router.post('/ship-compliance/compute', async (req: Request, res: Response) => {
       });
     }
     
-    // Validate routeId - if not provided, use shipId as routeId
-    let routeId: string;
-    if (request.routeId && typeof request.routeId === 'string' && request.routeId.trim() !== '') {
-      routeId = request.routeId.trim();
-    } else if (request.shipId && typeof request.shipId === 'string') {
-      // If routeId is not provided, use shipId as routeId (common case where ship uses its route ID)
-      routeId = request.shipId.trim();
-      console.log(`⚠️  routeId not provided, using shipId as routeId: ${routeId}`);
-    } else {
+    // Validate routeId - ships and routes are separate, the route must be given
+    if (!request.routeId || typeof request.routeId !== 'string' || request.routeId.trim() === '') {
       return res.status(400).json({ 
-        error: 'routeId is required. If not provided, shipId will be used as routeId',
+        error: 'routeId is required and must be a non-empty string',
         received: request.routeId,
         type: typeof request.routeId,
-        hint: 'Either provide routeId in the request body, or ensure shipId matches a valid routeId'
+        example: { shipId: 'SHIP-0001', year: 2024, routeId: 'R001' }
       });
     }
+    const routeId = request.routeId.trim();
+    
+    // Validate fuelMix if provided
+    if (request.fuelMix !== undefined) {
+      const isValidMix = Array.isArray(request.fuelMix) && request.fuelMix.every(entry =>
+        entry && typeof entry.fuelType === 'string' && typeof entry.mass === 'number'
+      );
+      if (!isValidMix) {
+        return res.status(400).json({
+          error: 'fuelMix must be an array of { fuelType: string, mass: number } entries',
+          received: request.fuelMix,
+          example: { fuelMix: [{ fuelType: 'HFO', mass: 120 }, { fuelType: 'MGO', mass: 15 }] }
+        });
+      }
+
+      // The mix becomes the route's breakdown, so it is checked before anything is saved
+      const unknownFuels = request.fuelMix.filter(entry => !isKnownFuelType(entry.fuelType));
+      if (unknownFuels.length > 0) {
+        return res.status(400).json({
+          error: `Unknown fuel types: ${unknownFuels.map(entry => entry.fuelType).join(', ')}`,
+          availableFuelTypes: Object.keys(FUEL_CATALOGUE)
+        });
+      }
+      if (request.fuelMix.some(entry => !Number.isFinite(entry.mass) || entry.mass < 0)) {
+        return res.status(400).json({ error: 'fuelMix masses must be non-negative numbers (tonnes)' });
+      }
+      if (request.fuelMix.length > 0 && !request.fuelMix.some(entry => entry.mass > 0)) {
+        return res.status(400).json({ error: 'fuelMix must contain a positive amount of fuel' });
+      }
+      if (request.fuelMix.some(entry => entry.consumer !== undefined && !FUEL_CONSUMERS.includes(entry.consumer))) {
+        return res.status(400).json({
+          error: `fuelMix consumers must be one of ${FUEL_CONSUMERS.join(', ')}`
+        });
+      }
+
+      if (request.fuelMix.length > 0) {
+        const route = await routeRepository.findByRouteId(getCompanyId(res), routeId);
+        if (!route) {
+          return res.status(404).json({ error: `Route ${routeId} not found` });
+        }
+        if (route.fuelConsumptions && route.fuelConsumptions.length > 0) {
+          return res.status(400).json({
+            error: `Route ${routeId} already has a fuel consumption breakdown; change it through PUT /api/routes/${routeId}/fuel-consumption`
+          });
+        }
+      }
+    }
     
     // Create validated request object
     const validatedRequest: ComputeCBRequest = {
       shipId: request.shipId.trim(),
       year: yearNum,
       routeId: routeId,
+      fuelMix: request.fuelMix,
     };
     
-    const compliance = await shipComplianceUseCase.computeComplianceBalance(validatedRequest);
-    res.json(compliance);
+    const { compliance, breakdown } = await shipComplianceUseCase.computeComplianceBalance(getCompanyId(res), validatedRequest);
+    res.json({ ...compliance, voyages: breakdown.voyages });
   } catch (error: any) {
     console.error('Error computing ship compliance:', error);
     res.status(500).json({ 
@@ -262,6 +353,147 @@ router.post('/ship-compliance/compute', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/ship-compliance/:shipId/:year/voyages
+ * 
+ * Retrieves the voyages assigned to a ship for a year and each voyage's
+ * contribution to the yearly compliance balance. The yearly GHG intensity
+ * is the average of the voyage intensities weighted by energy in scope.
+ * 
+ * @route GET /api/ship-compliance/:shipId/:year/voyages
+ * @param {string} shipId - The unique identifier of the ship
+ * @param {string} year - The reporting year
+ * @returns {Promise<VoyageAggregate>} Yearly aggregate with per-voyage contributions
+ * @throws {400} Invalid year parameter
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/ship-compliance/SHIP-0001/2024/voyages
+ * 
+ * // Response 200
+ * {
+ *   "shipId": "SHIP-0001",
+ *   "year": 2024,
+ *   "ghgIntensity": 89.34,
+ *   "totalEnergy": 11000000,
+ *   "energyInScope": 8000000,
+ *   "rfnboEnergy": 0,
+ *   "cbGco2eq": 14400000,
+ *   "voyages": [ ... ]
+ * }
+ */
+router.get('/ship-compliance/:shipId/:year/voyages', async (req: Request, res: Response) => {
+  try {
+    const { shipId, year } = req.params;
+
+    const yearNum = parseInt(year);
+    if (isNaN(yearNum)) {
+      return res.status(400).json({ error: 'year must be a valid number' });
+    }
+
+    const breakdown = await shipComplianceUseCase.getVoyageBreakdown(getCompanyId(res), shipId.trim(), yearNum);
+    res.json(breakdown);
+  } catch (error: any) {
+    console.error('Error fetching voyage breakdown:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to fetch voyage breakdown',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/ship-compliance/:shipId/:year/voyages
+ * 
+ * Adds a voyage (route) to a ship's reporting year and recomputes the
+ * ship's yearly compliance balance.
+ * 
+ * @route POST /api/ship-compliance/:shipId/:year/voyages
+ * @param {string} shipId - The unique identifier of the ship
+ * @param {string} year - The reporting year
+ * @param {Object} body - Voyage request
+ * @param {string} body.routeId - The route sailed by the ship
+ * @returns {Promise<Object>} The recomputed compliance balance with per-voyage contributions
+ * @throws {400} Invalid parameters, unknown ship or route
+ * 
+ * @example
+ * // Request
+ * POST /api/ship-compliance/SHIP-0001/2024/voyages
+ * Content-Type: application/json
+ * { "routeId": "R003" }
+ */
+router.post('/ship-compliance/:shipId/:year/voyages', async (req: Request, res: Response) => {
+  try {
+    const { shipId, year } = req.params;
+    const { routeId } = req.body || {};
+
+    const yearNum = parseInt(year);
+    if (isNaN(yearNum)) {
+      return res.status(400).json({ error: 'year must be a valid number' });
+    }
+
+    if (!routeId || typeof routeId !== 'string' || routeId.trim() === '') {
+      return res.status(400).json({ 
+        error: 'routeId is required and must be a non-empty string',
+        received: routeId,
+        example: { routeId: 'R001' }
+      });
+    }
+
+    const { compliance, breakdown } = await shipComplianceUseCase.assignVoyage(
+      getCompanyId(res),
+      shipId.trim(),
+      routeId.trim(),
+      yearNum
+    );
+    res.json({ ...compliance, voyages: breakdown.voyages });
+  } catch (error: any) {
+    console.error('Error adding voyage:', error);
+    res.status(400).json({ error: error.message || 'Failed to add voyage' });
+  }
+});
+
+/**
+ * DELETE /api/ship-compliance/:shipId/:year/voyages/:routeId
+ * 
+ * Removes a voyage from a ship's reporting year and recomputes the ship's
+ * yearly compliance balance from the remaining voyages.
+ * 
+ * @route DELETE /api/ship-compliance/:shipId/:year/voyages/:routeId
+ * @param {string} shipId - The unique identifier of the ship
+ * @param {string} year - The reporting year
+ * @param {string} routeId - The route to remove
+ * @returns {Promise<Object>} The recomputed compliance balance with per-voyage contributions
+ * @throws {400} Invalid year parameter
+ * @throws {404} Voyage not assigned to the ship for that year
+ * @throws {500} Internal server error
+ */
+router.delete('/ship-compliance/:shipId/:year/voyages/:routeId', async (req: Request, res: Response) => {
+  try {
+    const { shipId, year, routeId } = req.params;
+
+    const yearNum = parseInt(year);
+    if (isNaN(yearNum)) {
+      return res.status(400).json({ error: 'year must be a valid number' });
+    }
+
+    const result = await shipComplianceUseCase.removeVoyage(getCompanyId(res), shipId.trim(), routeId.trim(), yearNum);
+
+    if (!result) {
+      return res.status(404).json({ error: `Route ${routeId} is not a voyage of ship ${shipId} in year ${yearNum}` });
+    }
+
+    res.json({ ...result.compliance, voyages: result.breakdown.voyages });
+  } catch (error: any) {
+    console.error('Error removing voyage:', error);
+    res.status(500).json({ 
+      error: error.message || 'Failed to remove voyage',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
 /**
  * Export the router instance for use in the main server configuration
  * @exports router
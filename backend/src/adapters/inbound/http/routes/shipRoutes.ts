@@ -0,0 +1,251 @@
+/**
+ * Ship Routes Module
+ * 
+ * This module defines all HTTP endpoints of the ship registry, including
+ * listing, registering, updating and removing ships. Compliance balances,
+ * bank entries, borrowings and pool memberships reference ships registered
+ * here by their ship ID. Ships are registered with the company selected by
+ * the X-Company-Id header.
+ * 
+ * @module routes/shipRoutes
+ * @requires express
+ * @requires ShipUseCase
+ * @requires PostgresShipRepository
+ * @requires tenant
+ */
+
+import { Router, Request, Response } from 'express';
+import { ShipUseCase } from '../../../../core/application/ShipUseCase';
+import { PostgresShipRepository } from '../../../outbound/postgres/PostgresShipRepository';
+import { Ship } from '../../../../core/domain/Ship';
+import { getCompanyId } from '../middleware/tenant';
+
+const router = Router();
+
+// Initialize repository and use case instances
+// Using PostgreSQL repository for persistent data storage
+const shipRepository = new PostgresShipRepository();
+const shipUseCase = new ShipUseCase(shipRepository);
+
+const SHIP_EXAMPLE = {
+  shipId: 'SHIP-0001',
+  imoNumber: '9074729',
+  name: 'Nordic Star',
+  grossTonnage: 45000,
+  shipType: 'Container Ship',
+  flag: 'MT',
+  iceClass: '1A',
+};
+
+/**
+ * Picks the ship fields from a request body
+ * Numeric strings are accepted for grossTonnage
+ */
+function toShipFields(body: any): Partial<Ship> {
+  const fields: Partial<Ship> = {};
+  const textFields = ['shipId', 'imoNumber', 'name', 'shipType', 'flag', 'iceClass'] as const;
+
+  for (const field of textFields) {
+    if (typeof body[field] === 'string') {
+      fields[field] = body[field].trim();
+    }
+  }
+  if (body.grossTonnage !== undefined) {
+    fields.grossTonnage = typeof body.grossTonnage === 'string'
+      ? parseFloat(body.grossTonnage)
+      : body.grossTonnage;
+  }
+
+  return fields;
+}
+
+/**
+ * GET /api/ships
+ * 
+ * Retrieves all registered ships.
+ * 
+ * @route GET /api/ships
+ * @returns {Promise<Ship[]>} Array of ships ordered by ship ID
+ * @throws {500} Internal server error
+ * 
+ * @example
+ * // Request
+ * GET /api/ships
+ * 
+ * // Response 200
+ * [
+ *   {
+ *     "id": 1,
+ *     "shipId": "SHIP-0001",
+ *     "imoNumber": "9074729",
+ *     "name": "Nordic Star",
+ *     "grossTonnage": 45000,
+ *     "shipType": "Container Ship",
+ *     "flag": "MT",
+ *     "iceClass": "1A",
+ *     "companyId": "default",
+ *     "createdAt": "2025-01-10T09:00:00.000Z",
+ *     "updatedAt": "2025-01-10T09:00:00.000Z"
+ *   }
+ * ]
+ */
+router.get('/ships', async (req: Request, res: Response) => {
+  try {
+    const ships = await shipUseCase.getAllShips(getCompanyId(res));
+    res.json(ships);
+  } catch (error: any) {
+    console.error('Error fetching ships:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to fetch ships',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * GET /api/ships/:shipId
+ * 
+ * Retrieves a single registered ship.
+ * 
+ * @route GET /api/ships/:shipId
+ * @param {string} shipId - The unique identifier of the ship
+ * @returns {Promise<Ship>} The ship
+ * @throws {404} Ship not found
+ * @throws {500} Internal server error
+ */
+router.get('/ships/:shipId', async (req: Request, res: Response) => {
+  try {
+    const ship = await shipUseCase.getShip(getCompanyId(res), req.params.shipId);
+
+    if (!ship) {
+      return res.status(404).json({ error: `Ship ${req.params.shipId} not found` });
+    }
+
+    res.json(ship);
+  } catch (error: any) {
+    console.error('Error fetching ship:', error);
+    res.status(500).json({
+      error: error.message || 'Failed to fetch ship',
+      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+    });
+  }
+});
+
+/**
+ * POST /api/ships
+ * 
+ * Registers a new ship. The IMO number is checked against its check digit
+ * and must be unique, as must the ship ID.
+ * 
+ * @route POST /api/ships
+ * @param {Object} body - Ship to register
+ * @param {string} body.shipId - The unique identifier of the ship
+ * @param {string} body.imoNumber - 7-digit IMO number
+ * @param {string} body.name - Ship name
+ * @param {number} body.grossTonnage - Gross tonnage
+ * @param {string} body.shipType - Ship type (e.g. "Container Ship")
+ * @param {string} body.flag - Flag state
+ * @param {string} [body.iceClass] - Ice class, if any
+ * @returns {Promise<Ship>} The registered ship
+ * @throws {400} Invalid ship or ship already registered
+ * 
+ * @example
+ * // Request
+ * POST /api/ships
+ * Content-Type: application/json
+ * {
+ *   "shipId": "SHIP-0001",
+ *   "imoNumber": "9074729",
+ *   "name": "Nordic Star",
+ *   "grossTonnage": 45000,
+ *   "shipType": "Container Ship",
+ *   "flag": "MT",
+ *   "iceClass": "1A"
+ * }
+ */
+router.post('/ships', async (req: Request, res: Response) => {
+  try {
+    if (!req.body || Object.keys(req.body).length === 0) {
+      return res.status(400).json({
+        error: 'Request body is required and cannot be empty',
+        example: SHIP_EXAMPLE
+      });
+    }
+
+    const ship = await shipUseCase.registerShip(getCompanyId(res), toShipFields(req.body) as Ship);
+    res.status(201).json(ship);
+  } catch (error: any) {
+    console.error('Error registering ship:', error);
+    res.status(400).json({
+      error: error.message || 'Failed to register ship',
+      example: SHIP_EXAMPLE
+    });
+  }
+});
+
+/**
+ * PUT /api/ships/:shipId
+ * 
+ * Updates the particulars of a registered ship. Only the fields present in
+ * the body are changed; the ship ID itself cannot be changed.
+ * 
+ * @route PUT /api/ships/:shipId
+ * @param {string} shipId - The unique identifier of the ship
+ * @param {Object} body - Fields to update (same fields as POST /api/ships)
+ * @returns {Promise<Ship>} The updated ship
+ * @throws {400} Invalid ship
+ * @throws {404} Ship not found
+ * 
+ * @example
+ * // Request
+ * PUT /api/ships/SHIP-0001
+ * Content-Type: application/json
+ * { "flag": "NO", "iceClass": "1A Super" }
+ */
+router.put('/ships/:shipId', async (req: Request, res: Response) => {
+  try {
+    const ship = await shipUseCase.updateShip(getCompanyId(res), req.params.shipId, toShipFields(req.body || {}));
+
+    if (!ship) {
+      return res.status(404).json({ error: `Ship ${req.params.shipId} not found` });
+    }
+
+    res.json(ship);
+  } catch (error: any) {
+    console.error('Error updating ship:', error);
+    res.status(400).json({ error: error.message || 'Failed to update ship' });
+  }
+});
+
+/**
+ * DELETE /api/ships/:shipId
+ * 
+ * Removes a ship from the registry. Ships that still have compliance
+ * balances, bank entries, borrowings or pool memberships cannot be removed.
+ * 
+ * @route DELETE /api/ships/:shipId
+ * @param {string} shipId - The unique identifier of the ship
+ * @returns {204} Ship removed
+ * @throws {400} Ship is still referenced by compliance records
+ * @throws {404} Ship not found
+ */
+router.delete('/ships/:shipId', async (req: Request, res: Response) => {
+  try {
+    const deleted = await shipUseCase.deleteShip(getCompanyId(res), req.params.shipId);
+
+    if (!deleted) {
+      return res.status(404).json({ error: `Ship ${req.params.shipId} not found` });
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting ship:', error);
+    res.status(400).json({ error: error.message || 'Failed to delete ship' });
+  }
+});
+
+/**
+ * Export the router instance for use in the main server configuration
+ * @exports router
+ */
+export default router;
@@ -1,71 +1,74 @@
-import { ComplianceBalance } from '../../core/domain/Compliance';
-import { BankingRepository } from '../../core/ports/BankingRepository';
+import {
+  BankedVintage,
+  BankingLedgerError,
+  LedgerAudit,
+  LedgerEntry,
+  REVERSIBLE_ENTRY_TYPES,
+  drawFromVintages,
+} from '../../../core/domain/BankingLedger';
+import { BankingRepository } from '../../../core/ports/BankingRepository';
+import { PoolClient } from 'pg';
 import pool from './database/connection';
 
-export class PostgresBankingRepository implements BankingRepository {
-  async getComplianceBalance(year: number): Promise<ComplianceBalance> {
-    try {
-      // Calculate total CB from ship_compliance table
-      const result = await pool.query(
-        `SELECT COALESCE(SUM(cb_gco2eq), 0) as total_cb
-         FROM ship_compliance 
-         WHERE year = $1`,
-        [year]
-      );
-      
-      const totalCb = parseFloat(result.rows[0].total_cb);
-      
-      return {
-        year,
-        cb: totalCb,
-      };
-    } catch (error) {
-      console.error('Error fetching compliance balance:', error);
-      return { year, cb: 0 };
-    }
-  }
+const LEDGER_COLUMNS = `
+  id,
+  ship_id as "shipId",
+  entry_type as "entryType",
+  source_year as "sourceYear",
+  target_year as "targetYear",
+  amount_gco2eq as "amount",
+  banked_change_gco2eq as "bankedChange",
+  cb_before as "cbBefore",
+  cb_after as "cbAfter",
+  reverses_entry_id as "reversesEntryId",
+  actor,
+  reason,
+  created_at as "createdAt"`;
 
+export class PostgresBankingRepository implements BankingRepository {
   /**
    * Bank surplus for a specific ship
    */
-  async bankSurplusForShip(shipId: string, year: number, amount: number): Promise<void> {
+  async bankSurplusForShip(
+    companyId: string,
+    shipId: string,
+    year: number,
+    amount: number,
+    audit: LedgerAudit
+  ): Promise<LedgerEntry> {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
-      // Get current ship CB
-      const cbResult = await client.query(
-        `SELECT cb_gco2eq FROM ship_compliance 
-         WHERE ship_id = $1 AND year = $2 FOR UPDATE`,
-        [shipId, year]
-      );
+      const balances = await this.lockBalances(client, companyId, shipId);
+      const currentCb = balances.get(year);
 
-      if (cbResult.rows.length === 0) {
+      if (currentCb === undefined) {
         throw new Error(`No compliance balance found for ship ${shipId} in year ${year}`);
       }
 
-      const currentCb = parseFloat(cbResult.rows[0].cb_gco2eq);
-
+      // Re-checked under the lock, the CB may have changed since the use case read it
       if (currentCb < amount) {
-        throw new Error(`Insufficient surplus. Current CB: ${currentCb}, Requested: ${amount}`);
+        throw new BankingLedgerError(`Insufficient surplus. Current CB: ${currentCb}, Requested: ${amount}`);
       }
 
       // Deduct from ship CB
-      await client.query(
-        `UPDATE ship_compliance 
-         SET cb_gco2eq = cb_gco2eq - $1, updated_at = CURRENT_TIMESTAMP 
-         WHERE ship_id = $2 AND year = $3`,
-        [amount, shipId, year]
-      );
+      await this.setBalance(client, companyId, shipId, year, currentCb - amount);
 
-      // Add to bank_entries
-      await client.query(
-        `INSERT INTO bank_entries (ship_id, year, amount_gco2eq)
-         VALUES ($1, $2, $3)`,
-        [shipId, year, amount]
-      );
+      const entry = await this.insertEntry(client, companyId, {
+        shipId,
+        entryType: 'bank',
+        sourceYear: year,
+        targetYear: year,
+        amount,
+        bankedChange: amount,
+        cbBefore: currentCb,
+        cbAfter: currentCb - amount,
+        ...audit,
+      });
 
       await client.query('COMMIT');
+      return entry;
     } catch (error) {
       await client.query('ROLLBACK');
       console.error('Error banking surplus for ship:', error);
@@ -76,18 +79,11 @@ export class PostgresBankingRepository implements BankingRepository {
   }
 
   /**
-   * Get total banked amount for a ship in a year
+   * Get the banked surplus of a ship from a year that is still available
    */
-  async getBankedAmountForShip(shipId: string, year: number): Promise<number> {
+  async getBankedAmountForShip(companyId: string, shipId: string, year: number): Promise<number> {
     try {
-      const result = await pool.query(
-        `SELECT COALESCE(SUM(amount_gco2eq), 0) as total_banked
-         FROM bank_entries 
-         WHERE ship_id = $1 AND year = $2`,
-        [shipId, year]
-      );
-      
-      return parseFloat(result.rows[0].total_banked);
+      return await this.findBankedAmount(pool, companyId, shipId, year);
     } catch (error) {
       console.error('Error fetching banked amount:', error);
       return 0;
@@ -95,68 +91,74 @@ export class PostgresBankingRepository implements BankingRepository {
   }
 
   /**
-   * Apply banked surplus to a ship's CB
+   * Get the surplus of a ship banked from years before the target year
    */
-  async applyBankedSurplusToShip(shipId: string, year: number, amount: number): Promise<void> {
+  async getAvailableBankedAmount(companyId: string, shipId: string, targetYear: number): Promise<number> {
+    try {
+      const vintages = await this.findVintages(pool, companyId, shipId, targetYear);
+      return vintages.reduce((sum, vintage) => sum + vintage.amount, 0);
+    } catch (error) {
+      console.error('Error fetching available banked amount:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Apply surplus banked from earlier years to a ship's CB, oldest vintages first
+   */
+  async applyBankedSurplusToShip(
+    companyId: string,
+    shipId: string,
+    targetYear: number,
+    amount: number,
+    audit: LedgerAudit
+  ): Promise<LedgerEntry[]> {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
-      // Get total banked amount
-      const bankedResult = await client.query(
-        `SELECT COALESCE(SUM(amount_gco2eq), 0) as total_banked
-         FROM bank_entries 
-         WHERE ship_id = $1 AND year = $2`,
-        [shipId, year]
-      );
+      const balances = await this.lockBalances(client, companyId, shipId);
+      let currentCb = balances.get(targetYear);
 
-      const totalBanked = parseFloat(bankedResult.rows[0].total_banked);
+      if (currentCb === undefined) {
+        throw new Error(`No compliance balance found for ship ${shipId} in year ${targetYear}`);
+      }
 
-      if (totalBanked < amount) {
-        throw new Error(`Insufficient banked surplus. Available: ${totalBanked}, Requested: ${amount}`);
+      if (currentCb >= 0) {
+        throw new BankingLedgerError(
+          `Cannot apply banked surplus: ship ${shipId} has no deficit in ${targetYear} (CB: ${currentCb})`
+        );
       }
 
-      // Deduct from bank_entries (FIFO or proportional)
-      // For simplicity, we'll deduct proportionally
-      const entriesResult = await client.query(
-        `SELECT id, amount_gco2eq 
-         FROM bank_entries 
-         WHERE ship_id = $1 AND year = $2 
-         ORDER BY created_at ASC`,
-        [shipId, year]
-      );
+      // Re-checked under the lock, the deficit may have shrunk since the use case read it
+      if (amount > -currentCb) {
+        throw new BankingLedgerError(`Cannot apply more than the deficit of ${-currentCb} gCO₂e`);
+      }
 
-      let remaining = amount;
-      for (const entry of entriesResult.rows) {
-        const entryAmount = parseFloat(entry.amount_gco2eq);
-        if (remaining <= 0) break;
-
-        if (entryAmount <= remaining) {
-          // Delete entire entry
-          await client.query(`DELETE FROM bank_entries WHERE id = $1`, [entry.id]);
-          remaining -= entryAmount;
-        } else {
-          // Reduce entry amount
-          await client.query(
-            `UPDATE bank_entries 
-             SET amount_gco2eq = amount_gco2eq - $1 
-             WHERE id = $2`,
-            [remaining, entry.id]
-          );
-          remaining = 0;
-        }
+      const vintages = await this.findVintages(client, companyId, shipId, targetYear);
+      const entries: LedgerEntry[] = [];
+
+      for (const draw of drawFromVintages(vintages, amount)) {
+        entries.push(await this.insertEntry(client, companyId, {
+          shipId,
+          entryType: 'apply',
+          sourceYear: draw.year,
+          targetYear,
+          amount: draw.amount,
+          bankedChange: -draw.amount,
+          cbBefore: currentCb,
+          cbAfter: currentCb + draw.amount,
+          ...audit,
+        }));
+        currentCb += draw.amount;
       }
 
       // Add to ship CB
-      await client.query(
-        `UPDATE ship_compliance 
-         SET cb_gco2eq = cb_gco2eq + $1, updated_at = CURRENT_TIMESTAMP 
-         WHERE ship_id = $2 AND year = $3`,
-        [amount, shipId, year]
-      );
+      await this.setBalance(client, companyId, shipId, targetYear, currentCb);
 
       await client.query('COMMIT');
-    } catch (error) {
+      return entries;
+    } catch (error: any) {
       await client.query('ROLLBACK');
       console.error('Error applying banked surplus:', error);
       throw error;
@@ -165,30 +167,259 @@ export class PostgresBankingRepository implements BankingRepository {
     }
   }
 
-  // Legacy methods for backward compatibility
-  async bankSurplus(year: number, amount: number): Promise<void> {
-    // This method is deprecated - use bankSurplusForShip instead
-    throw new Error('Use bankSurplusForShip method with shipId parameter');
-  }
-
-  async getBankedAmount(year: number): Promise<number> {
+  async findLedgerByShip(companyId: string, shipId: string): Promise<LedgerEntry[]> {
     try {
       const result = await pool.query(
-        `SELECT COALESCE(SUM(amount_gco2eq), 0) as total_banked
-         FROM bank_entries 
-         WHERE year = $1`,
-        [year]
+        `SELECT ${LEDGER_COLUMNS}
+        FROM banking_ledger
+        WHERE company_id = $1 AND ship_id = $2
+        ORDER BY created_at, id`,
+        [companyId, shipId]
       );
-      
-      return parseFloat(result.rows[0].total_banked);
+
+      return result.rows.map(row => this.mapEntry(row));
     } catch (error) {
-      console.error('Error fetching banked amount:', error);
-      return 0;
+      console.error('Error fetching banking ledger:', error);
+      throw new Error('Failed to fetch banking ledger from database');
     }
   }
 
-  async applyBankedSurplus(year: number, amount: number): Promise<void> {
-    // This method is deprecated - use applyBankedSurplusToShip instead
-    throw new Error('Use applyBankedSurplusToShip method with shipId parameter');
+  /**
+   * Undo a bank or apply entry
+   */
+  async reverseEntry(companyId: string, entryId: string, audit: LedgerAudit): Promise<LedgerEntry | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const entryResult = await client.query(
+        `SELECT ${LEDGER_COLUMNS}
+        FROM banking_ledger
+        WHERE company_id = $1 AND id = $2`,
+        [companyId, parseInt(entryId)]
+      );
+
+      if (entryResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const original = this.mapEntry(entryResult.rows[0]);
+
+      if (!REVERSIBLE_ENTRY_TYPES.includes(original.entryType)) {
+        throw new BankingLedgerError(
+          `Cannot reverse a ${original.entryType} entry, only ${REVERSIBLE_ENTRY_TYPES.join(' and ')} entries can be reversed`
+        );
+      }
+
+      const balances = await this.lockBalances(client, companyId, original.shipId);
+
+      const reversal = await client.query(
+        'SELECT id FROM banking_ledger WHERE reverses_entry_id = $1',
+        [original.entryId]
+      );
+      if (reversal.rows.length > 0) {
+        throw new BankingLedgerError(`Entry ${entryId} was already reversed by entry ${reversal.rows[0].id}`);
+      }
+
+      // Reversing a bank entry takes the surplus back out of the bank, so it must still be there
+      if (original.bankedChange > 0) {
+        const banked = await this.findBankedAmount(client, companyId, original.shipId, original.sourceYear);
+        if (banked < original.bankedChange) {
+          throw new BankingLedgerError(
+            `Cannot reverse entry ${entryId}: only ${banked} gCO₂e of the ${original.bankedChange} gCO₂e banked from ${original.sourceYear} is left`
+          );
+        }
+      }
+
+      const targetYear = original.targetYear!;
+      const currentCb = balances.get(targetYear);
+      if (currentCb === undefined) {
+        throw new BankingLedgerError(`No compliance balance found for ship ${original.shipId} in year ${targetYear}`);
+      }
+
+      const cbAfter = currentCb - (original.cbAfter! - original.cbBefore!);
+      await this.setBalance(client, companyId, original.shipId, targetYear, cbAfter);
+
+      const entry = await this.insertEntry(client, companyId, {
+        shipId: original.shipId,
+        entryType: 'reversal',
+        sourceYear: original.sourceYear,
+        targetYear,
+        amount: original.amount,
+        bankedChange: -original.bankedChange,
+        cbBefore: currentCb,
+        cbAfter,
+        reversesEntryId: original.entryId,
+        ...audit,
+      });
+
+      await client.query('COMMIT');
+      return entry;
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error reversing ledger entry:', error);
+
+      // Errors raised above for rule violations carry no database error code
+      if (!error.code) {
+        throw error;
+      }
+
+      throw new Error('Failed to reverse ledger entry in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Write off the remaining banked surplus of a year
+   */
+  async expireBankedSurplus(companyId: string, shipId: string, year: number, audit: LedgerAudit): Promise<LedgerEntry> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await this.lockBalances(client, companyId, shipId);
+
+      const banked = await this.findBankedAmount(client, companyId, shipId, year);
+      if (banked <= 0) {
+        throw new BankingLedgerError(`No surplus of ship ${shipId} from ${year} is banked`);
+      }
+
+      const entry = await this.insertEntry(client, companyId, {
+        shipId,
+        entryType: 'expiry',
+        sourceYear: year,
+        amount: banked,
+        bankedChange: -banked,
+        ...audit,
+      });
+
+      await client.query('COMMIT');
+      return entry;
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error expiring banked surplus:', error);
+
+      if (!error.code) {
+        throw error;
+      }
+
+      throw new Error('Failed to expire banked surplus in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Locks the balances of a ship in all years, in year order
+   * Every banking write takes these locks first, which serialises changes to the ship's bank
+   */
+  private async lockBalances(client: PoolClient, companyId: string, shipId: string): Promise<Map<number, number>> {
+    const result = await client.query(
+      `SELECT year, cb_gco2eq FROM ship_compliance 
+       WHERE company_id = $1 AND ship_id = $2
+       ORDER BY year
+       FOR UPDATE`,
+      [companyId, shipId]
+    );
+
+    return new Map(result.rows.map(row => [row.year, parseFloat(row.cb_gco2eq)]));
+  }
+
+  private async setBalance(client: PoolClient, companyId: string, shipId: string, year: number, cb: number): Promise<void> {
+    await client.query(
+      `UPDATE ship_compliance 
+       SET cb_gco2eq = $1, updated_at = CURRENT_TIMESTAMP 
+       WHERE company_id = $2 AND ship_id = $3 AND year = $4`,
+      [cb, companyId, shipId, year]
+    );
+  }
+
+  private async findBankedAmount(
+    client: PoolClient | typeof pool,
+    companyId: string,
+    shipId: string,
+    year: number
+  ): Promise<number> {
+    const result = await client.query(
+      `SELECT COALESCE(SUM(banked_change_gco2eq), 0) as total_banked
+       FROM banking_ledger 
+       WHERE company_id = $1 AND ship_id = $2 AND source_year = $3`,
+      [companyId, shipId, year]
+    );
+
+    return parseFloat(result.rows[0].total_banked);
+  }
+
+  /**
+   * Surplus still banked per year before the target year, oldest first
+   */
+  private async findVintages(
+    client: PoolClient | typeof pool,
+    companyId: string,
+    shipId: string,
+    targetYear: number
+  ): Promise<BankedVintage[]> {
+    const result = await client.query(
+      `SELECT source_year, SUM(banked_change_gco2eq) as banked
+       FROM banking_ledger 
+       WHERE company_id = $1 AND ship_id = $2 AND source_year < $3
+       GROUP BY source_year
+       HAVING SUM(banked_change_gco2eq) > 0
+       ORDER BY source_year`,
+      [companyId, shipId, targetYear]
+    );
+
+    return result.rows.map(row => ({ year: row.source_year, amount: parseFloat(row.banked) }));
+  }
+
+  private async insertEntry(
+    client: PoolClient,
+    companyId: string,
+    entry: Omit<LedgerEntry, 'entryId' | 'createdAt'>
+  ): Promise<LedgerEntry> {
+    const result = await client.query(
+      `INSERT INTO banking_ledger (
+        company_id, ship_id, entry_type, source_year, target_year, amount_gco2eq,
+        banked_change_gco2eq, cb_before, cb_after, reverses_entry_id, actor, reason
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING ${LEDGER_COLUMNS}`,
+      [
+        companyId,
+        entry.shipId,
+        entry.entryType,
+        entry.sourceYear,
+        entry.targetYear ?? null,
+        entry.amount,
+        entry.bankedChange,
+        entry.cbBefore ?? null,
+        entry.cbAfter ?? null,
+        entry.reversesEntryId ? parseInt(entry.reversesEntryId) : null,
+        entry.actor,
+        entry.reason || null,
+      ]
+    );
+
+    return this.mapEntry(result.rows[0]);
+  }
+
+  private mapEntry(row: any): LedgerEntry {
+    return {
+      entryId: row.id.toString(),
+      shipId: row.shipId,
+      entryType: row.entryType,
+      sourceYear: row.sourceYear,
+      targetYear: row.targetYear ?? undefined,
+      amount: parseFloat(row.amount),
+      bankedChange: parseFloat(row.bankedChange),
+      cbBefore: row.cbBefore !== null ? parseFloat(row.cbBefore) : undefined,
+      cbAfter: row.cbAfter !== null ? parseFloat(row.cbAfter) : undefined,
+      reversesEntryId: row.reversesEntryId !== null ? row.reversesEntryId.toString() : undefined,
+      actor: row.actor,
+      reason: row.reason || undefined,
+      createdAt: row.createdAt,
+    };
   }
 }
@@ -0,0 +1,219 @@
+import { BorrowEntry, checkBorrow } from '../../../core/domain/Borrowing';
+import { BankingLedgerError, LedgerAudit, SYSTEM_ACTOR } from '../../../core/domain/BankingLedger';
+import { BorrowingRepository } from '../../../core/ports/BorrowingRepository';
+import pool from './database/connection';
+
+export class PostgresBorrowingRepository implements BorrowingRepository {
+  async findByShip(companyId: string, shipId: string): Promise<BorrowEntry[]> {
+    try {
+      const result = await pool.query(
+        `SELECT 
+          id,
+          ship_id as "shipId",
+          year,
+          amount_gco2eq as "amount",
+          repayment_gco2eq as "repaymentAmount",
+          repaid_in_year as "repaidInYear",
+          created_at as "createdAt"
+        FROM borrow_entries 
+        WHERE company_id = $1 AND ship_id = $2
+        ORDER BY year, created_at`,
+        [companyId, shipId]
+      );
+
+      return result.rows.map(row => this.mapRow(row));
+    } catch (error) {
+      console.error('Error fetching borrow entries:', error);
+      throw new Error('Failed to fetch borrow entries from database');
+    }
+  }
+
+  /**
+   * Record a borrowing and add the advance surplus to the ship's CB
+   * The borrowing rules are checked again once the ship's balances are locked
+   */
+  async borrow(
+    companyId: string,
+    shipId: string,
+    year: number,
+    amount: number,
+    repaymentAmount: number,
+    audit: LedgerAudit
+  ): Promise<BorrowEntry> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Lock the ship's balances in all years, in year order as banking does, so
+      // that concurrent borrowings for the same or adjacent years run one by one
+      const balances = await client.query(
+        `SELECT year, cb_gco2eq, energy_in_scope_mj FROM ship_compliance 
+         WHERE company_id = $1 AND ship_id = $2
+         ORDER BY year
+         FOR UPDATE`,
+        [companyId, shipId]
+      );
+      const balance = balances.rows.find(row => row.year === year);
+
+      if (!balance) {
+        throw new Error(`No compliance balance found for ship ${shipId} in year ${year}`);
+      }
+
+      const cbBefore = parseFloat(balance.cb_gco2eq);
+
+      // Re-checked under the lock, other borrowings may have been recorded since the use case read them
+      const borrowings = await client.query(
+        `SELECT year, amount_gco2eq as "amount" FROM borrow_entries
+         WHERE company_id = $1 AND ship_id = $2`,
+        [companyId, shipId]
+      );
+      const reason = checkBorrow(
+        cbBefore,
+        amount,
+        year,
+        parseFloat(balance.energy_in_scope_mj ?? 0),
+        borrowings.rows.map(row => ({ shipId, year: row.year, amount: parseFloat(row.amount), repaymentAmount: 0 }))
+      );
+      if (reason) {
+        throw new BankingLedgerError(reason);
+      }
+
+      // Add the advance surplus to ship CB
+      await client.query(
+        `UPDATE ship_compliance 
+         SET cb_gco2eq = cb_gco2eq + $1, updated_at = CURRENT_TIMESTAMP 
+         WHERE company_id = $2 AND ship_id = $3 AND year = $4`,
+        [amount, companyId, shipId, year]
+      );
+
+      const result = await client.query(
+        `INSERT INTO borrow_entries (company_id, ship_id, year, amount_gco2eq, repayment_gco2eq)
+         VALUES ($5, $1, $2, $3, $4)
+         RETURNING 
+           id,
+           ship_id as "shipId",
+           year,
+           amount_gco2eq as "amount",
+           repayment_gco2eq as "repaymentAmount",
+           repaid_in_year as "repaidInYear",
+           created_at as "createdAt"`,
+        [shipId, year, amount, repaymentAmount, companyId]
+      );
+
+      // The advance surplus comes from the following year
+      await client.query(
+        `INSERT INTO banking_ledger (
+          company_id, ship_id, entry_type, source_year, target_year, amount_gco2eq,
+          banked_change_gco2eq, cb_before, cb_after, actor, reason
+        )
+        VALUES ($1, $2, 'borrow', $3, $4, $5, 0, $6, $7, $8, $9)`,
+        [companyId, shipId, year + 1, year, amount, cbBefore, cbBefore + amount, audit.actor, audit.reason || null]
+      );
+
+      await client.query('COMMIT');
+      return this.mapRow(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error borrowing advance surplus:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Re-apply borrowings to the CB of a ship that was just computed
+   */
+  async settleForComputedYear(companyId: string, shipId: string, year: number): Promise<{ borrowed: number; repaid: number }> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const borrowedResult = await client.query(
+        `SELECT COALESCE(SUM(amount_gco2eq), 0) as total_borrowed
+         FROM borrow_entries 
+         WHERE company_id = $1 AND ship_id = $2 AND year = $3`,
+        [companyId, shipId, year]
+      );
+      const borrowed = parseFloat(borrowedResult.rows[0].total_borrowed);
+
+      if (borrowed !== 0) {
+        await client.query(
+          `UPDATE ship_compliance 
+           SET cb_gco2eq = cb_gco2eq + $1, updated_at = CURRENT_TIMESTAMP 
+           WHERE company_id = $2 AND ship_id = $3 AND year = $4`,
+          [borrowed, companyId, shipId, year]
+        );
+      }
+
+      // Previous year's borrowings are repaid from this year's CB
+      const repaymentResult = await client.query(
+        `SELECT id, amount_gco2eq, repayment_gco2eq, repaid_in_year
+         FROM borrow_entries 
+         WHERE company_id = $1 AND ship_id = $2 AND year = $3
+         ORDER BY id
+         FOR UPDATE`,
+        [companyId, shipId, year - 1]
+      );
+
+      let repaid = 0;
+      for (const row of repaymentResult.rows) {
+        const repayment = parseFloat(row.repayment_gco2eq);
+        const cbResult = await client.query(
+          `UPDATE ship_compliance 
+           SET cb_gco2eq = cb_gco2eq - $1, updated_at = CURRENT_TIMESTAMP 
+           WHERE company_id = $2 AND ship_id = $3 AND year = $4
+           RETURNING cb_gco2eq`,
+          [repayment, companyId, shipId, year]
+        );
+        repaid += repayment;
+
+        // Recomputing the CB deducts the repayment again, but it is only recorded once
+        if (row.repaid_in_year === null && cbResult.rows.length > 0) {
+          const cbAfter = parseFloat(cbResult.rows[0].cb_gco2eq);
+          await client.query(
+            `INSERT INTO banking_ledger (
+              company_id, ship_id, entry_type, source_year, target_year, amount_gco2eq,
+              banked_change_gco2eq, cb_before, cb_after, actor, reason
+            )
+            VALUES ($1, $2, 'repay', $3, $4, $5, 0, $6, $7, $8, $9)`,
+            [
+              companyId,
+              shipId,
+              year - 1,
+              year,
+              repayment,
+              cbAfter + repayment,
+              cbAfter,
+              SYSTEM_ACTOR,
+              `Repayment of ${parseFloat(row.amount_gco2eq)} gCO₂e borrowed in ${year - 1}`,
+            ]
+          );
+        }
+
+        await client.query('UPDATE borrow_entries SET repaid_in_year = $1 WHERE id = $2', [year, row.id]);
+      }
+
+      await client.query('COMMIT');
+      return { borrowed, repaid };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error settling borrowings:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private mapRow(row: any): BorrowEntry {
+    return {
+      id: row.id,
+      shipId: row.shipId,
+      year: row.year,
+      amount: parseFloat(row.amount),
+      repaymentAmount: parseFloat(row.repaymentAmount),
+      repaidInYear: row.repaidInYear ?? undefined,
+      createdAt: row.createdAt,
+    };
+  }
+}
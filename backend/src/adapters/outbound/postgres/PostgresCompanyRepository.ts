@@ -0,0 +1,80 @@
+import { Company } from '../../../core/domain/Company';
+import { CompanyRepository } from '../../../core/ports/CompanyRepository';
+import pool from './database/connection';
+
+const COMPANY_COLUMNS = `
+  id,
+  company_id as "companyId",
+  name,
+  imo_company_number as "imoCompanyNumber",
+  created_at as "createdAt",
+  updated_at as "updatedAt"`;
+
+export class PostgresCompanyRepository implements CompanyRepository {
+  async findAll(): Promise<Company[]> {
+    try {
+      const result = await pool.query(
+        `SELECT ${COMPANY_COLUMNS}
+        FROM companies
+        ORDER BY company_id`
+      );
+
+      return result.rows.map(row => this.mapRow(row));
+    } catch (error) {
+      console.error('Error fetching companies:', error);
+      throw new Error('Failed to fetch companies from database');
+    }
+  }
+
+  async findByCompanyId(companyId: string): Promise<Company | null> {
+    try {
+      const result = await pool.query(
+        `SELECT ${COMPANY_COLUMNS}
+        FROM companies
+        WHERE company_id = $1`,
+        [companyId]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error fetching company:', error);
+      throw new Error('Failed to fetch company from database');
+    }
+  }
+
+  async create(company: Company): Promise<Company> {
+    try {
+      const result = await pool.query(
+        `INSERT INTO companies (company_id, name, imo_company_number)
+         VALUES ($1, $2, $3)
+         RETURNING ${COMPANY_COLUMNS}`,
+        [company.companyId, company.name, company.imoCompanyNumber || null]
+      );
+
+      return this.mapRow(result.rows[0]);
+    } catch (error: any) {
+      console.error('Error creating company:', error);
+
+      if (error.code === '23505') {
+        throw new Error(`Company ${company.companyId} already exists`);
+      }
+
+      throw new Error('Failed to save company to database');
+    }
+  }
+
+  private mapRow(row: any): Company {
+    return {
+      id: row.id,
+      companyId: row.companyId,
+      name: row.name,
+      imoCompanyNumber: row.imoCompanyNumber ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
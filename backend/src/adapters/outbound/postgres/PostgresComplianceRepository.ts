@@ -1,53 +1,91 @@
-import { ComplianceBalance, AdjustedComplianceBalance } from '../../core/domain/Compliance';
-import { ComplianceRepository } from '../../core/ports/ComplianceRepository';
+import { ComplianceBalanceComponents } from '../../../core/domain/Compliance';
+import { ComplianceRepository } from '../../../core/ports/ComplianceRepository';
 import pool from './database/connection';
 
+/**
+ * Derives every component from the table that records it:
+ * - raw CB from ship_compliance
+ * - banking from the CB changes of bank, apply and reversal entries in banking_ledger
+ *   (borrow and repay entries are taken from borrow_entries instead)
+ * - borrowing from borrow_entries, repayments counted in the year they were repaid in
+ * - pooling from pool_members of pools that changed the balances and were not cancelled
+ */
+const COMPONENTS_QUERY = `
+  SELECT
+    sc.ship_id as "shipId",
+    sc.year,
+    sc.raw_cb_gco2eq as "rawCB",
+    COALESCE(banking.change, 0) as "banking",
+    COALESCE(borrowed.amount, 0) - COALESCE(repaid.amount, 0) as "borrowing",
+    COALESCE(pooling.change, 0) as "pooling"
+  FROM ship_compliance sc
+  LEFT JOIN LATERAL (
+    SELECT SUM(bl.cb_after - bl.cb_before) as change
+    FROM banking_ledger bl
+    WHERE bl.company_id = sc.company_id AND bl.ship_id = sc.ship_id AND bl.target_year = sc.year
+      AND bl.entry_type IN ('bank', 'apply', 'reversal')
+  ) banking ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT SUM(be.amount_gco2eq) as amount
+    FROM borrow_entries be
+    WHERE be.company_id = sc.company_id AND be.ship_id = sc.ship_id AND be.year = sc.year
+  ) borrowed ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT SUM(be.repayment_gco2eq) as amount
+    FROM borrow_entries be
+    WHERE be.company_id = sc.company_id AND be.ship_id = sc.ship_id AND be.repaid_in_year = sc.year
+  ) repaid ON TRUE
+  LEFT JOIN LATERAL (
+    SELECT SUM(pm.cb_after - pm.cb_before) as change
+    FROM pool_members pm
+    JOIN pools p ON p.id = pm.pool_id
+    WHERE pm.company_id = sc.company_id AND pm.ship_id = sc.ship_id AND p.year = sc.year
+      AND p.status <> 'cancelled' AND p.balances_applied
+  ) pooling ON TRUE`;
+
 export class PostgresComplianceRepository implements ComplianceRepository {
-  async findComplianceBalance(year: number): Promise<ComplianceBalance> {
+  async findComponents(companyId: string, year: number): Promise<ComplianceBalanceComponents[]> {
     try {
       const result = await pool.query(
-        `SELECT year, cb FROM compliance_balances WHERE year = $1`,
-        [year]
+        `${COMPONENTS_QUERY}
+        WHERE sc.company_id = $1 AND sc.year = $2
+        ORDER BY sc.ship_id`,
+        [companyId, year]
       );
-      
-      if (result.rows.length === 0) {
-        // Return default if not found
-        return { year, cb: 0 };
-      }
-      
-      return {
-        year: result.rows[0].year,
-        cb: parseFloat(result.rows[0].cb),
-      };
+
+      return result.rows.map(row => this.mapRow(row));
     } catch (error) {
-      console.error('Error fetching compliance balance:', error);
-      // Return default on error
-      return { year, cb: 0 };
+      console.error('Error fetching compliance balance components:', error);
+      throw new Error('Failed to fetch compliance balance components from database');
     }
   }
 
-  async findAdjustedComplianceBalance(year: number): Promise<AdjustedComplianceBalance[]> {
+  async findShipComponents(companyId: string, shipId: string, year: number): Promise<ComplianceBalanceComponents | null> {
     try {
       const result = await pool.query(
-        `SELECT 
-          ship_id as "shipId",
-          year,
-          adjusted_cb as "adjustedCB"
-        FROM adjusted_compliance_balances 
-        WHERE year = $1
-        ORDER BY ship_id`,
-        [year]
+        `${COMPONENTS_QUERY}
+        WHERE sc.company_id = $1 AND sc.ship_id = $2 AND sc.year = $3`,
+        [companyId, shipId, year]
       );
-      
-      return result.rows.map(row => ({
-        shipId: row.shipId,
-        year: row.year,
-        adjustedCB: parseFloat(row.adjustedCB),
-      }));
+
+      return result.rows.length > 0 ? this.mapRow(result.rows[0]) : null;
     } catch (error) {
-      console.error('Error fetching adjusted compliance balance:', error);
-      return [];
+      console.error('Error fetching ship compliance balance components:', error);
+      throw new Error('Failed to fetch compliance balance components from database');
     }
   }
-}
 
+  /**
+   * Convert DECIMAL columns, which pg returns as strings, to numbers
+   */
+  private mapRow(row: any): ComplianceBalanceComponents {
+    return {
+      shipId: row.shipId,
+      year: row.year,
+      rawCB: parseFloat(row.rawCB),
+      banking: parseFloat(row.banking),
+      borrowing: parseFloat(row.borrowing),
+      pooling: parseFloat(row.pooling),
+    };
+  }
+}
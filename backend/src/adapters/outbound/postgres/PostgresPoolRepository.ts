@@ -1,40 +1,78 @@
-import { Pool } from '../../core/domain/Pool';
-import { PoolRepository } from '../../core/ports/PoolRepository';
+import { Pool, PoolMember, PoolMembership, PoolPartner, PoolStatusChange } from '../../../core/domain/Pool';
+import { PoolAllocationError, POOL_SUM_TOLERANCE } from '../../../core/domain/PoolAllocation';
+import { partnersAccepted } from '../../../core/domain/PoolLifecycle';
+import { PoolSettlement } from '../../../core/domain/PoolSettlement';
+import { PoolRepository } from '../../../core/ports/PoolRepository';
+import { PoolClient } from 'pg';
 import pool from './database/connection';
 
+const SETTLEMENT_COLUMNS = `
+  s.id as "settlementId",
+  s.pool_id as "poolId",
+  p.year,
+  s.payer_company_id as "payerCompanyId",
+  s.payee_company_id as "payeeCompanyId",
+  s.transferred_gco2eq as "transferredGco2eq",
+  s.amount_eur as "amountEur",
+  s.status,
+  s.settled_at as "settledAt",
+  s.settled_by as "settledBy"`;
+
+/**
+ * Memberships that hold a ship: those of the pool's own company and of
+ * partners that accepted the pool, so that an invitation alone cannot
+ * keep a ship out of other pools
+ */
+const HOLDS_SHIP = `(pm.company_id = p.company_id OR EXISTS (
+  SELECT 1 FROM pool_partners pp
+  WHERE pp.pool_id = p.id AND pp.company_id = pm.company_id AND pp.status = 'accepted'
+))`;
+
+/**
+ * Ship IDs are unique per company, so members are told apart by both
+ */
+function memberKey(companyId: string, shipId: string): string {
+  return `${companyId}/${shipId}`;
+}
+
 export class PostgresPoolRepository implements PoolRepository {
-  async save(poolData: Pool): Promise<Pool> {
+  async save(companyId: string, poolData: Pool, change: PoolStatusChange): Promise<Pool> {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
+      const balances = await this.lockBalances(client, poolData.year, poolData.members);
+      await this.assertNotPooled(client, poolData.year, poolData.members);
+
+      // Partners' ships keep their balances until every partner has accepted
+      const balancesApplied = partnersAccepted(poolData);
+
       // Insert pool (using auto-generated id)
       const poolResult = await client.query(
-        `INSERT INTO pools (name, year, created_at)
-         VALUES ($1, $2, $3)
+        `INSERT INTO pools (company_id, name, year, status, price_per_tonne, balances_applied, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
          RETURNING id, name, year, created_at`,
         [
+          companyId,
           poolData.name || null,
           poolData.year,
+          poolData.status,
+          poolData.pricePerTonne ?? null,
+          balancesApplied,
           poolData.createdAt || new Date(),
         ]
       );
 
       const poolId = poolResult.rows[0].id;
 
-      // Insert pool members
-      for (const member of poolData.members) {
-        await client.query(
-          `INSERT INTO pool_members (pool_id, ship_id, cb_before, cb_after)
-           VALUES ($1, $2, $3, $4)`,
-          [
-            poolId,
-            member.shipId,
-            member.cbBefore,
-            member.cbAfter,
-          ]
-        );
+      await this.insertStatusChange(client, poolId, change);
+
+      await this.insertMembers(client, poolId, poolData.members);
+      await this.insertPartners(client, poolId, poolData.partners || []);
+      if (balancesApplied) {
+        await this.applyBalances(client, poolData.year, poolData.members, balances);
       }
+      const settlements = await this.insertSettlements(client, poolId, poolData.settlements || []);
 
       await client.query('COMMIT');
 
@@ -42,56 +80,66 @@ export class PostgresPoolRepository implements PoolRepository {
       return {
         ...poolData,
         poolId: poolId.toString(),
+        statusHistory: [change],
+        balancesApplied,
+        settlements: settlements.map(settlement => ({ ...settlement, year: poolData.year })),
       };
-    } catch (error) {
+    } catch (error: any) {
       await client.query('ROLLBACK');
       console.error('Error saving pool:', error);
+
+      // Errors raised above for foreign or pooled ships carry no database error code
+      if (!error.code) {
+        throw error;
+      }
+
       throw new Error('Failed to save pool to database');
     } finally {
       client.release();
     }
   }
 
-  async findAll(): Promise<Pool[]> {
+  async findAll(companyId: string): Promise<Pool[]> {
     try {
+      // Pools formed by the company and pools its ships are members of
       const poolsResult = await pool.query(
         `SELECT 
           id,
+          company_id as "companyId",
           name,
           year,
+          status,
+          price_per_tonne as "pricePerTonne",
+          balances_applied as "balancesApplied",
           created_at as "createdAt"
-        FROM pools
-        ORDER BY created_at DESC`
+        FROM pools p
+        WHERE p.company_id = $1
+           OR EXISTS (SELECT 1 FROM pool_members pm WHERE pm.pool_id = p.id AND pm.company_id = $1)
+        ORDER BY created_at DESC`,
+        [companyId]
       );
 
       const pools: Pool[] = [];
 
       for (const poolRow of poolsResult.rows) {
-        const membersResult = await pool.query(
-          `SELECT 
-            ship_id as "shipId",
-            cb_before as "cbBefore",
-            cb_after as "cbAfter"
-          FROM pool_members
-          WHERE pool_id = $1`,
-          [poolRow.id]
-        );
+        const members = await this.findMembers(poolRow.id);
+        const partners = await this.findPartners(poolRow.id);
 
         // Calculate pool sum
-        const poolSum = membersResult.rows.reduce((sum, m) => sum + parseFloat(m.cbAfter), 0);
+        const poolSum = members.reduce((sum, m) => sum + m.cbAfter, 0);
 
         pools.push({
           poolId: poolRow.id.toString(),
+          companyId: poolRow.companyId,
           name: poolRow.name || undefined,
           year: poolRow.year,
-          members: membersResult.rows.map(m => ({
-            shipId: m.shipId,
-            adjustedCB: parseFloat(m.cbBefore),
-            cbBefore: parseFloat(m.cbBefore),
-            cbAfter: parseFloat(m.cbAfter),
-          })),
+          status: poolRow.status,
+          pricePerTonne: poolRow.pricePerTonne !== null ? parseFloat(poolRow.pricePerTonne) : undefined,
+          balancesApplied: poolRow.balancesApplied,
+          members,
           poolSum,
           createdAt: poolRow.createdAt,
+          partners,
         });
       }
 
@@ -118,17 +166,23 @@ export class PostgresPoolRepository implements PoolRepository {
     }
   }
 
-  async findById(poolId: string): Promise<Pool | null> {
+  async findById(companyId: string, poolId: string): Promise<Pool | null> {
     try {
       const poolResult = await pool.query(
         `SELECT 
           id,
+          company_id as "companyId",
           name,
           year,
+          status,
+          price_per_tonne as "pricePerTonne",
+          balances_applied as "balancesApplied",
           created_at as "createdAt"
-        FROM pools
-        WHERE id = $1`,
-        [parseInt(poolId)]
+        FROM pools p
+        WHERE p.id = $1
+          AND (p.company_id = $2
+            OR EXISTS (SELECT 1 FROM pool_members pm WHERE pm.pool_id = p.id AND pm.company_id = $2))`,
+        [parseInt(poolId), companyId]
       );
 
       if (poolResult.rows.length === 0) {
@@ -136,35 +190,616 @@ export class PostgresPoolRepository implements PoolRepository {
       }
 
       const poolRow = poolResult.rows[0];
+      const members = await this.findMembers(poolRow.id);
+      const partners = await this.findPartners(poolRow.id);
 
-      const membersResult = await pool.query(
+      const historyResult = await pool.query(
         `SELECT 
-          ship_id as "shipId",
-          cb_before as "cbBefore",
-          cb_after as "cbAfter"
-        FROM pool_members
-        WHERE pool_id = $1`,
+          from_status as "fromStatus",
+          to_status as "toStatus",
+          actor,
+          reason,
+          changed_at as "changedAt"
+        FROM pool_status_history
+        WHERE pool_id = $1
+        ORDER BY changed_at, id`,
+        [poolRow.id]
+      );
+
+      const settlementsResult = await pool.query(
+        `SELECT ${SETTLEMENT_COLUMNS}
+        FROM pool_settlements s
+        JOIN pools p ON p.id = s.pool_id
+        WHERE s.pool_id = $1
+        ORDER BY s.id`,
         [poolRow.id]
       );
 
-      const poolSum = membersResult.rows.reduce((sum, m) => sum + parseFloat(m.cbAfter), 0);
+      const poolSum = members.reduce((sum, m) => sum + m.cbAfter, 0);
 
       return {
         poolId: poolRow.id.toString(),
+        companyId: poolRow.companyId,
         name: poolRow.name || undefined,
         year: poolRow.year,
-        members: membersResult.rows.map(m => ({
-          shipId: m.shipId,
-          adjustedCB: parseFloat(m.cbBefore),
-          cbBefore: parseFloat(m.cbBefore),
-          cbAfter: parseFloat(m.cbAfter),
-        })),
+        status: poolRow.status,
+        pricePerTonne: poolRow.pricePerTonne !== null ? parseFloat(poolRow.pricePerTonne) : undefined,
+        balancesApplied: poolRow.balancesApplied,
+        members,
         poolSum,
         createdAt: poolRow.createdAt,
+        statusHistory: historyResult.rows.map(h => ({
+          fromStatus: h.fromStatus,
+          toStatus: h.toStatus,
+          actor: h.actor,
+          reason: h.reason || undefined,
+          changedAt: h.changedAt,
+        })),
+        settlements: settlementsResult.rows.map(row => this.mapSettlement(row)),
+        partners,
       };
     } catch (error) {
       console.error('Error fetching pool by ID:', error);
+      throw new Error('Failed to fetch pool from database');
+    }
+  }
+
+  async findActiveMemberships(companyIds: string[], year: number): Promise<PoolMembership[]> {
+    const result = await pool.query(
+      `SELECT 
+        pm.pool_id as "poolId",
+        pm.ship_id as "shipId",
+        pm.company_id as "companyId"
+      FROM pool_members pm
+      JOIN pools p ON p.id = pm.pool_id
+      WHERE pm.company_id = ANY($1) AND p.year = $2 AND p.status <> 'cancelled' AND ${HOLDS_SHIP}`,
+      [companyIds, year]
+    );
+
+    return result.rows.map(row => ({
+      poolId: row.poolId.toString(),
+      shipId: row.shipId,
+      companyId: row.companyId,
+    }));
+  }
+
+  async update(companyId: string, poolData: Pool): Promise<Pool> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const poolId = parseInt(poolData.poolId);
+      const poolResult = await client.query(
+        `SELECT balances_applied FROM pools
+         WHERE id = $1 AND company_id = $2 FOR UPDATE`,
+        [poolId, companyId]
+      );
+
+      if (poolResult.rows.length === 0) {
+        throw new Error(`Pool ${poolData.poolId} not found`);
+      }
+
+      const oldMembers = await this.findMembers(poolId, client);
+      const newMembers = new Set(poolData.members.map(member => memberKey(member.companyId!, member.shipId)));
+      const balances = await this.lockBalances(client, poolData.year, [
+        ...poolData.members,
+        ...oldMembers.filter(member => !newMembers.has(memberKey(member.companyId!, member.shipId))),
+      ]);
+
+      // Take the old members out of the pool before applying the new allocation
+      if (poolResult.rows[0].balances_applied) {
+        for (const member of oldMembers) {
+          const key = memberKey(member.companyId!, member.shipId);
+          const restored = balances.get(key)! - (member.cbAfter - member.cbBefore);
+          balances.set(key, restored);
+          await this.setBalance(client, poolData.year, member.companyId!, member.shipId, restored);
+        }
+      }
+
+      await this.assertNotPooled(client, poolData.year, poolData.members, poolId);
+
+      const balancesApplied = partnersAccepted(poolData);
+      await client.query(
+        `UPDATE pools SET name = $1, price_per_tonne = $2, balances_applied = $3
+         WHERE id = $4 AND company_id = $5`,
+        [poolData.name || null, poolData.pricePerTonne ?? null, balancesApplied, poolId, companyId]
+      );
+
+      // Replace the members, partners and settlements with the new allocation
+      await client.query('DELETE FROM pool_members WHERE pool_id = $1', [poolId]);
+      await client.query('DELETE FROM pool_partners WHERE pool_id = $1', [poolId]);
+      await client.query('DELETE FROM pool_settlements WHERE pool_id = $1', [poolId]);
+      await this.insertMembers(client, poolId, poolData.members);
+      await this.insertPartners(client, poolId, poolData.partners || []);
+      if (balancesApplied) {
+        await this.applyBalances(client, poolData.year, poolData.members, balances);
+      }
+      const settlements = await this.insertSettlements(client, poolId, poolData.settlements || []);
+
+      await client.query('COMMIT');
+      return {
+        ...poolData,
+        balancesApplied,
+        settlements: settlements.map(settlement => ({ ...settlement, year: poolData.year })),
+      };
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error updating pool:', error);
+
+      if (!error.code) {
+        throw error;
+      }
+
+      throw new Error('Failed to update pool in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  async updateStatus(companyId: string, poolId: string, change: PoolStatusChange): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Only move the pool if it is still in the status the change starts from
+      const result = await client.query(
+        `UPDATE pools SET status = $1
+         WHERE id = $2 AND company_id = $3 AND status = $4`,
+        [change.toStatus, parseInt(poolId), companyId, change.fromStatus]
+      );
+
+      if (result.rowCount === 0) {
+        throw new Error(`Pool ${poolId} is no longer ${change.fromStatus}`);
+      }
+
+      await this.insertStatusChange(client, parseInt(poolId), change);
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error updating pool status:', error);
+
+      if (!error.code) {
+        throw error;
+      }
+
+      throw new Error('Failed to update pool status in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  async cancel(companyId: string, poolId: string, change: PoolStatusChange): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Only cancel the pool if it is still in the status the change starts from
+      const result = await client.query(
+        `UPDATE pools SET status = 'cancelled'
+         WHERE id = $1 AND company_id = $2 AND status = $3
+         RETURNING year, balances_applied`,
+        [parseInt(poolId), companyId, change.fromStatus]
+      );
+
+      if (result.rowCount === 0) {
+        throw new Error(`Pool ${poolId} is no longer ${change.fromStatus}`);
+      }
+
+      if (result.rows[0].balances_applied) {
+        await this.reverseBalances(client, parseInt(poolId), result.rows[0].year);
+      }
+
+      // Payments not made yet are no longer due
+      await client.query(
+        `UPDATE pool_settlements SET status = 'void'
+         WHERE pool_id = $1 AND status = 'pending'`,
+        [parseInt(poolId)]
+      );
+
+      await this.insertStatusChange(client, parseInt(poolId), change);
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error cancelling pool:', error);
+
+      if (!error.code) {
+        throw error;
+      }
+
+      throw new Error('Failed to cancel pool in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  async acceptPartner(companyId: string, poolId: string, actor: string, respondedAt: Date): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const poolResult = await client.query(
+        `SELECT year, balances_applied FROM pools
+         WHERE id = $1 AND status = 'draft' FOR UPDATE`,
+        [parseInt(poolId)]
+      );
+
+      if (poolResult.rows.length === 0) {
+        throw new Error(`Pool ${poolId} is no longer a draft`);
+      }
+
+      const partnerResult = await client.query(
+        `UPDATE pool_partners SET status = 'accepted', responded_at = $1, responded_by = $2
+         WHERE pool_id = $3 AND company_id = $4`,
+        [respondedAt, actor, parseInt(poolId), companyId]
+      );
+
+      if (partnerResult.rowCount === 0) {
+        throw new Error(`Company ${companyId} is not invited as a partner of pool ${poolId}`);
+      }
+
+      // The last acceptance applies the pool to the members' balances
+      const pendingResult = await client.query(
+        `SELECT 1 FROM pool_partners WHERE pool_id = $1 AND status <> 'accepted'`,
+        [parseInt(poolId)]
+      );
+
+      const { year, balances_applied: balancesApplied } = poolResult.rows[0];
+      if (pendingResult.rows.length === 0 && !balancesApplied) {
+        const members = await this.findMembers(parseInt(poolId), client);
+        const balances = await this.lockBalances(client, year, members);
+        await this.assertNotPooled(client, year, members, parseInt(poolId));
+        await this.applyBalances(client, year, members, balances);
+        await client.query('UPDATE pools SET balances_applied = TRUE WHERE id = $1', [parseInt(poolId)]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error accepting pool invitation:', error);
+
+      if (!error.code) {
+        throw error;
+      }
+
+      throw new Error('Failed to accept pool invitation in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  async declinePartner(companyId: string, poolId: string, actor: string, respondedAt: Date): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const poolResult = await client.query(
+        `SELECT year, balances_applied FROM pools
+         WHERE id = $1 AND status = 'draft' FOR UPDATE`,
+        [parseInt(poolId)]
+      );
+
+      if (poolResult.rows.length === 0) {
+        throw new Error(`Pool ${poolId} is no longer a draft`);
+      }
+
+      const partnerResult = await client.query(
+        `UPDATE pool_partners SET status = 'declined', responded_at = $1, responded_by = $2
+         WHERE pool_id = $3 AND company_id = $4`,
+        [respondedAt, actor, parseInt(poolId), companyId]
+      );
+
+      if (partnerResult.rowCount === 0) {
+        throw new Error(`Company ${companyId} is not invited as a partner of pool ${poolId}`);
+      }
+
+      // A partner leaving after everyone accepted takes the pool back out of the balances
+      if (poolResult.rows[0].balances_applied) {
+        await this.reverseBalances(client, parseInt(poolId), poolResult.rows[0].year);
+        await client.query('UPDATE pools SET balances_applied = FALSE WHERE id = $1', [parseInt(poolId)]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error declining pool invitation:', error);
+
+      if (!error.code) {
+        throw error;
+      }
+
+      throw new Error('Failed to decline pool invitation in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  async findSettlements(companyId: string, year: number): Promise<PoolSettlement[]> {
+    const result = await pool.query(
+      `SELECT ${SETTLEMENT_COLUMNS}
+      FROM pool_settlements s
+      JOIN pools p ON p.id = s.pool_id
+      WHERE p.year = $1 AND (s.payer_company_id = $2 OR s.payee_company_id = $2)
+      ORDER BY s.pool_id, s.id`,
+      [year, companyId]
+    );
+
+    return result.rows.map(row => this.mapSettlement(row));
+  }
+
+  async findSettlementById(companyId: string, settlementId: string): Promise<PoolSettlement | null> {
+    const result = await pool.query(
+      `SELECT ${SETTLEMENT_COLUMNS}
+      FROM pool_settlements s
+      JOIN pools p ON p.id = s.pool_id
+      WHERE s.id = $1 AND (s.payer_company_id = $2 OR s.payee_company_id = $2)`,
+      [parseInt(settlementId), companyId]
+    );
+
+    return result.rows.length > 0 ? this.mapSettlement(result.rows[0]) : null;
+  }
+
+  async markSettled(
+    companyId: string,
+    settlementId: string,
+    actor: string,
+    settledAt: Date
+  ): Promise<PoolSettlement | null> {
+    const result = await pool.query(
+      `UPDATE pool_settlements
+       SET status = 'settled', settled_at = $1, settled_by = $2
+       WHERE id = $3 AND status = 'pending' AND payee_company_id = $4`,
+      [settledAt, actor, parseInt(settlementId), companyId]
+    );
+
+    if (result.rowCount === 0) {
       return null;
     }
+
+    return this.findSettlementById(companyId, settlementId);
+  }
+
+  private async findMembers(poolId: number, client?: PoolClient): Promise<PoolMember[]> {
+    const result = await (client || pool).query(
+      `SELECT 
+        ship_id as "shipId",
+        company_id as "companyId",
+        cb_before as "cbBefore",
+        cb_after as "cbAfter"
+      FROM pool_members
+      WHERE pool_id = $1`,
+      [poolId]
+    );
+
+    return result.rows.map(m => ({
+      shipId: m.shipId,
+      companyId: m.companyId,
+      adjustedCB: parseFloat(m.cbBefore),
+      cbBefore: parseFloat(m.cbBefore),
+      cbAfter: parseFloat(m.cbAfter),
+    }));
+  }
+
+  private async findPartners(poolId: number): Promise<PoolPartner[]> {
+    const result = await pool.query(
+      `SELECT 
+        company_id as "companyId",
+        status,
+        responded_at as "respondedAt",
+        responded_by as "respondedBy"
+      FROM pool_partners
+      WHERE pool_id = $1
+      ORDER BY company_id`,
+      [poolId]
+    );
+
+    return result.rows.map(row => ({
+      companyId: row.companyId,
+      status: row.status,
+      respondedAt: row.respondedAt || undefined,
+      respondedBy: row.respondedBy || undefined,
+    }));
+  }
+
+  /**
+   * Locks the year balances of the given ships, in company and ship ID order to avoid deadlocks
+   * Every pool write takes these locks first, which serialises the single-pool check
+   * The balances are keyed by memberKey
+   */
+  private async lockBalances(
+    client: PoolClient,
+    year: number,
+    members: PoolMember[]
+  ): Promise<Map<string, number>> {
+    const result = await client.query(
+      `SELECT ship_id, company_id, cb_gco2eq FROM ship_compliance
+       WHERE year = $1 AND (company_id, ship_id) IN (SELECT * FROM UNNEST($2::varchar[], $3::varchar[]))
+       ORDER BY company_id, ship_id
+       FOR UPDATE`,
+      [year, members.map(member => member.companyId), members.map(member => member.shipId)]
+    );
+
+    const balances = new Map<string, number>();
+    for (const member of members) {
+      const row = result.rows.find(
+        candidate => candidate.company_id === member.companyId && candidate.ship_id === member.shipId
+      );
+      if (!row) {
+        throw new Error(`No compliance balance found for ship ${member.shipId} of company ${member.companyId} in year ${year}`);
+      }
+      balances.set(memberKey(row.company_id, row.ship_id), parseFloat(row.cb_gco2eq));
+    }
+
+    return balances;
+  }
+
+  /**
+   * Rejects ships that are members of another pool that is not cancelled in the year
+   */
+  private async assertNotPooled(
+    client: PoolClient,
+    year: number,
+    members: PoolMember[],
+    excludedPoolId?: number
+  ): Promise<void> {
+    const result = await client.query(
+      `SELECT pm.ship_id, pm.pool_id
+       FROM pool_members pm
+       JOIN pools p ON p.id = pm.pool_id
+       WHERE p.year = $1 AND p.status <> 'cancelled' AND ${HOLDS_SHIP}
+         AND (pm.company_id, pm.ship_id) IN (SELECT * FROM UNNEST($2::varchar[], $3::varchar[]))
+         AND p.id <> $4`,
+      [year, members.map(member => member.companyId), members.map(member => member.shipId), excludedPoolId ?? -1]
+    );
+
+    if (result.rows.length > 0) {
+      throw new PoolAllocationError(
+        'Cannot save pool: ships are already pooled this year',
+        result.rows.map(row => ({
+          shipId: row.ship_id,
+          rule: 'already_pooled' as const,
+          reason: `Ship ${row.ship_id} is already in pool ${row.pool_id} for year ${year}`,
+        }))
+      );
+    }
+  }
+
+  /**
+   * Sets each member's year balance to its CB after pooling
+   * The balance must still be the CB before pooling the allocation was made from
+   */
+  private async applyBalances(
+    client: PoolClient,
+    year: number,
+    members: PoolMember[],
+    balances: Map<string, number>
+  ): Promise<void> {
+    for (const member of members) {
+      const balance = balances.get(memberKey(member.companyId!, member.shipId))!;
+
+      if (Math.abs(balance - member.cbBefore) > POOL_SUM_TOLERANCE) {
+        throw new PoolAllocationError(
+          `Cannot save pool: the compliance balance of ship ${member.shipId} changed from ${member.cbBefore} to ${balance}, validate the pool again`
+        );
+      }
+
+      await this.setBalance(client, year, member.companyId!, member.shipId, member.cbAfter);
+    }
+  }
+
+  /**
+   * Takes the pool's change back out of its members' year balances
+   * Reverses the change rather than resetting to cb_before, so that banking
+   * or borrowing done since the pool was applied is kept
+   */
+  private async reverseBalances(client: PoolClient, poolId: number, year: number): Promise<void> {
+    await client.query(
+      `UPDATE ship_compliance sc
+       SET cb_gco2eq = sc.cb_gco2eq - (pm.cb_after - pm.cb_before), updated_at = CURRENT_TIMESTAMP
+       FROM pool_members pm
+       WHERE pm.pool_id = $1 AND sc.company_id = pm.company_id AND sc.ship_id = pm.ship_id AND sc.year = $2`,
+      [poolId, year]
+    );
+  }
+
+  private async setBalance(
+    client: PoolClient,
+    year: number,
+    companyId: string,
+    shipId: string,
+    cb: number
+  ): Promise<void> {
+    await client.query(
+      `UPDATE ship_compliance 
+       SET cb_gco2eq = $1, updated_at = CURRENT_TIMESTAMP 
+       WHERE company_id = $2 AND ship_id = $3 AND year = $4`,
+      [cb, companyId, shipId, year]
+    );
+  }
+
+  /**
+   * Inserts pool members, each must be registered with its company
+   */
+  private async insertMembers(client: PoolClient, poolId: number, members: PoolMember[]): Promise<void> {
+    for (const member of members) {
+      const memberResult = await client.query(
+        `INSERT INTO pool_members (pool_id, ship_id, company_id, cb_before, cb_after)
+         SELECT $1, $2, $3, $4, $5
+         WHERE EXISTS (SELECT 1 FROM ships WHERE ship_id = $2 AND company_id = $3)`,
+        [
+          poolId,
+          member.shipId,
+          member.companyId,
+          member.cbBefore,
+          member.cbAfter,
+        ]
+      );
+
+      if (memberResult.rowCount === 0) {
+        throw new Error(`Ship ${member.shipId} is not registered with company ${member.companyId}`);
+      }
+    }
+  }
+
+  private async insertPartners(client: PoolClient, poolId: number, partners: PoolPartner[]): Promise<void> {
+    for (const partner of partners) {
+      await client.query(
+        `INSERT INTO pool_partners (pool_id, company_id, status, responded_at, responded_by)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [poolId, partner.companyId, partner.status, partner.respondedAt || null, partner.respondedBy || null]
+      );
+    }
+  }
+
+  private async insertSettlements(
+    client: PoolClient,
+    poolId: number,
+    settlements: PoolSettlement[]
+  ): Promise<PoolSettlement[]> {
+    const saved: PoolSettlement[] = [];
+
+    for (const settlement of settlements) {
+      const result = await client.query(
+        `INSERT INTO pool_settlements (pool_id, payer_company_id, payee_company_id, transferred_gco2eq, amount_eur, status)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [
+          poolId,
+          settlement.payerCompanyId,
+          settlement.payeeCompanyId,
+          settlement.transferredGco2eq,
+          settlement.amountEur,
+          settlement.status,
+        ]
+      );
+
+      saved.push({ ...settlement, settlementId: result.rows[0].id.toString(), poolId: poolId.toString() });
+    }
+
+    return saved;
+  }
+
+  private async insertStatusChange(client: PoolClient, poolId: number, change: PoolStatusChange): Promise<void> {
+    await client.query(
+      `INSERT INTO pool_status_history (pool_id, from_status, to_status, actor, reason, changed_at)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [poolId, change.fromStatus, change.toStatus, change.actor, change.reason || null, change.changedAt]
+    );
+  }
+
+  private mapSettlement(row: any): PoolSettlement {
+    return {
+      settlementId: row.settlementId.toString(),
+      poolId: row.poolId.toString(),
+      year: row.year,
+      payerCompanyId: row.payerCompanyId,
+      payeeCompanyId: row.payeeCompanyId,
+      transferredGco2eq: parseFloat(row.transferredGco2eq),
+      amountEur: parseFloat(row.amountEur),
+      status: row.status,
+      settledAt: row.settledAt || undefined,
+      settledBy: row.settledBy || undefined,
+    };
   }
 }
@@ -1,94 +1,192 @@
-import { Route, Baseline } from '../../core/domain/Route';
-import { RouteRepository } from '../../core/ports/RouteRepository';
+import { PoolClient } from 'pg';
+import { Route, RouteFuelConsumption, RouteUpsert } from '../../../core/domain/Route';
+import { VoyageScope } from '../../../core/domain/VoyageScope';
+import { RouteRepository } from '../../../core/ports/RouteRepository';
 import pool from './database/connection';
 
+const ROUTE_COLUMNS = `
+  route_id as "routeId",
+  vessel_type as "vesselType",
+  fuel_type as "fuelType",
+  year,
+  ghg_intensity as "ghgIntensity",
+  fuel_consumption as "fuelConsumption",
+  distance,
+  total_emissions as "totalEmissions",
+  COALESCE(is_baseline, false) as "isBaseline",
+  voyage_scope as "voyageScope"`;
+
 export class PostgresRouteRepository implements RouteRepository {
-  async findAll(): Promise<Route[]> {
+  async findAll(companyId: string): Promise<Route[]> {
     try {
-      const result = await pool.query(`
-        SELECT 
-          route_id as "routeId",
-          vessel_type as "vesselType",
-          fuel_type as "fuelType",
-          year,
-          ghg_intensity as "ghgIntensity",
-          fuel_consumption as "fuelConsumption",
-          distance,
-          total_emissions as "totalEmissions",
-          COALESCE(is_baseline, false) as "isBaseline"
+      const result = await pool.query(
+        `SELECT ${ROUTE_COLUMNS}
         FROM routes
-        ORDER BY year DESC, route_id
-      `);
-      return result.rows;
+        WHERE company_id = $1
+        ORDER BY year DESC, route_id`,
+        [companyId]
+      );
+
+      // Attach each route's fuel consumption breakdown
+      const breakdown = await this.findFuelConsumptions(companyId);
+      return result.rows.map(row => ({
+        ...this.mapRow(row),
+        fuelConsumptions: breakdown.get(row.routeId) || [],
+      }));
     } catch (error) {
       console.error('Error fetching routes:', error);
       throw new Error('Failed to fetch routes from database');
     }
   }
 
-  async findByRouteId(routeId: string): Promise<Route | null> {
+  async findByRouteId(companyId: string, routeId: string): Promise<Route | null> {
     try {
       const result = await pool.query(
-        `SELECT 
-          route_id as "routeId",
-          vessel_type as "vesselType",
-          fuel_type as "fuelType",
-          year,
-          ghg_intensity as "ghgIntensity",
-          fuel_consumption as "fuelConsumption",
-          distance,
-          total_emissions as "totalEmissions",
-          COALESCE(is_baseline, false) as "isBaseline"
-        FROM routes 
-        WHERE route_id = $1`,
-        [routeId]
+        `SELECT ${ROUTE_COLUMNS}
+        FROM routes
+        WHERE company_id = $1 AND route_id = $2`,
+        [companyId, routeId]
       );
-      return result.rows[0] || null;
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const breakdown = await this.findFuelConsumptions(companyId, routeId);
+      return {
+        ...this.mapRow(result.rows[0]),
+        fuelConsumptions: breakdown.get(routeId) || [],
+      };
     } catch (error) {
       console.error('Error fetching route by ID:', error);
       throw new Error('Failed to fetch route from database');
     }
   }
 
-  async saveBaseline(routeId: string, baseline: Baseline): Promise<Baseline> {
+  async create(companyId: string, route: Route): Promise<Route> {
+    try {
+      const result = await pool.query(
+        `INSERT INTO routes
+           (route_id, vessel_type, fuel_type, year, ghg_intensity, fuel_consumption, distance, total_emissions, voyage_scope, company_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING ${ROUTE_COLUMNS}`,
+        [...this.toParams(route), companyId]
+      );
+
+      return { ...this.mapRow(result.rows[0]), fuelConsumptions: [] };
+    } catch (error: any) {
+      console.error('Error creating route:', error);
+
+      // Unique violation: the company already has a route with this ID
+      if (error.code === '23505') {
+        throw new Error(`Route ${route.routeId} already exists`);
+      }
+
+      throw new Error('Failed to save route to database');
+    }
+  }
+
+  async update(companyId: string, route: Route): Promise<Route | null> {
+    try {
+      const result = await pool.query(
+        `UPDATE routes
+         SET vessel_type = $2,
+             fuel_type = $3,
+             year = $4,
+             ghg_intensity = $5,
+             fuel_consumption = $6,
+             distance = $7,
+             total_emissions = $8,
+             voyage_scope = $9,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE route_id = $1 AND company_id = $10
+         RETURNING ${ROUTE_COLUMNS}`,
+        [...this.toParams(route), companyId]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const breakdown = await this.findFuelConsumptions(companyId, route.routeId);
+      return {
+        ...this.mapRow(result.rows[0]),
+        fuelConsumptions: breakdown.get(route.routeId) || [],
+      };
+    } catch (error) {
+      console.error('Error updating route:', error);
+      throw new Error('Failed to update route in database');
+    }
+  }
+
+  async upsertMany(companyId: string, routes: Route[]): Promise<RouteUpsert[]> {
     const client = await pool.connect();
     try {
       await client.query('BEGIN');
 
-      // First, unset all existing baselines (only one baseline allowed)
-      await client.query(
-        `UPDATE routes SET is_baseline = false WHERE is_baseline = true`
+      const upserts: RouteUpsert[] = [];
+      for (const route of routes) {
+        upserts.push(await this.upsert(client, companyId, route));
+      }
+
+      await client.query('COMMIT');
+
+      const breakdown = await this.findFuelConsumptions(companyId);
+      return upserts.map(upsert => ({
+        ...upsert,
+        route: { ...upsert.route, fuelConsumptions: breakdown.get(upsert.route.routeId) || [] },
+      }));
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error upserting routes:', error);
+
+      if (!error.code) {
+        throw error;
+      }
+
+      throw new Error('Failed to save routes to database');
+    } finally {
+      client.release();
+    }
+  }
+
+  async delete(companyId: string, routeId: string): Promise<boolean> {
+    try {
+      // The fuel breakdown and the voyages sailed on the route are removed by cascade
+      const result = await pool.query(
+        `DELETE FROM routes WHERE company_id = $1 AND route_id = $2`,
+        [companyId, routeId]
       );
 
-      // Now set the new route as baseline
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error deleting route:', error);
+      throw new Error('Failed to delete route from database');
+    }
+  }
+
+  async saveBaseline(companyId: string, routeId: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // First, unset the company's existing baselines (only one baseline allowed per company)
       await client.query(
-        `UPDATE routes SET is_baseline = true WHERE route_id = $1`,
-        [routeId]
+        `UPDATE routes SET is_baseline = false WHERE company_id = $1 AND is_baseline = true`,
+        [companyId]
       );
 
-      // Save baseline record (upsert)
-      await client.query(
-        `INSERT INTO baselines (route_id, year, ghg_intensity, fuel_consumption, distance, total_emissions)
-         VALUES ($1, $2, $3, $4, $5, $6)
-         ON CONFLICT (route_id, year) 
-         DO UPDATE SET 
-           ghg_intensity = EXCLUDED.ghg_intensity,
-           fuel_consumption = EXCLUDED.fuel_consumption,
-           distance = EXCLUDED.distance,
-           total_emissions = EXCLUDED.total_emissions,
-           created_at = CURRENT_TIMESTAMP`,
-        [
-          baseline.routeId,
-          baseline.year,
-          baseline.ghgIntensity,
-          baseline.fuelConsumption,
-          baseline.distance,
-          baseline.totalEmissions,
-        ]
+      // Now set the new route as baseline
+      const updated = await client.query(
+        `UPDATE routes SET is_baseline = true WHERE company_id = $1 AND route_id = $2`,
+        [companyId, routeId]
       );
 
+      if (updated.rowCount === 0) {
+        throw new Error(`Route ${routeId} not found`);
+      }
+
       await client.query('COMMIT');
-      return baseline;
     } catch (error) {
       await client.query('ROLLBACK');
       console.error('Error saving baseline:', error);
@@ -98,25 +196,154 @@ export class PostgresRouteRepository implements RouteRepository {
     }
   }
 
-  async findBaseline(routeId: string, year: number): Promise<Baseline | null> {
+  async saveFuelConsumptions(
+    companyId: string,
+    routeId: string,
+    fuelConsumptions: RouteFuelConsumption[]
+  ): Promise<RouteFuelConsumption[]> {
+    const client = await pool.connect();
     try {
-      const result = await pool.query(
-        `SELECT 
-          route_id as "routeId",
-          year,
-          ghg_intensity as "ghgIntensity",
-          fuel_consumption as "fuelConsumption",
-          distance,
-          total_emissions as "totalEmissions"
-        FROM baselines 
-        WHERE route_id = $1 AND year = $2`,
-        [routeId, year]
+      await client.query('BEGIN');
+
+      // Only the company's own routes can be changed
+      const routeResult = await client.query(
+        `SELECT route_id FROM routes WHERE company_id = $1 AND route_id = $2 FOR UPDATE`,
+        [companyId, routeId]
+      );
+      if (routeResult.rows.length === 0) {
+        throw new Error(`Route ${routeId} not found`);
+      }
+
+      // Replace the existing breakdown with the new one
+      await client.query(
+        `DELETE FROM route_fuel_consumption WHERE company_id = $1 AND route_id = $2`,
+        [companyId, routeId]
       );
-      return result.rows[0] || null;
+
+      for (const entry of fuelConsumptions) {
+        await client.query(
+          `INSERT INTO route_fuel_consumption (company_id, route_id, fuel_type, mass_tonnes, consumer)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [companyId, routeId, entry.fuelType, entry.mass, entry.consumer]
+        );
+      }
+
+      await client.query('COMMIT');
+      return fuelConsumptions;
     } catch (error) {
-      console.error('Error fetching baseline:', error);
-      throw new Error('Failed to fetch baseline from database');
+      await client.query('ROLLBACK');
+      console.error('Error saving route fuel consumption:', error);
+      throw new Error('Failed to save route fuel consumption to database');
+    } finally {
+      client.release();
     }
   }
-}
 
+  async saveVoyageScope(companyId: string, routeId: string, voyageScope: VoyageScope): Promise<void> {
+    try {
+      await pool.query(
+        `UPDATE routes 
+         SET voyage_scope = $1, updated_at = CURRENT_TIMESTAMP 
+         WHERE company_id = $2 AND route_id = $3`,
+        [voyageScope, companyId, routeId]
+      );
+    } catch (error) {
+      console.error('Error saving voyage scope:', error);
+      throw new Error('Failed to save voyage scope to database');
+    }
+  }
+
+  /**
+   * Insert a route, or update it if the company already has it
+   * xmax is 0 only for rows inserted by this statement
+   */
+  private async upsert(client: PoolClient, companyId: string, route: Route): Promise<RouteUpsert> {
+    const result = await client.query(
+      `INSERT INTO routes
+         (route_id, vessel_type, fuel_type, year, ghg_intensity, fuel_consumption, distance, total_emissions, voyage_scope, company_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (company_id, route_id) DO UPDATE
+       SET vessel_type = EXCLUDED.vessel_type,
+           fuel_type = EXCLUDED.fuel_type,
+           year = EXCLUDED.year,
+           ghg_intensity = EXCLUDED.ghg_intensity,
+           fuel_consumption = EXCLUDED.fuel_consumption,
+           distance = EXCLUDED.distance,
+           total_emissions = EXCLUDED.total_emissions,
+           voyage_scope = EXCLUDED.voyage_scope,
+           updated_at = CURRENT_TIMESTAMP
+       RETURNING ${ROUTE_COLUMNS}, (xmax = 0) as "created"`,
+      [...this.toParams(route), companyId]
+    );
+
+    return { route: this.mapRow(result.rows[0]), created: result.rows[0].created };
+  }
+
+  /**
+   * Column values of a route in insert order, without the company
+   */
+  private toParams(route: Route): unknown[] {
+    return [
+      route.routeId,
+      route.vesselType,
+      route.fuelType,
+      route.year,
+      route.ghgIntensity,
+      route.fuelConsumption,
+      route.distance,
+      route.totalEmissions,
+      route.voyageScope,
+    ];
+  }
+
+  /**
+   * Load fuel consumption breakdown rows grouped by route ID
+   * Loads all of the company's routes when no routeId is given
+   */
+  private async findFuelConsumptions(
+    companyId: string,
+    routeId?: string
+  ): Promise<Map<string, RouteFuelConsumption[]>> {
+    const result = await pool.query(
+      `SELECT 
+        c.route_id as "routeId",
+        c.fuel_type as "fuelType",
+        c.mass_tonnes as "mass",
+        c.consumer
+      FROM route_fuel_consumption c
+      WHERE c.company_id = $1 AND ($2::varchar IS NULL OR c.route_id = $2)
+      ORDER BY c.route_id, c.id`,
+      [companyId, routeId ?? null]
+    );
+
+    const breakdown = new Map<string, RouteFuelConsumption[]>();
+    for (const row of result.rows) {
+      const entries = breakdown.get(row.routeId) || [];
+      entries.push({
+        fuelType: row.fuelType,
+        mass: parseFloat(row.mass),
+        consumer: row.consumer,
+      });
+      breakdown.set(row.routeId, entries);
+    }
+    return breakdown;
+  }
+
+  /**
+   * Convert DECIMAL columns, which pg returns as strings, to numbers
+   */
+  private mapRow(row: any): Route {
+    return {
+      routeId: row.routeId,
+      vesselType: row.vesselType,
+      fuelType: row.fuelType,
+      year: row.year,
+      ghgIntensity: parseFloat(row.ghgIntensity),
+      fuelConsumption: parseFloat(row.fuelConsumption),
+      distance: parseFloat(row.distance),
+      totalEmissions: parseFloat(row.totalEmissions),
+      isBaseline: row.isBaseline,
+      voyageScope: row.voyageScope,
+    };
+  }
+}
@@ -1,14 +1,9 @@
-import { ShipCompliance } from '../../core/domain/ShipCompliance';
-import { ShipComplianceRepository } from '../../core/ports/ShipComplianceRepository';
+import { ShipCompliance } from '../../../core/domain/ShipCompliance';
+import { ShipComplianceRepository } from '../../../core/ports/ShipComplianceRepository';
 import pool from './database/connection';
 
-/**
- * Target GHG intensity for compliance (gCO₂e/MJ)
- */
-const COMPLIANCE_TARGET = 89.3368;
-
 export class PostgresShipComplianceRepository implements ShipComplianceRepository {
-  async findByShipAndYear(shipId: string, year: number): Promise<ShipCompliance | null> {
+  async findByShipAndYear(companyId: string, shipId: string, year: number): Promise<ShipCompliance | null> {
     try {
       const result = await pool.query(
         `SELECT 
@@ -16,26 +11,23 @@ export class PostgresShipComplianceRepository implements ShipComplianceRepositor
           ship_id as "shipId",
           year,
           cb_gco2eq as "cbGco2eq",
+          raw_cb_gco2eq as "rawCbGco2eq",
+          ghg_intensity as "ghgIntensity",
+          total_energy_mj as "totalEnergy",
+          energy_in_scope_mj as "energyInScope",
+          rfnbo_energy_mj as "rfnboEnergy",
           created_at as "createdAt",
           updated_at as "updatedAt"
         FROM ship_compliance 
-        WHERE ship_id = $1 AND year = $2`,
-        [shipId, year]
+        WHERE company_id = $1 AND ship_id = $2 AND year = $3`,
+        [companyId, shipId, year]
       );
 
       if (result.rows.length === 0) {
         return null;
       }
 
-      const row = result.rows[0];
-      return {
-        id: row.id,
-        shipId: row.shipId,
-        year: row.year,
-        cbGco2eq: parseFloat(row.cbGco2eq),
-        createdAt: row.createdAt,
-        updatedAt: row.updatedAt,
-      };
+      return this.mapRow(result.rows[0]);
     } catch (error: any) {
       console.error('Error fetching ship compliance:', error);
       
@@ -50,7 +42,7 @@ export class PostgresShipComplianceRepository implements ShipComplianceRepositor
     }
   }
 
-  async findByYear(year: number): Promise<ShipCompliance[]> {
+  async findByYear(companyId: string, year: number): Promise<ShipCompliance[]> {
     try {
       const result = await pool.query(
         `SELECT 
@@ -58,22 +50,20 @@ export class PostgresShipComplianceRepository implements ShipComplianceRepositor
           ship_id as "shipId",
           year,
           cb_gco2eq as "cbGco2eq",
+          raw_cb_gco2eq as "rawCbGco2eq",
+          ghg_intensity as "ghgIntensity",
+          total_energy_mj as "totalEnergy",
+          energy_in_scope_mj as "energyInScope",
+          rfnbo_energy_mj as "rfnboEnergy",
           created_at as "createdAt",
           updated_at as "updatedAt"
         FROM ship_compliance 
-        WHERE year = $1
+        WHERE company_id = $1 AND year = $2
         ORDER BY ship_id`,
-        [year]
+        [companyId, year]
       );
 
-      return result.rows.map(row => ({
-        id: row.id,
-        shipId: row.shipId,
-        year: row.year,
-        cbGco2eq: parseFloat(row.cbGco2eq),
-        createdAt: row.createdAt,
-        updatedAt: row.updatedAt,
-      }));
+      return result.rows.map(row => this.mapRow(row));
     } catch (error: any) {
       console.error('Error fetching ship compliance by year:', error);
       
@@ -88,61 +78,133 @@ export class PostgresShipComplianceRepository implements ShipComplianceRepositor
     }
   }
 
-  async save(shipCompliance: ShipCompliance): Promise<ShipCompliance> {
+  async findByShip(companyId: string, shipId: string): Promise<ShipCompliance[]> {
+    try {
+      const result = await pool.query(
+        `SELECT 
+          id,
+          ship_id as "shipId",
+          year,
+          cb_gco2eq as "cbGco2eq",
+          raw_cb_gco2eq as "rawCbGco2eq",
+          ghg_intensity as "ghgIntensity",
+          total_energy_mj as "totalEnergy",
+          energy_in_scope_mj as "energyInScope",
+          rfnbo_energy_mj as "rfnboEnergy",
+          created_at as "createdAt",
+          updated_at as "updatedAt"
+        FROM ship_compliance 
+        WHERE company_id = $1 AND ship_id = $2
+        ORDER BY year`,
+        [companyId, shipId]
+      );
+
+      return result.rows.map(row => this.mapRow(row));
+    } catch (error: any) {
+      console.error('Error fetching ship compliance history:', error);
+      throw new Error('Failed to fetch ship compliance history from database');
+    }
+  }
+
+  async save(companyId: string, shipCompliance: ShipCompliance): Promise<ShipCompliance> {
     try {
       if (shipCompliance.id) {
         // Update existing
         const result = await pool.query(
           `UPDATE ship_compliance 
-          SET cb_gco2eq = $1, updated_at = CURRENT_TIMESTAMP
-          WHERE id = $2
+          SET 
+            cb_gco2eq = $1,
+            raw_cb_gco2eq = COALESCE($8, raw_cb_gco2eq),
+            total_energy_mj = COALESCE($3, total_energy_mj),
+            energy_in_scope_mj = COALESCE($4, energy_in_scope_mj),
+            ghg_intensity = COALESCE($5, ghg_intensity),
+            rfnbo_energy_mj = COALESCE($6, rfnbo_energy_mj),
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $2 AND company_id = $7
           RETURNING 
             id,
             ship_id as "shipId",
             year,
             cb_gco2eq as "cbGco2eq",
+            raw_cb_gco2eq as "rawCbGco2eq",
+            ghg_intensity as "ghgIntensity",
+            total_energy_mj as "totalEnergy",
+            energy_in_scope_mj as "energyInScope",
+            rfnbo_energy_mj as "rfnboEnergy",
             created_at as "createdAt",
             updated_at as "updatedAt"`,
-          [shipCompliance.cbGco2eq, shipCompliance.id]
+          [
+            shipCompliance.cbGco2eq,
+            shipCompliance.id,
+            shipCompliance.totalEnergy ?? null,
+            shipCompliance.energyInScope ?? null,
+            shipCompliance.ghgIntensity ?? null,
+            shipCompliance.rfnboEnergy ?? null,
+            companyId,
+            shipCompliance.rawCbGco2eq ?? null,
+          ]
         );
 
-        return {
-          id: result.rows[0].id,
-          shipId: result.rows[0].shipId,
-          year: result.rows[0].year,
-          cbGco2eq: parseFloat(result.rows[0].cbGco2eq),
-          createdAt: result.rows[0].createdAt,
-          updatedAt: result.rows[0].updatedAt,
-        };
+        if (result.rows.length === 0) {
+          throw new Error(`Compliance balance ${shipCompliance.id} not found`);
+        }
+
+        return this.mapRow(result.rows[0]);
       } else {
-        // Insert new
+        // Insert new, only for ships registered with the company
         const result = await pool.query(
-          `INSERT INTO ship_compliance (ship_id, year, cb_gco2eq)
-          VALUES ($1, $2, $3)
-          ON CONFLICT (ship_id, year) 
-          DO UPDATE SET cb_gco2eq = EXCLUDED.cb_gco2eq, updated_at = CURRENT_TIMESTAMP
+          `INSERT INTO ship_compliance (company_id, ship_id, year, cb_gco2eq, raw_cb_gco2eq, total_energy_mj, energy_in_scope_mj, ghg_intensity, rfnbo_energy_mj)
+          SELECT $8, $1, $2, $3, COALESCE($9, $3), $4, $5, $6, $7
+          WHERE EXISTS (SELECT 1 FROM ships WHERE ship_id = $1 AND company_id = $8)
+          ON CONFLICT (company_id, ship_id, year) 
+          DO UPDATE SET 
+            cb_gco2eq = EXCLUDED.cb_gco2eq,
+            raw_cb_gco2eq = COALESCE($9, ship_compliance.raw_cb_gco2eq),
+            ghg_intensity = COALESCE(EXCLUDED.ghg_intensity, ship_compliance.ghg_intensity),
+            rfnbo_energy_mj = COALESCE(EXCLUDED.rfnbo_energy_mj, ship_compliance.rfnbo_energy_mj),
+            total_energy_mj = COALESCE(EXCLUDED.total_energy_mj, ship_compliance.total_energy_mj),
+            energy_in_scope_mj = COALESCE(EXCLUDED.energy_in_scope_mj, ship_compliance.energy_in_scope_mj),
+            updated_at = CURRENT_TIMESTAMP
           RETURNING 
             id,
             ship_id as "shipId",
             year,
             cb_gco2eq as "cbGco2eq",
+            raw_cb_gco2eq as "rawCbGco2eq",
+            ghg_intensity as "ghgIntensity",
+            total_energy_mj as "totalEnergy",
+            energy_in_scope_mj as "energyInScope",
+            rfnbo_energy_mj as "rfnboEnergy",
             created_at as "createdAt",
             updated_at as "updatedAt"`,
-          [shipCompliance.shipId, shipCompliance.year, shipCompliance.cbGco2eq]
+          [
+            shipCompliance.shipId,
+            shipCompliance.year,
+            shipCompliance.cbGco2eq,
+            shipCompliance.totalEnergy ?? null,
+            shipCompliance.energyInScope ?? null,
+            shipCompliance.ghgIntensity ?? null,
+            shipCompliance.rfnboEnergy ?? null,
+            companyId,
+            shipCompliance.rawCbGco2eq ?? null,
+          ]
         );
 
-        return {
-          id: result.rows[0].id,
-          shipId: result.rows[0].shipId,
-          year: result.rows[0].year,
-          cbGco2eq: parseFloat(result.rows[0].cbGco2eq),
-          createdAt: result.rows[0].createdAt,
-          updatedAt: result.rows[0].updatedAt,
-        };
+        // No row means the ship is not registered with this company
+        if (result.rows.length === 0) {
+          throw new Error(`Ship ${shipCompliance.shipId} is not registered. Register it via POST /api/ships first`);
+        }
+
+        return this.mapRow(result.rows[0]);
       }
     } catch (error: any) {
       console.error('Error saving ship compliance:', error);
       
+      // Errors raised above for missing rows carry no database error code
+      if (!error.code) {
+        throw error;
+      }
+      
       // Provide helpful error message if table doesn't exist
       if (error.code === '42P01' && error.message.includes('ship_compliance')) {
         throw new Error(
@@ -150,93 +212,28 @@ export class PostgresShipComplianceRepository implements ShipComplianceRepositor
         );
       }
       
+      // Foreign key violation: the ship is not in the ship registry
+      if (error.code === '23503') {
+        throw new Error(`Ship ${shipCompliance.shipId} is not registered. Register it via POST /api/ships first`);
+      }
+      
       throw new Error('Failed to save ship compliance to database');
     }
   }
 
-  async computeAndSave(shipId: string, year: number, routeId: string): Promise<ShipCompliance> {
-    try {
-      // First, try to get route data for the specific year
-      let routeResult = await pool.query(
-        `SELECT 
-          ghg_intensity as "ghgIntensity",
-          fuel_consumption as "fuelConsumption",
-          year
-        FROM routes 
-        WHERE route_id = $1 AND year = $2`,
-        [routeId, year]
-      );
-
-      // If not found for that year, try to find the route for any year
-      if (routeResult.rows.length === 0) {
-        console.log(`⚠️  Route ${routeId} not found for year ${year}, searching for any year...`);
-        routeResult = await pool.query(
-          `SELECT 
-            ghg_intensity as "ghgIntensity",
-            fuel_consumption as "fuelConsumption",
-            year
-          FROM routes 
-          WHERE route_id = $1
-          ORDER BY year DESC
-          LIMIT 1`,
-          [routeId]
-        );
-
-        if (routeResult.rows.length === 0) {
-          // Check if route exists at all
-          const routeExists = await pool.query(
-            `SELECT route_id, year FROM routes WHERE route_id = $1 LIMIT 1`,
-            [routeId]
-          );
-          
-          if (routeExists.rows.length === 0) {
-            throw new Error(
-              `Route ${routeId} does not exist. Available routes: R001, R002, R003, R004, R005`
-            );
-          } else {
-            const availableYears = await pool.query(
-              `SELECT DISTINCT year FROM routes WHERE route_id = $1 ORDER BY year`,
-              [routeId]
-            );
-            const years = availableYears.rows.map(r => r.year).join(', ');
-            throw new Error(
-              `Route ${routeId} not found for year ${year}. Available years for this route: ${years}`
-            );
-          }
-        } else {
-          const foundYear = routeResult.rows[0].year;
-          console.log(`ℹ️  Using route ${routeId} data from year ${foundYear} (requested year: ${year})`);
-        }
-      }
-
-      const route = routeResult.rows[0];
-      const ghgIntensity = parseFloat(route.ghgIntensity);
-      const fuelConsumption = parseFloat(route.fuelConsumption);
-
-      // Compute CB: (Target - Actual) * Fuel Consumption
-      // Positive CB = surplus (compliant), Negative CB = deficit (non-compliant)
-      const cb = (COMPLIANCE_TARGET - ghgIntensity) * fuelConsumption;
-
-      // Save the computed CB
-      const shipCompliance: ShipCompliance = {
-        shipId,
-        year,
-        cbGco2eq: cb,
-      };
-
-      return await this.save(shipCompliance);
-    } catch (error: any) {
-      console.error('Error computing ship compliance:', error);
-      
-      // Provide helpful error message if table doesn't exist
-      if (error.code === '42P01' && error.message.includes('ship_compliance')) {
-        throw new Error(
-          `Database table 'ship_compliance' does not exist. Please run the schema: npm run schema`
-        );
-      }
-      
-      throw new Error(`Failed to compute compliance balance: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+  private mapRow(row: any): ShipCompliance {
+    return {
+      id: row.id,
+      shipId: row.shipId,
+      year: row.year,
+      cbGco2eq: parseFloat(row.cbGco2eq),
+      rawCbGco2eq: row.rawCbGco2eq != null ? parseFloat(row.rawCbGco2eq) : undefined,
+      ghgIntensity: row.ghgIntensity != null ? parseFloat(row.ghgIntensity) : undefined,
+      totalEnergy: row.totalEnergy != null ? parseFloat(row.totalEnergy) : undefined,
+      energyInScope: row.energyInScope != null ? parseFloat(row.energyInScope) : undefined,
+      rfnboEnergy: row.rfnboEnergy != null ? parseFloat(row.rfnboEnergy) : undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
   }
 }
-
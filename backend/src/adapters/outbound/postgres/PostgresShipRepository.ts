@@ -0,0 +1,163 @@
+import { Ship } from '../../../core/domain/Ship';
+import { ShipRepository } from '../../../core/ports/ShipRepository';
+import pool from './database/connection';
+
+const SHIP_COLUMNS = `
+  id,
+  ship_id as "shipId",
+  imo_number as "imoNumber",
+  name,
+  gross_tonnage as "grossTonnage",
+  ship_type as "shipType",
+  flag,
+  ice_class as "iceClass",
+  company_id as "companyId",
+  created_at as "createdAt",
+  updated_at as "updatedAt"`;
+
+export class PostgresShipRepository implements ShipRepository {
+  async findAll(companyId: string): Promise<Ship[]> {
+    try {
+      const result = await pool.query(
+        `SELECT ${SHIP_COLUMNS}
+        FROM ships
+        WHERE company_id = $1
+        ORDER BY ship_id`,
+        [companyId]
+      );
+
+      return result.rows.map(row => this.mapRow(row));
+    } catch (error) {
+      console.error('Error fetching ships:', error);
+      throw new Error('Failed to fetch ships from database');
+    }
+  }
+
+  async findByShipId(companyId: string, shipId: string): Promise<Ship | null> {
+    try {
+      const result = await pool.query(
+        `SELECT ${SHIP_COLUMNS}
+        FROM ships
+        WHERE company_id = $1 AND ship_id = $2`,
+        [companyId, shipId]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRow(result.rows[0]);
+    } catch (error) {
+      console.error('Error fetching ship:', error);
+      throw new Error('Failed to fetch ship from database');
+    }
+  }
+
+  async create(companyId: string, ship: Ship): Promise<Ship> {
+    try {
+      const result = await pool.query(
+        `INSERT INTO ships (ship_id, imo_number, name, gross_tonnage, ship_type, flag, ice_class, company_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING ${SHIP_COLUMNS}`,
+        [
+          ship.shipId,
+          ship.imoNumber,
+          ship.name,
+          ship.grossTonnage,
+          ship.shipType,
+          ship.flag,
+          ship.iceClass || null,
+          companyId,
+        ]
+      );
+
+      return this.mapRow(result.rows[0]);
+    } catch (error: any) {
+      console.error('Error creating ship:', error);
+
+      // Unique violation on the company's ship_id or on imo_number
+      if (error.code === '23505') {
+        throw new Error(`A ship with ship ID ${ship.shipId} or IMO number ${ship.imoNumber} already exists`);
+      }
+
+      throw new Error('Failed to save ship to database');
+    }
+  }
+
+  async update(companyId: string, ship: Ship): Promise<Ship> {
+    try {
+      const result = await pool.query(
+        `UPDATE ships
+         SET imo_number = $2,
+             name = $3,
+             gross_tonnage = $4,
+             ship_type = $5,
+             flag = $6,
+             ice_class = $7,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE ship_id = $1 AND company_id = $8
+         RETURNING ${SHIP_COLUMNS}`,
+        [
+          ship.shipId,
+          ship.imoNumber,
+          ship.name,
+          ship.grossTonnage,
+          ship.shipType,
+          ship.flag,
+          ship.iceClass || null,
+          companyId,
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error(`Ship ${ship.shipId} not found`);
+      }
+
+      return this.mapRow(result.rows[0]);
+    } catch (error: any) {
+      console.error('Error updating ship:', error);
+
+      if (error.code === '23505') {
+        throw new Error(`Another ship already has IMO number ${ship.imoNumber}`);
+      }
+
+      throw error instanceof Error ? error : new Error('Failed to update ship in database');
+    }
+  }
+
+  async delete(companyId: string, shipId: string): Promise<boolean> {
+    try {
+      const result = await pool.query(
+        `DELETE FROM ships WHERE company_id = $1 AND ship_id = $2`,
+        [companyId, shipId]
+      );
+
+      return (result.rowCount ?? 0) > 0;
+    } catch (error: any) {
+      console.error('Error deleting ship:', error);
+
+      // Foreign key violation: compliance, banking or pooling records still reference the ship
+      if (error.code === '23503') {
+        throw new Error(`Ship ${shipId} has compliance, banking or pooling records and cannot be deleted`);
+      }
+
+      throw new Error('Failed to delete ship from database');
+    }
+  }
+
+  private mapRow(row: any): Ship {
+    return {
+      id: row.id,
+      shipId: row.shipId,
+      imoNumber: row.imoNumber,
+      name: row.name,
+      grossTonnage: parseFloat(row.grossTonnage),
+      shipType: row.shipType,
+      flag: row.flag,
+      iceClass: row.iceClass ?? undefined,
+      companyId: row.companyId,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+}
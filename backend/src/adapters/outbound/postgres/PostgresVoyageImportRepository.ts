@@ -0,0 +1,78 @@
+import { Route } from '../../../core/domain/Route';
+import { VoyageAssignment } from '../../../core/domain/Voyage';
+import { VoyageImportRepository } from '../../../core/ports/VoyageImportRepository';
+import pool from './database/connection';
+
+export class PostgresVoyageImportRepository implements VoyageImportRepository {
+  async saveImport(companyId: string, routes: Route[], voyages: VoyageAssignment[]): Promise<void> {
+    const client = await pool.connect();
+    let current = '';
+    try {
+      await client.query('BEGIN');
+
+      for (const route of routes) {
+        current = `route ${route.routeId}`;
+        await client.query(
+          `INSERT INTO routes
+             (route_id, vessel_type, fuel_type, year, ghg_intensity, fuel_consumption, distance, total_emissions, voyage_scope, company_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            route.routeId,
+            route.vesselType,
+            route.fuelType,
+            route.year,
+            route.ghgIntensity,
+            route.fuelConsumption,
+            route.distance,
+            route.totalEmissions,
+            route.voyageScope,
+            companyId,
+          ]
+        );
+
+        for (const entry of route.fuelConsumptions || []) {
+          await client.query(
+            `INSERT INTO route_fuel_consumption (company_id, route_id, fuel_type, mass_tonnes, consumer)
+             VALUES ($1, $2, $3, $4, $5)`,
+            [companyId, route.routeId, entry.fuelType, entry.mass, entry.consumer]
+          );
+        }
+      }
+
+      for (const voyage of voyages) {
+        current = `voyage of ship ${voyage.shipId} on route ${voyage.routeId}`;
+        const assigned = await client.query(
+          `INSERT INTO ship_voyages (company_id, ship_id, route_id, year)
+           SELECT $4, $1, $2, $3
+           WHERE EXISTS (SELECT 1 FROM ships WHERE ship_id = $1 AND company_id = $4)
+           ON CONFLICT (company_id, ship_id, route_id, year) DO NOTHING`,
+          [voyage.shipId, voyage.routeId, voyage.year, companyId]
+        );
+
+        // No row means the company has no such ship
+        if (assigned.rowCount === 0) {
+          throw new Error(`Ship ${voyage.shipId} does not exist`);
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error saving voyage import:', error);
+
+      // Errors raised above carry no database error code
+      if (!error.code) {
+        throw error;
+      }
+
+      // Unique violation: the company already has a route with this ID
+      if (error.code === '23505') {
+        throw new Error(`Could not import ${current}: the route ID already exists`);
+      }
+
+      throw new Error('Failed to save voyage import to database');
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { RouteFuelConsumption } from '../../../core/domain/Route';
+import { VoyageAssignment } from '../../../core/domain/Voyage';
+import { VoyageRepository } from '../../../core/ports/VoyageRepository';
+import pool from './database/connection';
+
+export class PostgresVoyageRepository implements VoyageRepository {
+  async findByShipAndYear(companyId: string, shipId: string, year: number): Promise<VoyageAssignment[]> {
+    try {
+      const result = await pool.query(
+        `SELECT 
+          id,
+          ship_id as "shipId",
+          route_id as "routeId",
+          year,
+          created_at as "createdAt"
+        FROM ship_voyages 
+        WHERE company_id = $1 AND ship_id = $2 AND year = $3
+        ORDER BY created_at, id`,
+        [companyId, shipId, year]
+      );
+
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching ship voyages:', error);
+      throw new Error('Failed to fetch ship voyages from database');
+    }
+  }
+
+  async findByRoute(companyId: string, routeId: string): Promise<VoyageAssignment[]> {
+    try {
+      const result = await pool.query(
+        `SELECT 
+          id,
+          ship_id as "shipId",
+          route_id as "routeId",
+          year,
+          created_at as "createdAt"
+        FROM ship_voyages 
+        WHERE company_id = $1 AND route_id = $2
+        ORDER BY ship_id, year`,
+        [companyId, routeId]
+      );
+
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching route voyages:', error);
+      throw new Error('Failed to fetch route voyages from database');
+    }
+  }
+
+  async assign(companyId: string, shipId: string, routeId: string, year: number): Promise<VoyageAssignment> {
+    try {
+      const result = await pool.query(
+        `INSERT INTO ship_voyages (company_id, ship_id, route_id, year)
+         SELECT $4, $1, $2, $3
+         WHERE EXISTS (SELECT 1 FROM ships WHERE ship_id = $1 AND company_id = $4)
+           AND EXISTS (SELECT 1 FROM routes WHERE route_id = $2 AND company_id = $4)
+         ON CONFLICT (company_id, ship_id, route_id, year) 
+         DO UPDATE SET ship_id = EXCLUDED.ship_id
+         RETURNING 
+           id,
+           ship_id as "shipId",
+           route_id as "routeId",
+           year,
+           created_at as "createdAt"`,
+        [shipId, routeId, year, companyId]
+      );
+
+      // No row means the company has no such ship or route
+      if (result.rows.length === 0) {
+        throw new Error(`Ship ${shipId} or route ${routeId} does not exist`);
+      }
+
+      return result.rows[0];
+    } catch (error: any) {
+      console.error('Error assigning voyage:', error);
+
+      // Errors raised above carry no database error code
+      if (!error.code) {
+        throw error;
+      }
+
+      // Foreign key violation: unknown ship or route
+      if (error.code === '23503') {
+        throw new Error(`Ship ${shipId} or route ${routeId} does not exist`);
+      }
+
+      throw new Error('Failed to assign voyage in database');
+    }
+  }
+
+  async assignWithFuelConsumptions(
+    companyId: string,
+    shipId: string,
+    routeId: string,
+    year: number,
+    fuelConsumptions: RouteFuelConsumption[]
+  ): Promise<VoyageAssignment> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      // Locked so that a breakdown saved meanwhile is not replaced
+      const routeResult = await client.query(
+        `SELECT route_id FROM routes WHERE company_id = $1 AND route_id = $2 FOR UPDATE`,
+        [companyId, routeId]
+      );
+      if (routeResult.rows.length === 0) {
+        throw new Error(`Route ${routeId} does not exist`);
+      }
+
+      const existing = await client.query(
+        `SELECT 1 FROM route_fuel_consumption WHERE company_id = $1 AND route_id = $2 LIMIT 1`,
+        [companyId, routeId]
+      );
+      if (existing.rows.length > 0) {
+        throw new Error(`Route ${routeId} already has a fuel consumption breakdown`);
+      }
+
+      for (const entry of fuelConsumptions) {
+        await client.query(
+          `INSERT INTO route_fuel_consumption (company_id, route_id, fuel_type, mass_tonnes, consumer)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [companyId, routeId, entry.fuelType, entry.mass, entry.consumer]
+        );
+      }
+
+      const result = await client.query(
+        `INSERT INTO ship_voyages (company_id, ship_id, route_id, year)
+         SELECT $4, $1, $2, $3
+         WHERE EXISTS (SELECT 1 FROM ships WHERE ship_id = $1 AND company_id = $4)
+         ON CONFLICT (company_id, ship_id, route_id, year) 
+         DO UPDATE SET ship_id = EXCLUDED.ship_id
+         RETURNING 
+           id,
+           ship_id as "shipId",
+           route_id as "routeId",
+           year,
+           created_at as "createdAt"`,
+        [shipId, routeId, year, companyId]
+      );
+
+      // No row means the company has no such ship
+      if (result.rows.length === 0) {
+        throw new Error(`Ship ${shipId} does not exist`);
+      }
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error assigning voyage with fuel consumption:', error);
+
+      // Errors raised above carry no database error code
+      if (!error.code) {
+        throw error;
+      }
+
+      // Foreign key violation: unknown ship
+      if (error.code === '23503') {
+        throw new Error(`Ship ${shipId} does not exist`);
+      }
+
+      throw new Error('Failed to assign voyage in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  async remove(companyId: string, shipId: string, routeId: string, year: number): Promise<boolean> {
+    try {
+      const result = await pool.query(
+        `DELETE FROM ship_voyages 
+         WHERE company_id = $1 AND ship_id = $2 AND route_id = $3 AND year = $4`,
+        [companyId, shipId, routeId, year]
+      );
+
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error('Error removing voyage:', error);
+      throw new Error('Failed to remove voyage from database');
+    }
+  }
+}
@@ -1,58 +1,256 @@
-import { BankOperation, ApplyOperation, BankingResult } from '../domain/Banking';
+/**
+ * Banking Use Case
+ *
+ * This class contains the business logic for banking and borrowing
+ * compliance surplus per ship (Article 20). The rules are checked against
+ * the ship's balances before any change is recorded in the banking ledger.
+ * It implements the application layer of the hexagonal architecture.
+ *
+ * @class BankingUseCase
+ * @module application/BankingUseCase
+ */
+
+import {
+  BankOperation,
+  ApplyOperation,
+  BankingResult,
+  BankedAmounts,
+  checkApply,
+  checkBank,
+  checkBankingDeadline,
+} from '../domain/Banking';
+import { BorrowEntry, BorrowOperation, calculateRepayment, checkBorrow } from '../domain/Borrowing';
+import { BankingHistory, LedgerAudit, LedgerEntry, projectRunningBalance } from '../domain/BankingLedger';
 import { BankingRepository } from '../ports/BankingRepository';
+import { BorrowingRepository } from '../ports/BorrowingRepository';
+import { ShipComplianceRepository } from '../ports/ShipComplianceRepository';
 
+/**
+ * Banking Use Case Class
+ *
+ * Handles all business logic related to banking, including:
+ * - Banking the surplus of a reporting year
+ * - Applying surplus banked in earlier years to a deficit
+ * - Borrowing an advance surplus from the following year
+ * - Ledger history, reversals and expiry of banked surplus
+ */
 export class BankingUseCase {
-  constructor(private bankingRepository: BankingRepository) {}
+  /**
+   * Creates an instance of BankingUseCase
+   *
+   * @param {BankingRepository} bankingRepository - Repository for the banking ledger
+   * @param {ShipComplianceRepository} shipComplianceRepository - Repository for ship compliance data access
+   * @param {BorrowingRepository} borrowingRepository - Repository for borrowings
+   */
+  constructor(
+    private bankingRepository: BankingRepository,
+    private shipComplianceRepository: ShipComplianceRepository,
+    private borrowingRepository: BorrowingRepository
+  ) {}
+
+  /**
+   * Bank surplus of a ship's reporting year
+   *
+   * @param {string} companyId - The company operating the ship
+   * @param {BankOperation} operation - Ship, reporting year and amount
+   * @param {LedgerAudit} audit - Who banks the surplus and why
+   * @returns {Promise<BankingResult>} CB of the year before and after banking, or the reason it was refused
+   */
+  async bankSurplus(companyId: string, operation: BankOperation, audit: LedgerAudit): Promise<BankingResult> {
+    const compliance = await this.shipComplianceRepository.findByShipAndYear(
+      companyId,
+      operation.shipId,
+      operation.year
+    );
+
+    if (!compliance) {
+      return notFound(operation.shipId, operation.year);
+    }
+
+    const rejection = checkBank(compliance.cbGco2eq, operation.amount, operation.year, new Date());
+    if (rejection) {
+      return rejected(compliance.cbGco2eq, rejection);
+    }
+
+    const entry = await this.bankingRepository.bankSurplusForShip(
+      companyId,
+      operation.shipId,
+      operation.year,
+      operation.amount,
+      audit
+    );
+
+    return {
+      cbBefore: entry.cbBefore!,
+      applied: operation.amount,
+      cbAfter: entry.cbAfter!,
+      success: true,
+      entries: [entry],
+    };
+  }
 
-  async bankSurplus(operation: BankOperation): Promise<BankingResult> {
-    const currentCB = await this.bankingRepository.getComplianceBalance(operation.year);
-    
-    if (currentCB.cb <= 0) {
-      return {
-        cbBefore: currentCB.cb,
-        applied: 0,
-        cbAfter: currentCB.cb,
-        success: false,
-        message: 'Cannot bank: Compliance Balance is not positive',
-      };
+  /**
+   * Apply surplus banked in earlier years to a ship's deficit, oldest vintages first
+   *
+   * @param {string} companyId - The company operating the ship
+   * @param {ApplyOperation} operation - Ship, target year and amount
+   * @param {LedgerAudit} audit - Who applies the surplus and why
+   * @returns {Promise<BankingResult>} CB of the target year before and after applying, or the reason it was refused
+   */
+  async applyBankedSurplus(companyId: string, operation: ApplyOperation, audit: LedgerAudit): Promise<BankingResult> {
+    const compliance = await this.shipComplianceRepository.findByShipAndYear(
+      companyId,
+      operation.shipId,
+      operation.year
+    );
+
+    if (!compliance) {
+      return notFound(operation.shipId, operation.year);
     }
 
-    const bankedAmount = Math.min(operation.amount, currentCB.cb);
-    await this.bankingRepository.bankSurplus(operation.year, bankedAmount);
+    const available = await this.bankingRepository.getAvailableBankedAmount(
+      companyId,
+      operation.shipId,
+      operation.year
+    );
+
+    const rejection = checkApply(compliance.cbGco2eq, available, operation.amount, operation.year, new Date());
+    if (rejection) {
+      return rejected(compliance.cbGco2eq, rejection);
+    }
+
+    const entries = await this.bankingRepository.applyBankedSurplusToShip(
+      companyId,
+      operation.shipId,
+      operation.year,
+      operation.amount,
+      audit
+    );
 
     return {
-      cbBefore: currentCB.cb,
-      applied: bankedAmount,
-      cbAfter: currentCB.cb - bankedAmount,
+      cbBefore: entries[0].cbBefore!,
+      applied: operation.amount,
+      cbAfter: entries[entries.length - 1].cbAfter!,
       success: true,
+      entries,
+    };
+  }
+
+  /**
+   * Surplus of a ship banked from a year, and banked from earlier years
+   *
+   * @param {string} companyId - The company operating the ship
+   * @param {string} shipId - The unique identifier of the ship
+   * @param {number} year - Reporting year
+   * @returns {Promise<BankedAmounts>} Banked and available amounts
+   */
+  async getBankedAmounts(companyId: string, shipId: string, year: number): Promise<BankedAmounts> {
+    return {
+      shipId,
+      year,
+      bankedAmount: await this.bankingRepository.getBankedAmountForShip(companyId, shipId, year),
+      availableAmount: await this.bankingRepository.getAvailableBankedAmount(companyId, shipId, year),
     };
   }
 
-  async applyBankedSurplus(operation: ApplyOperation): Promise<BankingResult> {
-    const currentCB = await this.bankingRepository.getComplianceBalance(operation.year);
-    const bankedAmount = await this.bankingRepository.getBankedAmount(operation.year);
+  /**
+   * Borrow an advance compliance surplus for a ship in deficit (Article 20)
+   * The amount plus 10% is deducted when the following year's CB is computed
+   */
+  async borrowAdvanceSurplus(companyId: string, operation: BorrowOperation, audit: LedgerAudit): Promise<BankingResult> {
+    const compliance = await this.shipComplianceRepository.findByShipAndYear(
+      companyId,
+      operation.shipId,
+      operation.year
+    );
 
-    if (bankedAmount <= 0) {
-      return {
-        cbBefore: currentCB.cb,
-        applied: 0,
-        cbAfter: currentCB.cb,
-        success: false,
-        message: 'No banked surplus available',
-      };
+    if (!compliance) {
+      return notFound(operation.shipId, operation.year);
     }
 
-    const appliedAmount = Math.min(operation.amount, bankedAmount);
-    await this.bankingRepository.applyBankedSurplus(operation.year, appliedAmount);
+    if (compliance.energyInScope === undefined) {
+      return rejected(
+        compliance.cbGco2eq,
+        'Cannot borrow: energy in scope is unknown, recompute the Compliance Balance first'
+      );
+    }
 
-    const updatedCB = await this.bankingRepository.getComplianceBalance(operation.year);
+    const lateReason = checkBankingDeadline(operation.year, new Date());
+    if (lateReason) {
+      return rejected(compliance.cbGco2eq, `Cannot borrow: ${lateReason}`);
+    }
+
+    const borrowings = await this.borrowingRepository.findByShip(companyId, operation.shipId);
+    const reason = checkBorrow(
+      compliance.cbGco2eq,
+      operation.amount,
+      operation.year,
+      compliance.energyInScope,
+      borrowings
+    );
+    if (reason) {
+      return rejected(compliance.cbGco2eq, reason);
+    }
+
+    // The repository checks the rules again under its lock
+    await this.borrowingRepository.borrow(
+      companyId,
+      operation.shipId,
+      operation.year,
+      operation.amount,
+      calculateRepayment(operation.amount),
+      audit
+    );
 
     return {
-      cbBefore: currentCB.cb,
-      applied: appliedAmount,
-      cbAfter: updatedCB.cb,
+      cbBefore: compliance.cbGco2eq,
+      applied: operation.amount,
+      cbAfter: compliance.cbGco2eq + operation.amount,
       success: true,
     };
   }
+
+  /**
+   * All borrowings of a ship, ordered by year
+   */
+  async getBorrowings(companyId: string, shipId: string): Promise<BorrowEntry[]> {
+    return this.borrowingRepository.findByShip(companyId, shipId);
+  }
+
+  /**
+   * Every banking and borrowing change to a ship's balances, oldest first,
+   * with the banked surplus after each change
+   */
+  async getHistory(companyId: string, shipId: string): Promise<BankingHistory> {
+    const entries = await this.bankingRepository.findLedgerByShip(companyId, shipId);
+    return projectRunningBalance(shipId, entries);
+  }
+
+  /**
+   * Undo a bank or apply entry; returns null if the entry does not exist
+   */
+  async reverseEntry(companyId: string, entryId: string, audit: LedgerAudit): Promise<LedgerEntry | null> {
+    return this.bankingRepository.reverseEntry(companyId, entryId, audit);
+  }
+
+  /**
+   * Write off the surplus a ship still has banked from a year
+   */
+  async expireBankedSurplus(companyId: string, shipId: string, year: number, audit: LedgerAudit): Promise<LedgerEntry> {
+    return this.bankingRepository.expireBankedSurplus(companyId, shipId, year, audit);
+  }
+}
+
+function notFound(shipId: string, year: number): BankingResult {
+  return {
+    cbBefore: 0,
+    applied: 0,
+    cbAfter: 0,
+    success: false,
+    message: `No compliance balance found for ship ${shipId} in year ${year}`,
+  };
 }
 
+function rejected(cb: number, message: string): BankingResult {
+  return { cbBefore: cb, applied: 0, cbAfter: cb, success: false, message };
+}
@@ -0,0 +1,64 @@
+/**
+ * Company Use Case
+ * 
+ * This class contains the business logic for managing the companies (DoC
+ * holders) that own fleets, banking ledgers and pools. It implements the
+ * application layer of the hexagonal architecture.
+ * 
+ * @class CompanyUseCase
+ * @module application/CompanyUseCase
+ */
+
+import { Company, validateCompany } from '../domain/Company';
+import { CompanyRepository } from '../ports/CompanyRepository';
+
+/**
+ * Company Use Case Class
+ * 
+ * Handles all business logic related to companies, including:
+ * - Company retrieval
+ * - Company registration with field validation
+ */
+export class CompanyUseCase {
+  /**
+   * Creates an instance of CompanyUseCase
+   * 
+   * @param {CompanyRepository} companyRepository - Repository for company data access
+   */
+  constructor(private companyRepository: CompanyRepository) {}
+
+  /**
+   * Retrieves all companies
+   * 
+   * @returns {Promise<Company[]>} Array of all companies
+   */
+  async getAllCompanies(): Promise<Company[]> {
+    return this.companyRepository.findAll();
+  }
+
+  /**
+   * Retrieves a company by its company ID
+   * 
+   * @param {string} companyId - The unique identifier of the company
+   * @returns {Promise<Company | null>} The company, or null if it does not exist
+   */
+  async getCompany(companyId: string): Promise<Company | null> {
+    return this.companyRepository.findByCompanyId(companyId);
+  }
+
+  /**
+   * Registers a new company
+   * 
+   * @param {Company} company - Company to register
+   * @returns {Promise<Company>} The registered company
+   * @throws {Error} If the company is invalid or already exists
+   */
+  async registerCompany(company: Company): Promise<Company> {
+    const errors = validateCompany(company);
+    if (errors.length > 0) {
+      throw new Error(`Invalid company: ${errors.join(', ')}`);
+    }
+
+    return this.companyRepository.create(company);
+  }
+}
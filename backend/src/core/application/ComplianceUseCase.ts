@@ -1,15 +1,25 @@
-import { ComplianceBalance, AdjustedComplianceBalance } from '../domain/Compliance';
+import { ComplianceBalance, AdjustedComplianceBalance, calculateAdjustedCB } from '../domain/Compliance';
 import { ComplianceRepository } from '../ports/ComplianceRepository';
 
 export class ComplianceUseCase {
   constructor(private complianceRepository: ComplianceRepository) {}
 
-  async getComplianceBalance(year: number): Promise<ComplianceBalance> {
-    return this.complianceRepository.findComplianceBalance(year);
+  /**
+   * Sum of the adjusted CBs of all ships of the company in a year
+   */
+  async getComplianceBalance(companyId: string, year: number): Promise<ComplianceBalance> {
+    const adjusted = await this.getAdjustedComplianceBalance(companyId, year);
+    return {
+      year,
+      cb: adjusted.reduce((sum, ship) => sum + ship.adjustedCB, 0),
+    };
   }
 
-  async getAdjustedComplianceBalance(year: number): Promise<AdjustedComplianceBalance[]> {
-    return this.complianceRepository.findAdjustedComplianceBalance(year);
+  /**
+   * Adjusted CB per ship, with the components it is derived from
+   */
+  async getAdjustedComplianceBalance(companyId: string, year: number): Promise<AdjustedComplianceBalance[]> {
+    const components = await this.complianceRepository.findComponents(companyId, year);
+    return components.map(calculateAdjustedCB);
   }
 }
-
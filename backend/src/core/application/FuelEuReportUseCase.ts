@@ -0,0 +1,83 @@
+/**
+ * FuelEU Report Use Case
+ *
+ * This class assembles the FuelEU report of a ship for a reporting year from
+ * its computed CB and voyages, the banking, borrowing and pooling changes
+ * made to the CB, and the resulting penalty.
+ * It implements the application layer of the hexagonal architecture.
+ *
+ * @class FuelEuReportUseCase
+ * @module application/FuelEuReportUseCase
+ */
+
+import { calculateAdjustedCB } from '../domain/Compliance';
+import { FuelEuReport, buildFuelEuReport } from '../domain/FuelEuReport';
+import { getTargetIntensity } from '../domain/GhgIntensityTarget';
+import { ComplianceRepository } from '../ports/ComplianceRepository';
+import { ShipComplianceRepository } from '../ports/ShipComplianceRepository';
+import { ShipRepository } from '../ports/ShipRepository';
+import { PenaltyUseCase } from './PenaltyUseCase';
+import { ShipComplianceUseCase } from './ShipComplianceUseCase';
+
+/**
+ * FuelEU Report Use Case Class
+ *
+ * Handles all business logic related to FuelEU reports, including:
+ * - Energy in scope, GHG intensity and target of the reporting year
+ * - The CB and its banking, borrowing and pooling adjustments
+ * - The penalty for the adjusted CB
+ * - The contribution of each voyage
+ */
+export class FuelEuReportUseCase {
+  private penaltyUseCase: PenaltyUseCase;
+
+  /**
+   * Creates an instance of FuelEuReportUseCase
+   *
+   * @param {ShipComplianceUseCase} shipComplianceUseCase - Provides the ship's yearly CB and voyages
+   * @param {ShipComplianceRepository} shipComplianceRepository - Repository for ship compliance data access, used for penalties
+   * @param {ComplianceRepository} complianceRepository - Provides the banking, borrowing and pooling changes to the CB
+   * @param {ShipRepository} shipRepository - Provides the ship's particulars
+   */
+  constructor(
+    private shipComplianceUseCase: ShipComplianceUseCase,
+    shipComplianceRepository: ShipComplianceRepository,
+    private complianceRepository: ComplianceRepository,
+    private shipRepository: ShipRepository
+  ) {
+    this.penaltyUseCase = new PenaltyUseCase(shipComplianceRepository);
+  }
+
+  /**
+   * Builds the FuelEU report of a ship for a reporting year
+   *
+   * @param {string} companyId - The company operating the ship
+   * @param {string} shipId - The unique identifier of the ship
+   * @param {number} year - Reporting year
+   * @returns {Promise<FuelEuReport | null>} The report, or null if the ship has no CB for the year
+   */
+  async getReport(companyId: string, shipId: string, year: number): Promise<FuelEuReport | null> {
+    const compliance = await this.shipComplianceUseCase.getShipCompliance(companyId, shipId, year);
+    if (!compliance) {
+      return null;
+    }
+
+    const components = await this.complianceRepository.findShipComponents(companyId, shipId, year);
+    const penalty = await this.penaltyUseCase.getShipPenalty(companyId, shipId, year);
+    if (!components || !penalty) {
+      return null;
+    }
+
+    const breakdown = await this.shipComplianceUseCase.getVoyageBreakdown(companyId, shipId, year);
+    const ship = await this.shipRepository.findByShipId(companyId, shipId);
+
+    return buildFuelEuReport(
+      compliance,
+      calculateAdjustedCB(components),
+      penalty,
+      getTargetIntensity(year),
+      breakdown.voyages,
+      ship
+    );
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * MRV Import Use Case
+ *
+ * This class contains the business logic for bootstrapping FuelEU compliance
+ * from EU MRV annual emission reports. Each ship's report is mapped onto the
+ * company's registered ship and onto routes for its reporting year, from
+ * which the ship's first CB is computed.
+ * It implements the application layer of the hexagonal architecture.
+ *
+ * @class MrvImportUseCase
+ * @module application/MrvImportUseCase
+ */
+
+import { MRV_COLUMNS, MrvAcceptedShip, MrvImportReport, parseMrvReport, toMrvRoutes } from '../domain/MrvReport';
+import { normalizeImoNumber } from '../domain/Ship';
+import { VoyageAssignment } from '../domain/Voyage';
+import { RejectedImportRow } from '../domain/VoyageImport';
+import { RouteRepository } from '../ports/RouteRepository';
+import { ShipRepository } from '../ports/ShipRepository';
+import { VoyageImportRepository } from '../ports/VoyageImportRepository';
+import { ShipComplianceUseCase } from './ShipComplianceUseCase';
+
+/**
+ * MRV Import Use Case Class
+ *
+ * Handles all business logic related to MRV imports, including:
+ * - Reading THETIS-MRV exports
+ * - Matching reports to registered ships by IMO number
+ * - Splitting each reporting year into routes by kind of voyage
+ * - Atomic commit of the routes and voyages, and computing the ships' CBs
+ */
+export class MrvImportUseCase {
+  /**
+   * Creates an instance of MrvImportUseCase
+   *
+   * @param {RouteRepository} routeRepository - Repository for the company's saved routes
+   * @param {ShipRepository} shipRepository - Repository for the company's ships
+   * @param {VoyageImportRepository} voyageImportRepository - Saves the routes and voyages
+   * @param {ShipComplianceUseCase} shipComplianceUseCase - Computes the ships' CBs from the routes
+   */
+  constructor(
+    private routeRepository: RouteRepository,
+    private shipRepository: ShipRepository,
+    private voyageImportRepository: VoyageImportRepository,
+    private shipComplianceUseCase: ShipComplianceUseCase
+  ) {}
+
+  /**
+   * Imports a THETIS-MRV export and computes each ship's CB for its reporting year
+   *
+   * Reports are rejected for ships the company has not registered, for a
+   * ship and year listed twice, and for years already imported. If any
+   * report is rejected, or on a dry run, nothing is saved.
+   *
+   * @param {string} companyId - The company operating the ships
+   * @param {string} csv - The export saved as CSV
+   * @param {boolean} [dryRun] - Map and report without saving
+   * @returns {Promise<MrvImportReport>} Ships with their routes, rejected rows, and the computed CBs
+   * @throws {Error} If the export cannot be read or a column is missing
+   */
+  async importReport(companyId: string, csv: string, dryRun = false): Promise<MrvImportReport> {
+    let parsed;
+    try {
+      parsed = parseMrvReport(csv);
+    } catch (error: any) {
+      throw new Error(`Invalid MRV report: ${error.message}`);
+    }
+
+    const savedRouteIds = new Set((await this.routeRepository.findAll(companyId)).map(route => route.routeId));
+    const shipsByImo = new Map(
+      (await this.shipRepository.findAll(companyId)).map(ship => [normalizeImoNumber(ship.imoNumber), ship])
+    );
+
+    const accepted: MrvAcceptedShip[] = [];
+    const rejected: RejectedImportRow[] = [...parsed.rejected];
+    const firstLines = new Map<string, number>();
+
+    for (const report of parsed.reports) {
+      const reasons: string[] = [];
+      const ship = shipsByImo.get(normalizeImoNumber(report.imoNumber));
+      const routes = toMrvRoutes(report);
+
+      if (!ship) {
+        reasons.push(`no ship with IMO number ${report.imoNumber} is registered`);
+      }
+
+      const key = `${normalizeImoNumber(report.imoNumber)}:${report.year}`;
+      if (firstLines.has(key)) {
+        reasons.push(`duplicate of line ${firstLines.get(key)} (same ship and reporting period)`);
+      } else {
+        firstLines.set(key, report.line);
+      }
+
+      if (routes.some(route => savedRouteIds.has(route.routeId))) {
+        reasons.push(`the ${report.year} report of IMO ${report.imoNumber} has already been imported`);
+      }
+
+      if (reasons.length > 0) {
+        rejected.push({
+          line: report.line,
+          values: { [MRV_COLUMNS.imoNumber]: report.imoNumber, [MRV_COLUMNS.name]: report.name },
+          reasons,
+        });
+      } else {
+        accepted.push({
+          line: report.line,
+          imoNumber: report.imoNumber,
+          shipId: ship!.shipId,
+          year: report.year,
+          timeAtSea: report.timeAtSea,
+          co2Emissions: report.co2Emissions,
+          routes,
+        });
+      }
+    }
+
+    rejected.sort((a, b) => a.line - b.line);
+
+    const result: MrvImportReport = {
+      dryRun,
+      committed: false,
+      totalRows: parsed.reports.length + parsed.rejected.length,
+      accepted,
+      rejected,
+      recomputed: [],
+    };
+
+    if (dryRun || rejected.length > 0 || accepted.length === 0) {
+      return result;
+    }
+
+    const voyages: VoyageAssignment[] = accepted.flatMap(shipReport =>
+      shipReport.routes.map(route => ({ shipId: shipReport.shipId, routeId: route.routeId, year: shipReport.year }))
+    );
+
+    await this.voyageImportRepository.saveImport(
+      companyId,
+      accepted.flatMap(shipReport => shipReport.routes),
+      voyages
+    );
+
+    const recomputed = await this.shipComplianceUseCase.recomputeVoyages(companyId, voyages);
+    return {
+      ...result,
+      committed: true,
+      recomputed: recomputed.map(yearly => yearly.compliance),
+    };
+  }
+}
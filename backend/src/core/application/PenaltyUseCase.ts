@@ -0,0 +1,112 @@
+/**
+ * Penalty Use Case
+ * 
+ * This class turns negative compliance balances into FuelEU remedial
+ * penalties, per ship and aggregated per fleet and year, so that expected
+ * costs can be accrued. It implements the application layer of the
+ * hexagonal architecture.
+ * 
+ * @class PenaltyUseCase
+ * @module application/PenaltyUseCase
+ */
+
+import { ShipCompliance } from '../domain/ShipCompliance';
+import {
+  PenaltyResult,
+  FleetPenaltySummary,
+  calculatePenalty,
+  countConsecutiveDeficitYears,
+} from '../domain/Penalty';
+import { getTargetIntensity } from '../domain/GhgIntensityTarget';
+import { checkRfnboSubtarget } from '../domain/Rfnbo';
+import { ShipComplianceRepository } from '../ports/ShipComplianceRepository';
+
+/**
+ * Penalty Use Case Class
+ * 
+ * Handles all business logic related to penalties, including:
+ * - Remedial penalty per ship and year
+ * - Escalation for consecutive deficit years from the ship's history
+ * - RFNBO sub-target shortfall as a separate component from 2034
+ * - Fleet-level penalty totals per year
+ */
+export class PenaltyUseCase {
+  /**
+   * Creates an instance of PenaltyUseCase
+   * 
+   * @param {ShipComplianceRepository} shipComplianceRepository - Repository for ship compliance data access
+   */
+  constructor(private shipComplianceRepository: ShipComplianceRepository) {}
+
+  /**
+   * Calculates the penalty of a ship for a reporting year
+   * 
+   * @param {string} companyId - The company operating the ship
+   * @param {string} shipId - The unique identifier of the ship
+   * @param {number} year - Reporting year
+   * @returns {Promise<PenaltyResult | null>} Penalty breakdown, or null if no CB exists for the ship and year
+   */
+  async getShipPenalty(companyId: string, shipId: string, year: number): Promise<PenaltyResult | null> {
+    const history = await this.shipComplianceRepository.findByShip(companyId, shipId);
+    const compliance = history.find(entry => entry.year === year);
+
+    if (!compliance) {
+      return null;
+    }
+
+    return this.toPenalty(compliance, history);
+  }
+
+  /**
+   * Calculates penalties for every ship of a company with a compliance balance in a year
+   * 
+   * @param {string} companyId - The company whose fleet is assessed
+   * @param {number} year - Reporting year
+   * @returns {Promise<FleetPenaltySummary>} Per-ship penalties and fleet totals
+   */
+  async getFleetPenalties(companyId: string, year: number): Promise<FleetPenaltySummary> {
+    const complianceList = await this.shipComplianceRepository.findByYear(companyId, year);
+    const penalties: PenaltyResult[] = [];
+
+    for (const compliance of complianceList) {
+      // Only ships in deficit need their history for the escalation multiplier
+      const history = compliance.cbGco2eq < 0
+        ? await this.shipComplianceRepository.findByShip(companyId, compliance.shipId)
+        : [compliance];
+      penalties.push(this.toPenalty(compliance, history));
+    }
+
+    return {
+      year,
+      shipCount: penalties.length,
+      shipsInDeficit: penalties.filter(p => p.totalPenalty > 0).length,
+      totalPenalty: penalties.reduce((sum, p) => sum + p.totalPenalty, 0),
+      penalties,
+    };
+  }
+
+  /**
+   * Builds the penalty of one compliance record
+   * 
+   * Records computed before the actual GHG intensity was stored fall back
+   * to the target intensity of the reporting year.
+   */
+  private toPenalty(compliance: ShipCompliance, history: ShipCompliance[]): PenaltyResult {
+    const ghgIntensity = compliance.ghgIntensity ?? getTargetIntensity(compliance.year);
+    const consecutiveDeficitYears = countConsecutiveDeficitYears(history, compliance.year);
+    const rfnboSubtarget = checkRfnboSubtarget(
+      compliance.year,
+      compliance.energyInScope ?? 0,
+      compliance.rfnboEnergy ?? 0
+    );
+
+    return calculatePenalty(
+      compliance.shipId,
+      compliance.year,
+      compliance.cbGco2eq,
+      ghgIntensity,
+      consecutiveDeficitYears,
+      rfnboSubtarget
+    );
+  }
+}
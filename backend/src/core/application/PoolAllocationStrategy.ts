@@ -0,0 +1,126 @@
+/**
+ * Pool Allocation Strategies
+ *
+ * Each strategy decides the CB after pooling of every member of a pool.
+ * Strategies share one interface so that PoolUseCase can validate any
+ * allocation against the Article 21 rules the same way, whichever
+ * strategy produced it.
+ *
+ * @module application/PoolAllocationStrategy
+ */
+
+import {
+  CreatePoolRequest,
+  PoolAllocationStrategyName,
+  PoolMember,
+  POOL_ALLOCATION_STRATEGIES,
+} from '../domain/Pool';
+import {
+  PoolAllocationError,
+  allocateByPriority,
+  allocateProRata,
+  allocateSurplusToDeficits,
+} from '../domain/PoolAllocation';
+
+/**
+ * Common interface of all pool allocation strategies
+ */
+export interface PoolAllocationStrategy {
+  readonly name: PoolAllocationStrategyName;
+
+  /**
+   * Sets cbAfter on every member
+   *
+   * @param {PoolMember[]} members - Pool members with cbBefore set
+   * @param {CreatePoolRequest} request - Pool creation request carrying strategy options
+   * @returns {PoolMember[]} Members in their original order with cbAfter set
+   * @throws {PoolAllocationError} If the request lacks the options the strategy needs
+   */
+  allocate(members: PoolMember[], request: CreatePoolRequest): PoolMember[];
+}
+
+/**
+ * Largest surplus holders cover the largest deficits first
+ */
+export class GreedyAllocationStrategy implements PoolAllocationStrategy {
+  readonly name = 'greedy' as const;
+
+  allocate(members: PoolMember[]): PoolMember[] {
+    return allocateSurplusToDeficits(members);
+  }
+}
+
+/**
+ * Surplus ships contribute in proportion to their surplus
+ */
+export class ProRataAllocationStrategy implements PoolAllocationStrategy {
+  readonly name = 'pro_rata' as const;
+
+  allocate(members: PoolMember[]): PoolMember[] {
+    return allocateProRata(members);
+  }
+}
+
+/**
+ * Ships are served in the order given by request.priority
+ */
+export class PriorityAllocationStrategy implements PoolAllocationStrategy {
+  readonly name = 'priority' as const;
+
+  allocate(members: PoolMember[], request: CreatePoolRequest): PoolMember[] {
+    if (!request.priority || request.priority.length === 0) {
+      throw new PoolAllocationError('The priority strategy requires a priority list of ship IDs');
+    }
+
+    return allocateByPriority(members, request.priority);
+  }
+}
+
+/**
+ * The user supplies cbAfter of every member in request.allocations
+ */
+export class ManualAllocationStrategy implements PoolAllocationStrategy {
+  readonly name = 'manual' as const;
+
+  allocate(members: PoolMember[], request: CreatePoolRequest): PoolMember[] {
+    const allocations = request.allocations || [];
+    const memberIds = new Set(members.map(member => member.shipId));
+    const strangers = allocations
+      .map(allocation => allocation.shipId)
+      .filter(shipId => !memberIds.has(shipId));
+
+    if (strangers.length > 0) {
+      throw new PoolAllocationError(`Allocations given for ships outside the pool: ${strangers.join(', ')}`);
+    }
+
+    // Members without an allocation get NaN and are rejected by validation
+    return members.map(member => {
+      const allocation = allocations.find(entry => entry.shipId === member.shipId);
+      return { ...member, cbAfter: allocation ? allocation.cbAfter : NaN };
+    });
+  }
+}
+
+const STRATEGIES: Record<PoolAllocationStrategyName, PoolAllocationStrategy> = {
+  greedy: new GreedyAllocationStrategy(),
+  pro_rata: new ProRataAllocationStrategy(),
+  priority: new PriorityAllocationStrategy(),
+  manual: new ManualAllocationStrategy(),
+};
+
+/**
+ * Returns the allocation strategy with the given name
+ *
+ * @param {string} [name] - Strategy name, defaults to greedy
+ * @returns {PoolAllocationStrategy} The strategy
+ * @throws {Error} If the strategy is unknown
+ */
+export function getAllocationStrategy(name: string = 'greedy'): PoolAllocationStrategy {
+  if (!POOL_ALLOCATION_STRATEGIES.includes(name as PoolAllocationStrategyName)) {
+    throw new Error(
+      `Unknown allocation strategy ${name}. Available strategies: ${POOL_ALLOCATION_STRATEGIES.join(', ')}`
+    );
+  }
+
+  return STRATEGIES[name as PoolAllocationStrategyName];
+}
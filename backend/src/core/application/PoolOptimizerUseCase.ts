@@ -0,0 +1,94 @@
+/**
+ * Pool Optimizer Use Case
+ *
+ * This class proposes how a company's fleet could be partitioned into
+ * compliance pools for a reporting year to minimise the fleet penalty.
+ * Proposals are not persisted; a proposal becomes a pool only when the
+ * user creates it through PoolUseCase. It implements the application
+ * layer of the hexagonal architecture.
+ *
+ * @class PoolOptimizerUseCase
+ * @module application/PoolOptimizerUseCase
+ */
+
+import { FleetPoolProposal, PoolConstraints, proposePools } from '../domain/PoolOptimizer';
+import { PoolRepository } from '../ports/PoolRepository';
+import { ShipComplianceRepository } from '../ports/ShipComplianceRepository';
+import { PenaltyUseCase } from './PenaltyUseCase';
+
+/**
+ * Pool Optimizer Use Case Class
+ *
+ * Handles the fleet pool optimisation, including:
+ * - Penalty of every ship without pooling
+ * - Proposed pools within pool-size limits and excluded ships
+ * - Ships already in a pool for the year are left out
+ * - Penalty saved by the proposal versus not pooling
+ */
+export class PoolOptimizerUseCase {
+  private penaltyUseCase: PenaltyUseCase;
+
+  /**
+   * Creates an instance of PoolOptimizerUseCase
+   *
+   * @param {ShipComplianceRepository} shipComplianceRepository - Repository for ship compliance data access
+   * @param {PoolRepository} poolRepository - Repository for pool data access
+   */
+  constructor(
+    shipComplianceRepository: ShipComplianceRepository,
+    private poolRepository: PoolRepository
+  ) {
+    this.penaltyUseCase = new PenaltyUseCase(shipComplianceRepository);
+  }
+
+  /**
+   * Proposes pools for all ships of a company with a CB in a year
+   *
+   * Pools only ever contain ships of the selected company that are not
+   * already in a pool for the year. The RFNBO sub-target penalty is not
+   * affected by pooling and counts in both totals.
+   *
+   * @param {string} companyId - The company whose fleet is pooled
+   * @param {number} year - Reporting year
+   * @param {PoolConstraints} constraints - Pool size limits and excluded ships
+   * @returns {Promise<FleetPoolProposal>} Proposed pools and the penalty saved
+   */
+  async proposeFleetPools(
+    companyId: string,
+    year: number,
+    constraints: PoolConstraints = {}
+  ): Promise<FleetPoolProposal> {
+    const fleet = await this.penaltyUseCase.getFleetPenalties(companyId, year);
+    const memberships = await this.poolRepository.findActiveMemberships([companyId], year);
+
+    const pools = proposePools(
+      fleet.penalties.map(penalty => ({
+        shipId: penalty.shipId,
+        cbGco2eq: penalty.cbGco2eq,
+        penalty: penalty.penalty,
+      })),
+      {
+        ...constraints,
+        excludedShipIds: [
+          ...(constraints.excludedShipIds || []),
+          ...memberships.map(membership => membership.shipId),
+        ],
+      }
+    );
+
+    const pooledShipIds = new Set(pools.flatMap(pool => pool.members.map(member => member.shipId)));
+    const penaltySaved = pools.reduce((sum, pool) => sum + pool.penaltyAvoided, 0);
+
+    return {
+      year,
+      shipCount: fleet.shipCount,
+      penaltyWithoutPooling: fleet.totalPenalty,
+      penaltyWithPooling: fleet.totalPenalty - penaltySaved,
+      penaltySaved,
+      pools,
+      unpooledShipIds: fleet.penalties
+        .map(penalty => penalty.shipId)
+        .filter(shipId => !pooledShipIds.has(shipId)),
+    };
+  }
+}
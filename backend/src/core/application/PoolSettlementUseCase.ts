@@ -0,0 +1,118 @@
+/**
+ * Pool Settlement Use Case
+ *
+ * This class reports the surplus traded between companies through pools
+ * and records the payments made for it. It implements the application
+ * layer of the hexagonal architecture.
+ *
+ * @class PoolSettlementUseCase
+ * @module application/PoolSettlementUseCase
+ */
+
+import { PoolLifecycleError } from '../domain/PoolLifecycle';
+import { PoolSettlement, SettlementReport, memberTransfers } from '../domain/PoolSettlement';
+import { PoolRepository } from '../ports/PoolRepository';
+
+/**
+ * Pool Settlement Use Case Class
+ *
+ * Handles all business logic related to pool settlements, including:
+ * - Per-member transfers and their value in every priced pool of a year
+ * - Payables and receivables of a company, in total and outstanding
+ * - Confirming payment of a settlement once its pool is verified
+ */
+export class PoolSettlementUseCase {
+  /**
+   * Creates an instance of PoolSettlementUseCase
+   *
+   * @param {PoolRepository} poolRepository - Repository for pool data access
+   */
+  constructor(private poolRepository: PoolRepository) {}
+
+  /**
+   * Builds the settlement report of a company for a year
+   *
+   * Covers the priced pools the company formed or has ships in, except
+   * cancelled ones. Void settlements are listed but not counted.
+   *
+   * @param {string} companyId - The company reporting
+   * @param {number} year - Pool year
+   * @returns {Promise<SettlementReport>} Transfers, settlements and totals
+   */
+  async getSettlementReport(companyId: string, year: number): Promise<SettlementReport> {
+    const pools = (await this.poolRepository.findAll(companyId)).filter(
+      pool => pool.year === year && pool.status !== 'cancelled' && pool.pricePerTonne !== undefined
+    );
+    const settlements = await this.poolRepository.findSettlements(companyId, year);
+
+    const payable = settlements.filter(s => s.payerCompanyId === companyId && s.status !== 'void');
+    const receivable = settlements.filter(s => s.payeeCompanyId === companyId && s.status !== 'void');
+    const total = (entries: PoolSettlement[]) =>
+      Math.round(entries.reduce((sum, s) => sum + s.amountEur, 0) * 100) / 100;
+    const pending = (entries: PoolSettlement[]) => entries.filter(s => s.status === 'pending');
+
+    const totalPayableEur = total(payable);
+    const totalReceivableEur = total(receivable);
+
+    return {
+      companyId,
+      year,
+      pools: pools.map(pool => ({
+        poolId: pool.poolId,
+        name: pool.name,
+        pricePerTonne: pool.pricePerTonne!,
+        members: memberTransfers(pool.members, pool.pricePerTonne!),
+      })),
+      settlements,
+      totalPayableEur,
+      totalReceivableEur,
+      outstandingPayableEur: total(pending(payable)),
+      outstandingReceivableEur: total(pending(receivable)),
+      netEur: Math.round((totalReceivableEur - totalPayableEur) * 100) / 100,
+    };
+  }
+
+  /**
+   * Confirms payment of a settlement
+   *
+   * Only the payee can confirm that it has been paid; the payer can see the
+   * settlement but not settle it.
+   *
+   * @param {string} companyId - The payee company
+   * @param {string} settlementId - The settlement to confirm
+   * @param {string} actor - Who confirms the payment
+   * @returns {Promise<PoolSettlement | null>} The settled settlement, or null if not found
+   * @throws {PoolLifecycleError} If the company is not the payee, the settlement is not pending or its pool is not verified
+   */
+  async settle(companyId: string, settlementId: string, actor: string): Promise<PoolSettlement | null> {
+    const settlement = await this.poolRepository.findSettlementById(companyId, settlementId);
+    if (!settlement) {
+      return null;
+    }
+
+    if (settlement.payeeCompanyId !== companyId) {
+      throw new PoolLifecycleError(
+        `Settlement ${settlementId} is paid to company ${settlement.payeeCompanyId}; only it can confirm the payment`
+      );
+    }
+
+    if (settlement.status !== 'pending') {
+      throw new PoolLifecycleError(`Settlement ${settlementId} is ${settlement.status}, only pending settlements can be settled`);
+    }
+
+    // Partner companies can read the pool, so this lookup works for the payee
+    const pool = await this.poolRepository.findById(companyId, settlement.poolId!);
+    if (!pool || pool.status !== 'verified') {
+      throw new PoolLifecycleError(
+        `Settlement ${settlementId} can only be settled once pool ${settlement.poolId} is verified`
+      );
+    }
+
+    const settled = await this.poolRepository.markSettled(companyId, settlementId, actor, new Date());
+    if (!settled) {
+      throw new PoolLifecycleError(`Settlement ${settlementId} is no longer pending`);
+    }
+
+    return settled;
+  }
+}
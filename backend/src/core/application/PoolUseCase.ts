@@ -14,7 +14,22 @@
  * @module application/PoolUseCase
  */
 
-import { Pool, CreatePoolRequest, PoolMember } from '../domain/Pool';
+import {
+  Pool,
+  CreatePoolRequest,
+  PoolMember,
+  PoolMemberRejection,
+  PoolMemberRule,
+  PoolPartner,
+  PoolStatus,
+  PoolValidationResult,
+  UpdatePoolRequest,
+} from '../domain/Pool';
+import { PoolAllocationError, POOL_SUM_TOLERANCE, validateAllocation } from '../domain/PoolAllocation';
+import { assertEditable, assertOwner, assertPartner, assertStatusTransition } from '../domain/PoolLifecycle';
+import { computeSettlements, PoolSettlement } from '../domain/PoolSettlement';
+import { ShipCompliance } from '../domain/ShipCompliance';
+import { getAllocationStrategy } from './PoolAllocationStrategy';
 import { PoolRepository } from '../ports/PoolRepository';
 import { ShipComplianceRepository } from '../ports/ShipComplianceRepository';
 
@@ -23,8 +38,11 @@ import { ShipComplianceRepository } from '../ports/ShipComplianceRepository';
  * 
  * Handles all business logic related to compliance pool operations, including:
  * - Pool creation with member ships
- * - Article 21 rule validation
+ * - Surplus allocation with a pluggable strategy
+ * - Article 21 rule validation, also as a dry run without saving
  * - Pool retrieval and management
+ * - Draft editing and the draft → submitted → verified lifecycle, with cancellation
+ * - Partner companies accepting or declining the pools their ships are invited into
  */
 export class PoolUseCase {
   /**
@@ -39,40 +57,104 @@ export class PoolUseCase {
   ) {}
 
   /**
-   * Creates a new compliance pool with the specified member ships
+   * Runs the pool creation pipeline without saving anything
    * 
    * This method:
    * 1. Retrieves adjusted compliance balances for all member ships
-   * 2. Validates that the pool sum is non-negative
-   * 3. Calculates equal distribution of pool sum among members
-   * 4. Validates Article 21 rules (deficit/surplus ship protections)
-   * 5. Saves the pool with before/after CB values
+   * 2. Checks that the pool sum is non-negative
+   * 3. Allocates the surplus with the requested strategy (greedy by default)
+   * 4. Checks the Article 21 rules (deficit/surplus ship protections) per member
+   * 5. Checks that no member is already in another pool for the year
+   * 6. Works out the settlements between companies when partner ships join
+   * 
+   * Problems are reported in the result rather than thrown, so that a pool
+   * can be previewed while ships are being selected.
+   * 
+   * Partner companies have not accepted a pool that is only being previewed,
+   * so their ships are left out of the members and only named in the errors
+   * when they break a rule.
    * 
+   * @param {string} companyId - The company forming the pool; members are its ships or ships of partner companies
    * @param {CreatePoolRequest} request - Pool creation request with year, member ship IDs, and optional name
-   * @returns {Promise<Pool>} The created pool with all member data
-   * @throws {Error} If compliance balance not found for any ship
-   * @throws {Error} If pool sum is negative
-   * @throws {Error} If Article 21 validation rules are violated
+   * @returns {Promise<PoolValidationResult>} Pool sum, per-member before/after and violated rules
+   * @throws {Error} If the allocation strategy is unknown
    */
-  async createPool(request: CreatePoolRequest): Promise<Pool> {
+  async validatePool(companyId: string, request: CreatePoolRequest): Promise<PoolValidationResult> {
+    const validation = await this.evaluatePool(companyId, request);
+    const partnerMembers = validation.members.filter(member => member.companyId !== companyId);
+
+    return {
+      ...validation,
+      members: validation.members.filter(member => member.companyId === companyId),
+      errors: [
+        ...validation.errors,
+        ...partnerMembers
+          .filter(member => member.violatedRule)
+          .map(member => partnerRejectionReason(member.shipId, member.companyId!, member.violatedRule!)),
+      ],
+    };
+  }
+
+  /**
+   * Runs the validatePool pipeline, optionally for a new allocation of an existing pool
+   * 
+   * The balances of an existing pool's members already hold its result, so
+   * their CB before pooling is their balance with the pool's change reversed.
+   */
+  private async evaluatePool(
+    companyId: string,
+    request: CreatePoolRequest,
+    existing?: Pool
+  ): Promise<PoolValidationResult> {
+    const strategy = getAllocationStrategy(request.strategy);
+    const errors: string[] = [];
+
+    // Ships can belong to the company forming the pool or to a partner company
+    const companyIds = [...new Set([companyId, ...(request.partnerCompanyIds || [])])];
+
     // Step 1: Retrieve adjusted compliance balances for all member ships
     // Adjusted CB is the compliance balance after banking operations
     const members: PoolMember[] = [];
     
     for (const shipId of request.memberShipIds) {
       // Get the ship's adjusted compliance balance for the specified year
-      const shipCompliance = await this.shipComplianceRepository.findByShipAndYear(shipId, request.year);
-      if (!shipCompliance) {
-        throw new Error(`Compliance balance not found for ship ${shipId} in year ${request.year}`);
+      // Ship IDs are only unique within a company, so every company is checked
+      const found: { companyId: string; shipCompliance: ShipCompliance }[] = [];
+      for (const candidateCompanyId of companyIds) {
+        const candidate = await this.shipComplianceRepository.findByShipAndYear(candidateCompanyId, shipId, request.year);
+        if (candidate) {
+          found.push({ companyId: candidateCompanyId, shipCompliance: candidate });
+        }
+      }
+
+      if (found.length === 0) {
+        errors.push(`Compliance balance not found for ship ${shipId} in year ${request.year}`);
+        continue;
+      }
+
+      if (found.length > 1) {
+        errors.push(`Ship ID ${shipId} is used by several of the pool's companies (${found.map(entry => entry.companyId).join(', ')})`);
+        continue;
       }
+
+      const { companyId: shipCompanyId, shipCompliance } = found[0];
+      
+      // Take the existing pool's change out of the balance of its members
+      const current = existing?.members.find(
+        member => member.shipId === shipId && member.companyId === shipCompanyId
+      );
+      const cbBefore = current && existing!.balancesApplied !== false
+        ? shipCompliance.cbGco2eq - (current.cbAfter - current.cbBefore)
+        : shipCompliance.cbGco2eq;
       
       // Initialize member with before-pool CB (same as adjusted CB)
-      // cbAfter will be calculated after pooling validation
+      // cbAfter is set by the allocation strategy
       members.push({
         shipId,
-        adjustedCB: shipCompliance.cbGco2eq,
-        cbBefore: shipCompliance.cbGco2eq,
-        cbAfter: 0, // Will be calculated after pooling
+        companyId: shipCompanyId,
+        adjustedCB: cbBefore,
+        cbBefore,
+        cbAfter: cbBefore,
       });
     }
 
@@ -81,12 +163,25 @@ export class PoolUseCase {
     const poolSum = members.reduce((sum, member) => sum + member.adjustedCB, 0);
 
     if (poolSum < 0) {
-      throw new Error('Cannot create pool: Sum of compliance balances is negative');
+      errors.push('Sum of compliance balances is negative');
     }
 
-    // Step 3: Calculate CB after pooling (equal distribution)
-    // The pool sum is distributed equally among all members
-    const cbAfter = poolSum / members.length;
+    // Step 3: Calculate CB after pooling with the requested strategy
+    let allocated: PoolMember[] = members;
+    try {
+      allocated = strategy.allocate(members, request);
+    } catch (error) {
+      if (!(error instanceof PoolAllocationError)) {
+        throw error;
+      }
+      errors.push(error.message);
+    }
+
+    // Manual allocations must distribute exactly the pool sum
+    const allocatedSum = allocated.reduce((sum, member) => sum + member.cbAfter, 0);
+    if (Number.isFinite(allocatedSum) && Math.abs(allocatedSum - poolSum) > POOL_SUM_TOLERANCE) {
+      errors.push(`Allocated CBs add up to ${allocatedSum}, expected the pool sum of ${poolSum}`);
+    }
     
     // Step 4: Validate Article 21 pooling rules
     // These rules protect ships from exiting pools in worse positions:
@@ -96,62 +191,372 @@ export class PoolUseCase {
     // 
     // Rule 2: Surplus ships (cbBefore > 0) cannot exit negative
     //         They must have cbAfter >= 0
-    const validationErrors: string[] = [];
-    
-    for (const member of members) {
-      const isDeficit = member.cbBefore < 0;
-      const isSurplus = member.cbBefore > 0;
-      
-      // Check Rule 1: Deficit ship protection
-      if (isDeficit && cbAfter < member.cbBefore) {
-        validationErrors.push(
-          `Deficit ship ${member.shipId} cannot exit worse: ` +
-          `CB before: ${member.cbBefore}, CB after: ${cbAfter}`
-        );
-      }
-      
-      // Check Rule 2: Surplus ship protection
-      if (isSurplus && cbAfter < 0) {
-        validationErrors.push(
-          `Surplus ship ${member.shipId} cannot exit negative: ` +
-          `CB before: ${member.cbBefore}, CB after: ${cbAfter}`
-        );
+    const rejections = validateAllocation(allocated);
+
+    // Step 5: A ship can only be a member of one pool per year
+    const memberships = await this.poolRepository.findActiveMemberships(companyIds, request.year);
+    for (const membership of memberships) {
+      const isMember = members.some(
+        member => member.shipId === membership.shipId && member.companyId === membership.companyId
+      );
+      if (membership.poolId !== existing?.poolId && isMember) {
+        rejections.unshift({
+          shipId: membership.shipId,
+          rule: 'already_pooled',
+          reason: `Ship ${membership.shipId} is already in pool ${membership.poolId} for year ${request.year}`,
+        });
       }
     }
-    
-    // If any validation errors, throw with detailed message
-    if (validationErrors.length > 0) {
-      throw new Error(
-        'Cannot create pool: Violates Article 21 pooling rules:\n' +
-        validationErrors.join('\n')
-      );
+
+    // Step 6: Surplus moving between companies is paid for at the pool's price
+    let settlements: PoolSettlement[] = [];
+    const memberCompanyIds = new Set(members.map(member => member.companyId));
+    if (memberCompanyIds.size > 1) {
+      if (request.pricePerTonne === undefined) {
+        errors.push('A price per tonne CO₂e is required when ships of other companies join the pool');
+      } else if (Number.isFinite(allocatedSum)) {
+        settlements = computeSettlements(allocated, request.pricePerTonne);
+      }
     }
-    
-    // Step 5: All validations passed, assign calculated cbAfter to all members
-    members.forEach(member => {
-      member.cbAfter = cbAfter;
-    });
 
+    return {
+      isValid: errors.length === 0 && rejections.length === 0,
+      year: request.year,
+      strategy: strategy.name,
+      poolSum,
+      allocatedSum,
+      members: allocated.map(member => {
+        const rejection = rejections.find(entry => entry.shipId === member.shipId);
+        return rejection
+          ? { ...member, violatedRule: rejection.rule, reason: rejection.reason }
+          : member;
+      }),
+      settlements,
+      errors,
+    };
+  }
+
+  /**
+   * Creates a new compliance pool with the specified member ships
+   * 
+   * Runs the validatePool pipeline and saves the pool with before/after CB
+   * values as a draft when it passes. In the same transaction each member's
+   * year balance is set to its CB after pooling.
+   * 
+   * Companies other than the forming one whose ships are members are
+   * invited as partners. Until every partner has accepted, no balance is
+   * changed and the pool cannot be submitted.
+   * 
+   * @param {string} companyId - The company forming the pool; members are its ships or ships of partner companies
+   * @param {CreatePoolRequest} request - Pool creation request with year, member ship IDs, and optional name
+   * @param {string} actor - Who creates the pool, recorded in its status history
+   * @returns {Promise<Pool>} The created pool with all member data
+   * @throws {Error} If the allocation strategy is unknown
+   * @throws {PoolAllocationError} If a compliance balance is missing, the pool sum is negative or the allocation does not add up to it
+   * @throws {PoolAllocationError} If Article 21 validation rules are violated or a ship is already pooled, with the reason per member
+   */
+  async createPool(companyId: string, request: CreatePoolRequest, actor: string): Promise<Pool> {
+    const validation = await this.validateOrThrow(companyId, undefined, request, 'Cannot create pool');
+    const createdAt = new Date();
+
+    // All validations passed, save the allocated members as a draft
     const pool: Pool = {
       poolId: `pool-${Date.now()}`,
+      companyId,
       name: request.name,
       year: request.year,
-      members,
-      poolSum,
-      createdAt: new Date(),
+      status: 'draft',
+      pricePerTonne: request.pricePerTonne,
+      members: toPoolMembers(validation),
+      poolSum: validation.poolSum,
+      createdAt,
+      settlements: validation.settlements,
+      partners: toPartners(companyId, validation.members),
     };
 
-    return this.poolRepository.save(pool);
+    return this.poolRepository.save(companyId, pool, {
+      fromStatus: null,
+      toStatus: 'draft',
+      actor,
+      changedAt: createdAt,
+    });
   }
 
   /**
-   * Retrieves all pools from the repository
+   * Retrieves all pools formed by a company
    * 
+   * @param {string} companyId - The company whose pools are returned
    * @returns {Promise<Pool[]>} Array of all pools with their member data
    * @throws {Error} If pool retrieval fails
    */
-  async getAllPools(): Promise<Pool[]> {
-    return this.poolRepository.findAll();
+  async getAllPools(companyId: string): Promise<Pool[]> {
+    return this.poolRepository.findAll(companyId);
+  }
+
+  /**
+   * Retrieves a pool with its status history
+   * 
+   * @param {string} companyId - The company that formed the pool
+   * @param {string} poolId - The pool ID
+   * @returns {Promise<Pool | null>} The pool, or null if the company has no such pool
+   */
+  async getPool(companyId: string, poolId: string): Promise<Pool | null> {
+    return this.poolRepository.findById(companyId, poolId);
   }
+
+  /**
+   * Renames a draft pool or changes its members
+   * 
+   * The surplus is reallocated over the new members with the requested
+   * strategy and checked against Article 21 exactly as on creation. Removed
+   * members get their balance back; the others get their new CB after pooling.
+   * Partners are invited again, as they have to accept the new allocation;
+   * until they have, no balance is changed.
+   * 
+   * @param {string} companyId - The company that formed the pool
+   * @param {string} poolId - The pool ID
+   * @param {UpdatePoolRequest} changes - New name, ships to add and ships to remove
+   * @returns {Promise<Pool | null>} The updated pool, or null if the company has no such pool
+   * @throws {PoolLifecycleError} If the pool is no longer a draft or was formed by another company
+   * @throws {PoolAllocationError} If the new members do not form a valid pool
+   */
+  async updateDraft(companyId: string, poolId: string, changes: UpdatePoolRequest): Promise<Pool | null> {
+    const existing = await this.poolRepository.findById(companyId, poolId);
+    if (!existing) {
+      return null;
+    }
+
+    assertOwner(existing, companyId);
+    assertEditable(existing);
+
+    const removed = new Set(changes.removeShipIds || []);
+    const memberShipIds = existing.members
+      .map(member => member.shipId)
+      .filter(shipId => !removed.has(shipId));
+
+    for (const shipId of changes.addShipIds || []) {
+      if (!memberShipIds.includes(shipId)) {
+        memberShipIds.push(shipId);
+      }
+    }
+
+    const name = changes.name !== undefined ? changes.name : existing.name;
+    const pricePerTonne = changes.pricePerTonne !== undefined ? changes.pricePerTonne : existing.pricePerTonne;
+    const partnerCompanyIds = [
+      ...existing.members.map(member => member.companyId!),
+      ...(changes.partnerCompanyIds || []),
+    ];
+
+    const validation = await this.validateOrThrow(
+      companyId,
+      existing,
+      {
+        name,
+        year: existing.year,
+        memberShipIds,
+        strategy: changes.strategy,
+        priority: changes.priority,
+        allocations: changes.allocations,
+        partnerCompanyIds,
+        pricePerTonne,
+      },
+      'Cannot update pool'
+    );
+
+    return this.poolRepository.update(companyId, {
+      ...existing,
+      name,
+      pricePerTonne,
+      members: toPoolMembers(validation),
+      poolSum: validation.poolSum,
+      settlements: validation.settlements,
+      partners: toPartners(companyId, validation.members),
+    });
+  }
+
+  /**
+   * Moves a pool to another lifecycle status
+   * 
+   * Allowed transitions:
+   * - draft → submitted, cancelled
+   * - submitted → verified, draft (returned by the verifier), cancelled
+   * - verified → cancelled
+   * 
+   * Submitting and cancelling are only possible until the registration
+   * deadline. The change is recorded with its actor and time.
+   * 
+   * @param {string} companyId - The company that formed the pool
+   * @param {string} poolId - The pool ID
+   * @param {PoolStatus} toStatus - The requested status
+   * @param {string} actor - Who makes the change
+   * @param {string} [reason] - Optional reason, e.g. why a verifier returned the pool
+   * @returns {Promise<Pool | null>} The pool with its updated history, or null if the company has no such pool
+   * @throws {PoolLifecycleError} If the transition is not allowed, the deadline has passed, a partner has not accepted a pool to submit or the pool was formed by another company
+   */
+  async changeStatus(
+    companyId: string,
+    poolId: string,
+    toStatus: PoolStatus,
+    actor: string,
+    reason?: string
+  ): Promise<Pool | null> {
+    const existing = await this.poolRepository.findById(companyId, poolId);
+    if (!existing) {
+      return null;
+    }
+
+    assertOwner(existing, companyId);
+
+    const changedAt = new Date();
+    assertStatusTransition(existing, toStatus, changedAt);
+
+    const change = { fromStatus: existing.status, toStatus, actor, reason, changedAt };
+
+    // Cancelling also restores the members' balances
+    if (toStatus === 'cancelled') {
+      await this.poolRepository.cancel(companyId, poolId, change);
+    } else {
+      await this.poolRepository.updateStatus(companyId, poolId, change);
+    }
+
+    return this.poolRepository.findById(companyId, poolId);
+  }
+
+  /**
+   * Cancels a pool before the registration deadline
+   * 
+   * The pool and its history are kept. The members' balances are restored
+   * by reversing the pool's change to them.
+   * 
+   * @param {string} companyId - The company that formed the pool
+   * @param {string} poolId - The pool ID
+   * @param {string} actor - Who cancels the pool
+   * @param {string} [reason] - Optional reason for the cancellation
+   * @returns {Promise<Pool | null>} The cancelled pool, or null if the company has no such pool
+   * @throws {PoolLifecycleError} If the pool is already cancelled or the deadline has passed
+   */
+  async cancelPool(companyId: string, poolId: string, actor: string, reason?: string): Promise<Pool | null> {
+    return this.changeStatus(companyId, poolId, 'cancelled', actor, reason);
+  }
+
+  /**
+   * Accepts a partner company's invitation into a draft pool
+   * 
+   * Once every partner has accepted, each member's year balance is set to
+   * its CB after pooling and the pool can be submitted.
+   * 
+   * @param {string} companyId - The partner company accepting
+   * @param {string} poolId - The pool ID
+   * @param {string} actor - Who accepts for the company
+   * @returns {Promise<Pool | null>} The pool with its partners, or null if the company cannot see such a pool
+   * @throws {PoolLifecycleError} If the pool is no longer a draft or the company is not invited
+   * @throws {PoolAllocationError} If a member's balance changed since the allocation or a ship is already pooled
+   */
+  async acceptInvitation(companyId: string, poolId: string, actor: string): Promise<Pool | null> {
+    const existing = await this.poolRepository.findById(companyId, poolId);
+    if (!existing) {
+      return null;
+    }
+
+    assertPartner(existing, companyId);
+    assertEditable(existing);
+
+    await this.poolRepository.acceptPartner(companyId, poolId, actor, new Date());
+    return this.poolRepository.findById(companyId, poolId);
+  }
+
+  /**
+   * Declines a partner company's invitation into a draft pool, or leaves a
+   * draft pool it accepted before
+   * 
+   * The pool cannot be submitted until the company accepts after all or the
+   * company that formed the pool removes its ships. Balances the pool had
+   * changed are restored.
+   * 
+   * @param {string} companyId - The partner company declining
+   * @param {string} poolId - The pool ID
+   * @param {string} actor - Who declines for the company
+   * @returns {Promise<Pool | null>} The pool with its partners, or null if the company cannot see such a pool
+   * @throws {PoolLifecycleError} If the pool is no longer a draft or the company is not invited
+   */
+  async declineInvitation(companyId: string, poolId: string, actor: string): Promise<Pool | null> {
+    const existing = await this.poolRepository.findById(companyId, poolId);
+    if (!existing) {
+      return null;
+    }
+
+    assertPartner(existing, companyId);
+    assertEditable(existing);
+
+    await this.poolRepository.declinePartner(companyId, poolId, actor, new Date());
+    return this.poolRepository.findById(companyId, poolId);
+  }
+
+  /**
+   * Runs validatePool and turns an invalid result into an error
+   */
+  private async validateOrThrow(
+    companyId: string,
+    existing: Pool | undefined,
+    request: CreatePoolRequest,
+    prefix: string
+  ): Promise<PoolValidationResult> {
+    const validation = await this.evaluatePool(companyId, request, existing);
+
+    if (!validation.isValid) {
+      // Balances of partners that have not accepted the pool stay out of the reasons
+      const accepted = new Set(
+        (existing?.partners || []).filter(partner => partner.status === 'accepted').map(partner => partner.companyId)
+      );
+      const rejections: PoolMemberRejection[] = validation.members
+        .filter(member => member.violatedRule)
+        .map(member => ({
+          shipId: member.shipId,
+          rule: member.violatedRule!,
+          reason: member.companyId === companyId || accepted.has(member.companyId!)
+            ? member.reason!
+            : partnerRejectionReason(member.shipId, member.companyId!, member.violatedRule!),
+        }));
+
+      throw new PoolAllocationError(
+        validation.errors.length > 0
+          ? `${prefix}: ${validation.errors.join('; ')}`
+          : `${prefix}: Violates Article 21 pooling rules`,
+        rejections
+      );
+    }
+
+    return validation;
+  }
+}
+
+/**
+ * Strips the validation details from allocated members
+ */
+function toPoolMembers(validation: PoolValidationResult): PoolMember[] {
+  return validation.members.map(({ shipId, companyId, adjustedCB, cbBefore, cbAfter }) => ({
+    shipId,
+    companyId,
+    adjustedCB,
+    cbBefore,
+    cbAfter,
+  }));
 }
 
+
+/**
+ * Reason a partner's ship was rejected, without its balances
+ */
+function partnerRejectionReason(shipId: string, companyId: string, rule: PoolMemberRule): string {
+  return `Ship ${shipId} of partner ${companyId} violates the ${rule} rule`;
+}
+
+/**
+ * Invites the companies of members other than the forming company, each once
+ */
+function toPartners(companyId: string, members: PoolMember[]): PoolPartner[] {
+  const partnerCompanyIds = new Set(
+    members.map(member => member.companyId!).filter(memberCompanyId => memberCompanyId !== companyId)
+  );
+  return [...partnerCompanyIds].map(partnerCompanyId => ({ companyId: partnerCompanyId, status: 'invited' }));
+}
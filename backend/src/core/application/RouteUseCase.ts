@@ -2,28 +2,58 @@
  * Route Use Case
  * 
  * This class contains the business logic for route management operations,
- * including route retrieval, baseline management, and route comparison.
+ * including route retrieval and maintenance, baseline management, and route
+ * comparison. Changes to a route recompute the CBs of the ships that sailed it.
  * It implements the application layer of the hexagonal architecture.
  * 
  * @class RouteUseCase
  * @module application/RouteUseCase
  */
 
-import { Route, Baseline, ComparisonData } from '../domain/Route';
+import {
+  Route,
+  Baseline,
+  ComparisonData,
+  RouteFuelConsumption,
+  RouteUpsert,
+  FUEL_CONSUMERS,
+  aggregateFuelConsumption,
+  mergeRoute,
+  toBaseline,
+  validateRoute,
+} from '../domain/Route';
+import { getFuelProperties } from '../domain/Fuel';
+import { ShipCompliance } from '../domain/ShipCompliance';
+import { VoyageAssignment } from '../domain/Voyage';
+import { VOYAGE_SCOPES, isVoyageScope } from '../domain/VoyageScope';
 import { RouteRepository } from '../ports/RouteRepository';
+import { ShipComplianceUseCase } from './ShipComplianceUseCase';
+import { getTargetIntensity } from '../domain/GhgIntensityTarget';
+import { FuelMassEntry, WellToWakeResult, calculateWellToWake } from '../domain/GhgIntensityCalculator';
 
 /**
- * Compliance target for GHG intensity as per Fuel EU Maritime regulation
- * Units: gCO₂e/MJ (grams of CO₂ equivalent per megajoule)
- * @constant {number} COMPLIANCE_TARGET
+ * A changed route and the ship CBs recomputed because of the change
  */
-const COMPLIANCE_TARGET = 89.3368; // gCO₂e/MJ
+export interface RouteChange {
+  route: Route;
+  recomputed: ShipCompliance[];
+}
+
+/**
+ * Routes written by a bulk upsert and the ship CBs recomputed because of them
+ */
+export interface RouteBulkUpsert {
+  routes: RouteUpsert[];
+  recomputed: ShipCompliance[];
+}
 
 /**
  * Route Use Case Class
  * 
  * Handles all business logic related to route operations, including:
  * - Route retrieval and management
+ * - Route creation, updates, bulk upserts and removal
+ * - Recomputing the CBs of the ships that sailed a changed route
  * - Baseline route setting and retrieval
  * - Route comparison with baseline data
  * - Compliance checking against regulatory targets
@@ -33,84 +63,303 @@ export class RouteUseCase {
    * Creates an instance of RouteUseCase
    * 
    * @param {RouteRepository} routeRepository - Repository for route data access
+   * @param {ShipComplianceUseCase} shipComplianceUseCase - Recomputes the CBs derived from a route
    */
-  constructor(private routeRepository: RouteRepository) {}
+  constructor(
+    private routeRepository: RouteRepository,
+    private shipComplianceUseCase: ShipComplianceUseCase
+  ) {}
 
   /**
    * Retrieves all routes from the repository
    * 
+   * Routes with a fuel consumption breakdown report GHG intensity, energy
+   * and total emissions aggregated over all fuels in the breakdown.
+   * 
+   * @param {string} companyId - The company whose routes are returned
    * @returns {Promise<Route[]>} Array of all routes
    * @throws {Error} If route retrieval fails
    */
-  async getAllRoutes(): Promise<Route[]> {
-    return this.routeRepository.findAll();
+  async getAllRoutes(companyId: string): Promise<Route[]> {
+    const routes = await this.routeRepository.findAll(companyId);
+    return routes.map(aggregateFuelConsumption);
+  }
+
+  /**
+   * Creates a new route
+   * 
+   * totalEmissions defaults to ghgIntensity × fuelConsumption and the voyage
+   * scope to intra_eu. No ship has sailed a new route yet, so no CB changes.
+   * 
+   * @param {string} companyId - The company owning the route
+   * @param {Partial<Route>} route - Route to create
+   * @returns {Promise<Route>} The created route
+   * @throws {Error} If the route is invalid or its route ID is taken
+   */
+  async createRoute(companyId: string, route: Partial<Route>): Promise<Route> {
+    const created = mergeRoute(undefined, route);
+
+    const errors = validateRoute(created);
+    if (errors.length > 0) {
+      throw new Error(`Invalid route: ${errors.join(', ')}`);
+    }
+
+    return aggregateFuelConsumption(await this.routeRepository.create(companyId, created as Route));
+  }
+
+  /**
+   * Updates the figures of a route and recomputes the CBs of the ships that sailed it
+   * 
+   * Only the given fields change; the route ID cannot be changed. When the
+   * intensity or consumption changes without totalEmissions, the emissions
+   * are derived again from them.
+   * 
+   * @param {string} companyId - The company owning the route
+   * @param {string} routeId - The unique identifier of the route
+   * @param {Partial<Route>} changes - Fields to update
+   * @returns {Promise<RouteChange | null>} The updated route and recomputed CBs, or null if the route does not exist
+   * @throws {Error} If the updated route is invalid
+   */
+  async updateRoute(companyId: string, routeId: string, changes: Partial<Route>): Promise<RouteChange | null> {
+    const existing = await this.routeRepository.findByRouteId(companyId, routeId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = mergeRoute(existing, { ...changes, routeId });
+
+    const errors = validateRoute(updated);
+    if (errors.length > 0) {
+      throw new Error(`Invalid route: ${errors.join(', ')}`);
+    }
+
+    const saved = await this.routeRepository.update(companyId, updated as Route);
+    if (!saved) {
+      return null;
+    }
+
+    return {
+      route: aggregateFuelConsumption(saved),
+      recomputed: await this.recomputeRoutes(companyId, [routeId]),
+    };
+  }
+
+  /**
+   * Creates or updates many routes at once
+   * 
+   * Routes the company already has are updated with the given fields, the
+   * others are created. All routes are validated before any is written and
+   * they are written together, so either all or none are saved.
+   * 
+   * @param {string} companyId - The company owning the routes
+   * @param {Partial<Route>[]} routes - Routes to create or update, identified by route ID
+   * @returns {Promise<RouteBulkUpsert>} Each route with whether it was created, and the recomputed CBs
+   * @throws {Error} If a route is invalid or listed twice
+   */
+  async upsertRoutes(companyId: string, routes: Partial<Route>[]): Promise<RouteBulkUpsert> {
+    if (routes.length === 0) {
+      throw new Error('Invalid routes: at least one route is required');
+    }
+
+    const existing = new Map(
+      (await this.routeRepository.findAll(companyId)).map(route => [route.routeId, route])
+    );
+
+    const seen = new Set<string>();
+    const errors: string[] = [];
+    const merged = routes.map((route, index) => {
+      const label = route.routeId || `#${index + 1}`;
+      const candidate = mergeRoute(route.routeId ? existing.get(route.routeId) : undefined, route);
+
+      const routeErrors = validateRoute(candidate);
+      if (route.routeId && seen.has(route.routeId)) {
+        routeErrors.push('routeId is listed more than once');
+      }
+      if (route.routeId) {
+        seen.add(route.routeId);
+      }
+      if (routeErrors.length > 0) {
+        errors.push(`${label}: ${routeErrors.join(', ')}`);
+      }
+      return candidate as Route;
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid routes: ${errors.join('; ')}`);
+    }
+
+    const upserts = await this.routeRepository.upsertMany(companyId, merged);
+    const updatedRouteIds = upserts.filter(upsert => !upsert.created).map(upsert => upsert.route.routeId);
+
+    return {
+      routes: upserts.map(upsert => ({ ...upsert, route: aggregateFuelConsumption(upsert.route) })),
+      recomputed: await this.recomputeRoutes(companyId, updatedRouteIds),
+    };
+  }
+
+  /**
+   * Removes a route together with its fuel breakdown and the voyages sailed on it
+   * 
+   * The CBs of the ships that sailed the route are recomputed without it.
+   * 
+   * @param {string} companyId - The company owning the route
+   * @param {string} routeId - The unique identifier of the route
+   * @returns {Promise<ShipCompliance[] | null>} The recomputed CBs, or null if the route does not exist
+   */
+  async deleteRoute(companyId: string, routeId: string): Promise<ShipCompliance[] | null> {
+    // The voyages are removed with the route, so look them up first
+    const voyages = await this.shipComplianceUseCase.getRouteVoyages(companyId, routeId);
+
+    const deleted = await this.routeRepository.delete(companyId, routeId);
+    if (!deleted) {
+      return null;
+    }
+
+    const recomputed = await this.shipComplianceUseCase.recomputeVoyages(companyId, voyages);
+    return recomputed.map(result => result.compliance);
+  }
+
+  /**
+   * Sets the voyage scope classification of a route
+   * 
+   * The scope determines how much of the route's energy counts towards
+   * compliance: 100% for intra-EU voyages and at berth, 50% for voyages
+   * into or out of the EU.
+   * 
+   * @param {string} companyId - The company owning the route
+   * @param {string} routeId - The unique identifier of the route
+   * @param {string} voyageScope - One of intra_eu, extra_eu or at_berth
+   * @returns {Promise<Route>} The route with its energy in scope recalculated
+   * @throws {Error} If the route is not found or the scope is unknown
+   * 
+   * The CBs of the ships that sailed the route are recomputed.
+   */
+  async setVoyageScope(companyId: string, routeId: string, voyageScope: string): Promise<Route> {
+    if (!isVoyageScope(voyageScope)) {
+      throw new Error(
+        `Unknown voyage scope ${voyageScope}. Available scopes: ${VOYAGE_SCOPES.join(', ')}`
+      );
+    }
+
+    const route = await this.routeRepository.findByRouteId(companyId, routeId);
+    if (!route) {
+      throw new Error(`Route ${routeId} not found`);
+    }
+
+    await this.routeRepository.saveVoyageScope(companyId, routeId, voyageScope);
+    await this.recomputeRoutes(companyId, [routeId]);
+    return aggregateFuelConsumption({ ...route, voyageScope });
+  }
+
+  /**
+   * Replaces the fuel consumption breakdown of a route
+   * 
+   * @param {string} companyId - The company owning the route
+   * @param {string} routeId - The unique identifier of the route
+   * @param {RouteFuelConsumption[]} fuelConsumptions - Consumed mass per fuel and consumer
+   * @returns {Promise<Route>} The route with its new breakdown aggregated
+   * @throws {Error} If the route is not found, an entry is invalid or the breakdown holds no energy
+   * 
+   * The CBs of the ships that sailed the route are recomputed.
+   */
+  async setFuelConsumptions(companyId: string, routeId: string, fuelConsumptions: RouteFuelConsumption[]): Promise<Route> {
+    const route = await this.routeRepository.findByRouteId(companyId, routeId);
+    if (!route) {
+      throw new Error(`Route ${routeId} not found`);
+    }
+
+    for (const entry of fuelConsumptions) {
+      // Throws for fuels without default emission factors
+      getFuelProperties(entry.fuelType);
+
+      if (!Number.isFinite(entry.mass) || entry.mass < 0) {
+        throw new Error(`Fuel mass for ${entry.fuelType} must be a non-negative number`);
+      }
+      if (!FUEL_CONSUMERS.includes(entry.consumer)) {
+        throw new Error(
+          `Unknown consumer ${entry.consumer}. Available consumers: ${FUEL_CONSUMERS.join(', ')}`
+        );
+      }
+    }
+
+    // A breakdown replaces the route's energy, so it must hold some; an empty one clears it
+    if (fuelConsumptions.length > 0) {
+      calculateWellToWake(fuelConsumptions, route.year);
+    }
+
+    const saved = await this.routeRepository.saveFuelConsumptions(companyId, routeId, fuelConsumptions);
+    await this.recomputeRoutes(companyId, [routeId]);
+    return aggregateFuelConsumption({ ...route, fuelConsumptions: saved });
+  }
+
+  /**
+   * Calculates well-to-wake GHG intensity from a fuel mix
+   * 
+   * Used when creating routes so that intensity, energy and emissions are
+   * derived from the fuels actually consumed rather than typed in by hand.
+   * 
+   * @param {FuelMassEntry[]} fuelMix - Consumed mass per fuel (tonnes)
+   * @param {number} [year] - Reporting year, applies the RFNBO reward factor through 2033
+   * @returns {WellToWakeResult} Energy, emissions and GHG intensity of the mix
+   * @throws {Error} If the fuel mix is empty or contains unknown fuels
+   */
+  calculateIntensity(fuelMix: FuelMassEntry[], year?: number): WellToWakeResult {
+    return calculateWellToWake(fuelMix, year);
   }
 
   /**
    * Sets a route as the baseline for comparison purposes
    * 
    * The baseline route serves as a reference point for comparing
-   * other routes' emissions and performance metrics.
+   * other routes' emissions and performance metrics. The baseline figures
+   * are the route's own, aggregated over its fuel breakdown.
    * 
+   * @param {string} companyId - The company owning the route
    * @param {string} routeId - The unique identifier of the route
-   * @param {Baseline} baseline - Baseline data to save
-   * @returns {Promise<Baseline>} The saved baseline data
+   * @returns {Promise<Baseline | null>} The baseline figures, or null if the route does not exist
    * @throws {Error} If baseline saving fails
    */
-  async setBaseline(routeId: string, baseline: Baseline): Promise<Baseline> {
-    return this.routeRepository.saveBaseline(routeId, baseline);
+  async setBaseline(companyId: string, routeId: string): Promise<Baseline | null> {
+    const route = await this.routeRepository.findByRouteId(companyId, routeId);
+    if (!route) {
+      return null;
+    }
+
+    await this.routeRepository.saveBaseline(companyId, routeId);
+    return toBaseline(aggregateFuelConsumption(route));
   }
 
   /**
-   * Gets comparison data for a specific route against its baseline
+   * Gets comparison data for a specific route against the baseline
    * 
-   * This method retrieves the baseline data for a route and compares it
-   * with the current route data. It calculates the percent difference
-   * in GHG intensity and checks compliance against the regulatory target.
-   * 
-   * The method attempts to find the baseline in the following order:
-   * 1. Baseline table for the requested year
-   * 2. Baseline table for the route's own year
-   * 3. Route data if the route is marked as baseline
+   * This method compares the route with the company's baseline route.
+   * It calculates the percent difference in GHG intensity and checks
+   * compliance against the regulatory target for the route's reporting year.
    * 
+   * @param {string} companyId - The company owning the route
    * @param {string} routeId - The unique identifier of the route to compare
-   * @param {number} year - The year for which to retrieve the baseline
    * @returns {Promise<ComparisonData>} Comparison data including baseline, current route, percent difference, and compliance status
-   * @throws {Error} If route not found or baseline not found
+   * @throws {Error} If route not found or no baseline route is set
    */
-  async getComparison(routeId: string, year: number): Promise<ComparisonData> {
+  async getComparison(companyId: string, routeId: string): Promise<ComparisonData> {
     // Retrieve the route to compare (this will be used as the "current" data)
-    const route = await this.routeRepository.findByRouteId(routeId);
-    if (!route) {
+    const storedRoute = await this.routeRepository.findByRouteId(companyId, routeId);
+    if (!storedRoute) {
       throw new Error(`Route ${routeId} not found`);
     }
+    const route = aggregateFuelConsumption(storedRoute);
 
-    // Attempt to find baseline data in the following priority order:
-    // 1. Baseline table for the requested year
-    let baseline = await this.routeRepository.findBaseline(routeId, year);
-    
-    // 2. If not found, try the route's own year
-    if (!baseline) {
-      baseline = await this.routeRepository.findBaseline(routeId, route.year);
-    }
-    
-    // 3. If still not found but route is marked as baseline, use route data
-    if (!baseline && route.isBaseline) {
-      baseline = {
-        routeId: route.routeId,
-        year: route.year,
-        ghgIntensity: route.ghgIntensity,
-        fuelConsumption: route.fuelConsumption,
-        distance: route.distance,
-        totalEmissions: route.totalEmissions,
-      };
-    }
+    // The baseline figures are those of the company's baseline route
+    const baselineRoute = route.isBaseline
+      ? route
+      : (await this.getAllRoutes(companyId)).find(r => r.isBaseline);
 
-    // If no baseline found after all attempts, throw error
-    if (!baseline) {
-      throw new Error(`Baseline not found for route ${routeId}. Please set this route as baseline first.`);
+    if (!baselineRoute) {
+      throw new Error('No baseline route found. Please set a baseline route first.');
     }
 
+    const baseline = toBaseline(baselineRoute);
+
     // Use the route as the comparison (current) data
     // If the route is the baseline itself, comparison will show no change
     const comparison = route;
@@ -119,14 +368,15 @@ export class RouteUseCase {
     // Positive values indicate increase, negative values indicate decrease
     const percentDifference = ((comparison.ghgIntensity / baseline.ghgIntensity) - 1) * 100;
     
-    // Check compliance: route is compliant if GHG intensity <= regulatory target
-    const isCompliant = comparison.ghgIntensity <= COMPLIANCE_TARGET;
+    // Check compliance: route is compliant if GHG intensity <= the target for its reporting year
+    const complianceTarget = getTargetIntensity(comparison.year);
+    const isCompliant = comparison.ghgIntensity <= complianceTarget;
 
     return {
       baseline,
       comparison,
       percentDifference,
-      complianceTarget: COMPLIANCE_TARGET,
+      complianceTarget,
       isCompliant,
     };
   }
@@ -138,17 +388,16 @@ export class RouteUseCase {
    * compares each one against the baseline route. It returns an array
    * of comparison data for all routes.
    * 
-   * The baseline is determined by finding the route marked as baseline,
-   * then attempting to retrieve baseline data from the baseline table.
-   * If no baseline table entry exists, the baseline route's own data is used.
+   * The baseline figures are those of the route marked as baseline.
    * 
+   * @param {string} companyId - The company whose routes are compared
    * @param {number} [year] - Optional year filter to compare only routes from that year
    * @returns {Promise<ComparisonData[]>} Array of comparison data for all routes
    * @throws {Error} If no baseline route is found
    */
-  async getAllComparisons(year?: number): Promise<ComparisonData[]> {
-    // Retrieve all routes from the repository
-    const allRoutes = await this.routeRepository.findAll();
+  async getAllComparisons(companyId: string, year?: number): Promise<ComparisonData[]> {
+    // Retrieve all routes from the repository, aggregated over their fuel breakdown
+    const allRoutes = await this.getAllRoutes(companyId);
     
     // Find the route marked as baseline (there should be exactly one)
     const baselineRoute = allRoutes.find(r => r.isBaseline);
@@ -157,30 +406,7 @@ export class RouteUseCase {
       throw new Error('No baseline route found. Please set a baseline route first.');
     }
 
-    // Attempt to retrieve baseline data from baseline table
-    let baseline: Baseline | null = null;
-    
-    // Try to find baseline in baselines table for the specified year
-    if (year) {
-      baseline = await this.routeRepository.findBaseline(baselineRoute.routeId, year);
-    }
-    
-    // If not found, try to find baseline for the route's own year
-    if (!baseline) {
-      baseline = await this.routeRepository.findBaseline(baselineRoute.routeId, baselineRoute.year);
-    }
-    
-    // If baseline not found in baselines table, use the baseline route's data
-    if (!baseline) {
-      baseline = {
-        routeId: baselineRoute.routeId,
-        year: baselineRoute.year,
-        ghgIntensity: baselineRoute.ghgIntensity,
-        fuelConsumption: baselineRoute.fuelConsumption,
-        distance: baselineRoute.distance,
-        totalEmissions: baselineRoute.totalEmissions,
-      };
-    }
+    const baseline = toBaseline(baselineRoute);
 
     // Filter routes by year if specified, otherwise use all routes
     const routesToCompare = year 
@@ -193,19 +419,37 @@ export class RouteUseCase {
       // Calculate percent difference in GHG intensity
       const percentDifference = ((route.ghgIntensity / baseline.ghgIntensity) - 1) * 100;
       
-      // Check compliance against regulatory target
-      const isCompliant = route.ghgIntensity <= COMPLIANCE_TARGET;
+      // Check compliance against the regulatory target for the route's year
+      const complianceTarget = getTargetIntensity(route.year);
+      const isCompliant = route.ghgIntensity <= complianceTarget;
 
       return {
         baseline,
         comparison: route,
         percentDifference,
-        complianceTarget: COMPLIANCE_TARGET,
+        complianceTarget,
         isCompliant,
       };
     });
 
     return comparisons;
   }
+
+  /**
+   * Recomputes the yearly CB of every ship that sailed one of the routes
+   * 
+   * @param {string} companyId - The company owning the routes
+   * @param {string[]} routeIds - The changed routes
+   * @returns {Promise<ShipCompliance[]>} The recomputed CBs
+   */
+  private async recomputeRoutes(companyId: string, routeIds: string[]): Promise<ShipCompliance[]> {
+    const voyages: VoyageAssignment[] = [];
+    for (const routeId of routeIds) {
+      voyages.push(...await this.shipComplianceUseCase.getRouteVoyages(companyId, routeId));
+    }
+
+    const recomputed = await this.shipComplianceUseCase.recomputeVoyages(companyId, voyages);
+    return recomputed.map(result => result.compliance);
+  }
 }
 
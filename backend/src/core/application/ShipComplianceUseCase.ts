@@ -1,39 +1,212 @@
-import { ShipCompliance, ComputeCBRequest } from '../domain/ShipCompliance';
+import { ShipCompliance, ComputeCBRequest, YearlyCompliance } from '../domain/ShipCompliance';
+import { calculateWellToWake } from '../domain/GhgIntensityCalculator';
+import {
+  VoyageAggregate,
+  VoyageAssignment,
+  VoyageContribution,
+  aggregateVoyages,
+  calculateVoyageContribution,
+} from '../domain/Voyage';
+import { ComplianceRepository } from '../ports/ComplianceRepository';
 import { ShipComplianceRepository } from '../ports/ShipComplianceRepository';
+import { BorrowingRepository } from '../ports/BorrowingRepository';
+import { VoyageRepository } from '../ports/VoyageRepository';
+import { RouteRepository } from '../ports/RouteRepository';
 
 export class ShipComplianceUseCase {
-  constructor(private shipComplianceRepository: ShipComplianceRepository) {}
+  constructor(
+    private shipComplianceRepository: ShipComplianceRepository,
+    private borrowingRepository: BorrowingRepository,
+    private voyageRepository: VoyageRepository,
+    private routeRepository: RouteRepository,
+    private complianceRepository: ComplianceRepository
+  ) {}
 
   /**
    * Get compliance balance for a specific ship and year
    */
-  async getShipCompliance(shipId: string, year: number): Promise<ShipCompliance | null> {
-    return this.shipComplianceRepository.findByShipAndYear(shipId, year);
+  async getShipCompliance(companyId: string, shipId: string, year: number): Promise<ShipCompliance | null> {
+    return this.shipComplianceRepository.findByShipAndYear(companyId, shipId, year);
   }
 
   /**
    * Get all ship compliance balances for a given year
    */
-  async getAllShipCompliance(year: number): Promise<ShipCompliance[]> {
-    return this.shipComplianceRepository.findByYear(year);
+  async getAllShipCompliance(companyId: string, year: number): Promise<ShipCompliance[]> {
+    return this.shipComplianceRepository.findByYear(companyId, year);
   }
 
   /**
-   * Compute and save compliance balance for a ship based on route data
+   * Assign the route as a voyage of the ship and recompute the yearly CB
+   * A fuel mix, when supplied, is saved as the route's fuel consumption breakdown,
+   * so that later recomputes keep it. Routes that already have a breakdown are
+   * refused, it is changed on the route itself; the other ships that sailed the
+   * route are recomputed with the new breakdown
    */
-  async computeComplianceBalance(request: ComputeCBRequest): Promise<ShipCompliance> {
-    return this.shipComplianceRepository.computeAndSave(
+  async computeComplianceBalance(companyId: string, request: ComputeCBRequest): Promise<YearlyCompliance> {
+    if (!request.fuelMix || request.fuelMix.length === 0) {
+      return this.assignVoyage(companyId, request.shipId, request.routeId, request.year);
+    }
+
+    const route = await this.routeRepository.findByRouteId(companyId, request.routeId);
+    if (!route) {
+      throw new Error(`Route ${request.routeId} does not exist`);
+    }
+    if (route.fuelConsumptions && route.fuelConsumptions.length > 0) {
+      throw new Error(`Route ${route.routeId} already has a fuel consumption breakdown`);
+    }
+
+    // Throws for unknown fuels, negative masses and mixes without energy, before anything is saved
+    calculateWellToWake(request.fuelMix, request.year);
+    await this.voyageRepository.assignWithFuelConsumptions(
+      companyId,
       request.shipId,
+      route.routeId,
       request.year,
-      request.routeId
+      request.fuelMix.map(entry => ({
+        fuelType: entry.fuelType,
+        mass: entry.mass,
+        consumer: entry.consumer ?? 'main_engine',
+      }))
+    );
+
+    const result = await this.recomputeYearlyBalance(companyId, request.shipId, request.year);
+    const otherVoyages = (await this.voyageRepository.findByRoute(companyId, route.routeId)).filter(
+      voyage => voyage.shipId !== request.shipId || voyage.year !== request.year
     );
+    await this.recomputeVoyages(companyId, otherVoyages);
+
+    return result;
+  }
+
+  /**
+   * Get the per-voyage contributions to a ship's yearly CB without saving it
+   */
+  async getVoyageBreakdown(companyId: string, shipId: string, year: number): Promise<VoyageAggregate> {
+    return this.buildBreakdown(companyId, shipId, year);
+  }
+
+  /**
+   * Add a voyage to a ship's reporting year and recompute the yearly CB
+   * The year defaults to the route's own year
+   */
+  async assignVoyage(
+    companyId: string,
+    shipId: string,
+    routeId: string,
+    year?: number
+  ): Promise<YearlyCompliance> {
+    const route = await this.routeRepository.findByRouteId(companyId, routeId);
+    if (!route) {
+      throw new Error(`Route ${routeId} does not exist`);
+    }
+
+    const reportingYear = year ?? route.year;
+    await this.voyageRepository.assign(companyId, shipId, routeId, reportingYear);
+
+    return this.recomputeYearlyBalance(companyId, shipId, reportingYear);
+  }
+
+  /**
+   * Remove a voyage from a ship's reporting year and recompute the yearly CB
+   * Returns null when the route was not assigned to the ship for that year
+   */
+  async removeVoyage(companyId: string, shipId: string, routeId: string, year: number): Promise<YearlyCompliance | null> {
+    const removed = await this.voyageRepository.remove(companyId, shipId, routeId, year);
+    if (!removed) {
+      return null;
+    }
+
+    return this.recomputeYearlyBalance(companyId, shipId, year);
+  }
+
+  /**
+   * Get every voyage sailed on a route, for any ship and year
+   */
+  async getRouteVoyages(companyId: string, routeId: string): Promise<VoyageAssignment[]> {
+    return this.voyageRepository.findByRoute(companyId, routeId);
+  }
+
+  /**
+   * Recompute the yearly CB of the ships and years the voyages count towards
+   * Used when a route changes; each ship and year is recomputed once
+   */
+  async recomputeVoyages(companyId: string, voyages: VoyageAssignment[]): Promise<YearlyCompliance[]> {
+    const shipYears = new Map<string, { shipId: string; year: number }>();
+    for (const voyage of voyages) {
+      shipYears.set(`${voyage.shipId}:${voyage.year}`, { shipId: voyage.shipId, year: voyage.year });
+    }
+
+    const recomputed: YearlyCompliance[] = [];
+    for (const { shipId, year } of shipYears.values()) {
+      recomputed.push(await this.recomputeYearlyBalance(companyId, shipId, year));
+    }
+    return recomputed;
   }
 
   /**
    * Update compliance balance for a ship
    */
-  async updateComplianceBalance(shipCompliance: ShipCompliance): Promise<ShipCompliance> {
-    return this.shipComplianceRepository.save(shipCompliance);
+  async updateComplianceBalance(companyId: string, shipCompliance: ShipCompliance): Promise<ShipCompliance> {
+    return this.shipComplianceRepository.save(companyId, shipCompliance);
   }
-}
 
+  /**
+   * Save the aggregate of all assigned voyages as the ship's yearly raw CB
+   * Banking and pooling changes are kept on top of it, borrowings for the
+   * year are re-applied and the previous year's are repaid
+   */
+  private async recomputeYearlyBalance(
+    companyId: string,
+    shipId: string,
+    year: number
+  ): Promise<YearlyCompliance> {
+    const breakdown = await this.buildBreakdown(companyId, shipId, year);
+
+    // Borrowing is left out here, settling below adds it again
+    const components = await this.complianceRepository.findShipComponents(companyId, shipId, year);
+    const kept = components ? components.banking + components.pooling : 0;
+
+    const saved = await this.shipComplianceRepository.save(companyId, {
+      shipId,
+      year,
+      cbGco2eq: breakdown.cbGco2eq + kept,
+      rawCbGco2eq: breakdown.cbGco2eq,
+      ghgIntensity: breakdown.ghgIntensity,
+      totalEnergy: breakdown.totalEnergy,
+      energyInScope: breakdown.energyInScope,
+      // Kept for the RFNBO sub-target check from 2034
+      rfnboEnergy: breakdown.rfnboEnergy,
+    });
+
+    const { borrowed, repaid } = await this.borrowingRepository.settleForComputedYear(companyId, shipId, year);
+
+    return {
+      compliance: { ...saved, cbGco2eq: saved.cbGco2eq + borrowed - repaid },
+      breakdown,
+    };
+  }
+
+  /**
+   * Calculate each assigned voyage's contribution and aggregate them
+   */
+  private async buildBreakdown(
+    companyId: string,
+    shipId: string,
+    year: number
+  ): Promise<VoyageAggregate> {
+    const assignments = await this.voyageRepository.findByShipAndYear(companyId, shipId, year);
+    const contributions: VoyageContribution[] = [];
+
+    for (const assignment of assignments) {
+      const route = await this.routeRepository.findByRouteId(companyId, assignment.routeId);
+      if (!route) {
+        continue;
+      }
+
+      contributions.push(calculateVoyageContribution(route, year));
+    }
+
+    return aggregateVoyages(shipId, year, contributions);
+  }
+}
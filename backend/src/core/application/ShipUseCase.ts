@@ -0,0 +1,105 @@
+/**
+ * Ship Use Case
+ * 
+ * This class contains the business logic for the ship registry, including
+ * registering, updating and removing ships. It implements the application
+ * layer of the hexagonal architecture.
+ * 
+ * @class ShipUseCase
+ * @module application/ShipUseCase
+ */
+
+import { Ship, normalizeImoNumber, validateShip } from '../domain/Ship';
+import { ShipRepository } from '../ports/ShipRepository';
+
+/**
+ * Ship Use Case Class
+ * 
+ * Handles all business logic related to ships, including:
+ * - Ship retrieval
+ * - Registration with IMO number and field validation
+ * - Updates of ship particulars
+ * - Removal of ships without compliance records
+ */
+export class ShipUseCase {
+  /**
+   * Creates an instance of ShipUseCase
+   * 
+   * @param {ShipRepository} shipRepository - Repository for ship data access
+   */
+  constructor(private shipRepository: ShipRepository) {}
+
+  /**
+   * Retrieves all ships registered with a company
+   * 
+   * @param {string} companyId - The company whose ships are returned
+   * @returns {Promise<Ship[]>} Array of all ships
+   */
+  async getAllShips(companyId: string): Promise<Ship[]> {
+    return this.shipRepository.findAll(companyId);
+  }
+
+  /**
+   * Retrieves a ship by its ship ID
+   * 
+   * @param {string} companyId - The company operating the ship
+   * @param {string} shipId - The unique identifier of the ship
+   * @returns {Promise<Ship | null>} The ship, or null if not registered
+   */
+  async getShip(companyId: string, shipId: string): Promise<Ship | null> {
+    return this.shipRepository.findByShipId(companyId, shipId);
+  }
+
+  /**
+   * Registers a new ship with a company
+   * 
+   * @param {string} companyId - The company (DoC holder) responsible for the ship
+   * @param {Ship} ship - Ship to register
+   * @returns {Promise<Ship>} The registered ship
+   * @throws {Error} If the ship is invalid or already registered
+   */
+  async registerShip(companyId: string, ship: Ship): Promise<Ship> {
+    const errors = validateShip(ship);
+    if (errors.length > 0) {
+      throw new Error(`Invalid ship: ${errors.join(', ')}`);
+    }
+
+    return this.shipRepository.create(companyId, { ...ship, imoNumber: normalizeImoNumber(ship.imoNumber) });
+  }
+
+  /**
+   * Updates the particulars of a registered ship
+   * 
+   * @param {string} companyId - The company operating the ship
+   * @param {string} shipId - The unique identifier of the ship
+   * @param {Partial<Ship>} changes - Fields to update; shipId cannot be changed
+   * @returns {Promise<Ship | null>} The updated ship, or null if not registered
+   * @throws {Error} If the updated ship is invalid
+   */
+  async updateShip(companyId: string, shipId: string, changes: Partial<Ship>): Promise<Ship | null> {
+    const existing = await this.shipRepository.findByShipId(companyId, shipId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: Ship = { ...existing, ...changes, shipId, companyId };
+    const errors = validateShip(updated);
+    if (errors.length > 0) {
+      throw new Error(`Invalid ship: ${errors.join(', ')}`);
+    }
+
+    return this.shipRepository.update(companyId, { ...updated, imoNumber: normalizeImoNumber(updated.imoNumber) });
+  }
+
+  /**
+   * Removes a ship from the registry
+   * 
+   * @param {string} companyId - The company operating the ship
+   * @param {string} shipId - The unique identifier of the ship
+   * @returns {Promise<boolean>} True if the ship was removed, false if not registered
+   * @throws {Error} If compliance, banking or pooling records still reference the ship
+   */
+  async deleteShip(companyId: string, shipId: string): Promise<boolean> {
+    return this.shipRepository.delete(companyId, shipId);
+  }
+}
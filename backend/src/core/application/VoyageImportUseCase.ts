@@ -0,0 +1,165 @@
+/**
+ * Voyage Import Use Case
+ *
+ * This class contains the business logic for importing voyages and fuel
+ * consumption from CSV exports. Every row is validated against the route
+ * rules and checked for duplicates before anything is saved; the accepted
+ * rows are then saved together, or not at all.
+ * It implements the application layer of the hexagonal architecture.
+ *
+ * @class VoyageImportUseCase
+ * @module application/VoyageImportUseCase
+ */
+
+import { Route, mergeRoute, validateRoute } from '../domain/Route';
+import { VoyageAssignment } from '../domain/Voyage';
+import {
+  AcceptedImportRow,
+  ColumnMapping,
+  RejectedImportRow,
+  VoyageImportReport,
+  mapRecord,
+  parseCsv,
+  resolveColumns,
+  toRowValues,
+} from '../domain/VoyageImport';
+import { RouteRepository } from '../ports/RouteRepository';
+import { ShipRepository } from '../ports/ShipRepository';
+import { VoyageImportRepository } from '../ports/VoyageImportRepository';
+import { ShipComplianceUseCase } from './ShipComplianceUseCase';
+
+export interface VoyageImportOptions {
+  mapping?: ColumnMapping; // CSV column header per field, defaults to DEFAULT_COLUMN_MAPPING
+  delimiter?: string; // Detected from the header line when omitted
+  dryRun?: boolean; // Validate and report without saving
+}
+
+/**
+ * Voyage Import Use Case Class
+ *
+ * Handles all business logic related to voyage imports, including:
+ * - Column mapping and per-row validation against the route rules
+ * - Duplicate detection on route ID and year, within the file and against saved routes
+ * - Dry runs that report without saving
+ * - Atomic commit of the routes and voyages, and recomputing the ships' CBs
+ */
+export class VoyageImportUseCase {
+  /**
+   * Creates an instance of VoyageImportUseCase
+   *
+   * @param {RouteRepository} routeRepository - Repository for the company's saved routes
+   * @param {ShipRepository} shipRepository - Repository for the company's ships
+   * @param {VoyageImportRepository} voyageImportRepository - Saves the imported routes and voyages
+   * @param {ShipComplianceUseCase} shipComplianceUseCase - Recomputes the CBs of the ships that sailed the routes
+   */
+  constructor(
+    private routeRepository: RouteRepository,
+    private shipRepository: ShipRepository,
+    private voyageImportRepository: VoyageImportRepository,
+    private shipComplianceUseCase: ShipComplianceUseCase
+  ) {}
+
+  /**
+   * Imports routes, and the voyages sailed on them, from CSV text
+   *
+   * Each row becomes a new route; a row with a ship ID also assigns the
+   * route to that ship as a voyage of the route's year. If any row is
+   * rejected, or on a dry run, nothing is saved.
+   *
+   * @param {string} companyId - The company importing the voyages
+   * @param {string} csv - File contents, with a header row
+   * @param {VoyageImportOptions} [options] - Column mapping, delimiter and dry run
+   * @returns {Promise<VoyageImportReport>} Accepted and rejected rows, and whether they were saved
+   * @throws {Error} If the file cannot be read or a required column is missing
+   */
+  async importCsv(companyId: string, csv: string, options: VoyageImportOptions = {}): Promise<VoyageImportReport> {
+    const dryRun = options.dryRun ?? false;
+
+    let table;
+    try {
+      table = parseCsv(csv, options.delimiter);
+    } catch (error: any) {
+      throw new Error(`Invalid CSV: ${error.message}`);
+    }
+
+    const { columns, errors } = resolveColumns(table.header, options.mapping || {});
+    if (errors.length > 0) {
+      throw new Error(`Invalid CSV: ${errors.join(', ')}`);
+    }
+
+    const savedRoutes = new Map(
+      (await this.routeRepository.findAll(companyId)).map(route => [route.routeId, route])
+    );
+    const shipIds = new Set((await this.shipRepository.findAll(companyId)).map(ship => ship.shipId));
+
+    const accepted: AcceptedImportRow[] = [];
+    const rejected: RejectedImportRow[] = [];
+    const firstRows = new Map<string, { line: number; year: number }>();
+
+    for (const record of table.records) {
+      const mapped = mapRecord(record, columns, table.delimiter === ';');
+      const route = mergeRoute(undefined, mapped.route);
+      const reasons = [...mapped.errors, ...validateRoute(route)];
+
+      if (route.routeId && typeof route.year === 'number') {
+        const saved = savedRoutes.get(route.routeId);
+        const first = firstRows.get(route.routeId);
+
+        // Route IDs are unique, so a saved route or an earlier row blocks the ID for every year
+        if (first && first.year === route.year) {
+          reasons.push(`duplicate of line ${first.line} (same route_id and year)`);
+        } else if (first) {
+          reasons.push(`route ID ${route.routeId} is already used for ${first.year} on line ${first.line}`);
+        } else {
+          firstRows.set(route.routeId, { line: record.line, year: route.year });
+        }
+
+        if (saved && saved.year === route.year) {
+          reasons.push(`route ${route.routeId} for ${route.year} has already been imported`);
+        } else if (saved) {
+          reasons.push(`route ID ${route.routeId} is already used for ${saved.year}`);
+        }
+      }
+
+      if (mapped.shipId && !shipIds.has(mapped.shipId)) {
+        reasons.push(`ship ${mapped.shipId} is not registered`);
+      }
+
+      if (reasons.length > 0) {
+        rejected.push({ line: record.line, values: toRowValues(table.header, record), reasons });
+      } else {
+        accepted.push({ line: record.line, route: route as Route, shipId: mapped.shipId });
+      }
+    }
+
+    const report: VoyageImportReport = {
+      dryRun,
+      committed: false,
+      totalRows: table.records.length,
+      accepted,
+      rejected,
+      recomputed: [],
+    };
+
+    if (dryRun || rejected.length > 0 || accepted.length === 0) {
+      return report;
+    }
+
+    const voyages: VoyageAssignment[] = accepted
+      .filter(row => row.shipId)
+      .map(row => ({ shipId: row.shipId!, routeId: row.route.routeId, year: row.route.year }));
+
+    await this.voyageImportRepository.saveImport(
+      companyId,
+      accepted.map(row => row.route),
+      voyages
+    );
+
+    const recomputed = await this.shipComplianceUseCase.recomputeVoyages(companyId, voyages);
+    return {
+      ...report,
+      committed: true,
+      recomputed: recomputed.map(result => result.compliance),
+    };
+  }
+}
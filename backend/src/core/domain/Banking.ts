@@ -1,10 +1,29 @@
+/**
+ * Banking (Article 20)
+ *
+ * A ship with a positive compliance balance may bank its surplus to the
+ * following reporting periods; a ship in deficit may apply surplus banked
+ * in earlier periods. Banking, applying and borrowing for a reporting year
+ * have to be recorded by 30 April of the verification period (the year
+ * after the reporting year).
+ *
+ * The rules below only look at the balances; the banking ledger records
+ * the resulting changes.
+ *
+ * @module domain/Banking
+ */
+
+import { LedgerEntry } from './BankingLedger';
+
 export interface BankOperation {
-  year: number;
+  shipId: string;
+  year: number; // Reporting year the surplus comes from
   amount: number; // Positive CB to bank (gCO₂e)
 }
 
 export interface ApplyOperation {
-  year: number;
+  shipId: string;
+  year: number; // Target year whose deficit is covered
   amount: number; // Amount to apply from banked surplus (gCO₂e)
 }
 
@@ -14,5 +33,96 @@ export interface BankingResult {
   cbAfter: number;
   success: boolean;
   message?: string;
+  entries?: LedgerEntry[]; // Ledger entries written by the operation
+}
+
+export interface BankedAmounts {
+  shipId: string;
+  year: number;
+  bankedAmount: number; // Surplus still banked from the year (gCO₂e)
+  availableAmount: number; // Surplus banked from earlier years, which can be applied to the year (gCO₂e)
 }
 
+/**
+ * Deadline for banking, applying and borrowing in a reporting year: the
+ * end of 30 April of the following year (UTC)
+ *
+ * @param {number} year - Reporting year
+ * @returns {Date} Last moment a change for the year can be recorded
+ */
+export function bankingDeadline(year: number): Date {
+  return new Date(Date.UTC(year + 1, 3, 30, 23, 59, 59, 999));
+}
+
+/**
+ * Checks that a change for a reporting year can still be recorded
+ *
+ * @param {number} year - Reporting year
+ * @param {Date} at - Time of the change
+ * @returns {string | undefined} Reason the change is refused, undefined if allowed
+ */
+export function checkBankingDeadline(year: number, at: Date): string | undefined {
+  const deadline = bankingDeadline(year);
+  if (at > deadline) {
+    return `The deadline for ${year} was ${deadline.toISOString()}`;
+  }
+  return undefined;
+}
+
+/**
+ * Checks that surplus can be banked
+ *
+ * - The CB of the reporting year must be positive
+ * - The amount cannot exceed the surplus
+ * - The deadline of the reporting year must not have passed
+ *
+ * @param {number} cb - CB of the reporting year (gCO₂e)
+ * @param {number} amount - Amount to bank (gCO₂e)
+ * @param {number} year - Reporting year
+ * @param {Date} at - Time of banking
+ * @returns {string | undefined} Reason banking is refused, undefined if allowed
+ */
+export function checkBank(cb: number, amount: number, year: number, at: Date): string | undefined {
+  if (cb <= 0) {
+    return 'Cannot bank: Compliance Balance is not positive';
+  }
+
+  if (amount > cb) {
+    return `Cannot bank more than the surplus of ${cb} gCO₂e`;
+  }
+
+  const lateReason = checkBankingDeadline(year, at);
+  return lateReason ? `Cannot bank: ${lateReason}` : undefined;
+}
+
+/**
+ * Checks that banked surplus can be applied to a target year
+ *
+ * - The CB of the target year must be negative
+ * - The amount cannot exceed the deficit
+ * - The amount cannot exceed the surplus banked from earlier years
+ * - The deadline of the target year must not have passed
+ *
+ * @param {number} cb - CB of the target year (gCO₂e)
+ * @param {number} available - Surplus banked from earlier years (gCO₂e)
+ * @param {number} amount - Amount to apply (gCO₂e)
+ * @param {number} year - Target year
+ * @param {Date} at - Time of applying
+ * @returns {string | undefined} Reason applying is refused, undefined if allowed
+ */
+export function checkApply(cb: number, available: number, amount: number, year: number, at: Date): string | undefined {
+  if (cb >= 0) {
+    return `Cannot apply banked surplus: there is no deficit in ${year}`;
+  }
+
+  if (amount > -cb) {
+    return `Cannot apply more than the deficit of ${-cb} gCO₂e`;
+  }
+
+  if (amount > available) {
+    return `Insufficient banked surplus. Available: ${available}, Requested: ${amount}`;
+  }
+
+  const lateReason = checkBankingDeadline(year, at);
+  return lateReason ? `Cannot apply banked surplus: ${lateReason}` : undefined;
+}
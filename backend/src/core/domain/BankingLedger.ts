@@ -0,0 +1,153 @@
+/**
+ * Banking Ledger
+ *
+ * Banking moves surplus of a reporting year into the bank; the banked
+ * surplus of year N (its vintage) can be applied to the CB of year N+1 or
+ * later, oldest vintages first.
+ *
+ * Every change banking and borrowing make to a ship's balances is recorded
+ * as an immutable ledger entry. Entries are never updated or deleted; a
+ * mistaken entry is undone by a reversal entry. Each entry records the CB
+ * of the year it changed before and after, so that the ship's balance can
+ * be reconstructed entry by entry.
+ *
+ * Entry types:
+ * - bank: surplus of a year moved from the CB into the bank
+ * - apply: banked surplus moved from the bank into a year's CB
+ * - borrow: advance surplus of the following year added to a year's CB (Article 20)
+ * - repay: borrowed amount × 1.1 deducted from the following year's CB
+ * - reversal: undoes a bank or apply entry
+ * - expiry: banked surplus written off without changing any CB
+ *
+ * @module domain/BankingLedger
+ */
+
+/**
+ * @constant {LedgerEntryType[]} LEDGER_ENTRY_TYPES
+ */
+export const LEDGER_ENTRY_TYPES = ['bank', 'apply', 'borrow', 'repay', 'reversal', 'expiry'] as const;
+
+export type LedgerEntryType = typeof LEDGER_ENTRY_TYPES[number];
+
+/**
+ * Entry types that can be reversed
+ * @constant {LedgerEntryType[]} REVERSIBLE_ENTRY_TYPES
+ */
+export const REVERSIBLE_ENTRY_TYPES: LedgerEntryType[] = ['bank', 'apply'];
+
+/**
+ * Actor recorded for entries made automatically, such as repayments
+ * deducted when a CB is recomputed
+ * @constant {string} SYSTEM_ACTOR
+ */
+export const SYSTEM_ACTOR = 'system';
+
+/**
+ * Who made a change and why
+ */
+export interface LedgerAudit {
+  actor: string;
+  reason?: string;
+}
+
+export interface LedgerEntry {
+  entryId: string;
+  shipId: string;
+  entryType: LedgerEntryType;
+  sourceYear: number; // Year the surplus comes from: the banked vintage, or the year borrowed from
+  targetYear?: number; // Year whose CB changed, absent for expiries
+  amount: number; // Amount moved (gCO₂e), always positive
+  bankedChange: number; // Change of the banked surplus of the source year (gCO₂e)
+  cbBefore?: number; // CB of the target year before the entry
+  cbAfter?: number; // CB of the target year after the entry
+  reversesEntryId?: string; // Entry undone by a reversal
+  actor: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+/**
+ * Surplus banked from one year
+ */
+export interface BankedVintage {
+  year: number;
+  amount: number; // gCO₂e
+}
+
+export interface LedgerHistoryEntry extends LedgerEntry {
+  bankedBalance: number; // Banked surplus over all years after the entry
+}
+
+export interface BankingHistory {
+  shipId: string;
+  entries: LedgerHistoryEntry[]; // Oldest first
+  bankedBalance: number; // Current banked surplus over all years
+  bankedByYear: Record<number, number>; // Current banked surplus per source year
+}
+
+/**
+ * Raised when a ledger operation breaks the banking rules, such as
+ * reversing an entry twice or expiring surplus that is not banked
+ */
+export class BankingLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BankingLedgerError';
+  }
+}
+
+/**
+ * Splits an amount to apply over the banked vintages, oldest first
+ *
+ * @param {BankedVintage[]} vintages - Surplus banked per year
+ * @param {number} amount - Amount to apply (gCO₂e)
+ * @returns {BankedVintage[]} Amount drawn from each vintage, oldest first, empty vintages left out
+ * @throws {BankingLedgerError} If the vintages hold less than the amount
+ */
+export function drawFromVintages(vintages: BankedVintage[], amount: number): BankedVintage[] {
+  const available = vintages.reduce((sum, vintage) => sum + Math.max(vintage.amount, 0), 0);
+  if (available < amount) {
+    throw new BankingLedgerError(`Insufficient banked surplus. Available: ${available}, Requested: ${amount}`);
+  }
+
+  const draws: BankedVintage[] = [];
+  let remaining = amount;
+
+  for (const vintage of [...vintages].sort((a, b) => a.year - b.year)) {
+    if (remaining <= 0) {
+      break;
+    }
+    if (vintage.amount <= 0) {
+      continue;
+    }
+
+    const drawn = Math.min(vintage.amount, remaining);
+    draws.push({ year: vintage.year, amount: drawn });
+    remaining -= drawn;
+  }
+
+  return draws;
+}
+
+/**
+ * Projects the banked balance after every entry of a ship's ledger
+ *
+ * @param {string} shipId - The ship the entries belong to
+ * @param {LedgerEntry[]} entries - Ledger entries, oldest first
+ * @returns {BankingHistory} Entries with the running banked balance and the current balances
+ */
+export function projectRunningBalance(shipId: string, entries: LedgerEntry[]): BankingHistory {
+  const bankedByYear: Record<number, number> = {};
+  let bankedBalance = 0;
+
+  const history = entries.map(entry => {
+    bankedBalance += entry.bankedChange;
+    // Borrowing and repayment do not touch the bank
+    if (entry.bankedChange !== 0) {
+      bankedByYear[entry.sourceYear] = (bankedByYear[entry.sourceYear] || 0) + entry.bankedChange;
+    }
+    return { ...entry, bankedBalance };
+  });
+
+  return { shipId, entries: history, bankedBalance, bankedByYear };
+}
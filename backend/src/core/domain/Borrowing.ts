@@ -0,0 +1,110 @@
+/**
+ * Borrowing an Advance Compliance Surplus
+ * 
+ * A ship in deficit may borrow an advance compliance surplus from the
+ * following reporting period (Article 20(3)):
+ * - The amount is limited to 2% of the limit of the next year multiplied
+ *   by the energy in scope of the reporting year
+ * - The borrowed amount, multiplied by 1.1, is deducted from the compliance
+ *   balance of the following year
+ * - Borrowing is not allowed in two consecutive reporting periods
+ * 
+ * @module domain/Borrowing
+ */
+
+import { getTargetIntensity } from './GhgIntensityTarget';
+
+/**
+ * Maximum advance surplus as a share of the limit × energy in scope
+ * @constant {number} BORROWING_LIMIT_SHARE
+ */
+export const BORROWING_LIMIT_SHARE = 0.02;
+
+/**
+ * Multiplier applied to the borrowed amount when it is repaid
+ * @constant {number} BORROWING_REPAYMENT_MULTIPLIER
+ */
+export const BORROWING_REPAYMENT_MULTIPLIER = 1.1;
+
+export interface BorrowOperation {
+  shipId: string;
+  year: number;
+  amount: number; // Advance surplus to borrow (gCO₂e)
+}
+
+export interface BorrowEntry {
+  id?: number;
+  shipId: string;
+  year: number; // Year the advance surplus is added to
+  amount: number; // Borrowed amount (gCO₂e)
+  repaymentAmount: number; // Deducted from the following year (gCO₂e)
+  repaidInYear?: number; // Set once the following year's CB has been computed
+  createdAt?: Date;
+}
+
+/**
+ * Calculates the maximum advance surplus a ship may borrow in a year
+ * 
+ * @param {number} year - Reporting year the surplus is borrowed for
+ * @param {number} energyInScope - Energy in scope of the reporting year (MJ)
+ * @returns {number} Borrowing limit (gCO₂e)
+ */
+export function calculateBorrowingLimit(year: number, energyInScope: number): number {
+  return BORROWING_LIMIT_SHARE * getTargetIntensity(year + 1) * energyInScope;
+}
+
+/**
+ * Checks that an advance surplus can be borrowed
+ * 
+ * - The CB of the reporting year must be negative
+ * - The amount cannot exceed the deficit
+ * - The ship cannot have borrowed for an adjacent reporting year
+ * - The total borrowed for the year cannot exceed the borrowing limit
+ * 
+ * @param {number} cb - CB of the reporting year (gCO₂e)
+ * @param {number} amount - Amount to borrow (gCO₂e)
+ * @param {number} year - Reporting year
+ * @param {number} energyInScope - Energy in scope of the reporting year (MJ)
+ * @param {BorrowEntry[]} borrowings - The ship's earlier borrowings
+ * @returns {string | undefined} Reason borrowing is refused, undefined if allowed
+ */
+export function checkBorrow(
+  cb: number,
+  amount: number,
+  year: number,
+  energyInScope: number,
+  borrowings: BorrowEntry[]
+): string | undefined {
+  if (cb >= 0) {
+    return 'Cannot borrow: Compliance Balance is not negative';
+  }
+
+  if (amount > -cb) {
+    return `Cannot borrow more than the deficit of ${-cb} gCO₂e`;
+  }
+
+  if (borrowings.some(entry => Math.abs(entry.year - year) === 1)) {
+    return 'Cannot borrow in two consecutive reporting periods';
+  }
+
+  const alreadyBorrowed = borrowings
+    .filter(entry => entry.year === year)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const limit = calculateBorrowingLimit(year, energyInScope);
+
+  if (alreadyBorrowed + amount > limit) {
+    return `Borrowing limit exceeded. Limit: ${limit}, already borrowed: ${alreadyBorrowed}, requested: ${amount}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Calculates the amount deducted from the following year's CB
+ * 
+ * @param {number} amount - Borrowed amount (gCO₂e)
+ * @returns {number} Repayment amount (gCO₂e)
+ */
+export function calculateRepayment(amount: number): number {
+  return amount * BORROWING_REPAYMENT_MULTIPLIER;
+}
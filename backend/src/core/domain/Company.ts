@@ -0,0 +1,47 @@
+/**
+ * Company (Document of Compliance Holder)
+ * 
+ * Every fleet, banking ledger and pool belongs to one company. A group may
+ * manage several companies; each company's data is isolated from the others
+ * and selected per request.
+ * 
+ * @module domain/Company
+ */
+
+/**
+ * Company owning data that was created before companies were introduced,
+ * and used when a request does not select a company
+ * @constant {string} DEFAULT_COMPANY_ID
+ */
+export const DEFAULT_COMPANY_ID = 'default';
+
+export interface Company {
+  id?: number;
+  companyId: string;
+  name: string;
+  imoCompanyNumber?: string; // 7-digit IMO unique company and registered owner identification number
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Validates the fields of a company
+ * 
+ * @param {Partial<Company>} company - Company to validate
+ * @returns {string[]} Validation errors, empty when the company is valid
+ */
+export function validateCompany(company: Partial<Company>): string[] {
+  const errors: string[] = [];
+
+  if (!company.companyId || !/^[A-Za-z0-9_-]{1,50}$/.test(company.companyId)) {
+    errors.push('companyId is required and may only contain letters, digits, "-" and "_"');
+  }
+  if (!company.name || company.name.trim() === '') {
+    errors.push('name is required');
+  }
+  if (company.imoCompanyNumber !== undefined && !/^\d{7}$/.test(company.imoCompanyNumber)) {
+    errors.push('imoCompanyNumber must be a 7-digit number');
+  }
+
+  return errors;
+}
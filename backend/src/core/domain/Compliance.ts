@@ -6,9 +6,32 @@ export interface ComplianceBalance {
   cbAfter?: number;
 }
 
-export interface AdjustedComplianceBalance {
+/**
+ * What a ship's adjusted CB for a year is derived from, all in gCO₂e
+ */
+export interface ComplianceBalanceComponents {
   shipId: string;
   year: number;
+  rawCB: number; // CB computed from the ship's voyages
+  banking: number; // Surplus banked from the year (negative) and applied to it (positive), reversals included
+  borrowing: number; // Borrowed for the year, minus the repayment of the previous year's borrowing
+  pooling: number; // Change made by the year's pools, cancelled pools excluded
+}
+
+export interface AdjustedComplianceBalance extends ComplianceBalanceComponents {
   adjustedCB: number; // Adjusted Compliance Balance (gCO₂e)
 }
 
+/**
+ * Derives the adjusted CB: the raw CB plus the banking, borrowing and
+ * pooling changes made to it
+ *
+ * @param {ComplianceBalanceComponents} components - Raw CB and the changes made to it
+ * @returns {AdjustedComplianceBalance} The components with the adjusted CB
+ */
+export function calculateAdjustedCB(components: ComplianceBalanceComponents): AdjustedComplianceBalance {
+  return {
+    ...components,
+    adjustedCB: components.rawCB + components.banking + components.borrowing + components.pooling,
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * Fuel Catalogue
+ *
+ * Default emission factors per fuel as used for the well-to-wake GHG
+ * intensity calculation (FuelEU Maritime Annex II default values).
+ * Factors are per gram of fuel unless stated otherwise.
+ *
+ * @module domain/Fuel
+ */
+
+export type FuelType =
+  | 'HFO'
+  | 'VLSFO'
+  | 'MGO'
+  | 'LNG'
+  | 'LPG'
+  | 'Methanol'
+  | 'Bio-Diesel'
+  | 'B30'
+  | 'Bio-Methanol'
+  | 'Ammonia'
+  | 'Hydrogen'
+  | 'e-Methanol'
+  | 'e-Diesel'
+  | 'e-Ammonia'
+  | 'e-Hydrogen';
+
+export interface FuelProperties {
+  fuelType: FuelType;
+  lcv: number; // Lower calorific value (MJ/g)
+  wttFactor: number; // Well-to-tank emission factor (gCO₂e/MJ)
+  co2Factor: number; // Tank-to-wake CO₂ (gCO₂/g fuel)
+  ch4Factor: number; // Tank-to-wake CH₄ (gCH₄/g fuel)
+  n2oFactor: number; // Tank-to-wake N₂O (gN₂O/g fuel)
+  methaneSlip: number; // Unburnt fuel slip (% of fuel mass)
+  isRfnbo: boolean; // Renewable fuel of non-biological origin
+}
+
+/**
+ * Global warming potentials over 100 years (gCO₂e per gram of gas)
+ * @constant {Object} GWP100
+ */
+export const GWP100 = {
+  co2: 1,
+  ch4: 25,
+  n2o: 298,
+} as const;
+
+const HFO: FuelProperties = {
+  fuelType: 'HFO', lcv: 0.0405, wttFactor: 13.5,
+  co2Factor: 3.114, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: false,
+};
+
+const VLSFO: FuelProperties = {
+  fuelType: 'VLSFO', lcv: 0.041, wttFactor: 13.2,
+  co2Factor: 3.151, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: false,
+};
+
+const BIO_DIESEL: FuelProperties = {
+  // Biogenic CO₂ from sustainable biofuels is counted as zero
+  fuelType: 'Bio-Diesel', lcv: 0.0372, wttFactor: 20.8,
+  co2Factor: 0, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: false,
+};
+
+/**
+ * Builds the properties of a mass-based blend of two fuels
+ *
+ * The LCV and tank-to-wake factors are mass-weighted, the well-to-tank
+ * factor is energy-weighted so that the blend reproduces the emissions of
+ * burning its components separately.
+ *
+ * @param {FuelType} fuelType - Catalogue key of the blend
+ * @param {FuelProperties} base - Base fuel
+ * @param {FuelProperties} admixture - Blended-in fuel
+ * @param {number} share - Mass share of the admixture (0-1)
+ * @returns {FuelProperties} Properties of the blend
+ */
+function blend(
+  fuelType: FuelType,
+  base: FuelProperties,
+  admixture: FuelProperties,
+  share: number
+): FuelProperties {
+  const mix = (a: number, b: number) => a * (1 - share) + b * share;
+  const lcv = mix(base.lcv, admixture.lcv);
+
+  return {
+    fuelType,
+    lcv,
+    wttFactor: mix(base.lcv * base.wttFactor, admixture.lcv * admixture.wttFactor) / lcv,
+    co2Factor: mix(base.co2Factor, admixture.co2Factor),
+    ch4Factor: mix(base.ch4Factor, admixture.ch4Factor),
+    n2oFactor: mix(base.n2oFactor, admixture.n2oFactor),
+    methaneSlip: mix(base.methaneSlip, admixture.methaneSlip),
+    isRfnbo: false,
+  };
+}
+
+/**
+ * Default fuel catalogue keyed by fuel type
+ * @constant {Record<FuelType, FuelProperties>} FUEL_CATALOGUE
+ */
+export const FUEL_CATALOGUE: Record<FuelType, FuelProperties> = {
+  HFO,
+  VLSFO,
+  MGO: {
+    fuelType: 'MGO', lcv: 0.0427, wttFactor: 14.4,
+    co2Factor: 3.206, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: false,
+  },
+  LNG: {
+    // LNG Otto dual-fuel, medium speed
+    fuelType: 'LNG', lcv: 0.0491, wttFactor: 18.5,
+    co2Factor: 2.75, ch4Factor: 0, n2oFactor: 0.00011, methaneSlip: 3.1, isRfnbo: false,
+  },
+  LPG: {
+    // Fossil LPG, propane
+    fuelType: 'LPG', lcv: 0.046, wttFactor: 7.8,
+    co2Factor: 3.0, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: false,
+  },
+  Methanol: {
+    // Fossil methanol from natural gas
+    fuelType: 'Methanol', lcv: 0.0199, wttFactor: 31.3,
+    co2Factor: 1.375, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: false,
+  },
+  'Bio-Diesel': BIO_DIESEL,
+  B30: blend('B30', VLSFO, BIO_DIESEL, 0.3),
+  'Bio-Methanol': {
+    fuelType: 'Bio-Methanol', lcv: 0.0199, wttFactor: 12.0,
+    co2Factor: 0, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: false,
+  },
+  Ammonia: {
+    // Grey ammonia from natural gas reforming
+    fuelType: 'Ammonia', lcv: 0.0186, wttFactor: 121.0,
+    co2Factor: 0, ch4Factor: 0, n2oFactor: 0, methaneSlip: 0, isRfnbo: false,
+  },
+  Hydrogen: {
+    // Grey hydrogen from natural gas reforming
+    fuelType: 'Hydrogen', lcv: 0.12, wttFactor: 132.0,
+    co2Factor: 0, ch4Factor: 0, n2oFactor: 0, methaneSlip: 0, isRfnbo: false,
+  },
+  // RFNBOs: renewable hydrogen and e-fuels synthesised from it with captured CO₂.
+  // Combustion CO₂ is offset by the captured carbon and counted as zero.
+  'e-Methanol': {
+    fuelType: 'e-Methanol', lcv: 0.0199, wttFactor: 10.0,
+    co2Factor: 0, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: true,
+  },
+  'e-Diesel': {
+    fuelType: 'e-Diesel', lcv: 0.0427, wttFactor: 12.0,
+    co2Factor: 0, ch4Factor: 0.00005, n2oFactor: 0.00018, methaneSlip: 0, isRfnbo: true,
+  },
+  'e-Ammonia': {
+    fuelType: 'e-Ammonia', lcv: 0.0186, wttFactor: 6.0,
+    co2Factor: 0, ch4Factor: 0, n2oFactor: 0, methaneSlip: 0, isRfnbo: true,
+  },
+  'e-Hydrogen': {
+    fuelType: 'e-Hydrogen', lcv: 0.12, wttFactor: 3.6,
+    co2Factor: 0, ch4Factor: 0, n2oFactor: 0, methaneSlip: 0, isRfnbo: true,
+  },
+};
+
+/**
+ * Checks whether a fuel type is present in the catalogue
+ *
+ * @param {string} fuelType - Fuel type to check
+ * @returns {boolean} True if the fuel has default emission factors
+ */
+export function isKnownFuelType(fuelType: string): fuelType is FuelType {
+  return Object.prototype.hasOwnProperty.call(FUEL_CATALOGUE, fuelType);
+}
+
+/**
+ * Returns the emission factors of a fuel
+ *
+ * @param {string} fuelType - Fuel type to look up
+ * @returns {FuelProperties} Fuel properties from the catalogue
+ * @throws {Error} If the fuel type is not in the catalogue
+ */
+export function getFuelProperties(fuelType: string): FuelProperties {
+  if (!isKnownFuelType(fuelType)) {
+    throw new Error(
+      `Unknown fuel type ${fuelType}. Available fuel types: ${Object.keys(FUEL_CATALOGUE).join(', ')}`
+    );
+  }
+  return FUEL_CATALOGUE[fuelType];
+}
@@ -0,0 +1,142 @@
+/**
+ * FuelEU Report
+ *
+ * The FuelEU report of a ship for a reporting year sets out how its
+ * compliance was reached: the energy in scope and the GHG intensity of the
+ * voyages, the target, the CB they give, the banking, borrowing and pooling
+ * adjustments to it, the adjusted CB and the resulting penalty.
+ *
+ * @module domain/FuelEuReport
+ */
+
+import { AdjustedComplianceBalance } from './Compliance';
+import { PenaltyResult } from './Penalty';
+import { Ship } from './Ship';
+import { ShipCompliance } from './ShipCompliance';
+import { VoyageContribution } from './Voyage';
+
+export interface FuelEuReport {
+  shipId: string;
+  imoNumber?: string;
+  shipName?: string;
+  shipType?: string;
+  flag?: string;
+  year: number;
+  generatedAt: string; // ISO timestamp
+  totalEnergy: number; // MJ, all energy used on the voyages
+  energyInScope: number; // MJ, energy counted towards compliance
+  rfnboEnergy: number; // MJ, RFNBO energy in scope
+  ghgIntensity: number; // gCO₂e/MJ, actual intensity
+  targetIntensity: number; // gCO₂e/MJ, target for the reporting year
+  rawCB: number; // gCO₂e, CB computed from the voyages
+  banking: number; // gCO₂e, surplus banked (negative) and applied (positive)
+  borrowing: number; // gCO₂e, borrowed for the year minus the repayment of the previous year's borrowing
+  pooling: number; // gCO₂e, change made by the year's pools
+  adjustedCB: number; // gCO₂e, rawCB plus the adjustments
+  isCompliant: boolean; // Adjusted CB is not negative
+  consecutiveDeficitYears: number;
+  penalty: number; // EUR, GHG intensity deficit component
+  rfnboPenalty: number; // EUR, RFNBO sub-target component
+  totalPenalty: number; // EUR
+  voyages: VoyageContribution[];
+}
+
+/**
+ * One line of a report as printed: a labelled value and its unit
+ */
+export interface FuelEuReportLine {
+  section: string;
+  item: string;
+  value: string | number;
+  unit: string;
+}
+
+/**
+ * Combines a ship's yearly CB, its adjustments and its penalty into a report
+ *
+ * @param {ShipCompliance} compliance - The ship's saved yearly CB
+ * @param {AdjustedComplianceBalance} adjusted - Raw CB, adjustments and adjusted CB
+ * @param {PenaltyResult} penalty - Penalty for the adjusted CB
+ * @param {number} targetIntensity - Target GHG intensity of the reporting year (gCO₂e/MJ)
+ * @param {VoyageContribution[]} voyages - Contribution of each voyage to the raw CB
+ * @param {Ship | null} ship - The ship's particulars, if registered
+ * @returns {FuelEuReport} The report
+ */
+export function buildFuelEuReport(
+  compliance: ShipCompliance,
+  adjusted: AdjustedComplianceBalance,
+  penalty: PenaltyResult,
+  targetIntensity: number,
+  voyages: VoyageContribution[],
+  ship: Ship | null
+): FuelEuReport {
+  return {
+    shipId: compliance.shipId,
+    imoNumber: ship?.imoNumber,
+    shipName: ship?.name,
+    shipType: ship?.shipType,
+    flag: ship?.flag,
+    year: compliance.year,
+    generatedAt: new Date().toISOString(),
+    totalEnergy: compliance.totalEnergy ?? 0,
+    energyInScope: compliance.energyInScope ?? 0,
+    rfnboEnergy: compliance.rfnboEnergy ?? 0,
+    ghgIntensity: compliance.ghgIntensity ?? targetIntensity,
+    targetIntensity,
+    rawCB: adjusted.rawCB,
+    banking: adjusted.banking,
+    borrowing: adjusted.borrowing,
+    pooling: adjusted.pooling,
+    adjustedCB: adjusted.adjustedCB,
+    isCompliant: adjusted.adjustedCB >= 0,
+    consecutiveDeficitYears: penalty.consecutiveDeficitYears,
+    penalty: penalty.penalty,
+    rfnboPenalty: penalty.rfnboPenalty,
+    totalPenalty: penalty.totalPenalty,
+    voyages,
+  };
+}
+
+/**
+ * Lays a report out as labelled lines, in the order they are printed
+ *
+ * @param {FuelEuReport} report - The report
+ * @returns {FuelEuReportLine[]} Lines grouped by section
+ */
+export function toReportLines(report: FuelEuReport): FuelEuReportLine[] {
+  const lines: FuelEuReportLine[] = [
+    { section: 'Ship', item: 'Ship ID', value: report.shipId, unit: '' },
+    { section: 'Ship', item: 'IMO number', value: report.imoNumber ?? '', unit: '' },
+    { section: 'Ship', item: 'Name', value: report.shipName ?? '', unit: '' },
+    { section: 'Ship', item: 'Ship type', value: report.shipType ?? '', unit: '' },
+    { section: 'Ship', item: 'Flag', value: report.flag ?? '', unit: '' },
+    { section: 'Ship', item: 'Reporting period', value: report.year, unit: '' },
+    { section: 'Energy and intensity', item: 'Total energy', value: report.totalEnergy, unit: 'MJ' },
+    { section: 'Energy and intensity', item: 'Energy in scope', value: report.energyInScope, unit: 'MJ' },
+    { section: 'Energy and intensity', item: 'RFNBO energy in scope', value: report.rfnboEnergy, unit: 'MJ' },
+    { section: 'Energy and intensity', item: 'GHG intensity', value: report.ghgIntensity, unit: 'gCO₂e/MJ' },
+    { section: 'Energy and intensity', item: 'Target intensity', value: report.targetIntensity, unit: 'gCO₂e/MJ' },
+    { section: 'Compliance balance', item: 'Compliance balance', value: report.rawCB, unit: 'gCO₂e' },
+    { section: 'Compliance balance', item: 'Banking', value: report.banking, unit: 'gCO₂e' },
+    { section: 'Compliance balance', item: 'Borrowing', value: report.borrowing, unit: 'gCO₂e' },
+    { section: 'Compliance balance', item: 'Pooling', value: report.pooling, unit: 'gCO₂e' },
+    { section: 'Compliance balance', item: 'Adjusted compliance balance', value: report.adjustedCB, unit: 'gCO₂e' },
+    { section: 'Compliance balance', item: 'Status', value: report.isCompliant ? 'Compliant' : 'Deficit', unit: '' },
+    { section: 'Penalty', item: 'Consecutive deficit years', value: report.consecutiveDeficitYears, unit: '' },
+    { section: 'Penalty', item: 'GHG intensity penalty', value: report.penalty, unit: 'EUR' },
+    { section: 'Penalty', item: 'RFNBO sub-target penalty', value: report.rfnboPenalty, unit: 'EUR' },
+    { section: 'Penalty', item: 'Total penalty', value: report.totalPenalty, unit: 'EUR' },
+  ];
+
+  for (const voyage of report.voyages) {
+    const section = `Voyage ${voyage.routeId}`;
+    lines.push(
+      { section, item: 'Voyage scope', value: voyage.voyageScope, unit: '' },
+      { section, item: 'Energy in scope', value: voyage.energyInScope, unit: 'MJ' },
+      { section, item: 'GHG intensity', value: voyage.ghgIntensity, unit: 'gCO₂e/MJ' },
+      { section, item: 'Compliance balance contribution', value: voyage.cbGco2eq, unit: 'gCO₂e' }
+    );
+  }
+
+  return lines;
+}
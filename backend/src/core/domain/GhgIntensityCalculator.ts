@@ -0,0 +1,99 @@
+/**
+ * Well-to-Wake GHG Intensity Calculator
+ *
+ * Computes the GHG intensity of the energy used on board from the mass of
+ * each fuel consumed:
+ *
+ *   WtT = Σ Mᵢ × LCVᵢ × WtTᵢ
+ *   TtW = Σ Mᵢ × [(1 − slipᵢ) × (CO₂ᵢ + CH₄ᵢ × GWP_CH₄ + N₂Oᵢ × GWP_N₂O) + slipᵢ × GWP_CH₄]
+ *   GHG intensity = (WtT + TtW) / Σ Mᵢ × LCVᵢ × RWDᵢ
+ *
+ * RWDᵢ is the RFNBO reward factor: 2 for RFNBO energy through 2033,
+ * otherwise 1 (see domain/Rfnbo).
+ *
+ * @module domain/GhgIntensityCalculator
+ */
+
+import { GWP100, getFuelProperties } from './Fuel';
+import { getRfnboRewardFactor } from './Rfnbo';
+
+/**
+ * Grams per metric tonne
+ * @constant {number} GRAMS_PER_TONNE
+ */
+const GRAMS_PER_TONNE = 1000000;
+
+export interface FuelMassEntry {
+  fuelType: string;
+  mass: number; // tonnes
+}
+
+export interface WellToWakeResult {
+  totalEnergy: number; // MJ
+  rfnboEnergy: number; // MJ from renewable fuels of non-biological origin
+  rewardedEnergy: number; // MJ, denominator of the intensity after the RFNBO reward
+  wellToTankEmissions: number; // gCO₂e
+  tankToWakeEmissions: number; // gCO₂e
+  totalEmissions: number; // gCO₂e
+  ghgIntensity: number; // gCO₂e/MJ
+}
+
+/**
+ * Calculates well-to-wake emissions and GHG intensity for a fuel mix
+ *
+ * @param {FuelMassEntry[]} fuelMix - Consumed mass per fuel
+ * @param {number} [year] - Reporting year, used for the RFNBO reward factor
+ * @returns {WellToWakeResult} Energy, emissions and GHG intensity of the mix
+ * @throws {Error} If the mix is empty, a mass is negative or a fuel is unknown
+ */
+export function calculateWellToWake(fuelMix: FuelMassEntry[], year?: number): WellToWakeResult {
+  if (fuelMix.length === 0) {
+    throw new Error('Fuel mix must contain at least one fuel');
+  }
+
+  const rewardFactor = getRfnboRewardFactor(year);
+  let totalEnergy = 0;
+  let rfnboEnergy = 0;
+  let wellToTankEmissions = 0;
+  let tankToWakeEmissions = 0;
+
+  for (const entry of fuelMix) {
+    if (!Number.isFinite(entry.mass) || entry.mass < 0) {
+      throw new Error(`Fuel mass for ${entry.fuelType} must be a non-negative number`);
+    }
+
+    const fuel = getFuelProperties(entry.fuelType);
+    const massGrams = entry.mass * GRAMS_PER_TONNE;
+    const energy = massGrams * fuel.lcv;
+    const slip = fuel.methaneSlip / 100;
+
+    const combustionFactor =
+      fuel.co2Factor * GWP100.co2 +
+      fuel.ch4Factor * GWP100.ch4 +
+      fuel.n2oFactor * GWP100.n2o;
+
+    totalEnergy += energy;
+    if (fuel.isRfnbo) {
+      rfnboEnergy += energy;
+    }
+    wellToTankEmissions += energy * fuel.wttFactor;
+    tankToWakeEmissions += massGrams * ((1 - slip) * combustionFactor + slip * GWP100.ch4);
+  }
+
+  if (totalEnergy <= 0) {
+    throw new Error('Fuel mix must contain a positive amount of energy');
+  }
+
+  const totalEmissions = wellToTankEmissions + tankToWakeEmissions;
+  const rewardedEnergy = totalEnergy + rfnboEnergy * (rewardFactor - 1);
+
+  return {
+    totalEnergy,
+    rfnboEnergy,
+    rewardedEnergy,
+    wellToTankEmissions,
+    tankToWakeEmissions,
+    totalEmissions,
+    ghgIntensity: totalEmissions / rewardedEnergy,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * GHG Intensity Target Trajectory
+ *
+ * Derives the yearly GHG intensity limit from the FuelEU Maritime reference
+ * value and the reduction steps laid down in Article 4(2) of the regulation.
+ * Each step applies from its start year until the next step begins.
+ *
+ * @module domain/GhgIntensityTarget
+ */
+
+/**
+ * Reference GHG intensity (fleet average 2020)
+ * Units: gCO₂e/MJ
+ * @constant {number} REFERENCE_GHG_INTENSITY
+ */
+export const REFERENCE_GHG_INTENSITY = 91.16;
+
+/**
+ * Reduction steps relative to the reference value, ordered by start year
+ * @constant {Array<{ fromYear: number, reduction: number }>} REDUCTION_STEPS
+ */
+export const REDUCTION_STEPS: ReadonlyArray<{ fromYear: number; reduction: number }> = [
+  { fromYear: 2025, reduction: 0.02 },
+  { fromYear: 2030, reduction: 0.06 },
+  { fromYear: 2035, reduction: 0.145 },
+  { fromYear: 2040, reduction: 0.31 },
+  { fromYear: 2045, reduction: 0.62 },
+  { fromYear: 2050, reduction: 0.8 },
+];
+
+/**
+ * Returns the reduction factor applicable to a reporting year
+ *
+ * Years before the first step (historical data) are evaluated against the
+ * first reporting period so that they remain comparable.
+ *
+ * @param {number} year - Reporting year
+ * @returns {number} Reduction as a fraction of the reference value (e.g. 0.06)
+ */
+export function getReductionForYear(year: number): number {
+  let reduction = REDUCTION_STEPS[0].reduction;
+  for (const step of REDUCTION_STEPS) {
+    if (year >= step.fromYear) {
+      reduction = step.reduction;
+    }
+  }
+  return reduction;
+}
+
+/**
+ * Returns the GHG intensity limit for a reporting year
+ *
+ * @param {number} year - Reporting year
+ * @returns {number} Target GHG intensity in gCO₂e/MJ (e.g. 89.3368 for 2025-2029)
+ */
+export function getTargetIntensity(year: number): number {
+  return REFERENCE_GHG_INTENSITY * (1 - getReductionForYear(year));
+}
@@ -0,0 +1,344 @@
+/**
+ * EU MRV (THETIS-MRV) Annual Emission Reports
+ *
+ * Under the EU MRV Regulation (2015/757) each ship reports, per reporting
+ * period, the fuel it consumed by fuel type, the distance travelled, the time
+ * spent at sea and the CO₂ emitted, split by the kind of voyage. THETIS-MRV
+ * exports these reports one ship per row. This module reads such an export
+ * and maps each ship's year onto routes, so that its first FuelEU CB can be
+ * computed from data that has already been verified.
+ *
+ * MRV reports do not split fuel or distance by voyage, so the year is split
+ * into two routes by the CO₂ reported per kind of voyage:
+ * - intra_eu: voyages between EU ports, plus emissions at berth in EU ports
+ *   (both count in full)
+ * - extra_eu: voyages departing from or arriving at EU ports (half counts)
+ *
+ * @module domain/MrvReport
+ */
+
+import { FuelType } from './Fuel';
+import { FuelMassEntry, calculateWellToWake } from './GhgIntensityCalculator';
+import { Route, RouteFuelConsumption } from './Route';
+import { isValidImoNumber, normalizeImoNumber } from './Ship';
+import { ShipCompliance } from './ShipCompliance';
+import { VoyageScope } from './VoyageScope';
+import {
+  CsvRecord,
+  CsvTable,
+  RejectedImportRow,
+  detectDelimiter,
+  normalizeHeader,
+  parseCsv,
+  toRowValues,
+} from './VoyageImport';
+
+/**
+ * One ship's annual emission report
+ */
+export interface MrvShipReport {
+  line: number; // Line of the export the report is on
+  imoNumber: string;
+  name: string;
+  shipType: string;
+  year: number; // Reporting period
+  fuelConsumptions: FuelMassEntry[]; // tonnes per fuel type
+  distance: number; // nautical miles
+  timeAtSea: number; // hours
+  co2Emissions: number; // tonnes, all voyages and at berth
+  co2BetweenMsPorts: number; // tonnes, voyages between ports under a Member State's jurisdiction
+  co2DepartedFromMsPorts: number; // tonnes, voyages departing from such ports
+  co2ToMsPorts: number; // tonnes, voyages arriving at such ports
+  co2AtBerth: number; // tonnes, at berth in such ports
+}
+
+/**
+ * Reports read from an export, and the rows that could not be read
+ */
+export interface MrvParseResult {
+  reports: MrvShipReport[];
+  rejected: RejectedImportRow[];
+}
+
+/**
+ * A ship's report mapped onto the company's ship and the routes of its year
+ */
+export interface MrvAcceptedShip {
+  line: number;
+  imoNumber: string;
+  shipId: string;
+  year: number;
+  timeAtSea: number; // hours
+  co2Emissions: number; // tonnes, as reported
+  routes: Route[];
+}
+
+/**
+ * Outcome of an MRV import: nothing is saved on a dry run or when any row is rejected
+ */
+export interface MrvImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  totalRows: number;
+  accepted: MrvAcceptedShip[];
+  rejected: RejectedImportRow[];
+  recomputed: ShipCompliance[]; // The ships' CBs computed from the imported routes
+}
+
+type MrvField = Exclude<keyof MrvShipReport, 'line' | 'fuelConsumptions'>;
+
+/**
+ * THETIS-MRV column header per report field
+ * @constant {Record<MrvField, string>} MRV_COLUMNS
+ */
+export const MRV_COLUMNS: Record<MrvField, string> = {
+  imoNumber: 'IMO Number',
+  name: 'Name',
+  shipType: 'Ship type',
+  year: 'Reporting Period',
+  distance: 'Total distance travelled [n miles]',
+  timeAtSea: 'Time spent at sea [hours]',
+  co2Emissions: 'Total CO₂ emissions [m tonnes]',
+  co2BetweenMsPorts: 'CO₂ emissions from all voyages between ports under a MS jurisdiction [m tonnes]',
+  co2DepartedFromMsPorts: 'CO₂ emissions from all voyages which departed from ports under a MS jurisdiction [m tonnes]',
+  co2ToMsPorts: 'CO₂ emissions from all voyages to ports under a MS jurisdiction [m tonnes]',
+  co2AtBerth: 'CO₂ emissions which occurred within ports under a MS jurisdiction at berth [m tonnes]',
+};
+
+/**
+ * Fuel catalogue entry per MRV fuel type, keyed by normalized name
+ * Fuel columns are headed "<fuel> consumption [m tonnes]", e.g. "HFO consumption [m tonnes]"
+ * @constant {Record<string, FuelType>} MRV_FUEL_TYPES
+ */
+export const MRV_FUEL_TYPES: Record<string, FuelType> = {
+  hfo: 'HFO',
+  lfo: 'VLSFO',
+  mdo: 'MGO',
+  mgo: 'MGO',
+  mdomgo: 'MGO',
+  lng: 'LNG',
+  lpg: 'LPG',
+  methanol: 'Methanol',
+};
+
+const FUEL_COLUMN = /^(.+)consumptionmtonnes$/;
+const TEXT_FIELDS: MrvField[] = ['imoNumber', 'name', 'shipType'];
+
+/**
+ * Reads the ship reports from a THETIS-MRV export
+ *
+ * Title rows above the column headers are skipped. Columns are matched by
+ * header, ignoring case, spaces and punctuation. The delimiter is detected
+ * from the header row; numbers may carry thousands separators, or a decimal
+ * comma when the export is semicolon-separated.
+ *
+ * @param {string} csv - Contents of the export saved as CSV
+ * @returns {MrvParseResult} The reports, and the rows rejected with reasons
+ * @throws {Error} If the export has no IMO Number header or a column is missing
+ */
+export function parseMrvReport(csv: string): MrvParseResult {
+  // Title rows may hold no delimiter, so detect it from the header row
+  const imoColumn = normalizeHeader(MRV_COLUMNS.imoNumber);
+  const headerLine = csv.split(/\r?\n/).find(line => normalizeHeader(line).includes(imoColumn));
+  const table = findHeader(parseCsv(csv, headerLine ? detectDelimiter(headerLine) : undefined));
+  const decimalComma = table.delimiter === ';';
+  const header = table.header.map(normalizeHeader);
+
+  const columns: Partial<Record<MrvField, number>> = {};
+  const missing: string[] = [];
+  for (const [field, name] of Object.entries(MRV_COLUMNS) as [MrvField, string][]) {
+    const index = header.indexOf(normalizeHeader(name));
+    if (index >= 0) {
+      columns[field] = index;
+    } else {
+      missing.push(name);
+    }
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing THETIS-MRV columns: ${missing.join(', ')}`);
+  }
+
+  // Every "<fuel> consumption [m tonnes]" column except the total
+  const fuelColumns = header
+    .map((name, index) => ({ fuel: FUEL_COLUMN.exec(name)?.[1], index }))
+    .filter((column): column is { fuel: string; index: number } => !!column.fuel && column.fuel !== 'totalfuel');
+
+  const reports: MrvShipReport[] = [];
+  const rejected: RejectedImportRow[] = [];
+
+  for (const record of table.records) {
+    const reasons: string[] = [];
+    const report: Record<string, unknown> = { line: record.line };
+
+    for (const [field, index] of Object.entries(columns) as [MrvField, number][]) {
+      const value = (record.cells[index] ?? '').trim();
+      if (TEXT_FIELDS.includes(field)) {
+        report[field] = value;
+        continue;
+      }
+
+      const number = parseMrvNumber(value, decimalComma);
+      if (number === null) {
+        reasons.push(`${table.header[index]} ${value === '' ? 'is empty' : `${value} is not a number`}`);
+      } else {
+        report[field] = number;
+      }
+    }
+
+    const fuelConsumptions: FuelMassEntry[] = [];
+    for (const { fuel, index } of fuelColumns) {
+      const value = (record.cells[index] ?? '').trim();
+      const mass = value === '' ? 0 : parseMrvNumber(value, decimalComma);
+      if (mass === null || mass < 0) {
+        reasons.push(`${table.header[index]} ${value} is not a non-negative number`);
+      } else if (mass > 0 && !MRV_FUEL_TYPES[fuel]) {
+        reasons.push(`${table.header[index]}: fuel is not in the fuel catalogue`);
+      } else if (mass > 0) {
+        fuelConsumptions.push({ fuelType: MRV_FUEL_TYPES[fuel], mass });
+      }
+    }
+    report.fuelConsumptions = mergeFuels(fuelConsumptions);
+
+    if (reasons.length === 0) {
+      reasons.push(...validateMrvReport(report as unknown as MrvShipReport));
+    }
+
+    if (reasons.length > 0) {
+      rejected.push({ line: record.line, values: toRowValues(table.header, record), reasons });
+    } else {
+      reports.push(report as unknown as MrvShipReport);
+    }
+  }
+
+  return { reports, rejected };
+}
+
+/**
+ * Checks that a report holds enough to derive routes from
+ *
+ * @param {MrvShipReport} report - Report to check
+ * @returns {string[]} Validation errors, empty when the report is usable
+ */
+export function validateMrvReport(report: MrvShipReport): string[] {
+  const errors: string[] = [];
+
+  if (!isValidImoNumber(report.imoNumber)) {
+    errors.push(`IMO number ${report.imoNumber} is not valid`);
+  }
+  if (!Number.isInteger(report.year)) {
+    errors.push('Reporting Period must be a year');
+  }
+  if (report.fuelConsumptions.length === 0) {
+    errors.push('no fuel consumption reported');
+  }
+  if (!(report.distance > 0)) {
+    errors.push('distance travelled must be positive');
+  }
+  if (!(report.co2BetweenMsPorts + report.co2DepartedFromMsPorts + report.co2ToMsPorts + report.co2AtBerth > 0)) {
+    errors.push('no CO₂ emissions reported per kind of voyage');
+  }
+
+  return errors;
+}
+
+/**
+ * Splits a ship's reporting year into routes by the CO₂ of each kind of voyage
+ *
+ * Fuel and distance are shared out in proportion to the CO₂, and each
+ * route's intensity, energy and emissions are derived from its share of the
+ * fuel. Route IDs are MRV-<IMO number>-<year>-EU and -EXT.
+ *
+ * @param {MrvShipReport} report - A valid ship report
+ * @returns {Route[]} One route per kind of voyage with emissions
+ */
+export function toMrvRoutes(report: MrvShipReport): Route[] {
+  const imoNumber = normalizeImoNumber(report.imoNumber);
+  const shares: { suffix: string; voyageScope: VoyageScope; co2: number }[] = [
+    { suffix: 'EU', voyageScope: 'intra_eu', co2: report.co2BetweenMsPorts + report.co2AtBerth },
+    { suffix: 'EXT', voyageScope: 'extra_eu', co2: report.co2DepartedFromMsPorts + report.co2ToMsPorts },
+  ];
+  const totalCo2 = shares.reduce((sum, share) => sum + share.co2, 0);
+
+  return shares
+    .filter(share => share.co2 > 0)
+    .map(share => {
+      const factor = share.co2 / totalCo2;
+
+      // MRV reports do not split consumption by consumer
+      const fuelConsumptions: RouteFuelConsumption[] = report.fuelConsumptions.map(entry => ({
+        fuelType: entry.fuelType,
+        mass: round(entry.mass * factor, 3),
+        consumer: 'other',
+      }));
+      const wellToWake = calculateWellToWake(fuelConsumptions, report.year);
+
+      return {
+        routeId: `MRV-${imoNumber}-${report.year}-${share.suffix}`,
+        vesselType: report.shipType,
+        fuelType: mainFuel(report.fuelConsumptions),
+        year: report.year,
+        ghgIntensity: wellToWake.ghgIntensity,
+        fuelConsumption: wellToWake.totalEnergy,
+        distance: round(report.distance * factor, 2),
+        totalEmissions: wellToWake.totalEmissions,
+        voyageScope: share.voyageScope,
+        fuelConsumptions,
+      };
+    });
+}
+
+/**
+ * THETIS exports start with title rows; the header is the row with the IMO Number column
+ */
+function findHeader(table: CsvTable): CsvTable {
+  const imoColumn = normalizeHeader(MRV_COLUMNS.imoNumber);
+  if (table.header.map(normalizeHeader).includes(imoColumn)) {
+    return table;
+  }
+
+  const index = table.records.findIndex((record: CsvRecord) =>
+    record.cells.some(cell => normalizeHeader(cell) === imoColumn)
+  );
+  if (index < 0) {
+    throw new Error(`No ${MRV_COLUMNS.imoNumber} column found; is this a THETIS-MRV export?`);
+  }
+
+  return {
+    ...table,
+    header: table.records[index].cells.map(name => name.trim()),
+    records: table.records.slice(index + 1),
+  };
+}
+
+/**
+ * Numbers in THETIS exports may carry thousands separators (1,234.5)
+ */
+function parseMrvNumber(value: string, decimalComma: boolean): number | null {
+  const normalized = decimalComma
+    ? value.replace(/[\s.]/g, '').replace(',', '.')
+    : value.replace(/[\s,]/g, '');
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(normalized)) {
+    return null;
+  }
+  return Number(normalized);
+}
+
+/**
+ * Adds up MRV fuel types that map to the same catalogue fuel, e.g. MDO and MGO
+ */
+function mergeFuels(fuels: FuelMassEntry[]): FuelMassEntry[] {
+  const masses = new Map<string, number>();
+  for (const entry of fuels) {
+    masses.set(entry.fuelType, (masses.get(entry.fuelType) || 0) + entry.mass);
+  }
+  return [...masses].map(([fuelType, mass]) => ({ fuelType, mass }));
+}
+
+function mainFuel(fuels: FuelMassEntry[]): string {
+  return fuels.reduce((main, entry) => (entry.mass > main.mass ? entry : main)).fuelType;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
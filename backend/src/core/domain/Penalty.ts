@@ -0,0 +1,145 @@
+/**
+ * FuelEU Remedial Penalty
+ * 
+ * Converts a negative compliance balance into the remedial penalty of
+ * Annex IV Part B of the regulation:
+ * 
+ *   Penalty = |CB| / (GHG intensity × 41,000) × 2,400 × (1 + (n − 1) × 0.1)
+ * 
+ * where n is the number of consecutive reporting periods, including the
+ * current one, in which the ship had a compliance deficit. From 2034 a
+ * shortfall against the RFNBO sub-target is added as a separate component
+ * (see domain/Rfnbo).
+ * 
+ * @module domain/Penalty
+ */
+
+import { RfnboSubtargetResult } from './Rfnbo';
+
+/**
+ * Penalty per tonne of VLSFO-equivalent energy deficit (EUR/t)
+ * @constant {number} PENALTY_EUR_PER_TONNE_VLSFO
+ */
+export const PENALTY_EUR_PER_TONNE_VLSFO = 2400;
+
+/**
+ * Energy content of one tonne of VLSFO (MJ/t)
+ * @constant {number} VLSFO_ENERGY_MJ_PER_TONNE
+ */
+export const VLSFO_ENERGY_MJ_PER_TONNE = 41000;
+
+/**
+ * Penalty increase per additional consecutive deficit year
+ * @constant {number} CONSECUTIVE_DEFICIT_ESCALATION
+ */
+export const CONSECUTIVE_DEFICIT_ESCALATION = 0.1;
+
+export interface PenaltyResult {
+  shipId: string;
+  year: number;
+  cbGco2eq: number; // Compliance Balance in gCO₂e
+  ghgIntensity: number; // gCO₂e/MJ used to convert the deficit into energy
+  energyDeficit: number; // MJ
+  vlsfoEquivalentTonnes: number; // t VLSFO-equivalent
+  consecutiveDeficitYears: number; // Including the reporting year
+  multiplier: number; // Escalation multiplier for consecutive deficits
+  basePenalty: number; // EUR, before escalation
+  penalty: number; // EUR, GHG intensity deficit component
+  rfnboShortfallEnergy: number; // MJ of RFNBO energy missing to meet the sub-target
+  rfnboPenalty: number; // EUR, RFNBO sub-target component
+  totalPenalty: number; // EUR, sum of both components
+}
+
+export interface FleetPenaltySummary {
+  year: number;
+  shipCount: number;
+  shipsInDeficit: number;
+  totalPenalty: number; // EUR
+  penalties: PenaltyResult[];
+}
+
+/**
+ * Counts consecutive deficit years ending at the reporting year
+ * 
+ * @param {Array<{ year: number, cbGco2eq: number }>} history - Compliance balances of one ship
+ * @param {number} year - Reporting year
+ * @returns {number} Number of consecutive deficit years, 0 if the year is not in deficit
+ */
+export function countConsecutiveDeficitYears(
+  history: Array<{ year: number; cbGco2eq: number }>,
+  year: number
+): number {
+  const cbByYear = new Map(history.map(entry => [entry.year, entry.cbGco2eq]));
+
+  let count = 0;
+  let current = year;
+  while ((cbByYear.get(current) ?? 0) < 0) {
+    count++;
+    current--;
+  }
+  return count;
+}
+
+/**
+ * Calculates the remedial penalty for a compliance balance
+ * 
+ * @param {string} shipId - The unique identifier of the ship
+ * @param {number} year - Reporting year
+ * @param {number} cbGco2eq - Compliance balance in gCO₂e
+ * @param {number} ghgIntensity - Actual GHG intensity of the ship in gCO₂e/MJ
+ * @param {number} consecutiveDeficitYears - Consecutive deficit years including this one
+ * @param {RfnboSubtargetResult} [rfnboSubtarget] - RFNBO sub-target check for the reporting year
+ * @returns {PenaltyResult} Penalty breakdown (zero deficit component when the balance is not negative)
+ */
+export function calculatePenalty(
+  shipId: string,
+  year: number,
+  cbGco2eq: number,
+  ghgIntensity: number,
+  consecutiveDeficitYears: number,
+  rfnboSubtarget?: RfnboSubtargetResult
+): PenaltyResult {
+  const rfnboShortfallEnergy = rfnboSubtarget?.shortfallEnergy ?? 0;
+  const rfnboPenalty = rfnboSubtarget?.penalty ?? 0;
+
+  if (cbGco2eq >= 0 || ghgIntensity <= 0) {
+    return {
+      shipId,
+      year,
+      cbGco2eq,
+      ghgIntensity,
+      energyDeficit: 0,
+      vlsfoEquivalentTonnes: 0,
+      consecutiveDeficitYears: 0,
+      multiplier: 1,
+      basePenalty: 0,
+      penalty: 0,
+      rfnboShortfallEnergy,
+      rfnboPenalty,
+      totalPenalty: rfnboPenalty,
+    };
+  }
+
+  const periods = Math.max(consecutiveDeficitYears, 1);
+  const energyDeficit = Math.abs(cbGco2eq) / ghgIntensity;
+  const vlsfoEquivalentTonnes = energyDeficit / VLSFO_ENERGY_MJ_PER_TONNE;
+  const basePenalty = vlsfoEquivalentTonnes * PENALTY_EUR_PER_TONNE_VLSFO;
+  const multiplier = 1 + (periods - 1) * CONSECUTIVE_DEFICIT_ESCALATION;
+  const penalty = basePenalty * multiplier;
+
+  return {
+    shipId,
+    year,
+    cbGco2eq,
+    ghgIntensity,
+    energyDeficit,
+    vlsfoEquivalentTonnes,
+    consecutiveDeficitYears: periods,
+    multiplier,
+    basePenalty,
+    penalty,
+    rfnboShortfallEnergy,
+    rfnboPenalty,
+    totalPenalty: penalty + rfnboPenalty,
+  };
+}
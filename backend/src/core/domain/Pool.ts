@@ -1,22 +1,138 @@
+import { PoolSettlement } from './PoolSettlement';
+
 export interface PoolMember {
   shipId: string;
+  companyId?: string; // Company of the ship, set once the member is loaded
   adjustedCB: number;
   cbBefore: number;
   cbAfter: number;
 }
 
+/**
+ * Lifecycle states of a pool
+ * - draft: members can still be added or removed
+ * - submitted: registered for verification, members are fixed
+ * - verified: accepted by the verifier
+ * - cancelled: withdrawn before the registration deadline
+ */
+export type PoolStatus = 'draft' | 'submitted' | 'verified' | 'cancelled';
+
+export const POOL_STATUSES: PoolStatus[] = ['draft', 'submitted', 'verified', 'cancelled'];
+
+export interface PoolStatusChange {
+  fromStatus: PoolStatus | null; // null for the creation of the pool
+  toStatus: PoolStatus;
+  actor: string; // Who made the change
+  reason?: string;
+  changedAt: Date;
+}
+
+/**
+ * Answer of a partner company to its invitation into a pool
+ * - invited: the partner has not answered yet
+ * - accepted: the partner agreed to the pool's allocation and price
+ * - declined: the partner refused the pool or left it
+ */
+export type PoolPartnerStatus = 'invited' | 'accepted' | 'declined';
+
+export interface PoolPartner {
+  companyId: string; // Company, other than the pool's, whose ships are members
+  status: PoolPartnerStatus;
+  respondedAt?: Date;
+  respondedBy?: string;
+}
+
 export interface Pool {
   poolId: string;
+  companyId?: string; // Company that formed the pool, the only one that can change it
   name?: string;
   year: number;
+  status: PoolStatus;
+  pricePerTonne?: number; // EUR per tCO₂e transferred between companies
   members: PoolMember[];
   poolSum: number; // Sum of adjusted CBs
   createdAt: Date;
+  statusHistory?: PoolStatusChange[]; // Oldest first, loaded for a single pool
+  balancesApplied?: boolean; // false until every partner accepted, and for pools saved before pool results were applied to ship balances
+  settlements?: PoolSettlement[]; // Payments between the companies of the members
+  partners?: PoolPartner[]; // Invitations of the other companies whose ships are members
+}
+
+/**
+ * A ship's membership of a pool that is not cancelled
+ * A ship can only be a member of one such pool per year
+ */
+export interface PoolMembership {
+  poolId: string;
+  shipId: string;
+  companyId: string; // Ship IDs are only unique within a company
+}
+
+/**
+ * Strategies for distributing pool surplus over the members
+ * - greedy: largest surplus holders cover the largest deficits first
+ * - pro_rata: surplus ships contribute in proportion to their surplus
+ * - priority: deficits listed first are covered first, surplus ships listed first give last
+ * - manual: cbAfter of every member supplied by the user
+ */
+export type PoolAllocationStrategyName = 'greedy' | 'pro_rata' | 'priority' | 'manual';
+
+export const POOL_ALLOCATION_STRATEGIES: PoolAllocationStrategyName[] = ['greedy', 'pro_rata', 'priority', 'manual'];
+
+export interface ManualAllocation {
+  shipId: string;
+  cbAfter: number;
 }
 
 export interface CreatePoolRequest {
   name?: string;
   year: number;
   memberShipIds: string[];
+  strategy?: PoolAllocationStrategyName; // Defaults to greedy
+  priority?: string[]; // Ship IDs in priority order, for the priority strategy
+  allocations?: ManualAllocation[]; // Per-member cbAfter, for the manual strategy
+  partnerCompanyIds?: string[]; // Other companies whose ships join the pool
+  pricePerTonne?: number; // EUR per tCO₂e, required when ships of other companies join
+}
+
+/**
+ * Rules a member's allocation can violate
+ * - deficit_exits_worse: Article 21, a deficit ship cannot exit worse than it entered
+ * - surplus_exits_negative: Article 21, a surplus ship cannot exit with a deficit
+ * - missing_allocation: no CB after pooling was supplied for the member (manual strategy)
+ * - already_pooled: the ship is already a member of another pool for the year
+ */
+export type PoolMemberRule = 'deficit_exits_worse' | 'surplus_exits_negative' | 'missing_allocation' | 'already_pooled';
+
+export interface PoolMemberRejection {
+  shipId: string;
+  rule: PoolMemberRule;
+  reason: string;
 }
 
+export interface PoolMemberValidation extends PoolMember {
+  violatedRule?: PoolMemberRule;
+  reason?: string;
+}
+
+export interface PoolValidationResult {
+  isValid: boolean;
+  year: number;
+  strategy: PoolAllocationStrategyName;
+  poolSum: number; // Sum of adjusted CBs, must be >= 0
+  allocatedSum: number; // Sum of CBs after pooling, must equal the pool sum
+  members: PoolMemberValidation[];
+  settlements: PoolSettlement[]; // Payments between companies, empty for single-company pools
+  errors: string[]; // Pool-level problems, e.g. negative pool sum or unknown ships
+}
+
+export interface UpdatePoolRequest {
+  name?: string;
+  partnerCompanyIds?: string[]; // Further companies whose ships can be added
+  pricePerTonne?: number;
+  addShipIds?: string[];
+  removeShipIds?: string[];
+  strategy?: PoolAllocationStrategyName; // Reallocation after the members change, defaults to greedy
+  priority?: string[];
+  allocations?: ManualAllocation[];
+}
@@ -0,0 +1,177 @@
+/**
+ * Pool Allocation
+ *
+ * Distributes the surplus of a compliance pool over its members. These
+ * allocations only move surplus from surplus ships to deficit ships and
+ * never lift a deficit ship above zero; they differ in which ships give
+ * and receive first:
+ * - Surplus to deficit: the largest surplus holders cover the largest
+ *   deficits first
+ * - Pro rata: every surplus ship gives the same share of its surplus
+ * - Ordered: deficit and surplus ships are served in a given order
+ *
+ * @module domain/PoolAllocation
+ */
+
+import { PoolMember, PoolMemberRejection } from './Pool';
+
+/**
+ * Allowed difference between the allocated CBs and the pool sum (gCO₂e),
+ * covering rounding in user-supplied allocations
+ * @constant {number} POOL_SUM_TOLERANCE
+ */
+export const POOL_SUM_TOLERANCE = 0.01;
+
+/**
+ * Raised when an allocation violates the pooling rules
+ * Carries the reason each offending member was rejected
+ */
+export class PoolAllocationError extends Error {
+  constructor(message: string, public readonly rejections: PoolMemberRejection[] = []) {
+    super(message);
+    this.name = 'PoolAllocationError';
+  }
+}
+
+/**
+ * Allocates pool surplus to deficit members, largest first
+ *
+ * When the pool sum is negative some deficits remain uncovered; the
+ * Article 21 checks on the result reject such a pool.
+ *
+ * @param {PoolMember[]} members - Pool members with cbBefore set
+ * @returns {PoolMember[]} Members in their original order with cbAfter set
+ */
+export function allocateSurplusToDeficits(members: PoolMember[]): PoolMember[] {
+  return allocateInOrder(
+    members,
+    (a, b) => a.cbBefore - b.cbBefore,
+    (a, b) => b.cbBefore - a.cbBefore
+  );
+}
+
+/**
+ * Allocates pool surplus in a given order of ships
+ *
+ * Deficit ships earlier in the order are covered first. Surplus ships
+ * earlier in the order give last, so they keep their surplus longest.
+ * Ships missing from the order come after the listed ones.
+ *
+ * @param {PoolMember[]} members - Pool members with cbBefore set
+ * @param {string[]} order - Ship IDs in priority order
+ * @returns {PoolMember[]} Members in their original order with cbAfter set
+ */
+export function allocateByPriority(members: PoolMember[], order: string[]): PoolMember[] {
+  const rank = (member: PoolMember) => {
+    const index = order.indexOf(member.shipId);
+    return index === -1 ? order.length : index;
+  };
+
+  return allocateInOrder(
+    members,
+    (a, b) => rank(a) - rank(b),
+    (a, b) => rank(b) - rank(a)
+  );
+}
+
+/**
+ * Allocates pool surplus in proportion to each surplus ship's surplus
+ *
+ * All deficits are covered as far as the surplus allows; each surplus ship
+ * gives the same fraction of its surplus and each deficit ship receives the
+ * same fraction of its deficit.
+ *
+ * @param {PoolMember[]} members - Pool members with cbBefore set
+ * @returns {PoolMember[]} Members in their original order with cbAfter set
+ */
+export function allocateProRata(members: PoolMember[]): PoolMember[] {
+  const totalSurplus = members
+    .filter(member => member.cbBefore > 0)
+    .reduce((sum, member) => sum + member.cbBefore, 0);
+  const totalDeficit = members
+    .filter(member => member.cbBefore < 0)
+    .reduce((sum, member) => sum - member.cbBefore, 0);
+  const transferred = Math.min(totalSurplus, totalDeficit);
+
+  return members.map(member => {
+    if (member.cbBefore > 0) {
+      return { ...member, cbAfter: member.cbBefore - transferred * (member.cbBefore / totalSurplus) };
+    }
+    if (member.cbBefore < 0) {
+      return { ...member, cbAfter: member.cbBefore + transferred * (-member.cbBefore / totalDeficit) };
+    }
+    return { ...member, cbAfter: member.cbBefore };
+  });
+}
+
+/**
+ * Checks an allocation against the Article 21 member protections
+ *
+ * - Deficit ships cannot exit worse than they entered (cbAfter >= cbBefore)
+ * - Surplus ships cannot exit negative (cbAfter >= 0)
+ *
+ * Members without a finite cbAfter are rejected as missing an allocation.
+ *
+ * @param {PoolMember[]} members - Pool members with cbBefore and cbAfter set
+ * @returns {PoolMemberRejection[]} Violated rule per rejected member, empty when valid
+ */
+export function validateAllocation(members: PoolMember[]): PoolMemberRejection[] {
+  const rejections: PoolMemberRejection[] = [];
+
+  for (const member of members) {
+    const { shipId, cbBefore, cbAfter } = member;
+
+    if (!Number.isFinite(cbAfter)) {
+      rejections.push({ shipId, rule: 'missing_allocation', reason: 'No CB after pooling allocated' });
+    } else if (cbBefore < 0 && cbAfter < cbBefore) {
+      rejections.push({
+        shipId,
+        rule: 'deficit_exits_worse',
+        reason: `Deficit ship cannot exit worse: CB before: ${cbBefore}, CB after: ${cbAfter}`,
+      });
+    } else if (cbBefore > 0 && cbAfter < 0) {
+      rejections.push({
+        shipId,
+        rule: 'surplus_exits_negative',
+        reason: `Surplus ship cannot exit negative: CB before: ${cbBefore}, CB after: ${cbAfter}`,
+      });
+    }
+  }
+
+  return rejections;
+}
+
+/**
+ * Moves surplus from donors to receivers in the given orders
+ */
+function allocateInOrder(
+  members: PoolMember[],
+  receiverOrder: (a: PoolMember, b: PoolMember) => number,
+  donorOrder: (a: PoolMember, b: PoolMember) => number
+): PoolMember[] {
+  const allocated = members.map(member => ({ ...member, cbAfter: member.cbBefore }));
+
+  const donors = allocated
+    .filter(member => member.cbBefore > 0)
+    .sort(donorOrder);
+  const receivers = allocated
+    .filter(member => member.cbBefore < 0)
+    .sort(receiverOrder);
+
+  let donorIndex = 0;
+  for (const receiver of receivers) {
+    while (receiver.cbAfter < 0 && donorIndex < donors.length) {
+      const donor = donors[donorIndex];
+      const transfer = Math.min(donor.cbAfter, -receiver.cbAfter);
+
+      donor.cbAfter -= transfer;
+      receiver.cbAfter += transfer;
+
+      if (donor.cbAfter <= 0) {
+        donorIndex++;
+      }
+    }
+  }
+
+  return allocated;
+}
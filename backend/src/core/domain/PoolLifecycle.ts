@@ -0,0 +1,134 @@
+/**
+ * Pool Lifecycle
+ *
+ * A pool is created as a draft whose members can still change. It is then
+ * submitted for verification and accepted by the verifier, who can also
+ * return it to draft. Under Article 21 a pool has to be registered by
+ * 30 April of the verification period (the year after the reporting
+ * year); submitting and cancelling are only possible until then.
+ *
+ * Companies other than the pool's whose ships are members are invited as
+ * partners. The pool only changes ship balances, and can only be
+ * submitted, once every partner has accepted it.
+ *
+ * @module domain/PoolLifecycle
+ */
+
+import { Pool, PoolStatus } from './Pool';
+
+/**
+ * Statuses a pool can move to from each status
+ * @constant {Record<PoolStatus, PoolStatus[]>} POOL_STATUS_TRANSITIONS
+ */
+export const POOL_STATUS_TRANSITIONS: Record<PoolStatus, PoolStatus[]> = {
+  draft: ['submitted', 'cancelled'],
+  submitted: ['verified', 'draft', 'cancelled'],
+  verified: ['cancelled'],
+  cancelled: [],
+};
+
+/**
+ * Statuses that can only be reached before the registration deadline
+ * @constant {PoolStatus[]} DEADLINE_BOUND_STATUSES
+ */
+export const DEADLINE_BOUND_STATUSES: PoolStatus[] = ['submitted', 'cancelled'];
+
+/**
+ * Raised when a pool cannot move to the requested status or be edited
+ */
+export class PoolLifecycleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PoolLifecycleError';
+  }
+}
+
+/**
+ * Registration deadline of pools for a reporting year: the end of
+ * 30 April of the following year (UTC)
+ *
+ * @param {number} year - Reporting year of the pool
+ * @returns {Date} Last moment a pool can be submitted or cancelled
+ */
+export function poolRegistrationDeadline(year: number): Date {
+  return new Date(Date.UTC(year + 1, 3, 30, 23, 59, 59, 999));
+}
+
+/**
+ * Whether every partner company of a pool has accepted it
+ *
+ * @param {Pool} pool - The pool with its partners
+ * @returns {boolean} true when all partners accepted, or the pool has none
+ */
+export function partnersAccepted(pool: Pool): boolean {
+  return (pool.partners || []).every(partner => partner.status === 'accepted');
+}
+
+/**
+ * Checks that a pool can move to a status at a given time
+ *
+ * @param {Pool} pool - The pool in its current status
+ * @param {PoolStatus} toStatus - Requested status
+ * @param {Date} at - Time of the change
+ * @throws {PoolLifecycleError} If the transition is not allowed, the deadline has passed or a partner has not accepted a pool to submit
+ */
+export function assertStatusTransition(pool: Pool, toStatus: PoolStatus, at: Date): void {
+  if (!POOL_STATUS_TRANSITIONS[pool.status].includes(toStatus)) {
+    throw new PoolLifecycleError(`Pool ${pool.poolId} cannot move from ${pool.status} to ${toStatus}`);
+  }
+
+  if (toStatus === 'submitted' && !partnersAccepted(pool)) {
+    const pending = pool.partners!.filter(partner => partner.status !== 'accepted').map(partner => partner.companyId);
+    throw new PoolLifecycleError(
+      `Pool ${pool.poolId} cannot be submitted until every partner accepted it; waiting for ${pending.join(', ')}`
+    );
+  }
+
+  const deadline = poolRegistrationDeadline(pool.year);
+  if (DEADLINE_BOUND_STATUSES.includes(toStatus) && at > deadline) {
+    throw new PoolLifecycleError(
+      `Pool ${pool.poolId} can no longer be ${toStatus}: the registration deadline was ${deadline.toISOString()}`
+    );
+  }
+}
+
+/**
+ * Checks that the members of a pool can still be changed
+ *
+ * @param {Pool} pool - The pool to edit
+ * @throws {PoolLifecycleError} If the pool is not a draft
+ */
+export function assertEditable(pool: Pool): void {
+  if (pool.status !== 'draft') {
+    throw new PoolLifecycleError(`Pool ${pool.poolId} is ${pool.status}; only draft pools can be edited`);
+  }
+}
+
+/**
+ * Checks that a pool is changed by the company that formed it
+ *
+ * Partner companies whose ships are members can see the pool but not
+ * change it; they accept or decline their invitation instead.
+ *
+ * @param {Pool} pool - The pool to change
+ * @param {string} companyId - The company making the change
+ * @throws {PoolLifecycleError} If the pool was formed by another company
+ */
+export function assertOwner(pool: Pool, companyId: string): void {
+  if (pool.companyId && pool.companyId !== companyId) {
+    throw new PoolLifecycleError(`Pool ${pool.poolId} was formed by company ${pool.companyId}; only it can change the pool`);
+  }
+}
+
+/**
+ * Checks that a company is invited as a partner of a pool
+ *
+ * @param {Pool} pool - The pool the company answers the invitation of
+ * @param {string} companyId - The company answering
+ * @throws {PoolLifecycleError} If the company formed the pool or has no ships in it
+ */
+export function assertPartner(pool: Pool, companyId: string): void {
+  if (!(pool.partners || []).some(partner => partner.companyId === companyId)) {
+    throw new PoolLifecycleError(`Company ${companyId} is not invited as a partner of pool ${pool.poolId}`);
+  }
+}
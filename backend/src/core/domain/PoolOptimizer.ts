@@ -0,0 +1,146 @@
+/**
+ * Fleet Pool Optimizer
+ *
+ * Proposes how to partition a fleet into compliance pools so that as much
+ * penalty as possible is avoided. A deficit ship in a pool with a
+ * non-negative sum is fully covered, so pooling is a choice of which
+ * deficits to cover with the available surplus. Deficits are taken in
+ * order of penalty per gCO₂e of deficit, the ones that cost most first,
+ * and each pool is given just enough surplus ships to cover them.
+ *
+ * This is a greedy heuristic: it avoids the highest penalties first but
+ * is not guaranteed to find the optimal partition when pool sizes are
+ * limited.
+ *
+ * @module domain/PoolOptimizer
+ */
+
+import { PoolMember } from './Pool';
+import { allocateSurplusToDeficits } from './PoolAllocation';
+
+/**
+ * Smallest number of members in a proposed pool
+ * @constant {number} DEFAULT_MIN_POOL_SIZE
+ */
+export const DEFAULT_MIN_POOL_SIZE = 2;
+
+export interface PoolCandidate {
+  shipId: string;
+  cbGco2eq: number;
+  penalty: number; // EUR, GHG intensity deficit component avoided when the deficit is covered
+}
+
+export interface PoolConstraints {
+  maxPoolSize?: number; // Members per pool, unlimited when omitted
+  minPoolSize?: number; // Members per pool, defaults to DEFAULT_MIN_POOL_SIZE
+  excludedShipIds?: string[]; // Ships the company keeps out of pooling
+}
+
+export interface PoolProposal {
+  members: PoolMember[];
+  poolSum: number;
+  penaltyAvoided: number; // EUR
+}
+
+export interface FleetPoolProposal {
+  year: number;
+  shipCount: number;
+  penaltyWithoutPooling: number; // EUR
+  penaltyWithPooling: number; // EUR
+  penaltySaved: number; // EUR
+  pools: PoolProposal[];
+  unpooledShipIds: string[];
+}
+
+/**
+ * Proposes pools covering the most expensive deficits first
+ *
+ * @param {PoolCandidate[]} candidates - Ships with their CB and avoidable penalty
+ * @param {PoolConstraints} constraints - Pool size limits and excluded ships
+ * @returns {PoolProposal[]} Proposed pools; ships not in any pool are left unpooled
+ */
+export function proposePools(candidates: PoolCandidate[], constraints: PoolConstraints = {}): PoolProposal[] {
+  const excluded = new Set(constraints.excludedShipIds || []);
+  const maxPoolSize = constraints.maxPoolSize ?? Infinity;
+  const minPoolSize = Math.max(constraints.minPoolSize ?? DEFAULT_MIN_POOL_SIZE, 2);
+
+  const eligible = candidates.filter(candidate => !excluded.has(candidate.shipId));
+  const surplusShips = eligible
+    .filter(candidate => candidate.cbGco2eq > 0)
+    .sort((a, b) => b.cbGco2eq - a.cbGco2eq);
+  let deficitShips = eligible
+    .filter(candidate => candidate.cbGco2eq < 0 && candidate.penalty > 0)
+    .sort((a, b) => penaltyRate(b) - penaltyRate(a));
+
+  const proposals: PoolProposal[] = [];
+
+  while (deficitShips.length > 0 && surplusShips.length > 0) {
+    const pool: PoolCandidate[] = [];
+    let capacity = 0;
+
+    for (const deficit of deficitShips) {
+      const needed: PoolCandidate[] = [];
+      let available = capacity;
+
+      // Add the largest remaining surplus ships until the deficit is covered
+      while (
+        available < -deficit.cbGco2eq &&
+        needed.length < surplusShips.length &&
+        pool.length + needed.length + 2 <= maxPoolSize
+      ) {
+        available += surplusShips[needed.length].cbGco2eq;
+        needed.push(surplusShips[needed.length]);
+      }
+
+      if (available < -deficit.cbGco2eq || pool.length + needed.length + 1 > maxPoolSize) {
+        continue;
+      }
+
+      surplusShips.splice(0, needed.length);
+      pool.push(...needed, deficit);
+      capacity = available + deficit.cbGco2eq;
+    }
+
+    const pooledDeficits = pool.filter(candidate => candidate.cbGco2eq < 0);
+
+    // Top up small pools with surplus ships, which never invalidates a pool
+    while (pooledDeficits.length > 0 && pool.length < minPoolSize && surplusShips.length > 0) {
+      pool.push(surplusShips.shift()!);
+    }
+
+    if (pooledDeficits.length === 0 || pool.length < minPoolSize) {
+      break;
+    }
+
+    deficitShips = deficitShips.filter(candidate => !pooledDeficits.includes(candidate));
+    proposals.push(toProposal(pool));
+  }
+
+  return proposals;
+}
+
+/**
+ * Penalty per gCO₂e of deficit, so that costly deficits are covered first
+ */
+function penaltyRate(candidate: PoolCandidate): number {
+  return candidate.penalty / -candidate.cbGco2eq;
+}
+
+function toProposal(pool: PoolCandidate[]): PoolProposal {
+  const members = allocateSurplusToDeficits(
+    pool.map(candidate => ({
+      shipId: candidate.shipId,
+      adjustedCB: candidate.cbGco2eq,
+      cbBefore: candidate.cbGco2eq,
+      cbAfter: candidate.cbGco2eq,
+    }))
+  );
+
+  return {
+    members,
+    poolSum: pool.reduce((sum, candidate) => sum + candidate.cbGco2eq, 0),
+    penaltyAvoided: pool
+      .filter(candidate => candidate.cbGco2eq < 0)
+      .reduce((sum, candidate) => sum + candidate.penalty, 0),
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Pool Settlement
+ *
+ * When a pool contains ships of different companies, surplus moves between
+ * companies and the receiving company pays for it at the pool's price per
+ * tonne CO₂e. Each member's transfer is its CB change in the pool; the
+ * transfers are netted per company and the net payers are matched with the
+ * net payees, largest amounts first, into settlement lines.
+ *
+ * @module domain/PoolSettlement
+ */
+
+import { PoolMember } from './Pool';
+
+/**
+ * Grams in a tonne, to price CB amounts in gCO₂e per tonne
+ * @constant {number} GRAMS_PER_TONNE
+ */
+export const GRAMS_PER_TONNE = 1_000_000;
+
+/**
+ * Settlement states
+ * - pending: the payer has not paid yet
+ * - settled: payment confirmed
+ * - void: the pool was cancelled before the settlement was paid
+ */
+export type SettlementStatus = 'pending' | 'settled' | 'void';
+
+export interface MemberTransfer {
+  shipId: string;
+  companyId: string;
+  transferredGco2eq: number; // cbAfter - cbBefore, positive when the ship received surplus
+  amountEur: number; // Positive: payable by the ship's company, negative: receivable
+}
+
+export interface PoolSettlement {
+  settlementId?: string;
+  poolId?: string;
+  year?: number;
+  payerCompanyId: string; // Company that received surplus
+  payeeCompanyId: string; // Company that gave surplus
+  transferredGco2eq: number;
+  amountEur: number;
+  status: SettlementStatus;
+  settledAt?: Date;
+  settledBy?: string;
+}
+
+export interface SettlementReport {
+  companyId: string;
+  year: number;
+  pools: Array<{
+    poolId: string;
+    name?: string;
+    pricePerTonne: number; // EUR per tCO₂e
+    members: MemberTransfer[];
+  }>;
+  settlements: PoolSettlement[]; // Settlements the company pays or receives
+  totalPayableEur: number;
+  totalReceivableEur: number;
+  outstandingPayableEur: number; // Pending payables
+  outstandingReceivableEur: number; // Pending receivables
+  netEur: number; // Receivable minus payable, void settlements excluded
+}
+
+/**
+ * Transfer and its value for every pool member
+ *
+ * @param {PoolMember[]} members - Pool members with cbBefore, cbAfter and companyId set
+ * @param {number} pricePerTonne - EUR per tCO₂e
+ * @returns {MemberTransfer[]} One transfer per member
+ */
+export function memberTransfers(members: PoolMember[], pricePerTonne: number): MemberTransfer[] {
+  return members.map(member => {
+    const transferredGco2eq = member.cbAfter - member.cbBefore;
+    return {
+      shipId: member.shipId,
+      companyId: member.companyId!,
+      transferredGco2eq,
+      amountEur: roundEur((transferredGco2eq / GRAMS_PER_TONNE) * pricePerTonne),
+    };
+  });
+}
+
+/**
+ * Settlement lines between the companies of a pool
+ *
+ * Transfers between ships of the same company cancel out and produce no
+ * settlement.
+ *
+ * @param {PoolMember[]} members - Pool members with cbBefore, cbAfter and companyId set
+ * @param {number} pricePerTonne - EUR per tCO₂e
+ * @returns {PoolSettlement[]} Pending settlements, empty for single-company pools
+ */
+export function computeSettlements(members: PoolMember[], pricePerTonne: number): PoolSettlement[] {
+  const netByCompany = new Map<string, number>();
+  for (const member of members) {
+    const companyId = member.companyId!;
+    netByCompany.set(companyId, (netByCompany.get(companyId) || 0) + member.cbAfter - member.cbBefore);
+  }
+
+  const payers = [...netByCompany]
+    .filter(([, net]) => net > 0)
+    .map(([companyId, net]) => ({ companyId, remaining: net }))
+    .sort((a, b) => b.remaining - a.remaining);
+  const payees = [...netByCompany]
+    .filter(([, net]) => net < 0)
+    .map(([companyId, net]) => ({ companyId, remaining: -net }))
+    .sort((a, b) => b.remaining - a.remaining);
+
+  const settlements: PoolSettlement[] = [];
+  let payeeIndex = 0;
+
+  for (const payer of payers) {
+    while (payer.remaining > 0 && payeeIndex < payees.length) {
+      const payee = payees[payeeIndex];
+      const transferred = Math.min(payer.remaining, payee.remaining);
+
+      settlements.push({
+        payerCompanyId: payer.companyId,
+        payeeCompanyId: payee.companyId,
+        transferredGco2eq: transferred,
+        amountEur: roundEur((transferred / GRAMS_PER_TONNE) * pricePerTonne),
+        status: 'pending',
+      });
+
+      payer.remaining -= transferred;
+      payee.remaining -= transferred;
+      if (payee.remaining <= 0) {
+        payeeIndex++;
+      }
+    }
+  }
+
+  return settlements;
+}
+
+function roundEur(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
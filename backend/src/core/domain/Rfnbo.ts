@@ -0,0 +1,97 @@
+/**
+ * RFNBO Incentives
+ *
+ * Renewable fuels of non-biological origin (RFNBOs) are promoted in two ways:
+ * - Reward factor (Article 5): until the end of 2033 the energy from RFNBOs
+ *   counts twice in the denominator of the GHG intensity
+ * - Sub-target (Article 5(3)): from 2034 at least 2% of the energy used on
+ *   board must come from RFNBOs, any shortfall is penalised separately at
+ *   EUR 2 per MJ (Annex IV Part B)
+ *
+ * @module domain/Rfnbo
+ */
+
+/**
+ * Multiplier applied to RFNBO energy while the reward applies
+ * @constant {number} RFNBO_REWARD_FACTOR
+ */
+export const RFNBO_REWARD_FACTOR = 2;
+
+/**
+ * Last reporting year in which the reward factor applies
+ * @constant {number} RFNBO_REWARD_LAST_YEAR
+ */
+export const RFNBO_REWARD_LAST_YEAR = 2033;
+
+/**
+ * Minimum share of RFNBO energy in energy in scope
+ * @constant {number} RFNBO_SUBTARGET_SHARE
+ */
+export const RFNBO_SUBTARGET_SHARE = 0.02;
+
+/**
+ * First reporting year in which the sub-target applies
+ * @constant {number} RFNBO_SUBTARGET_FROM_YEAR
+ */
+export const RFNBO_SUBTARGET_FROM_YEAR = 2034;
+
+/**
+ * Penalty per MJ of RFNBO energy missing to meet the sub-target (EUR/MJ)
+ * @constant {number} RFNBO_PENALTY_EUR_PER_MJ
+ */
+export const RFNBO_PENALTY_EUR_PER_MJ = 2;
+
+export interface RfnboSubtargetResult {
+  applies: boolean; // Whether the sub-target applies in the reporting year
+  requiredShare: number; // Fraction of energy in scope
+  actualShare: number; // Fraction of energy in scope
+  shortfallEnergy: number; // MJ of RFNBO energy missing
+  penalty: number; // EUR
+}
+
+/**
+ * Returns the reward factor for RFNBO energy in a reporting year
+ *
+ * @param {number} [year] - Reporting year; no reward is applied when omitted
+ * @returns {number} Reward factor (2 through 2033, otherwise 1)
+ */
+export function getRfnboRewardFactor(year?: number): number {
+  if (year === undefined) {
+    return 1;
+  }
+  return year <= RFNBO_REWARD_LAST_YEAR ? RFNBO_REWARD_FACTOR : 1;
+}
+
+/**
+ * Checks the RFNBO sub-target and computes the shortfall penalty
+ *
+ * @param {number} year - Reporting year
+ * @param {number} energyInScope - Energy in scope (MJ)
+ * @param {number} rfnboEnergyInScope - RFNBO energy in scope (MJ)
+ * @returns {RfnboSubtargetResult} Sub-target check with shortfall penalty component
+ */
+export function checkRfnboSubtarget(
+  year: number,
+  energyInScope: number,
+  rfnboEnergyInScope: number
+): RfnboSubtargetResult {
+  const applies = year >= RFNBO_SUBTARGET_FROM_YEAR;
+  const actualShare = energyInScope > 0 ? rfnboEnergyInScope / energyInScope : 0;
+
+  if (!applies) {
+    return { applies, requiredShare: 0, actualShare, shortfallEnergy: 0, penalty: 0 };
+  }
+
+  const shortfallEnergy = Math.max(
+    RFNBO_SUBTARGET_SHARE * energyInScope - rfnboEnergyInScope,
+    0
+  );
+
+  return {
+    applies,
+    requiredShare: RFNBO_SUBTARGET_SHARE,
+    actualShare,
+    shortfallEnergy,
+    penalty: shortfallEnergy * RFNBO_PENALTY_EUR_PER_MJ,
+  };
+}
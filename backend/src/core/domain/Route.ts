@@ -1,3 +1,20 @@
+import { FuelMassEntry, calculateWellToWake } from './GhgIntensityCalculator';
+import { VoyageScope, DEFAULT_VOYAGE_SCOPE, calculateEnergyInScope, isVoyageScope, VOYAGE_SCOPES } from './VoyageScope';
+
+/**
+ * On-board energy consumer that burnt the fuel
+ */
+export type FuelConsumer = 'main_engine' | 'auxiliary_engine' | 'boiler' | 'other';
+
+export const FUEL_CONSUMERS: FuelConsumer[] = ['main_engine', 'auxiliary_engine', 'boiler', 'other'];
+
+/**
+ * One line of a route's fuel consumption breakdown
+ */
+export interface RouteFuelConsumption extends FuelMassEntry {
+  consumer: FuelConsumer;
+}
+
 export interface Route {
   routeId: string;
   vesselType: string;
@@ -7,6 +24,10 @@ export interface Route {
   fuelConsumption: number; // MJ
   distance: number; // nautical miles
   totalEmissions: number; // gCO₂e
+  isBaseline?: boolean;
+  voyageScope: VoyageScope; // Determines the share of energy in scope
+  energyInScope?: number; // MJ, fuelConsumption weighted by the voyage scope factor
+  fuelConsumptions?: RouteFuelConsumption[]; // Per-fuel, per-consumer breakdown
 }
 
 export interface Baseline {
@@ -18,11 +39,152 @@ export interface Baseline {
   totalEmissions: number;
 }
 
+/**
+ * A route written by a bulk upsert, and whether it was new
+ */
+export interface RouteUpsert {
+  route: Route;
+  created: boolean;
+}
+
+/**
+ * First reporting year a route can be recorded for: the year of the
+ * reference GHG intensity
+ * @constant {number} FIRST_ROUTE_YEAR
+ */
+export const FIRST_ROUTE_YEAR = 2020;
+
 export interface ComparisonData {
   baseline: Baseline;
   comparison: Route;
   percentDifference: number;
-  complianceTarget: number; // 89.3368 gCO₂e/MJ
+  complianceTarget: number; // gCO₂e/MJ, target for the route's reporting year
   isCompliant: boolean;
 }
 
+
+/**
+ * Aggregates a route's fuel consumption breakdown into its headline figures
+ *
+ * When a breakdown exists, GHG intensity, energy (fuelConsumption) and total
+ * emissions are derived from it; otherwise the stored figures are kept.
+ * Energy in scope is always derived from the route's voyage scope.
+ *
+ * @param {Route} route - Route with an optional fuel consumption breakdown
+ * @returns {Route} Route with intensity, energy and emissions aggregated over all fuels
+ */
+export function aggregateFuelConsumption(route: Route): Route {
+  const voyageScope = route.voyageScope || DEFAULT_VOYAGE_SCOPE;
+
+  if (!route.fuelConsumptions || route.fuelConsumptions.length === 0) {
+    return {
+      ...route,
+      voyageScope,
+      energyInScope: calculateEnergyInScope(route.fuelConsumption, voyageScope),
+    };
+  }
+
+  const wellToWake = calculateWellToWake(route.fuelConsumptions, route.year);
+
+  return {
+    ...route,
+    voyageScope,
+    ghgIntensity: wellToWake.ghgIntensity,
+    fuelConsumption: wellToWake.totalEnergy,
+    energyInScope: calculateEnergyInScope(wellToWake.totalEnergy, voyageScope),
+    totalEmissions: wellToWake.totalEmissions,
+  };
+}
+
+/**
+ * Takes the baseline figures from the route marked as baseline
+ *
+ * @param {Route} route - The baseline route, with its fuel breakdown aggregated
+ * @returns {Baseline} The route's year, intensity, energy, distance and emissions
+ */
+export function toBaseline(route: Route): Baseline {
+  return {
+    routeId: route.routeId,
+    year: route.year,
+    ghgIntensity: route.ghgIntensity,
+    fuelConsumption: route.fuelConsumption,
+    distance: route.distance,
+    totalEmissions: route.totalEmissions,
+  };
+}
+
+/**
+ * Validates the fields of a route
+ *
+ * @param {Partial<Route>} route - Route to validate
+ * @returns {string[]} Validation errors, empty when the route is valid
+ */
+export function validateRoute(route: Partial<Route>): string[] {
+  const errors: string[] = [];
+
+  if (!route.routeId || route.routeId.trim() === '') {
+    errors.push('routeId is required');
+  }
+  if (!route.vesselType || route.vesselType.trim() === '') {
+    errors.push('vesselType is required');
+  }
+  if (!route.fuelType || route.fuelType.trim() === '') {
+    errors.push('fuelType is required');
+  }
+  if (typeof route.year !== 'number' || !Number.isInteger(route.year) || route.year < FIRST_ROUTE_YEAR) {
+    errors.push(`year must be a whole year from ${FIRST_ROUTE_YEAR}`);
+  }
+  if (!isNonNegative(route.ghgIntensity)) {
+    errors.push('ghgIntensity must be a non-negative number (gCO₂e/MJ)');
+  }
+  if (!isPositive(route.fuelConsumption)) {
+    errors.push('fuelConsumption must be a positive number (MJ)');
+  }
+  if (!isPositive(route.distance)) {
+    errors.push('distance must be a positive number (nautical miles)');
+  }
+  if (route.totalEmissions !== undefined && !isNonNegative(route.totalEmissions)) {
+    errors.push('totalEmissions must be a non-negative number (gCO₂e)');
+  }
+  if (route.voyageScope !== undefined && !isVoyageScope(route.voyageScope)) {
+    errors.push(`voyageScope must be one of ${VOYAGE_SCOPES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Applies changes to a stored route, or completes a new one
+ *
+ * totalEmissions is derived from ghgIntensity × fuelConsumption for new
+ * routes and when either changes, unless it is given; the voyage scope
+ * defaults to intra_eu.
+ *
+ * @param {Route | undefined} existing - The stored route, undefined for a new route
+ * @param {Partial<Route>} changes - Fields to set
+ * @returns {Partial<Route>} The route to validate and save
+ */
+export function mergeRoute(existing: Route | undefined, changes: Partial<Route>): Partial<Route> {
+  const merged: Partial<Route> = { ...existing, ...changes };
+
+  const figuresChanged = changes.ghgIntensity !== undefined || changes.fuelConsumption !== undefined;
+  if (
+    changes.totalEmissions === undefined &&
+    (!existing || figuresChanged) &&
+    typeof merged.ghgIntensity === 'number' &&
+    typeof merged.fuelConsumption === 'number'
+  ) {
+    merged.totalEmissions = merged.ghgIntensity * merged.fuelConsumption;
+  }
+
+  merged.voyageScope = merged.voyageScope ?? DEFAULT_VOYAGE_SCOPE;
+  return merged;
+}
+
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
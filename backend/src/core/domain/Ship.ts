@@ -0,0 +1,87 @@
+/**
+ * Ship Registry
+ * 
+ * A ship is identified by its own ship ID, which compliance balances, bank
+ * entries, borrowings and pool memberships reference. Routes describe the
+ * voyages a ship sails and are kept separate from the ship itself.
+ * 
+ * @module domain/Ship
+ */
+
+export interface Ship {
+  id?: number;
+  shipId: string; // Identifier referenced by compliance, banking and pooling records
+  imoNumber: string; // 7-digit IMO ship identification number
+  name: string;
+  grossTonnage: number;
+  shipType: string;
+  flag: string; // Flag state
+  iceClass?: string; // e.g. "1A", "1A Super"
+  companyId?: string; // Company (DoC holder) responsible for the ship's compliance
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Reduces an IMO number to its 7 digits, as it is stored and compared
+ * 
+ * @param {string} imoNumber - IMO number, with or without the "IMO" prefix
+ * @returns {string} The IMO number without prefix and spaces
+ */
+export function normalizeImoNumber(imoNumber: string): string {
+  return imoNumber.trim().replace(/^IMO\s*/i, '');
+}
+
+/**
+ * Checks an IMO number against its check digit
+ * 
+ * The last digit equals the sum of the first six digits multiplied by
+ * 7, 6, 5, 4, 3 and 2 respectively, modulo 10.
+ * 
+ * @param {string} imoNumber - IMO number, with or without the "IMO" prefix
+ * @returns {boolean} True if the IMO number is well-formed
+ */
+export function isValidImoNumber(imoNumber: string): boolean {
+  const digits = normalizeImoNumber(imoNumber);
+  if (!/^\d{7}$/.test(digits)) {
+    return false;
+  }
+
+  const checksum = digits
+    .slice(0, 6)
+    .split('')
+    .reduce((sum, digit, index) => sum + parseInt(digit) * (7 - index), 0);
+
+  return checksum % 10 === parseInt(digits[6]);
+}
+
+/**
+ * Validates the fields of a ship
+ * 
+ * @param {Partial<Ship>} ship - Ship to validate
+ * @returns {string[]} Validation errors, empty when the ship is valid
+ */
+export function validateShip(ship: Partial<Ship>): string[] {
+  const errors: string[] = [];
+
+  if (!ship.shipId || ship.shipId.trim() === '') {
+    errors.push('shipId is required');
+  }
+  if (!ship.imoNumber || !isValidImoNumber(ship.imoNumber)) {
+    errors.push('imoNumber must be a valid 7-digit IMO number');
+  }
+  if (!ship.name || ship.name.trim() === '') {
+    errors.push('name is required');
+  }
+  if (typeof ship.grossTonnage !== 'number' || isNaN(ship.grossTonnage) || ship.grossTonnage <= 0) {
+    errors.push('grossTonnage must be a positive number');
+  }
+  if (!ship.shipType || ship.shipType.trim() === '') {
+    errors.push('shipType is required');
+  }
+  if (!ship.flag || ship.flag.trim() === '') {
+    errors.push('flag is required');
+  }
+
+  return errors;
+}
@@ -1,3 +1,7 @@
+import { FuelMassEntry } from './GhgIntensityCalculator';
+import { FuelConsumer } from './Route';
+import { VoyageAggregate } from './Voyage';
+
 /**
  * Ship Compliance Domain Model
  * Represents compliance balance (CB) for individual ships
@@ -7,7 +11,12 @@ export interface ShipCompliance {
   id?: number;
   shipId: string;
   year: number;
-  cbGco2eq: number; // Compliance Balance in gCO₂e
+  cbGco2eq: number; // Compliance Balance in gCO₂e, after banking, borrowing and pooling
+  rawCbGco2eq?: number; // gCO₂e, CB computed from the voyages, before banking, borrowing and pooling
+  ghgIntensity?: number; // gCO₂e/MJ, actual intensity the CB was computed from
+  totalEnergy?: number; // MJ, all energy used on the route
+  energyInScope?: number; // MJ, energy counted towards compliance
+  rfnboEnergy?: number; // MJ, RFNBO energy counted towards compliance
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -15,6 +24,22 @@ export interface ShipCompliance {
 export interface ComputeCBRequest {
   shipId: string;
   year: number;
-  routeId: string; // Route associated with this ship
+  routeId: string; // Route sailed by the ship, assigned as one of its voyages for the year
+  fuelMix?: ComputeFuelEntry[]; // Optional fuel mix, saved as the breakdown of a route that has none
+}
+
+/**
+ * One fuel of a compute request's mix; the consumer defaults to the main engine
+ */
+export interface ComputeFuelEntry extends FuelMassEntry {
+  consumer?: FuelConsumer;
+}
+
+/**
+ * A ship's saved yearly CB together with the voyages it was aggregated from
+ */
+export interface YearlyCompliance {
+  compliance: ShipCompliance;
+  breakdown: VoyageAggregate;
 }
 
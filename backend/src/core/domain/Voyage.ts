@@ -0,0 +1,123 @@
+/**
+ * Voyage Assignment and Yearly Aggregation
+ * 
+ * A ship's compliance balance for a reporting year is built from all the
+ * voyages (routes) assigned to it for that year. Each voyage contributes its
+ * energy in scope and GHG intensity; the yearly GHG intensity is the average
+ * of the voyage intensities weighted by energy in scope, so the yearly CB
+ * equals the sum of the per-voyage CB contributions:
+ * 
+ *   CB = (Target - Σ(intensity × energy in scope) / Σ energy in scope) × Σ energy in scope
+ * 
+ * @module domain/Voyage
+ */
+
+import { Route } from './Route';
+import { calculateWellToWake } from './GhgIntensityCalculator';
+import { DEFAULT_VOYAGE_SCOPE, VoyageScope, calculateEnergyInScope } from './VoyageScope';
+import { getTargetIntensity } from './GhgIntensityTarget';
+
+export interface VoyageAssignment {
+  id?: number;
+  shipId: string;
+  routeId: string;
+  year: number; // Reporting year the voyage counts towards
+  createdAt?: Date;
+}
+
+export interface VoyageContribution {
+  routeId: string;
+  voyageScope: VoyageScope;
+  ghgIntensity: number; // gCO₂e/MJ
+  totalEnergy: number; // MJ
+  energyInScope: number; // MJ
+  rfnboEnergy: number; // MJ, RFNBO energy in scope
+  energyShare: number; // Fraction of the ship's yearly energy in scope
+  cbGco2eq: number; // This voyage's contribution to the yearly CB
+}
+
+export interface VoyageAggregate {
+  shipId: string;
+  year: number;
+  ghgIntensity: number; // gCO₂e/MJ, weighted by energy in scope
+  totalEnergy: number; // MJ
+  energyInScope: number; // MJ
+  rfnboEnergy: number; // MJ, RFNBO energy in scope
+  cbGco2eq: number; // Yearly CB before banking, borrowing and pooling
+  voyages: VoyageContribution[];
+}
+
+/**
+ * Calculates one voyage's contribution to a ship's yearly CB
+ * 
+ * Intensity and energy come from the route's fuel consumption breakdown when
+ * one exists, otherwise from the stored route figures.
+ * 
+ * @param {Route} route - Route sailed on the voyage
+ * @param {number} year - Reporting year the voyage counts towards
+ * @returns {VoyageContribution} Contribution with energyShare left at 0 until aggregated
+ */
+export function calculateVoyageContribution(
+  route: Route,
+  year: number
+): VoyageContribution {
+  const voyageScope = route.voyageScope || DEFAULT_VOYAGE_SCOPE;
+  const fuelMix = route.fuelConsumptions || [];
+
+  let ghgIntensity = route.ghgIntensity;
+  let totalEnergy = route.fuelConsumption;
+  let rfnboEnergy = 0;
+
+  if (fuelMix.length > 0) {
+    // RFNBO energy counts with the reward factor in the intensity for the reporting year
+    const wellToWake = calculateWellToWake(fuelMix, year);
+    ghgIntensity = wellToWake.ghgIntensity;
+    totalEnergy = wellToWake.totalEnergy;
+    rfnboEnergy = wellToWake.rfnboEnergy;
+  }
+
+  const energyInScope = calculateEnergyInScope(totalEnergy, voyageScope);
+
+  return {
+    routeId: route.routeId,
+    voyageScope,
+    ghgIntensity,
+    totalEnergy,
+    energyInScope,
+    rfnboEnergy: calculateEnergyInScope(rfnboEnergy, voyageScope),
+    energyShare: 0,
+    cbGco2eq: (getTargetIntensity(year) - ghgIntensity) * energyInScope,
+  };
+}
+
+/**
+ * Aggregates voyage contributions into a ship's yearly figures
+ * 
+ * @param {string} shipId - The unique identifier of the ship
+ * @param {number} year - Reporting year
+ * @param {VoyageContribution[]} contributions - Contributions of all voyages assigned for the year
+ * @returns {VoyageAggregate} Yearly intensity, energy and CB with each voyage's energy share
+ */
+export function aggregateVoyages(
+  shipId: string,
+  year: number,
+  contributions: VoyageContribution[]
+): VoyageAggregate {
+  const energyInScope = contributions.reduce((sum, v) => sum + v.energyInScope, 0);
+  const weightedIntensity = contributions.reduce((sum, v) => sum + v.ghgIntensity * v.energyInScope, 0);
+  const ghgIntensity = energyInScope > 0 ? weightedIntensity / energyInScope : 0;
+
+  return {
+    shipId,
+    year,
+    ghgIntensity,
+    totalEnergy: contributions.reduce((sum, v) => sum + v.totalEnergy, 0),
+    energyInScope,
+    rfnboEnergy: contributions.reduce((sum, v) => sum + v.rfnboEnergy, 0),
+    cbGco2eq: (getTargetIntensity(year) - ghgIntensity) * energyInScope,
+    voyages: contributions.map(v => ({
+      ...v,
+      energyShare: energyInScope > 0 ? v.energyInScope / energyInScope : 0,
+    })),
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Voyage Import
+ *
+ * Voyage data is exported from spreadsheets kept by the technical
+ * department. Each CSV row describes one route sailed in a reporting year,
+ * with its fuel consumption (energy in MJ) and, optionally, the ship that
+ * sailed it. Rows are mapped to routes by column name, checked against the
+ * route rules and reported as accepted or rejected with the reasons.
+ *
+ * @module domain/VoyageImport
+ */
+
+import { Route } from './Route';
+import { ShipCompliance } from './ShipCompliance';
+
+/**
+ * Route fields a CSV column can be mapped to; shipId assigns the route to a ship as a voyage
+ */
+export type ImportField =
+  | 'routeId'
+  | 'shipId'
+  | 'vesselType'
+  | 'fuelType'
+  | 'year'
+  | 'ghgIntensity'
+  | 'fuelConsumption'
+  | 'distance'
+  | 'totalEmissions'
+  | 'voyageScope';
+
+/**
+ * CSV column header per field
+ */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * Headers used for fields the mapping leaves out
+ * Headers match regardless of case, spaces and underscores, so route_id,
+ * Route ID and routeId all map to routeId
+ * @constant {Record<ImportField, string>} DEFAULT_COLUMN_MAPPING
+ */
+export const DEFAULT_COLUMN_MAPPING: Record<ImportField, string> = {
+  routeId: 'route_id',
+  shipId: 'ship_id',
+  vesselType: 'vessel_type',
+  fuelType: 'fuel_type',
+  year: 'year',
+  ghgIntensity: 'ghg_intensity',
+  fuelConsumption: 'fuel_consumption',
+  distance: 'distance',
+  totalEmissions: 'total_emissions',
+  voyageScope: 'voyage_scope',
+};
+
+/**
+ * Fields every file must have a column for
+ * @constant {ImportField[]} REQUIRED_IMPORT_FIELDS
+ */
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = [
+  'routeId',
+  'vesselType',
+  'fuelType',
+  'year',
+  'ghgIntensity',
+  'fuelConsumption',
+  'distance',
+];
+
+const NUMERIC_FIELDS: ImportField[] = ['year', 'ghgIntensity', 'fuelConsumption', 'distance', 'totalEmissions'];
+
+/**
+ * One record of a CSV file
+ */
+export interface CsvRecord {
+  line: number; // Line of the file the record starts on
+  cells: string[];
+}
+
+/**
+ * A parsed CSV file
+ */
+export interface CsvTable {
+  header: string[];
+  records: CsvRecord[];
+  delimiter: string;
+}
+
+/**
+ * Column index per field; optional fields without a column are left out
+ */
+export type ColumnIndexes = Partial<Record<ImportField, number>>;
+
+/**
+ * A row mapped to a route, with the problems found while reading it
+ */
+export interface MappedRow {
+  route: Partial<Route>;
+  shipId?: string;
+  errors: string[];
+}
+
+export interface AcceptedImportRow {
+  line: number;
+  route: Route;
+  shipId?: string; // Ship the route is assigned to as a voyage of the route's year
+}
+
+export interface RejectedImportRow {
+  line: number;
+  values: Record<string, string>; // The row as it appears in the file, by column header
+  reasons: string[];
+}
+
+/**
+ * Outcome of an import: nothing is saved on a dry run or when any row is rejected
+ */
+export interface VoyageImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  totalRows: number;
+  accepted: AcceptedImportRow[];
+  rejected: RejectedImportRow[];
+  recomputed: ShipCompliance[]; // Ship CBs recomputed from the imported voyages
+}
+
+/**
+ * Parses CSV text (RFC 4180): quoted fields may contain delimiters, line
+ * breaks and doubled quotes. Blank lines are skipped.
+ *
+ * @param {string} text - File contents
+ * @param {string} [delimiter] - Field delimiter; detected from the header line when omitted
+ * @returns {CsvTable} The header and the records with the line each starts on
+ * @throws {Error} If the file has no header or a quoted field is not closed
+ */
+export function parseCsv(text: string, delimiter?: string): CsvTable {
+  // Spreadsheet exports often start with a byte order mark
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = delimiter || detectDelimiter(content);
+
+  const rows: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Quoted field starting on line ${rowLine} is not closed`);
+  }
+  if (cell !== '' || cells.length > 0) {
+    endRow();
+  }
+
+  if (rows.length === 0) {
+    throw new Error('The file has no header row');
+  }
+
+  return {
+    header: rows[0].cells.map(name => name.trim()),
+    records: rows.slice(1),
+    delimiter: separator,
+  };
+}
+
+/**
+ * Picks the delimiter of a spreadsheet export from its first line:
+ * semicolon, tab or comma, whichever occurs most
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const candidates = [';', '\t', ','];
+  const counts = candidates.map(candidate => firstLine.split(candidate).length - 1);
+  const best = Math.max(...counts);
+  return best > 0 ? candidates[counts.indexOf(best)] : ',';
+}
+
+/**
+ * Finds the column of each field, using the mapping first and the default
+ * headers for the fields it leaves out
+ *
+ * @param {string[]} header - Column headers of the file
+ * @param {ColumnMapping} mapping - Column header per field
+ * @returns {{ columns: ColumnIndexes, errors: string[] }} Column indexes, and the mapped or required columns not found
+ */
+export function resolveColumns(header: string[], mapping: ColumnMapping): { columns: ColumnIndexes; errors: string[] } {
+  const normalizedHeader = header.map(normalizeHeader);
+  const columns: ColumnIndexes = {};
+  const errors: string[] = [];
+
+  for (const field of Object.keys(DEFAULT_COLUMN_MAPPING) as ImportField[]) {
+    const mapped = mapping[field];
+    const index = normalizedHeader.indexOf(normalizeHeader(mapped || DEFAULT_COLUMN_MAPPING[field]));
+
+    if (index >= 0) {
+      columns[field] = index;
+    } else if (mapped) {
+      errors.push(`column ${mapped} mapped to ${field} is not in the file`);
+    } else if (REQUIRED_IMPORT_FIELDS.includes(field)) {
+      errors.push(`no column for ${field} (expected ${DEFAULT_COLUMN_MAPPING[field]})`);
+    }
+  }
+
+  return { columns, errors };
+}
+
+/**
+ * Reads a record into route fields
+ *
+ * Numbers may use a decimal comma when the file is semicolon-separated, as
+ * spreadsheets in most EU locales export them. Empty cells leave the field out.
+ *
+ * @param {CsvRecord} record - Record to read
+ * @param {ColumnIndexes} columns - Column of each field
+ * @param {boolean} decimalComma - Whether a comma is the decimal separator
+ * @returns {MappedRow} The route fields and ship, with the cells that could not be read
+ */
+export function mapRecord(record: CsvRecord, columns: ColumnIndexes, decimalComma: boolean): MappedRow {
+  const fields: Record<string, string | number> = {};
+  const errors: string[] = [];
+
+  for (const [field, index] of Object.entries(columns) as [ImportField, number][]) {
+    const value = (record.cells[index] ?? '').trim();
+    if (value === '') {
+      continue;
+    }
+
+    if (NUMERIC_FIELDS.includes(field)) {
+      const number = parseNumber(value, decimalComma);
+      if (number === null) {
+        errors.push(`${field} ${value} is not a number`);
+      } else {
+        fields[field] = number;
+      }
+    } else {
+      fields[field] = value;
+    }
+  }
+
+  const { shipId, ...route } = fields;
+  return {
+    route: route as Partial<Route>,
+    shipId: shipId as string | undefined,
+    errors,
+  };
+}
+
+/**
+ * The record's cells by column header, for reporting a rejected row
+ */
+export function toRowValues(header: string[], record: CsvRecord): Record<string, string> {
+  const values: Record<string, string> = {};
+  header.forEach((name, index) => {
+    values[name || `column ${index + 1}`] = record.cells[index] ?? '';
+  });
+  return values;
+}
+
+/**
+ * Reduces a column header to lowercase letters and digits for matching
+ */
+export function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function parseNumber(value: string, decimalComma: boolean): number | null {
+  const normalized = decimalComma ? value.replace(/\s/g, '').replace(',', '.') : value.replace(/\s/g, '');
+  if (!/^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(normalized)) {
+    return null;
+  }
+  return Number(normalized);
+}
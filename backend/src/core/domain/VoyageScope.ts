@@ -0,0 +1,48 @@
+/**
+ * Voyage Scope
+ *
+ * Classifies the energy used on a voyage by how much of it falls within the
+ * scope of FuelEU Maritime (Article 2):
+ * - intra_eu: voyages between two EU ports, 100% of energy counts
+ * - extra_eu: voyages departing from or arriving at a non-EU port, 50% counts
+ * - at_berth: energy used while at berth in an EU port, 100% counts
+ *
+ * @module domain/VoyageScope
+ */
+
+export type VoyageScope = 'intra_eu' | 'extra_eu' | 'at_berth';
+
+/**
+ * Share of energy in scope per voyage scope
+ * @constant {Record<VoyageScope, number>} SCOPE_FACTORS
+ */
+export const SCOPE_FACTORS: Record<VoyageScope, number> = {
+  intra_eu: 1,
+  extra_eu: 0.5,
+  at_berth: 1,
+};
+
+export const VOYAGE_SCOPES = Object.keys(SCOPE_FACTORS) as VoyageScope[];
+
+export const DEFAULT_VOYAGE_SCOPE: VoyageScope = 'intra_eu';
+
+/**
+ * Checks whether a value is a known voyage scope
+ *
+ * @param {string} scope - Value to check
+ * @returns {boolean} True if the value is a voyage scope
+ */
+export function isVoyageScope(scope: string): scope is VoyageScope {
+  return (VOYAGE_SCOPES as string[]).includes(scope);
+}
+
+/**
+ * Calculates the energy counted towards compliance for a voyage
+ *
+ * @param {number} totalEnergy - Total energy used on the voyage (MJ)
+ * @param {VoyageScope} scope - Voyage scope classification
+ * @returns {number} Energy in scope (MJ)
+ */
+export function calculateEnergyInScope(totalEnergy: number, scope: VoyageScope): number {
+  return totalEnergy * SCOPE_FACTORS[scope];
+}
@@ -1,14 +1,51 @@
-import { ComplianceBalance } from '../domain/Compliance';
+import { LedgerAudit, LedgerEntry } from '../domain/BankingLedger';
 
+/**
+ * Every method is scoped to the company (tenant) owning the ledger entries
+ *
+ * Banked amounts are projected from the banking ledger; every change is
+ * written as a new entry together with the CB change it makes.
+ */
 export interface BankingRepository {
-  getComplianceBalance(year: number): Promise<ComplianceBalance>;
-  // Per-ship banking methods
-  bankSurplusForShip(shipId: string, year: number, amount: number): Promise<void>;
-  getBankedAmountForShip(shipId: string, year: number): Promise<number>;
-  applyBankedSurplusToShip(shipId: string, year: number, amount: number): Promise<void>;
-  // Legacy methods (deprecated)
-  bankSurplus(year: number, amount: number): Promise<void>;
-  getBankedAmount(year: number): Promise<number>;
-  applyBankedSurplus(year: number, amount: number): Promise<void>;
+  /**
+   * Moves surplus from the ship's CB for the reporting year into the bank
+   */
+  bankSurplusForShip(companyId: string, shipId: string, year: number, amount: number, audit: LedgerAudit): Promise<LedgerEntry>;
+  /**
+   * Surplus still banked from a year
+   */
+  getBankedAmountForShip(companyId: string, shipId: string, year: number): Promise<number>;
+  /**
+   * Surplus banked from years before the target year, which can be applied to it
+   */
+  getAvailableBankedAmount(companyId: string, shipId: string, targetYear: number): Promise<number>;
+  /**
+   * Moves surplus banked from earlier years into the ship's CB for the
+   * target year, oldest vintages first, with one apply entry per vintage
+   *
+   * @throws {BankingLedgerError} If the ship has no deficit in the target year or too little is banked
+   */
+  applyBankedSurplusToShip(
+    companyId: string,
+    shipId: string,
+    targetYear: number,
+    amount: number,
+    audit: LedgerAudit
+  ): Promise<LedgerEntry[]>;
+  /**
+   * All ledger entries of a ship, including borrowing and repayment, oldest first
+   */
+  findLedgerByShip(companyId: string, shipId: string): Promise<LedgerEntry[]>;
+  /**
+   * Undoes a bank or apply entry with a reversal entry
+   *
+   * @throws {BankingLedgerError} If the entry cannot be reversed
+   */
+  reverseEntry(companyId: string, entryId: string, audit: LedgerAudit): Promise<LedgerEntry | null>;
+  /**
+   * Writes off the remaining banked surplus of a year
+   *
+   * @throws {BankingLedgerError} If no surplus of the year is banked
+   */
+  expireBankedSurplus(companyId: string, shipId: string, year: number, audit: LedgerAudit): Promise<LedgerEntry>;
 }
-
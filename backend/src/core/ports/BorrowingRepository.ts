@@ -0,0 +1,31 @@
+import { BorrowEntry } from '../domain/Borrowing';
+import { LedgerAudit } from '../domain/BankingLedger';
+
+export interface BorrowingRepository {
+  /**
+   * Find all borrowings of a ship, ordered by year
+   */
+  findByShip(companyId: string, shipId: string): Promise<BorrowEntry[]>;
+
+  /**
+   * Record a borrowing, add the amount to the ship's CB for the year and
+   * write a borrow entry to the banking ledger
+   * @throws {BankingLedgerError} If the borrowing rules are broken once the ship's balances are locked
+   */
+  borrow(
+    companyId: string,
+    shipId: string,
+    year: number,
+    amount: number,
+    repaymentAmount: number,
+    audit: LedgerAudit
+  ): Promise<BorrowEntry>;
+
+  /**
+   * Re-apply borrowings to a freshly computed CB: adds the amounts borrowed
+   * for the year and deducts the repayment of the previous year's borrowings,
+   * marking them as repaid in this year. The first repayment of a borrowing
+   * is written to the banking ledger as a repay entry
+   */
+  settleForComputedYear(companyId: string, shipId: string, year: number): Promise<{ borrowed: number; repaid: number }>;
+}
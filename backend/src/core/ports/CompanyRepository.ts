@@ -0,0 +1,7 @@
+import { Company } from '../domain/Company';
+
+export interface CompanyRepository {
+  findAll(): Promise<Company[]>;
+  findByCompanyId(companyId: string): Promise<Company | null>;
+  create(company: Company): Promise<Company>;
+}
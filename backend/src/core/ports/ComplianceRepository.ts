@@ -1,7 +1,13 @@
-import { ComplianceBalance, AdjustedComplianceBalance } from '../domain/Compliance';
+import { ComplianceBalanceComponents } from '../domain/Compliance';
 
 export interface ComplianceRepository {
-  findComplianceBalance(year: number): Promise<ComplianceBalance>;
-  findAdjustedComplianceBalance(year: number): Promise<AdjustedComplianceBalance[]>;
+  /**
+   * Raw CB of every ship of the company in a year, with the banking,
+   * borrowing and pooling changes made to it
+   */
+  findComponents(companyId: string, year: number): Promise<ComplianceBalanceComponents[]>;
+  /**
+   * Components of one ship's CB in a year, null if it has no CB for the year
+   */
+  findShipComponents(companyId: string, shipId: string, year: number): Promise<ComplianceBalanceComponents | null>;
 }
-
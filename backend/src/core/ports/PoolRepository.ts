@@ -1,8 +1,65 @@
-import { Pool } from '../domain/Pool';
+import { Pool, PoolMembership, PoolStatusChange } from '../domain/Pool';
+import { PoolSettlement } from '../domain/PoolSettlement';
 
+/**
+ * Every method is scoped to a company (tenant). Pools can be read by the
+ * company that formed them and by partner companies with member ships;
+ * writes are limited to the company that formed the pool, except for the
+ * partners' answers to their invitations.
+ *
+ * Writes keep ship balances in line with the pools: once every partner has
+ * accepted, a pool's members carry their CB after pooling in
+ * ship_compliance for as long as the pool is not cancelled.
+ */
 export interface PoolRepository {
-  save(pool: Pool): Promise<Pool>;
-  findAll(): Promise<Pool[]>;
-  findById(poolId: string): Promise<Pool | null>;
+  /**
+   * Saves a new pool with its members, settlements, partner invitations and
+   * the status change creating it, and sets each member's year balance to
+   * its CB after pooling unless partners still have to accept
+   */
+  save(companyId: string, pool: Pool, change: PoolStatusChange): Promise<Pool>;
+  findAll(companyId: string): Promise<Pool[]>;
+  /**
+   * Finds a pool with its status history
+   */
+  findById(companyId: string, poolId: string): Promise<Pool | null>;
+  /**
+   * Ships of the given companies that are members of a pool that is not cancelled in a year
+   * Ships of a partner that has not accepted the pool are left out
+   */
+  findActiveMemberships(companyIds: string[], year: number): Promise<PoolMembership[]>;
+  /**
+   * Replaces the name, price, members, settlements and partner invitations
+   * of an existing pool, reversing the old members' balance changes and
+   * applying the new ones unless partners still have to accept
+   */
+  update(companyId: string, pool: Pool): Promise<Pool>;
+  /**
+   * Sets the status of a pool and records the change in its history
+   */
+  updateStatus(companyId: string, poolId: string, change: PoolStatusChange): Promise<void>;
+  /**
+   * Cancels a pool, records the change, voids its pending settlements and
+   * restores the members' balances by reversing the pool's change to them
+   */
+  cancel(companyId: string, poolId: string, change: PoolStatusChange): Promise<void>;
+  /**
+   * Records a partner company's acceptance of a draft pool; once every
+   * partner has accepted, sets each member's year balance to its CB after pooling
+   */
+  acceptPartner(companyId: string, poolId: string, actor: string, respondedAt: Date): Promise<void>;
+  /**
+   * Records that a partner company declined or left a draft pool, and
+   * restores the members' balances if the pool had changed them
+   */
+  declinePartner(companyId: string, poolId: string, actor: string, respondedAt: Date): Promise<void>;
+  /**
+   * Settlements of pools in a year that the company pays or receives
+   */
+  findSettlements(companyId: string, year: number): Promise<PoolSettlement[]>;
+  findSettlementById(companyId: string, settlementId: string): Promise<PoolSettlement | null>;
+  /**
+   * Marks a pending settlement as settled, on behalf of its payee
+   */
+  markSettled(companyId: string, settlementId: string, actor: string, settledAt: Date): Promise<PoolSettlement | null>;
 }
-
@@ -1,9 +1,34 @@
-import { Route, Baseline } from '../domain/Route';
+import { Route, RouteFuelConsumption, RouteUpsert } from '../domain/Route';
+import { VoyageScope } from '../domain/VoyageScope';
 
+/**
+ * Every method is scoped to the company (tenant) the routes belong to
+ */
 export interface RouteRepository {
-  findAll(): Promise<Route[]>;
-  findByRouteId(routeId: string): Promise<Route | null>;
-  saveBaseline(routeId: string, baseline: Baseline): Promise<Baseline>;
-  findBaseline(routeId: string, year: number): Promise<Baseline | null>;
+  findAll(companyId: string): Promise<Route[]>;
+  findByRouteId(companyId: string, routeId: string): Promise<Route | null>;
+  /**
+   * Adds a route; route IDs are unique within the company
+   */
+  create(companyId: string, route: Route): Promise<Route>;
+  /**
+   * Replaces the figures of an existing route
+   * Returns null when the company has no such route
+   */
+  update(companyId: string, route: Route): Promise<Route | null>;
+  /**
+   * Creates or updates all routes in one transaction; none are written if one fails
+   */
+  upsertMany(companyId: string, routes: Route[]): Promise<RouteUpsert[]>;
+  /**
+   * Removes a route with its fuel breakdown and the voyages sailed on it
+   * Returns false when the company has no such route
+   */
+  delete(companyId: string, routeId: string): Promise<boolean>;
+  /**
+   * Marks the route as the company's only baseline route
+   */
+  saveBaseline(companyId: string, routeId: string): Promise<void>;
+  saveVoyageScope(companyId: string, routeId: string, voyageScope: VoyageScope): Promise<void>;
+  saveFuelConsumptions(companyId: string, routeId: string, fuelConsumptions: RouteFuelConsumption[]): Promise<RouteFuelConsumption[]>;
 }
-
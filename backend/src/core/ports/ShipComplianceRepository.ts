@@ -1,24 +1,27 @@
 import { ShipCompliance } from '../domain/ShipCompliance';
 
+/**
+ * Every method is scoped to the company (tenant) operating the ships
+ */
 export interface ShipComplianceRepository {
   /**
    * Find compliance balance for a specific ship and year
    */
-  findByShipAndYear(shipId: string, year: number): Promise<ShipCompliance | null>;
+  findByShipAndYear(companyId: string, shipId: string, year: number): Promise<ShipCompliance | null>;
 
   /**
    * Find all compliance balances for a given year
    */
-  findByYear(year: number): Promise<ShipCompliance[]>;
+  findByYear(companyId: string, year: number): Promise<ShipCompliance[]>;
 
   /**
-   * Save or update ship compliance balance
+   * Find all compliance balances of a ship, ordered by year
    */
-  save(shipCompliance: ShipCompliance): Promise<ShipCompliance>;
+  findByShip(companyId: string, shipId: string): Promise<ShipCompliance[]>;
 
   /**
-   * Compute and save CB for a ship based on route data
+   * Save or update ship compliance balance
    */
-  computeAndSave(shipId: string, year: number, routeId: string): Promise<ShipCompliance>;
+  save(companyId: string, shipCompliance: ShipCompliance): Promise<ShipCompliance>;
 }
 
@@ -0,0 +1,9 @@
+import { Ship } from '../domain/Ship';
+
+export interface ShipRepository {
+  findAll(companyId: string): Promise<Ship[]>;
+  findByShipId(companyId: string, shipId: string): Promise<Ship | null>;
+  create(companyId: string, ship: Ship): Promise<Ship>;
+  update(companyId: string, ship: Ship): Promise<Ship>;
+  delete(companyId: string, shipId: string): Promise<boolean>;
+}
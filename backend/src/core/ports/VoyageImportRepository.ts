@@ -0,0 +1,10 @@
+import { Route } from '../domain/Route';
+import { VoyageAssignment } from '../domain/Voyage';
+
+export interface VoyageImportRepository {
+  /**
+   * Create the imported routes with their fuel breakdown and assign the
+   * voyages, in one transaction; nothing is saved if any route or voyage cannot be
+   */
+  saveImport(companyId: string, routes: Route[], voyages: VoyageAssignment[]): Promise<void>;
+}
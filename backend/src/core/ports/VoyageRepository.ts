@@ -0,0 +1,39 @@
+import { RouteFuelConsumption } from '../domain/Route';
+import { VoyageAssignment } from '../domain/Voyage';
+
+export interface VoyageRepository {
+  /**
+   * Find the voyages assigned to a ship for a reporting year
+   */
+  findByShipAndYear(companyId: string, shipId: string, year: number): Promise<VoyageAssignment[]>;
+
+  /**
+   * Find every voyage sailed on a route, for any ship and year
+   */
+  findByRoute(companyId: string, routeId: string): Promise<VoyageAssignment[]>;
+
+  /**
+   * Assign a route to a ship as a voyage of the given year
+   * Assigning the same route twice for the same ship and year is a no-op
+   */
+  assign(companyId: string, shipId: string, routeId: string, year: number): Promise<VoyageAssignment>;
+
+  /**
+   * Save the fuel consumption breakdown of a route that has none and assign
+   * the route to a ship, in one transaction
+   * Throws when the route already has a breakdown
+   */
+  assignWithFuelConsumptions(
+    companyId: string,
+    shipId: string,
+    routeId: string,
+    year: number,
+    fuelConsumptions: RouteFuelConsumption[]
+  ): Promise<VoyageAssignment>;
+
+  /**
+   * Remove a voyage from a ship's reporting year
+   * Returns false when no such assignment exists
+   */
+  remove(companyId: string, shipId: string, routeId: string, year: number): Promise<boolean>;
+}
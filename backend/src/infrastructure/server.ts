@@ -14,7 +14,14 @@ import routeRoutes from '../adapters/inbound/http/routes/routeRoutes';
 import complianceRoutes from '../adapters/inbound/http/routes/complianceRoutes';
 import bankingRoutes from '../adapters/inbound/http/routes/bankingRoutes';
 import poolRoutes from '../adapters/inbound/http/routes/poolRoutes';
+import settlementRoutes from '../adapters/inbound/http/routes/settlementRoutes';
 import shipComplianceRoutes from '../adapters/inbound/http/routes/shipComplianceRoutes';
+import penaltyRoutes from '../adapters/inbound/http/routes/penaltyRoutes';
+import shipRoutes from '../adapters/inbound/http/routes/shipRoutes';
+import companyRoutes from '../adapters/inbound/http/routes/companyRoutes';
+import importRoutes from '../adapters/inbound/http/routes/importRoutes';
+import reportRoutes from '../adapters/inbound/http/routes/reportRoutes';
+import { tenantMiddleware } from '../adapters/inbound/http/middleware/tenant';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -22,11 +29,21 @@ const PORT = process.env.PORT || 3001;
 app.use(cors());
 app.use(express.json());
 
+// Companies are managed across tenants; every other /api route is scoped
+// to the company selected by the X-Company-Id header
+app.use('/api', companyRoutes);
+app.use('/api', tenantMiddleware);
+
 app.use('/api', routeRoutes);
 app.use('/api', complianceRoutes);
 app.use('/api', bankingRoutes);
 app.use('/api', poolRoutes);
+app.use('/api', settlementRoutes);
 app.use('/api', shipComplianceRoutes);
+app.use('/api', penaltyRoutes);
+app.use('/api', shipRoutes);
+app.use('/api', importRoutes);
+app.use('/api', reportRoutes);
 
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
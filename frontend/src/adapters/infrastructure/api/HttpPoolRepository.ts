@@ -1,8 +1,37 @@
 import { IPoolRepository } from '../../../core/ports/repositories/IPoolRepository';
-import { Pool, PoolCreationRequest, PoolMember } from '../../../core/domain/models/Pool';
+import { Pool, PoolCreationRequest, PoolMember, PoolPreview, PoolStatus } from '../../../core/domain/models/Pool';
 
 const API_BASE_URL = '/api';
 
+// Pool member as returned by the backend
+interface PoolMemberResponse {
+  shipId: string;
+  cbBefore: number;
+  cbAfter: number;
+  adjustedCB?: number;
+  cbBeforePool?: number;
+  cbAfterPool?: number;
+}
+
+// Pool as returned by the backend
+interface PoolResponse {
+  poolId: string;
+  name?: string;
+  year: number;
+  status: PoolStatus;
+  members: PoolMemberResponse[];
+  poolSum: number;
+  createdAt: string;
+}
+
+// Dry run result of POST /pools/validate
+interface PoolValidationResponse {
+  isValid: boolean;
+  poolSum: number;
+  members: (PoolMemberResponse & { violatedRule?: string; reason?: string })[];
+  errors?: string[];
+}
+
 export class HttpPoolRepository implements IPoolRepository {
   async getAllPools(): Promise<Pool[]> {
     try {
@@ -24,21 +53,7 @@ export class HttpPoolRepository implements IPoolRepository {
       }
       
       // Map backend response to frontend format
-      return data.map((pool: any) => ({
-        poolId: pool.poolId,
-        name: pool.name || undefined,
-        year: pool.year,
-        members: pool.members.map((member: any) => ({
-          shipId: member.shipId,
-          shipName: `Ship ${member.shipId}`,
-          adjustedCB: member.adjustedCB || member.cbBefore || 0,
-          cbBeforePool: member.cbBefore || member.cbBeforePool || 0,
-          cbAfterPool: member.cbAfter || member.cbAfterPool || 0,
-        })),
-        totalCB: pool.poolSum || 0,
-        isValid: (pool.poolSum || 0) >= 0,
-        createdAt: new Date(pool.createdAt),
-      }));
+      return data.map((pool: PoolResponse) => this.mapPool(pool));
     } catch (error) {
       console.error('Error fetching pools:', error);
       return [];
@@ -46,9 +61,18 @@ export class HttpPoolRepository implements IPoolRepository {
   }
 
   async getPoolById(poolId: string): Promise<Pool | null> {
-    // Backend doesn't have a GET pool by ID endpoint yet
-    // TODO: Add GET /api/pools/:poolId endpoint to backend
-    return null;
+    const response = await fetch(`${API_BASE_URL}/pools/${encodeURIComponent(poolId)}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch pool' }));
+      throw new Error(error.error || 'Failed to fetch pool');
+    }
+
+    return this.mapPool(await response.json());
   }
 
   async createPool(request: PoolCreationRequest): Promise<Pool> {
@@ -75,8 +99,6 @@ export class HttpPoolRepository implements IPoolRepository {
       };
     });
 
-    const totalCB = members.reduce((sum, m) => sum + m.adjustedCB, 0);
-
     // Call backend to create pool
     const response = await fetch(`${API_BASE_URL}/pools`, {
       method: 'POST',
@@ -95,12 +117,12 @@ export class HttpPoolRepository implements IPoolRepository {
       throw new Error(error.error || 'Failed to create pool');
     }
 
-    const backendPool = await response.json();
+    const backendPool: PoolResponse = await response.json();
 
-    // Calculate average CB for distribution
-    const avgCB = totalCB / members.length;
+    // Take each member's CB after pooling from the backend allocation
     members.forEach(m => {
-      m.cbAfterPool = avgCB;
+      const backendMember = backendPool.members.find(bm => bm.shipId === m.shipId);
+      m.cbAfterPool = backendMember ? backendMember.cbAfter : m.cbBeforePool;
     });
 
     // Map backend response to frontend format
@@ -108,6 +130,7 @@ export class HttpPoolRepository implements IPoolRepository {
       poolId: backendPool.poolId,
       name: backendPool.name || request.name,
       year: backendPool.year,
+      status: backendPool.status,
       members,
       totalCB: backendPool.poolSum,
       isValid: backendPool.poolSum >= 0,
@@ -119,21 +142,63 @@ export class HttpPoolRepository implements IPoolRepository {
 
   async validatePool(shipIds: string[], year: number): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/compliance/adjusted-cb?year=${year}`);
-      if (!response.ok) {
-        return false;
-      }
-      const adjustedCBs = await response.json();
-
-      const totalCB = shipIds.reduce((sum, shipId) => {
-        const ship = adjustedCBs.find((cb: any) => cb.shipId === shipId);
-        return sum + (ship?.adjustedCB || 0);
-      }, 0);
-
-      return totalCB >= 0;
+      const preview = await this.previewPool(shipIds, year);
+      return preview.isValid;
     } catch {
       return false;
     }
   }
-}
 
+  async previewPool(shipIds: string[], year: number): Promise<PoolPreview> {
+    // Dry run of pool creation: nothing is saved
+    const response = await fetch(`${API_BASE_URL}/pools/validate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        year,
+        memberShipIds: shipIds,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Failed to validate pool' }));
+      throw new Error(error.error || 'Failed to validate pool');
+    }
+
+    const result: PoolValidationResponse = await response.json();
+
+    return {
+      isValid: result.isValid,
+      totalCB: result.poolSum,
+      members: result.members.map(member => ({
+        shipId: member.shipId,
+        cbBeforePool: member.cbBefore,
+        cbAfterPool: member.cbAfter,
+        violatedRule: member.violatedRule,
+        reason: member.reason,
+      })),
+      errors: result.errors || [],
+    };
+  }
+
+  private mapPool(pool: PoolResponse): Pool {
+    return {
+      poolId: pool.poolId,
+      name: pool.name || undefined,
+      year: pool.year,
+      status: pool.status,
+      members: pool.members.map(member => ({
+        shipId: member.shipId,
+        shipName: `Ship ${member.shipId}`,
+        adjustedCB: member.adjustedCB || member.cbBefore || 0,
+        cbBeforePool: member.cbBefore || member.cbBeforePool || 0,
+        cbAfterPool: member.cbAfter || member.cbAfterPool || 0,
+      })),
+      totalCB: pool.poolSum || 0,
+      isValid: (pool.poolSum || 0) >= 0,
+      createdAt: new Date(pool.createdAt),
+    };
+  }
+}
@@ -81,7 +81,7 @@ export function BankingPage() {
       const ship = await shipComplianceUseCases.getShipCompliance(selectedShipId, year);
       setSelectedShip(ship);
       
-      // Get banked amount
+      // Get surplus banked in earlier years, which can be applied to this year
       const banked = await getBankedAmount(selectedShipId, year);
       setBankedAmount(banked);
     } catch (error) {
@@ -98,7 +98,7 @@ export function BankingPage() {
       const response = await fetch(`/api/banking/banked/${encodeURIComponent(shipId)}/${year}`);
       if (response.ok) {
         const data = await response.json();
-        return data.bankedAmount || 0;
+        return data.availableAmount || 0;
       }
       return 0;
     } catch {
@@ -243,7 +243,8 @@ export function BankingPage() {
   };
 
   const canBank = selectedShip && selectedShip.cbGco2eq > 0;
-  const canApply = bankedAmount > 0;
+  // Banked surplus is only applied to cover a deficit
+  const canApply = bankedAmount > 0 && !!selectedShip && selectedShip.cbGco2eq < 0;
 
   return (
     <div className="space-y-6">
@@ -309,7 +310,7 @@ export function BankingPage() {
             <StatCard
               title="Banked Amount"
               value={formatNumber(bankedAmount)}
-              description="Available to apply"
+              description={`Banked before ${year}`}
               icon={DollarSign}
               className={bankedAmount > 0 ? 'border-blue-500' : ''}
             />
@@ -323,7 +324,7 @@ export function BankingPage() {
             <StatCard
               title="Can Apply"
               value={canApply ? "Yes" : "No"}
-              description={canApply ? "Banked surplus available" : "No banked surplus"}
+              description={canApply ? "Banked surplus available" : bankedAmount > 0 ? "No deficit to cover" : "No banked surplus"}
               icon={TrendingDown}
               className={canApply ? 'border-blue-500' : ''}
             />
@@ -449,7 +450,7 @@ export function BankingPage() {
               Apply Banked Surplus
             </CardTitle>
             <CardDescription>
-              Use banked surplus to cover deficit. The amount will be added to the ship's CB.
+              Use surplus banked in earlier years to cover this year's deficit, oldest first. The amount will be added to the ship's CB.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -491,7 +492,9 @@ export function BankingPage() {
                   <div className="flex items-start gap-2 p-3 bg-blue-50 dark:bg-blue-950/20 rounded-lg border border-blue-200 dark:border-blue-800">
                     <Info className="h-4 w-4 text-blue-600 dark:text-blue-400 mt-0.5" />
                     <p className="text-sm text-blue-800 dark:text-blue-200">
-                      No banked surplus available for this ship. Bank surplus first to use it later.
+                      {bankedAmount > 0
+                        ? `This ship has no deficit in ${year} to cover.`
+                        : `No surplus banked before ${year} for this ship. Bank surplus first to use it in a later year.`}
                     </p>
                   </div>
                 )}
@@ -9,7 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { DataTable } from "../components/DataTable";
 import { StatCard } from "../components/StatCard";
 import { ShipCompliance } from "@/core/domain/models/ShipCompliance";
-import { Pool } from "@/core/domain/models/Pool";
+import { Pool, PoolPreview } from "@/core/domain/models/Pool";
 import { AdjustedComplianceBalance } from "@/core/domain/models/Compliance";
 import { ShipComplianceUseCases } from "@/core/application/usecases/ShipComplianceUseCases";
 import { PoolUseCases } from "@/core/application/usecases/PoolUseCases";
@@ -50,6 +50,7 @@ export function PoolingPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingPools, setIsLoadingPools] = useState(false);
   const [poolName, setPoolName] = useState<string>("");
+  const [preview, setPreview] = useState<PoolPreview | null>(null);
 
   useEffect(() => {
     loadShips();
@@ -91,6 +92,29 @@ export function PoolingPage() {
     }
   };
 
+  // Preview the pool on the backend (dry run) whenever the selection changes
+  useEffect(() => {
+    if (selectedShips.size === 0) {
+      setPreview(null);
+      return;
+    }
+
+    let isCurrent = true;
+    poolUseCases
+      .previewPool(Array.from(selectedShips), year)
+      .then((result) => {
+        if (isCurrent) setPreview(result);
+      })
+      .catch((error) => {
+        console.error("Error previewing pool:", error);
+        if (isCurrent) setPreview(null);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedShips, year]);
+
   const handleModeChange = (mode: PoolingMode) => {
     setPoolingMode(mode);
     if (mode === "fleet" && ships.length > 0) {
@@ -122,20 +146,17 @@ export function PoolingPage() {
 
   const selectedMembers = ships.filter(s => selectedShips.has(s.shipId));
   const totalCB = selectedMembers.reduce((sum, ship) => sum + ship.adjustedCB, 0);
-  const avgCB = selectedMembers.length > 0 ? totalCB / selectedMembers.length : 0;
   const surplusShips = selectedMembers.filter(s => s.adjustedCB >= 0);
   const deficitShips = selectedMembers.filter(s => s.adjustedCB < 0);
   
-  // Validate Article 21 rules:
-  // 1. Deficit ship cannot exit worse (avgCB >= cbBefore for deficit ships)
-  // 2. Surplus ship cannot exit negative (avgCB >= 0 for surplus ships)
-  const violatesArticle21 = selectedMembers.some(ship => {
-    const isDeficit = ship.adjustedCB < 0;
-    const isSurplus = ship.adjustedCB > 0;
-    return (isDeficit && avgCB < ship.adjustedCB) || (isSurplus && avgCB < 0);
-  });
+  // Article 21 rules are checked by the backend dry run:
+  // 1. Deficit ship cannot exit worse (cbAfter >= cbBefore for deficit ships)
+  // 2. Surplus ship cannot exit negative (cbAfter >= 0 for surplus ships)
+  const violatesArticle21 = preview?.members.some(member => member.violatedRule) ?? false;
+  const previewMember = (shipId: string) => preview?.members.find(member => member.shipId === shipId);
+  const deficitsCovered = deficitShips.filter(ship => (previewMember(ship.shipId)?.cbAfterPool ?? ship.adjustedCB) >= 0).length;
   
-  const canCreate = totalCB >= 0 && selectedMembers.length >= 1 && poolName.trim() !== "" && !violatesArticle21;
+  const canCreate = totalCB >= 0 && selectedMembers.length >= 1 && poolName.trim() !== "" && preview?.isValid === true;
 
   const getComplianceStatus = (cb: number): 'surplus' | 'deficit' | 'neutral' => {
     if (cb > 0) return 'surplus';
@@ -288,6 +309,14 @@ export function PoolingPage() {
         </span>
       ),
     },
+    {
+      header: "Lifecycle",
+      accessor: (row: Pool) => (
+        <Badge variant="outline" className="capitalize">
+          {row.status}
+        </Badge>
+      ),
+    },
     {
       header: "Status",
       accessor: (row: Pool) => (
@@ -484,24 +513,32 @@ export function PoolingPage() {
                       <ArrowRight className="h-6 w-6 text-muted-foreground" />
                     </div>
                     <div className="p-4 bg-background rounded-lg border">
-                      <div className="text-sm text-muted-foreground mb-1">After Pooling (per ship)</div>
+                      <div className="text-sm text-muted-foreground mb-1">Deficits Covered</div>
                       <div className="text-2xl font-bold font-mono text-green-600 dark:text-green-400">
-                        {formatNumber(avgCB)} gCO₂e
+                        {deficitsCovered} / {deficitShips.length}
                       </div>
                     </div>
                   </div>
                   <div className="text-sm text-muted-foreground">
-                    Each ship will receive an equal share: {formatNumber(totalCB)} ÷ {selectedMembers.length} = {formatNumber(avgCB)} gCO₂e
+                    The largest surplus holders cover the largest deficits first; surplus ships keep what is left over.
                   </div>
+                  {preview?.errors.map((error) => (
+                    <div key={error} className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+                      <AlertCircle className="h-4 w-4" />
+                      {error}
+                    </div>
+                  ))}
                   
                   {/* Member Before/After Preview */}
                   <div className="mt-4 pt-4 border-t">
                     <h4 className="text-sm font-semibold mb-3">Member Changes Preview:</h4>
                     <div className="space-y-2">
                       {selectedMembers.map((ship) => {
-                        const change = avgCB - ship.adjustedCB;
-                        const isImprovement = change > 0 || (ship.adjustedCB < 0 && avgCB > ship.adjustedCB);
-                        const violatesRule = (ship.adjustedCB < 0 && avgCB < ship.adjustedCB) || (ship.adjustedCB > 0 && avgCB < 0);
+                        const member = previewMember(ship.shipId);
+                        const cbAfter = member?.cbAfterPool ?? ship.adjustedCB;
+                        const change = cbAfter - ship.adjustedCB;
+                        const isImprovement = change > 0;
+                        const violatesRule = Boolean(member?.violatedRule);
                         return (
                           <div 
                             key={ship.shipId} 
@@ -517,8 +554,8 @@ export function PoolingPage() {
                                   {formatNumber(ship.adjustedCB)} gCO₂e
                                 </span>
                                 <ArrowRight className="h-4 w-4 text-muted-foreground" />
-                                <span className={`font-mono text-sm font-semibold ${avgCB >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                                  {formatNumber(avgCB)} gCO₂e
+                                <span className={`font-mono text-sm font-semibold ${cbAfter >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                  {formatNumber(cbAfter)} gCO₂e
                                 </span>
                                 {isImprovement ? (
                                   <TrendingUp className="h-4 w-4 text-green-600 dark:text-green-400" />
@@ -530,9 +567,7 @@ export function PoolingPage() {
                             {violatesRule && (
                               <div className="mt-2 text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
                                 <AlertCircle className="h-3 w-3" />
-                                {ship.adjustedCB < 0 
-                                  ? 'Warning: Deficit ship would exit worse (violates Article 21)'
-                                  : 'Warning: Surplus ship would exit negative (violates Article 21)'}
+                                {member?.reason}
                               </div>
                             )}
                           </div>
@@ -604,6 +639,8 @@ export function PoolingPage() {
                             ? "Total CB must be non-negative" 
                             : violatesArticle21
                             ? "Pool violates Article 21 rules (see preview above)"
+                            : preview && preview.errors.length > 0
+                            ? preview.errors[0]
                             : "Enter pool name"}
                         </span>
                       </div>
@@ -699,15 +736,21 @@ export function PoolingPage() {
                       <ArrowRight className="h-6 w-6 text-muted-foreground" />
                     </div>
                     <div className="p-4 bg-background rounded-lg border">
-                      <div className="text-sm text-muted-foreground mb-1">Per Ship After Pooling</div>
+                      <div className="text-sm text-muted-foreground mb-1">Deficits Covered</div>
                       <div className="text-2xl font-bold font-mono text-green-600 dark:text-green-400">
-                        {formatNumber(avgCB)} gCO₂e
+                        {deficitsCovered} / {deficitShips.length}
                       </div>
                     </div>
                   </div>
                   <div className="text-sm text-muted-foreground">
-                    All {selectedMembers.length} ships will share the fleet total equally: {formatNumber(totalCB)} ÷ {selectedMembers.length} = {formatNumber(avgCB)} gCO₂e per ship
+                    The fleet surplus covers the largest deficits first, from the largest surplus holders.
                   </div>
+                  {preview?.errors.map((error) => (
+                    <div key={error} className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+                      <AlertCircle className="h-4 w-4" />
+                      {error}
+                    </div>
+                  ))}
                   
                   {/* Member Before/After Preview for Fleet */}
                   {selectedMembers.length <= 10 && (
@@ -715,9 +758,11 @@ export function PoolingPage() {
                       <h4 className="text-sm font-semibold mb-3">Member Changes Preview (showing first 10):</h4>
                       <div className="space-y-2 max-h-64 overflow-y-auto">
                         {selectedMembers.slice(0, 10).map((ship) => {
-                          const change = avgCB - ship.adjustedCB;
-                          const isImprovement = change > 0 || (ship.adjustedCB < 0 && avgCB > ship.adjustedCB);
-                          const violatesRule = (ship.adjustedCB < 0 && avgCB < ship.adjustedCB) || (ship.adjustedCB > 0 && avgCB < 0);
+                          const member = previewMember(ship.shipId);
+                          const cbAfter = member?.cbAfterPool ?? ship.adjustedCB;
+                          const change = cbAfter - ship.adjustedCB;
+                          const isImprovement = change > 0;
+                          const violatesRule = Boolean(member?.violatedRule);
                           return (
                             <div 
                               key={ship.shipId} 
@@ -733,8 +778,8 @@ export function PoolingPage() {
                                     {formatNumber(ship.adjustedCB)} gCO₂e
                                   </span>
                                   <ArrowRight className="h-4 w-4 text-muted-foreground" />
-                                  <span className={`font-mono text-sm font-semibold ${avgCB >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                                    {formatNumber(avgCB)} gCO₂e
+                                  <span className={`font-mono text-sm font-semibold ${cbAfter >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                    {formatNumber(cbAfter)} gCO₂e
                                   </span>
                                   {isImprovement ? (
                                     <TrendingUp className="h-4 w-4 text-green-600 dark:text-green-400" />
@@ -746,9 +791,7 @@ export function PoolingPage() {
                               {violatesRule && (
                                 <div className="mt-2 text-xs text-red-600 dark:text-red-400 flex items-center gap-1">
                                   <AlertCircle className="h-3 w-3" />
-                                  {ship.adjustedCB < 0 
-                                    ? 'Warning: Deficit ship would exit worse (violates Article 21)'
-                                    : 'Warning: Surplus ship would exit negative (violates Article 21)'}
+                                  {member?.reason}
                                 </div>
                               )}
                             </div>
@@ -811,6 +854,8 @@ export function PoolingPage() {
                                 ? "Fleet total CB must be non-negative" 
                                 : violatesArticle21
                                 ? "Pool violates Article 21 rules (see preview above)"
+                                : preview && preview.errors.length > 0
+                                ? preview.errors[0]
                                 : "Enter fleet pool name"}
                             </span>
                           </div>
@@ -869,9 +914,14 @@ export function PoolingPage() {
                           <span>
                             {pool.name || `Pool ${pool.poolId}`} - {pool.members.length} Member{pool.members.length !== 1 ? 's' : ''}
                           </span>
-                          <Badge variant={pool.isValid ? 'default' : 'destructive'}>
-                            {pool.isValid ? 'Valid' : 'Invalid'}
-                          </Badge>
+                          <span className="flex items-center gap-2">
+                            <Badge variant="outline" className="capitalize">
+                              {pool.status}
+                            </Badge>
+                            <Badge variant={pool.isValid ? 'default' : 'destructive'}>
+                              {pool.isValid ? 'Valid' : 'Invalid'}
+                            </Badge>
+                          </span>
                         </CardTitle>
                         <CardDescription>
                           Created on {new Date(pool.createdAt).toLocaleDateString()} • 
@@ -118,12 +118,21 @@ export function ShipCompliancePage() {
       return;
     }
 
+    if (!computeRouteId.trim()) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter the route ID the ship sailed",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsComputing(true);
     try {
       const result = await shipComplianceUseCases.computeComplianceBalance({
         shipId: computeShipId.trim(),
         year: computeYear,
-        routeId: computeRouteId.trim() || computeShipId.trim(), // Use shipId as routeId if not provided
+        routeId: computeRouteId.trim(),
       });
       setComputeResult(result);
       toast({
@@ -219,7 +228,7 @@ export function ShipCompliancePage() {
                   <Label htmlFor="search-ship-id">Ship ID</Label>
                   <Input
                     id="search-ship-id"
-                    placeholder="e.g., R001, R002"
+                    placeholder="e.g., SHIP-0001"
                     value={searchShipId}
                     onChange={(e) => setSearchShipId(e.target.value)}
                     onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
@@ -367,7 +376,7 @@ export function ShipCompliancePage() {
                   <Label htmlFor="compute-ship-id">Ship ID *</Label>
                   <Input
                     id="compute-ship-id"
-                    placeholder="e.g., R001, R002"
+                    placeholder="e.g., SHIP-0001"
                     value={computeShipId}
                     onChange={(e) => setComputeShipId(e.target.value)}
                   />
@@ -382,10 +391,10 @@ export function ShipCompliancePage() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="compute-route-id">Route ID (optional)</Label>
+                  <Label htmlFor="compute-route-id">Route ID *</Label>
                   <Input
                     id="compute-route-id"
-                    placeholder="Leave empty to use Ship ID"
+                    placeholder="e.g., R001"
                     value={computeRouteId}
                     onChange={(e) => setComputeRouteId(e.target.value)}
                   />
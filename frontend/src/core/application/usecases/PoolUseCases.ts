@@ -1,5 +1,5 @@
 import { IPoolRepository } from '../../ports/repositories/IPoolRepository';
-import { Pool, PoolCreationRequest } from '../../domain/models/Pool';
+import { Pool, PoolCreationRequest, PoolPreview } from '../../domain/models/Pool';
 import { AdjustedComplianceBalance } from '../../domain/models/Compliance';
 
 export class PoolUseCases {
@@ -12,11 +12,15 @@ export class PoolUseCases {
   async createPool(request: PoolCreationRequest): Promise<Pool> {
     const isValid = await this.poolRepository.validatePool(request.shipIds, request.year);
     if (!isValid) {
-      throw new Error('Pool cannot be created: total adjusted CB must be non-negative');
+      throw new Error('Pool cannot be created: it violates the Article 21 pooling rules');
     }
     return await this.poolRepository.createPool(request);
   }
 
+  async previewPool(shipIds: string[], year: number): Promise<PoolPreview> {
+    return await this.poolRepository.previewPool(shipIds, year);
+  }
+
   canCreatePool(members: AdjustedComplianceBalance[]): boolean {
     const totalCB = members.reduce((sum, member) => sum + member.adjustedCB, 0);
     return totalCB >= 0;
@@ -6,10 +6,13 @@ export interface PoolMember {
   cbAfterPool: number;
 }
 
+export type PoolStatus = 'draft' | 'submitted' | 'verified' | 'cancelled';
+
 export interface Pool {
   poolId: string;
   name: string;
   year: number;
+  status: PoolStatus;
   members: PoolMember[];
   totalCB: number;
   isValid: boolean;
@@ -21,3 +24,18 @@ export interface PoolCreationRequest {
   year: number;
   shipIds: string[];
 }
+
+export interface PoolPreviewMember {
+  shipId: string;
+  cbBeforePool: number;
+  cbAfterPool: number;
+  violatedRule?: string; // Article 21 rule the member's allocation breaks
+  reason?: string;
+}
+
+export interface PoolPreview {
+  isValid: boolean;
+  totalCB: number;
+  members: PoolPreviewMember[];
+  errors: string[];
+}
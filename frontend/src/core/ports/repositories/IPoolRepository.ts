@@ -1,8 +1,9 @@
-import { Pool, PoolCreationRequest } from '../../domain/models/Pool';
+import { Pool, PoolCreationRequest, PoolPreview } from '../../domain/models/Pool';
 
 export interface IPoolRepository {
   getAllPools(): Promise<Pool[]>;
   getPoolById(poolId: string): Promise<Pool | null>;
   createPool(request: PoolCreationRequest): Promise<Pool>;
   validatePool(shipIds: string[], year: number): Promise<boolean>;
+  previewPool(shipIds: string[], year: number): Promise<PoolPreview>;
 }